@@ -0,0 +1,41 @@
+import Link from 'next/link';
+import AdminPanel, { AdminHeading } from '@/components/admin/AdminPanel';
+import AuditList from '@/components/admin/AuditList';
+import { AUDIT_ENTITY_TYPES, listAuditLog, type AuditEntityType } from '@/lib/audit';
+import { requirePermission } from '@/lib/auth';
+import { cn } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+type AuditPageProps = {
+  searchParams: Promise<{ type?: string; id?: string }>;
+};
+
+export default async function AuditPage({ searchParams }: AuditPageProps) {
+  await requirePermission('audit:view');
+  const { type, id } = await searchParams;
+  const entityType = AUDIT_ENTITY_TYPES.find((entry) => entry === type) as AuditEntityType | undefined;
+
+  return (
+    <>
+      <AdminHeading title="Audit log" />
+      <div className="mb-4 flex flex-wrap gap-2 text-sm">
+        {[undefined, ...AUDIT_ENTITY_TYPES].map((option) => (
+          <Link
+            key={option ?? 'all'}
+            href={option ? `/admin/audit?type=${option}` : '/admin/audit'}
+            className={cn(
+              'rounded-full border px-3 py-1 capitalize',
+              option === entityType ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200 text-slate-600'
+            )}
+          >
+            {option ?? 'All'}
+          </Link>
+        ))}
+      </div>
+      <AdminPanel>
+        <AuditList entries={listAuditLog({ entityType, entityId: entityType ? id : undefined, limit: 500 })} />
+      </AdminPanel>
+    </>
+  );
+}
@@ -0,0 +1,110 @@
+import { notFound } from 'next/navigation';
+import AdminPanel, { AdminHeading } from '@/components/admin/AdminPanel';
+import AuditList from '@/components/admin/AuditList';
+import { ChatReviewBadge } from '@/components/admin/ChatFlagList';
+import ChatReviewButton from '@/components/admin/ChatReviewButton';
+import { listAuditLog } from '@/lib/audit';
+import { can, requirePermission } from '@/lib/auth';
+import { getChatSessions } from '@/lib/chat/sessions';
+import { listToolCalls } from '@/lib/chat/tools';
+import { getFlaggedConversation, MODERATION_CATEGORY_LABELS } from '@/lib/moderation';
+import { formatInstant } from '@/lib/time';
+import { cn } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+type AdminChatProps = {
+  params: Promise<{ sessionId: string }>;
+};
+
+export default async function AdminChat({ params }: AdminChatProps) {
+  const user = await requirePermission('chats:review');
+  const { sessionId } = await params;
+  const conversation = getFlaggedConversation(sessionId);
+  if (!conversation) notFound();
+
+  const session = getChatSessions().get(sessionId, new Date());
+  const flagged = new Set(conversation.flags.map((flag) => flag.message));
+  const toolCalls = listToolCalls(sessionId);
+
+  return (
+    <>
+      <AdminHeading title={conversation.studentEmail ?? 'Anonymous student'}>
+        <div className="flex items-center gap-3">
+          <ChatReviewBadge conversation={conversation} />
+          {!conversation.reviewedAt && <ChatReviewButton sessionId={sessionId} />}
+        </div>
+      </AdminHeading>
+
+      <AdminPanel title="Flagged messages">
+        <ul className="divide-y divide-slate-100">
+          {conversation.flags.map((flag) => (
+            <li key={flag.id} className="py-3 text-sm">
+              <div className="flex flex-wrap justify-between gap-2 text-slate-500">
+                <span>
+                  <span className="font-semibold text-slate-800">{MODERATION_CATEGORY_LABELS[flag.category]}</span> ·{' '}
+                  {flag.reasons.join(', ')} ({flag.classifier})
+                </span>
+                <time dateTime={flag.createdAt}>{formatInstant(new Date(flag.createdAt))}</time>
+              </div>
+              <p className="mt-1 whitespace-pre-line text-slate-800">{flag.message}</p>
+            </li>
+          ))}
+        </ul>
+        {conversation.reviewedAt && (
+          <p className="mt-4 text-sm text-slate-500">
+            Reviewed by {conversation.reviewedBy} on {formatInstant(new Date(conversation.reviewedAt))}
+          </p>
+        )}
+      </AdminPanel>
+
+      <AdminPanel
+        title="Conversation"
+        description={session ? undefined : 'The rest of this conversation has expired.'}
+        className="mt-8"
+      >
+        {session && (
+          <ul className="space-y-3 text-sm">
+            {session.messages.map((message, index) => (
+              <li
+                key={index}
+                className={cn(
+                  'whitespace-pre-line rounded-2xl px-4 py-2',
+                  message.role === 'user' ? 'bg-slate-100 text-slate-800' : 'bg-sky-50 text-slate-700',
+                  message.role === 'user' && flagged.has(message.content) && 'ring-2 ring-amber-300'
+                )}
+              >
+                <span className="mr-2 text-xs font-semibold uppercase text-slate-400">
+                  {message.role === 'user' ? 'Student' : 'Assistant'}
+                </span>
+                {message.content}
+              </li>
+            ))}
+          </ul>
+        )}
+      </AdminPanel>
+
+      {toolCalls.length > 0 && (
+        <AdminPanel title="Tool calls" className="mt-8">
+          <ul className="divide-y divide-slate-100 text-sm">
+            {toolCalls.map((call) => (
+              <li key={call.id} className="flex flex-wrap justify-between gap-2 py-2">
+                <span className="font-mono text-slate-700">{call.tool}</span>
+                <span className="text-slate-500">
+                  {call.outcome}
+                  {call.error && ` · ${call.error}`} · {formatInstant(new Date(call.createdAt))}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </AdminPanel>
+      )}
+
+      {can(user, 'audit:view') && (
+        <AdminPanel title="History" className="mt-8">
+          <AuditList entries={listAuditLog({ entityType: 'chat', entityId: sessionId })} />
+        </AdminPanel>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,47 @@
+import Link from 'next/link';
+import AdminPanel, { AdminHeading } from '@/components/admin/AdminPanel';
+import ChatFlagList from '@/components/admin/ChatFlagList';
+import { requirePermission } from '@/lib/auth';
+import { listFlaggedConversations } from '@/lib/moderation';
+import { cn } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+const FILTERS = [
+  { value: 'open', label: 'Needs review', reviewed: false },
+  { value: 'reviewed', label: 'Reviewed', reviewed: true },
+  { value: 'all', label: 'All', reviewed: undefined },
+] as const;
+
+type AdminChatsProps = {
+  searchParams: Promise<{ show?: string }>;
+};
+
+export default async function AdminChats({ searchParams }: AdminChatsProps) {
+  await requirePermission('chats:review');
+  const { show } = await searchParams;
+  const filter = FILTERS.find((entry) => entry.value === show) ?? FILTERS[0];
+
+  return (
+    <>
+      <AdminHeading title="Flagged chats" />
+      <div className="mb-4 flex flex-wrap gap-2 text-sm">
+        {FILTERS.map((option) => (
+          <Link
+            key={option.value}
+            href={`/admin/chats?show=${option.value}`}
+            className={cn(
+              'rounded-full border px-3 py-1',
+              option === filter ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200 text-slate-600'
+            )}
+          >
+            {option.label}
+          </Link>
+        ))}
+      </div>
+      <AdminPanel description="Booking assistant conversations with messages the moderation checks stopped: attempts to change the assistant’s instructions, abusive language, and requests to have work done for the student.">
+        <ChatFlagList conversations={listFlaggedConversations({ reviewed: filter.reviewed })} />
+      </AdminPanel>
+    </>
+  );
+}
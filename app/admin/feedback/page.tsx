@@ -0,0 +1,74 @@
+import Link from 'next/link';
+import AdminPanel, { AdminHeading } from '@/components/admin/AdminPanel';
+import FeedbackSummaryTable from '@/components/admin/FeedbackSummaryTable';
+import { requirePermission } from '@/lib/auth';
+import { listFeedback, summarizeByCourse, summarizeByTutor } from '@/lib/feedback/repository';
+import { getScheduleTerm, getTerms } from '@/lib/terms';
+import { formatDate, formatInstant, parseSqlTimestamp } from '@/lib/time';
+import { cn } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+type AdminFeedbackProps = {
+  searchParams: Promise<{ term?: string }>;
+};
+
+export default async function AdminFeedback({ searchParams }: AdminFeedbackProps) {
+  await requirePermission('feedback:view');
+  const { term = getScheduleTerm().id } = await searchParams;
+  const termId = term || undefined;
+  const comments = listFeedback({ termId }).filter((feedback) => feedback.comments || feedback.workedOn);
+
+  return (
+    <>
+      <AdminHeading title="Feedback" />
+      <div className="mb-4 flex flex-wrap gap-2 text-sm">
+        {[...getTerms().map((entry) => ({ id: entry.id, label: entry.label })), { id: '', label: 'All terms' }].map(
+          (option) => (
+            <Link
+              key={option.id || 'all'}
+              href={`/admin/feedback?term=${option.id}`}
+              className={cn(
+                'rounded-full border px-3 py-1',
+                option.id === term ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200 text-slate-600'
+              )}
+            >
+              {option.label}
+            </Link>
+          )
+        )}
+      </div>
+      <AdminPanel title="By tutor">
+        <FeedbackSummaryTable heading="Tutor" summaries={summarizeByTutor(termId)} />
+      </AdminPanel>
+      <AdminPanel title="By course" className="mt-8">
+        <FeedbackSummaryTable heading="Course" summaries={summarizeByCourse(termId)} />
+      </AdminPanel>
+      <AdminPanel title="Recent comments" description="The newest 100 responses with something written in." className="mt-8">
+        {comments.length === 0 ? (
+          <p className="text-sm text-slate-400">No comments yet.</p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {comments.map((feedback) => (
+              <li key={feedback.id} className="py-3 text-sm">
+                <div className="flex flex-wrap justify-between gap-2">
+                  <span className="text-slate-800">
+                    <span className="font-semibold">{feedback.rating}/5</span> for {feedback.tutorName}
+                    {feedback.course && ` · CS ${feedback.course}`} · {feedback.studentName ?? 'Anonymous'}
+                  </span>
+                  <time className="text-slate-400">
+                    {feedback.createdAt
+                      ? formatInstant(parseSqlTimestamp(feedback.createdAt))
+                      : formatDate(feedback.submittedOn)}
+                  </time>
+                </div>
+                {feedback.workedOn && <p className="mt-1 text-slate-500">Worked on: {feedback.workedOn}</p>}
+                {feedback.comments && <p className="mt-1 whitespace-pre-line text-slate-700">“{feedback.comments}”</p>}
+              </li>
+            ))}
+          </ul>
+        )}
+      </AdminPanel>
+    </>
+  );
+}
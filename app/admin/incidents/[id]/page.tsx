@@ -0,0 +1,58 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import AdminPanel, { AdminHeading } from '@/components/admin/AdminPanel';
+import AuditList from '@/components/admin/AuditList';
+import IncidentControls from '@/components/admin/IncidentControls';
+import { IncidentStatusBadge } from '@/components/admin/IncidentList';
+import RestrictionBadge from '@/components/admin/RestrictionBadge';
+import { listAuditLog } from '@/lib/audit';
+import { can, requirePermission } from '@/lib/auth';
+import { getIncident, listIncidentNotes } from '@/lib/incidents/repository';
+import { INCIDENT_CATEGORY_LABELS } from '@/lib/incidents/types';
+import { formatDate, formatInstant, formatTimeRange, parseSqlTimestamp } from '@/lib/time';
+
+export const dynamic = 'force-dynamic';
+
+type AdminIncidentProps = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function AdminIncident({ params }: AdminIncidentProps) {
+  const user = await requirePermission('incidents:manage');
+  const incident = getIncident(Number((await params).id));
+  if (!incident) notFound();
+  const { appointment, student } = incident;
+
+  return (
+    <>
+      <AdminHeading title={`Incident #${incident.id}`}>
+        <IncidentStatusBadge incident={incident} />
+      </AdminHeading>
+      <AdminPanel title={INCIDENT_CATEGORY_LABELS[incident.category]}>
+        <p className="text-sm text-slate-600">
+          <Link href={`/admin/students/${student.id}`} className="font-medium text-sky-700 hover:underline">
+            {student.name}
+          </Link>{' '}
+          ({student.email}) · {formatDate(appointment.date)}, {formatTimeRange(appointment.start, appointment.end)} with{' '}
+          {appointment.tutorName}
+        </p>
+        <p className="mt-1 text-sm text-slate-500">
+          Reported by {incident.reportedBy} on {formatInstant(parseSqlTimestamp(incident.createdAt))}
+        </p>
+        <p className="mt-4 whitespace-pre-line text-sm text-slate-800">{incident.description}</p>
+        {incident.restriction && (
+          <p className="mt-4 flex items-center gap-2 text-sm text-slate-600">
+            <RestrictionBadge restriction={incident.restriction.liftedAt ? undefined : incident.restriction} />
+            {incident.restriction.liftedAt && `The ${incident.restriction.kind} was lifted.`}
+          </p>
+        )}
+      </AdminPanel>
+      <IncidentControls incident={incident} notes={listIncidentNotes(incident.id)} />
+      {can(user, 'audit:view') && (
+        <AdminPanel title="History" className="mt-8">
+          <AuditList entries={listAuditLog({ entityType: 'incident', entityId: String(incident.id) })} />
+        </AdminPanel>
+      )}
+    </>
+  );
+}
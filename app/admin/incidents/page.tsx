@@ -0,0 +1,42 @@
+import Link from 'next/link';
+import AdminPanel, { AdminHeading } from '@/components/admin/AdminPanel';
+import IncidentList from '@/components/admin/IncidentList';
+import { requirePermission } from '@/lib/auth';
+import { listIncidents } from '@/lib/incidents/repository';
+import { INCIDENT_STATUSES, type IncidentStatus } from '@/lib/incidents/types';
+import { cn } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+type AdminIncidentsProps = {
+  searchParams: Promise<{ status?: string }>;
+};
+
+export default async function AdminIncidents({ searchParams }: AdminIncidentsProps) {
+  await requirePermission('incidents:manage');
+  const { status } = await searchParams;
+  const selected = INCIDENT_STATUSES.find((entry) => entry === status) as IncidentStatus | undefined;
+
+  return (
+    <>
+      <AdminHeading title="Incidents" />
+      <div className="mb-4 flex flex-wrap gap-2 text-sm">
+        {[undefined, ...INCIDENT_STATUSES].map((option) => (
+          <Link
+            key={option ?? 'all'}
+            href={option ? `/admin/incidents?status=${option}` : '/admin/incidents'}
+            className={cn(
+              'rounded-full border px-3 py-1 capitalize',
+              option === selected ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200 text-slate-600'
+            )}
+          >
+            {option ?? 'All'}
+          </Link>
+        ))}
+      </div>
+      <AdminPanel>
+        <IncidentList incidents={listIncidents({ status: selected })} />
+      </AdminPanel>
+    </>
+  );
+}
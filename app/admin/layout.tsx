@@ -0,0 +1,20 @@
+import type { Metadata } from 'next';
+import { notFound, redirect } from 'next/navigation';
+import AdminShell from '@/components/admin/AdminShell';
+import { canAccessAdmin, getCurrentUser } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Admin - CCSF Tutoring',
+  robots: { index: false },
+};
+
+// Each page also checks its own permission; this keeps anyone without admin access out of the shell.
+export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  const user = await getCurrentUser();
+  if (!user) redirect('/tutor/login');
+  if (!canAccessAdmin(user)) notFound();
+
+  return <AdminShell user={user}>{children}</AdminShell>;
+}
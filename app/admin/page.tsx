@@ -0,0 +1,57 @@
+import Link from 'next/link';
+import AdminPanel, { AdminHeading } from '@/components/admin/AdminPanel';
+import AuditList from '@/components/admin/AuditList';
+import { listAuditLog } from '@/lib/audit';
+import { requirePermission } from '@/lib/auth';
+import { listIncidents } from '@/lib/incidents/repository';
+import { isClosed } from '@/lib/incidents/types';
+import { listResources } from '@/lib/resources/repository';
+import { listStudents } from '@/lib/students/repository';
+import { getScheduleTerm } from '@/lib/terms';
+import { listTutorRecords } from '@/lib/tutors/repository';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminOverview() {
+  await requirePermission('audit:view');
+  const term = getScheduleTerm();
+  const tutors = listTutorRecords(term.id);
+  const restricted = listStudents().filter((student) => student.restriction);
+  const resources = listResources();
+  const toReview = resources.filter((resource) => resource.status === 'pending').length;
+  const openIncidents = listIncidents().filter((incident) => !isClosed(incident)).length;
+  const broken = resources.filter((resource) => resource.status === 'published' && resource.link?.status === 'broken').length;
+
+  const stats = [
+    { label: 'Active tutors', value: tutors.filter((tutor) => tutor.active).length, href: '/admin/tutors' },
+    { label: 'Current term', value: term.label, href: `/admin/terms/${term.id}` },
+    { label: 'Restricted students', value: restricted.length, href: '/admin/students' },
+    { label: 'Open incidents', value: openIncidents, href: '/admin/incidents' },
+    { label: 'Resource suggestions', value: toReview, href: '/admin/resources' },
+    ...(broken > 0 ? [{ label: 'Broken resource links', value: broken, href: '/admin/resources' }] : []),
+  ];
+
+  return (
+    <>
+      <AdminHeading title="Overview" />
+      <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+        {stats.map((stat) => (
+          <Link
+            key={stat.label}
+            href={stat.href}
+            className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm shadow-slate-100 transition hover:shadow-md"
+          >
+            <p className="text-sm text-slate-500">{stat.label}</p>
+            <p className="mt-2 text-2xl font-semibold text-slate-900">{stat.value}</p>
+          </Link>
+        ))}
+      </div>
+      <AdminPanel title="Recent changes" className="mt-8">
+        <AuditList entries={listAuditLog({ limit: 10 })} />
+        <Link href="/admin/audit" className="mt-4 inline-block text-sm font-medium text-sky-700 hover:underline">
+          Full audit log →
+        </Link>
+      </AdminPanel>
+    </>
+  );
+}
@@ -0,0 +1,79 @@
+import Link from 'next/link';
+import AdminPanel, { AdminHeading } from '@/components/admin/AdminPanel';
+import UsageChart, { UsageLegend } from '@/components/admin/UsageChart';
+import { Button } from '@/components/ui/button';
+import { usageReport } from '@/lib/analytics';
+import { USAGE_DIMENSIONS, USAGE_DIMENSION_LABELS } from '@/lib/analytics/types';
+import { requirePermission } from '@/lib/auth';
+import { getScheduleTerm, getTerm, getTerms } from '@/lib/terms';
+import { cn } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+type AdminReportsProps = {
+  searchParams: Promise<{ term?: string }>;
+};
+
+export default async function AdminReports({ searchParams }: AdminReportsProps) {
+  await requirePermission('reports:view');
+  const { term: termId } = await searchParams;
+  const term = (termId && getTerm(termId)) || getScheduleTerm();
+  const report = usageReport(term);
+  const { totals } = report;
+
+  const stats = [
+    { label: 'Appointments booked', value: totals.booked },
+    { label: 'Completed', value: totals.completed },
+    {
+      label: 'No-show rate',
+      value: totals.noShowRate === null ? '—' : `${(totals.noShowRate * 100).toFixed(1)}%`,
+    },
+    { label: 'Students', value: totals.students },
+    { label: 'Cancelled', value: totals.cancelled },
+    { label: 'Drop-in visits', value: totals.dropInVisits },
+  ];
+
+  return (
+    <>
+      <AdminHeading title="Reports">
+        <div className="flex gap-2">
+          {(['csv', 'xlsx'] as const).map((format) => (
+            <Button key={format} asChild variant="outline" className="rounded-full px-5">
+              <a href={`/api/admin/reports?term=${term.id}&format=${format}`}>Download {format.toUpperCase()}</a>
+            </Button>
+          ))}
+        </div>
+      </AdminHeading>
+      <div className="mb-6 flex flex-wrap gap-2 text-sm">
+        {getTerms().map((option) => (
+          <Link
+            key={option.id}
+            href={`/admin/reports?term=${option.id}`}
+            className={cn(
+              'rounded-full border px-3 py-1',
+              option.id === term.id ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200 text-slate-600'
+            )}
+          >
+            {option.label}
+          </Link>
+        ))}
+      </div>
+      <div className="grid gap-4 sm:grid-cols-3">
+        {stats.map((stat) => (
+          <div key={stat.label} className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm shadow-slate-100">
+            <p className="text-sm text-slate-500">{stat.label}</p>
+            <p className="mt-2 text-2xl font-semibold text-slate-900">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+      <div className="mt-8">
+        <UsageLegend />
+      </div>
+      {USAGE_DIMENSIONS.map((dimension) => (
+        <AdminPanel key={dimension} title={`By ${USAGE_DIMENSION_LABELS[dimension].toLowerCase()}`} className="mt-4">
+          <UsageChart rows={report.breakdowns[dimension]} />
+        </AdminPanel>
+      ))}
+    </>
+  );
+}
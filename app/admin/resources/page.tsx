@@ -0,0 +1,16 @@
+import { AdminHeading } from '@/components/admin/AdminPanel';
+import ResourceManager from '@/components/admin/ResourceManager';
+import { requirePermission } from '@/lib/auth';
+import { listResources } from '@/lib/resources/repository';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminResources() {
+  await requirePermission('resources:manage');
+  return (
+    <>
+      <AdminHeading title="Resources" />
+      <ResourceManager resources={listResources()} />
+    </>
+  );
+}
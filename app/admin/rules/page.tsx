@@ -0,0 +1,22 @@
+import { AdminHeading } from '@/components/admin/AdminPanel';
+import RuleManager from '@/components/admin/RuleManager';
+import { requirePermission } from '@/lib/auth';
+import { listRulesBySection } from '@/lib/rules/repository';
+import { hasUnpublishedChanges, listRuleVersions } from '@/lib/rules/versions';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminRules() {
+  await requirePermission('rules:manage');
+  return (
+    <>
+      <AdminHeading title="Rules">
+        <p className="text-sm text-slate-500">
+          Use <code>**bold**</code> and <code>[link text](https://…)</code> for formatting. The rule ID is its link on
+          the Rules page.
+        </p>
+      </AdminHeading>
+      <RuleManager rules={listRulesBySection()} versions={listRuleVersions()} unpublished={hasUnpublishedChanges()} />
+    </>
+  );
+}
@@ -0,0 +1,82 @@
+import { notFound } from 'next/navigation';
+import AdminPanel, { AdminHeading } from '@/components/admin/AdminPanel';
+import AuditList from '@/components/admin/AuditList';
+import IncidentList from '@/components/admin/IncidentList';
+import RestrictionBadge from '@/components/admin/RestrictionBadge';
+import RestrictionControls from '@/components/admin/RestrictionControls';
+import { listAuditLog } from '@/lib/audit';
+import { can, requirePermission } from '@/lib/auth';
+import { listRecordingConsents } from '@/lib/consents/repository';
+import { listIncidents } from '@/lib/incidents/repository';
+import { getStudent } from '@/lib/students/repository';
+import { getTerm } from '@/lib/terms';
+import { formatInstant } from '@/lib/time';
+
+export const dynamic = 'force-dynamic';
+
+type AdminStudentProps = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function AdminStudent({ params }: AdminStudentProps) {
+  const user = await requirePermission('students:restrict');
+  const student = getStudent(Number((await params).id));
+  if (!student) notFound();
+  const consents = listRecordingConsents({ email: student.email });
+  const consentTerms = consents
+    .map((consent) => `${getTerm(consent.termId)?.label ?? consent.termId} (${formatInstant(new Date(consent.consentedAt))})`)
+    .join(', ');
+
+  return (
+    <>
+      <AdminHeading title={student.name}>
+        <RestrictionBadge restriction={student.restriction} />
+      </AdminHeading>
+      <AdminPanel>
+        <p className="text-sm text-slate-600">
+          <a href={`mailto:${student.email}`} className="text-sky-700 hover:underline">
+            {student.email}
+          </a>{' '}
+          · {student.appointments} appointments · {student.noShows} no-shows ·{' '}
+          {student.rulesVersion ? `agreed to rules v${student.rulesVersion}` : 'hasn’t agreed to the rules yet'}
+        </p>
+        {student.restriction && (
+          <p className="mt-2 text-sm text-slate-600">
+            {student.restriction.kind === 'ban' ? 'Banned' : 'Suspended'} by {student.restriction.createdBy}:{' '}
+            {student.restriction.reason}
+          </p>
+        )}
+        <p className="mt-2 text-sm text-slate-600">
+          {consents.length === 0
+            ? 'Hasn’t agreed to session recording yet.'
+            : `Agreed to recording for ${consentTerms}.`}{' '}
+          {consents.length > 0 && can(user, 'consents:export') && (
+            <a
+              href={`/api/admin/consents?email=${encodeURIComponent(student.email)}`}
+              className="font-medium text-sky-700 hover:underline"
+            >
+              Download
+            </a>
+          )}
+        </p>
+      </AdminPanel>
+      <AdminPanel
+        title={student.restriction ? 'Change restriction' : 'Restrict booking'}
+        description="Banned or suspended students can’t book appointments, through the site or the assistant."
+        className="mt-8"
+      >
+        <RestrictionControls studentId={student.id} active={student.restriction} />
+      </AdminPanel>
+      {can(user, 'incidents:manage') && (
+        <AdminPanel title="Incident reports" className="mt-8">
+          <IncidentList incidents={listIncidents({ studentId: student.id })} />
+        </AdminPanel>
+      )}
+      {can(user, 'audit:view') && (
+        <AdminPanel title="History" className="mt-8">
+          <AuditList entries={listAuditLog({ entityType: 'student', entityId: String(student.id) })} />
+        </AdminPanel>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,86 @@
+import Link from 'next/link';
+import AdminPanel, { AdminHeading, FIELD_CLASS } from '@/components/admin/AdminPanel';
+import RestrictionBadge from '@/components/admin/RestrictionBadge';
+import { Button } from '@/components/ui/button';
+import { can, requirePermission } from '@/lib/auth';
+import { listStudents } from '@/lib/students/repository';
+import { getScheduleTerm, getTerms } from '@/lib/terms';
+import { cn } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+type AdminStudentsProps = {
+  searchParams: Promise<{ q?: string }>;
+};
+
+export default async function AdminStudents({ searchParams }: AdminStudentsProps) {
+  const user = await requirePermission('students:restrict');
+  const { q = '' } = await searchParams;
+  const students = listStudents(q);
+
+  return (
+    <>
+      <AdminHeading title="Students" />
+      <form className="mb-6">
+        <input
+          type="search"
+          name="q"
+          defaultValue={q}
+          placeholder="Search by name or email…"
+          aria-label="Search students"
+          className={FIELD_CLASS}
+        />
+      </form>
+      <AdminPanel>
+        {students.length === 0 ? (
+          <p className="text-sm text-slate-400">No students found.</p>
+        ) : (
+          <ul className="divide-y divide-slate-100">
+            {students.map((student) => (
+              <li key={student.id}>
+                <Link href={`/admin/students/${student.id}`} className="flex flex-wrap items-center justify-between gap-2 py-3">
+                  <span>
+                    <span className="font-medium text-slate-900">{student.name}</span>
+                    <span className="ml-2 text-sm text-slate-500">{student.email}</span>
+                  </span>
+                  <span className="flex items-center gap-3 text-sm text-slate-500">
+                    {student.appointments} booked · {student.noShows} no-shows
+                    <RestrictionBadge restriction={student.restriction} />
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </AdminPanel>
+      {can(user, 'consents:export') && (
+        <AdminPanel
+          title="Recording consents"
+          description="Download who agreed to recording and when, for example to request recordings for an incident report."
+          className="mt-8"
+        >
+          <form action="/api/admin/consents" className="flex flex-wrap gap-3">
+            <select name="term" defaultValue={getScheduleTerm().id} aria-label="Term" className={cn(FIELD_CLASS, 'w-auto')}>
+              <option value="">All terms</option>
+              {getTerms().map((term) => (
+                <option key={term.id} value={term.id}>
+                  {term.label}
+                </option>
+              ))}
+            </select>
+            <input
+              type="email"
+              name="email"
+              placeholder="Student email (optional)"
+              aria-label="Student email"
+              className={cn(FIELD_CLASS, 'min-w-0 flex-1')}
+            />
+            <Button type="submit" className="rounded-full bg-slate-900 px-5 text-white hover:bg-slate-700">
+              Download CSV
+            </Button>
+          </form>
+        </AdminPanel>
+      )}
+    </>
+  );
+}
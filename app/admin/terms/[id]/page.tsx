@@ -0,0 +1,46 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import AdminPanel, { AdminHeading } from '@/components/admin/AdminPanel';
+import TermEditor from '@/components/admin/TermEditor';
+import { requirePermission } from '@/lib/auth';
+import { getTerm, getTerms } from '@/lib/terms';
+
+export const dynamic = 'force-dynamic';
+
+type AdminTermProps = {
+  params: Promise<{ id: string }>;
+};
+
+export default async function AdminTerm({ params }: AdminTermProps) {
+  await requirePermission('terms:manage');
+  const { id } = await params;
+
+  // A new term starts as a copy of the latest one, minus what has to change every semester.
+  if (id === 'new') {
+    const latest = getTerms().at(-1);
+    return (
+      <>
+        <AdminHeading title="New term" />
+        <AdminPanel description="Set an id like spring-2027, the dates and the Zoom details, then adjust the rest.">
+          <TermEditor initial={{ ...latest, id: '', label: '', startDate: '', endDate: '' }} />
+        </AdminPanel>
+      </>
+    );
+  }
+
+  const term = getTerm(id);
+  if (!term) notFound();
+
+  return (
+    <>
+      <AdminHeading title={term.label}>
+        <Link href={`/admin/audit?type=term&id=${term.id}`} className="text-sm font-medium text-sky-700 hover:underline">
+          History →
+        </Link>
+      </AdminHeading>
+      <AdminPanel>
+        <TermEditor termId={term.id} initial={term} />
+      </AdminPanel>
+    </>
+  );
+}
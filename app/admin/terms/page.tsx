@@ -0,0 +1,45 @@
+import Link from 'next/link';
+import AdminPanel, { AdminHeading } from '@/components/admin/AdminPanel';
+import { Button } from '@/components/ui/button';
+import { requirePermission } from '@/lib/auth';
+import { getTermStatus, getTerms } from '@/lib/terms';
+import { formatDate } from '@/lib/time';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminTerms() {
+  await requirePermission('terms:manage');
+  const status = getTermStatus();
+  const activeId = status.status === 'active' ? status.term.id : undefined;
+
+  return (
+    <>
+      <AdminHeading title="Terms">
+        <Button asChild className="rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+          <Link href="/admin/terms/new">New term</Link>
+        </Button>
+      </AdminHeading>
+      <AdminPanel description="Each term is a file in config/terms. Saving here rewrites the file after validating it.">
+        <ul className="divide-y divide-slate-100">
+          {getTerms().map((term) => (
+            <li key={term.id}>
+              <Link href={`/admin/terms/${term.id}`} className="flex flex-wrap justify-between gap-2 py-3">
+                <span className="font-medium text-slate-900">
+                  {term.label}
+                  {term.id === activeId && (
+                    <span className="ml-2 rounded-full bg-emerald-50 px-3 py-1 text-xs font-semibold text-emerald-700">
+                      In session
+                    </span>
+                  )}
+                </span>
+                <span className="text-sm text-slate-500">
+                  {formatDate(term.startDate)}, {term.startDate.slice(0, 4)} – {formatDate(term.endDate)}, {term.endDate.slice(0, 4)}
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </AdminPanel>
+    </>
+  );
+}
@@ -0,0 +1,58 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import AdminPanel, { AdminHeading } from '@/components/admin/AdminPanel';
+import TutorForm from '@/components/admin/TutorForm';
+import AvailabilityEditor from '@/components/tutor/AvailabilityEditor';
+import { requirePermission } from '@/lib/auth';
+import { getScheduleTerm, getTerm, getTerms } from '@/lib/terms';
+import { getTutorRecord } from '@/lib/tutors/repository';
+import { cn } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+type AdminTutorProps = {
+  params: Promise<{ id: string }>;
+  searchParams: Promise<{ term?: string }>;
+};
+
+export default async function AdminTutor({ params, searchParams }: AdminTutorProps) {
+  await requirePermission('tutors:manage');
+  const { id } = await params;
+  const { term: termId } = await searchParams;
+  const term = (termId && getTerm(termId)) || getScheduleTerm();
+  const tutor = getTutorRecord(id, term.id);
+  if (!tutor) notFound();
+
+  return (
+    <>
+      <AdminHeading title={tutor.name}>
+        <Link href={`/admin/audit?type=tutor&id=${tutor.id}`} className="text-sm font-medium text-sky-700 hover:underline">
+          History →
+        </Link>
+      </AdminHeading>
+      <AdminPanel title="Profile">
+        <TutorForm tutor={tutor} />
+      </AdminPanel>
+      <div className="mt-8 mb-3 flex flex-wrap gap-2 text-sm">
+        {getTerms().map((option) => (
+          <Link
+            key={option.id}
+            href={`/admin/tutors/${tutor.id}?term=${option.id}`}
+            className={cn(
+              'rounded-full border px-3 py-1',
+              option.id === term.id ? 'border-slate-900 bg-slate-900 text-white' : 'border-slate-200 text-slate-600'
+            )}
+          >
+            {option.label}
+          </Link>
+        ))}
+      </div>
+      <AvailabilityEditor
+        key={term.id}
+        term={term}
+        shifts={tutor.availability}
+        url={`/api/admin/tutors/${tutor.id}/shifts`}
+      />
+    </>
+  );
+}
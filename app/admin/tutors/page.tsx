@@ -0,0 +1,47 @@
+import Link from 'next/link';
+import AdminPanel, { AdminHeading } from '@/components/admin/AdminPanel';
+import TutorForm from '@/components/admin/TutorForm';
+import { requirePermission } from '@/lib/auth';
+import { listTutorRecords } from '@/lib/tutors/repository';
+import { cn } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminTutors() {
+  await requirePermission('tutors:manage');
+  const tutors = listTutorRecords();
+
+  return (
+    <>
+      <AdminHeading title="Tutors" />
+      <AdminPanel>
+        <ul className="divide-y divide-slate-100">
+          {tutors.map((tutor) => (
+            <li key={tutor.id}>
+              <Link href={`/admin/tutors/${tutor.id}`} className="flex flex-wrap items-center justify-between gap-2 py-3">
+                <span>
+                  <span className="font-medium text-slate-900">{tutor.name}</span>
+                  <span className="ml-2 text-sm text-slate-500">{tutor.languages.join(', ')}</span>
+                </span>
+                <span className="flex items-center gap-3 text-sm text-slate-500">
+                  {tutor.email ?? 'No login'}
+                  <span
+                    className={cn(
+                      'rounded-full px-3 py-1 text-xs font-semibold',
+                      tutor.active ? 'bg-emerald-50 text-emerald-700' : 'bg-slate-100 text-slate-600'
+                    )}
+                  >
+                    {tutor.active ? 'Active' : 'Inactive'}
+                  </span>
+                </span>
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </AdminPanel>
+      <AdminPanel title="Add a tutor" description="Shifts can be added once the tutor is saved." className="mt-8">
+        <TutorForm />
+      </AdminPanel>
+    </>
+  );
+}
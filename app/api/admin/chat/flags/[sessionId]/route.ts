@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { getFlaggedConversation, markConversationReviewed } from '@/lib/moderation';
+
+export const dynamic = 'force-dynamic';
+
+const reviewSchema = z.object({
+  reviewed: z.literal(true),
+});
+
+// Marks every flag in a conversation as reviewed. Later flags reopen it.
+export async function PATCH(request: Request, { params }: { params: Promise<{ sessionId: string }> }) {
+  const user = await authorize('chats:review');
+  if (user instanceof Response) return user;
+
+  const { sessionId } = await params;
+  if (!getFlaggedConversation(sessionId)) {
+    return Response.json({ error: 'Flagged conversation not found' }, { status: 404 });
+  }
+
+  const parsed = reviewSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid review', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  audited(
+    user,
+    () => markConversationReviewed(sessionId, user.id),
+    (count) => ({ action: 'reviewed', entityType: 'chat', entityId: sessionId, details: { flags: count } })
+  );
+  return Response.json({ conversation: getFlaggedConversation(sessionId) });
+}
@@ -0,0 +1,16 @@
+import { authorize } from '@/lib/auth';
+import { listToolCalls } from '@/lib/chat/tools';
+
+export const dynamic = 'force-dynamic';
+
+// The tools the booking assistant called in one conversation (?session=<id>), oldest first.
+export async function GET(request: Request) {
+  const user = await authorize('audit:view');
+  if (user instanceof Response) return user;
+
+  const sessionId = new URL(request.url).searchParams.get('session');
+  if (!sessionId) {
+    return Response.json({ error: 'Pass ?session=<chat session id>' }, { status: 400 });
+  }
+  return Response.json({ calls: listToolCalls(sessionId) });
+}
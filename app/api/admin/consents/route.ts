@@ -0,0 +1,39 @@
+import { recordAudit } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { listRecordingConsents } from '@/lib/consents/repository';
+import { csvResponse, toCsv } from '@/lib/csv';
+
+export const dynamic = 'force-dynamic';
+
+// Who agreed to recording and when, for pulling recordings into an incident report. Filter with
+// ?term=fall-2026 and/or ?email=…; ?format=json returns JSON instead of a CSV download.
+export async function GET(request: Request) {
+  const user = await authorize('consents:export');
+  if (user instanceof Response) return user;
+
+  const params = new URL(request.url).searchParams;
+  const termId = params.get('term') || undefined;
+  const email = params.get('email') || undefined;
+  const consents = listRecordingConsents({ termId, email });
+  recordAudit(user, {
+    action: 'exported',
+    entityType: 'consent',
+    entityId: termId ?? 'all',
+    details: { email, count: consents.length },
+  });
+
+  if (params.get('format') === 'json') {
+    return Response.json({ consents });
+  }
+  const csv = toCsv(
+    ['Student', 'Email', 'Term', 'Consented at', 'Where'],
+    consents.map((consent) => [
+      consent.studentName,
+      consent.studentEmail,
+      consent.termId,
+      consent.consentedAt,
+      consent.source === 'zoom' ? 'Before joining Zoom' : 'While booking',
+    ])
+  );
+  return csvResponse(csv, `recording-consents-${termId ?? 'all'}.csv`);
+}
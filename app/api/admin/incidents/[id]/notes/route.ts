@@ -0,0 +1,28 @@
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { addIncidentNote, getIncident } from '@/lib/incidents/repository';
+import { incidentNoteSchema } from '@/lib/incidents/schema';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await authorize('incidents:manage');
+  if (user instanceof Response) return user;
+
+  const incident = getIncident(Number((await params).id));
+  if (!incident) {
+    return Response.json({ error: 'Incident not found' }, { status: 404 });
+  }
+
+  const parsed = incidentNoteSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid note', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const note = audited(
+    user,
+    () => addIncidentNote(incident.id, user.id, parsed.data.body),
+    (created) => ({ action: 'added a note to', entityType: 'incident', entityId: incident.id, details: { noteId: created.id } })
+  );
+  return Response.json({ note }, { status: 201 });
+}
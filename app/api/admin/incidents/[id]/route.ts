@@ -0,0 +1,32 @@
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { getIncident, setIncidentStatus } from '@/lib/incidents/repository';
+import { incidentStatusSchema } from '@/lib/incidents/schema';
+
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await authorize('incidents:manage');
+  if (user instanceof Response) return user;
+
+  const incident = getIncident(Number((await params).id));
+  if (!incident) {
+    return Response.json({ error: 'Incident not found' }, { status: 404 });
+  }
+
+  const parsed = incidentStatusSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid status', issues: parsed.error.issues }, { status: 400 });
+  }
+  if (incident.sanction) {
+    return Response.json({ error: 'This incident was resolved with a sanction' }, { status: 409 });
+  }
+
+  const { status } = parsed.data;
+  const updated = audited(
+    user,
+    () => setIncidentStatus(incident.id, status)!,
+    () => ({ action: 'updated', entityType: 'incident', entityId: incident.id, details: { status, from: incident.status } })
+  );
+  return Response.json({ incident: updated });
+}
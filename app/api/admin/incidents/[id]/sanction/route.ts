@@ -0,0 +1,50 @@
+import { after } from 'next/server';
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { getIncident, sanctionIncident } from '@/lib/incidents/repository';
+import { sanctionSchema } from '@/lib/incidents/schema';
+import { sendCancellationNotice } from '@/lib/notifications/appointments';
+import { processWaitlist } from '@/lib/notifications/waitlist';
+
+export const dynamic = 'force-dynamic';
+
+// Resolves the incident. Suspensions and bans take effect right away, through the student's restrictions.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await authorize('incidents:manage');
+  if (user instanceof Response) return user;
+
+  const incident = getIncident(Number((await params).id));
+  if (!incident) {
+    return Response.json({ error: 'Incident not found' }, { status: 404 });
+  }
+
+  const parsed = sanctionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid sanction', issues: parsed.error.issues }, { status: 400 });
+  }
+  if (incident.sanction) {
+    return Response.json({ error: 'This incident already has a sanction' }, { status: 409 });
+  }
+
+  const { sanction, days } = parsed.data;
+  const result = audited(
+    user,
+    () => sanctionIncident(incident, parsed.data, user.id),
+    ({ incident: updated, cancelled }) => ({
+      action: sanction === 'warning' ? 'issued a warning for' : `issued a ${sanction} for`,
+      entityType: 'incident',
+      entityId: incident.id,
+      details: {
+        email: incident.student.email,
+        days: sanction === 'suspension' ? days : undefined,
+        restrictionId: updated.restriction?.id,
+        cancelledAppointments: cancelled.map((appointment) => appointment.id),
+      },
+    })
+  );
+  after(async () => {
+    for (const appointment of result.cancelled) await sendCancellationNotice(appointment);
+    if (result.cancelled.length > 0) await processWaitlist();
+  });
+  return Response.json({ incident: result.incident, cancelled: result.cancelled.length }, { status: 201 });
+}
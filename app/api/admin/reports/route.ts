@@ -0,0 +1,33 @@
+import { authorize } from '@/lib/auth';
+import { usageReport } from '@/lib/analytics';
+import { usageCsv, usageWorkbook } from '@/lib/analytics/export';
+import { csvResponse } from '@/lib/csv';
+import { getScheduleTerm, getTerm } from '@/lib/terms';
+import { xlsxResponse } from '@/lib/xlsx';
+
+export const dynamic = 'force-dynamic';
+
+// Utilization numbers for one term (?term=fall-2026, default the current one) as ?format=csv, xlsx or json.
+export async function GET(request: Request) {
+  const user = await authorize('reports:view');
+  if (user instanceof Response) return user;
+
+  const params = new URL(request.url).searchParams;
+  const term = params.get('term') ? getTerm(params.get('term')!) : getScheduleTerm();
+  if (!term) {
+    return Response.json({ error: 'Term not found' }, { status: 404 });
+  }
+
+  const report = usageReport(term);
+  const format = params.get('format') ?? 'csv';
+  if (format === 'json') {
+    return Response.json({ report });
+  }
+  if (format === 'xlsx') {
+    return xlsxResponse(usageWorkbook(report), `tutoring-usage-${term.id}.xlsx`);
+  }
+  if (format === 'csv') {
+    return csvResponse(usageCsv(report), `tutoring-usage-${term.id}.csv`);
+  }
+  return Response.json({ error: 'Unknown format; use csv, xlsx or json' }, { status: 400 });
+}
@@ -0,0 +1,33 @@
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { getResource, reviewResource } from '@/lib/resources/repository';
+import { resourceReviewSchema } from '@/lib/resources/schema';
+
+export const dynamic = 'force-dynamic';
+
+// Publishes or rejects a tutor's suggestion.
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await authorize('resources:manage');
+  if (user instanceof Response) return user;
+
+  const existing = getResource(Number((await params).id));
+  if (!existing) {
+    return Response.json({ error: 'Resource not found' }, { status: 404 });
+  }
+  if (existing.status !== 'pending') {
+    return Response.json({ error: 'This resource has already been reviewed' }, { status: 409 });
+  }
+
+  const parsed = resourceReviewSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid review', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { decision, note } = parsed.data;
+  const resource = audited(
+    user,
+    () => reviewResource(existing.id, decision, note, user.id),
+    () => ({ action: decision, entityType: 'resource', entityId: existing.id, details: { title: existing.title, note } })
+  );
+  return Response.json({ resource });
+}
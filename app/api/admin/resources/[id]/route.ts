@@ -0,0 +1,47 @@
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { deleteResource, getResource, updateResource } from '@/lib/resources/repository';
+import { resourceInputSchema } from '@/lib/resources/schema';
+
+export const dynamic = 'force-dynamic';
+
+type ResourceContext = { params: Promise<{ id: string }> };
+
+export async function PUT(request: Request, { params }: ResourceContext) {
+  const user = await authorize('resources:manage');
+  if (user instanceof Response) return user;
+
+  const existing = getResource(Number((await params).id));
+  if (!existing) {
+    return Response.json({ error: 'Resource not found' }, { status: 404 });
+  }
+
+  const parsed = resourceInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid resource', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const resource = audited(
+    user,
+    () => updateResource(existing.id, parsed.data),
+    () => ({ action: 'updated', entityType: 'resource', entityId: existing.id, details: { before: existing, after: parsed.data } })
+  );
+  return Response.json({ resource });
+}
+
+export async function DELETE(_request: Request, { params }: ResourceContext) {
+  const user = await authorize('resources:manage');
+  if (user instanceof Response) return user;
+
+  const existing = getResource(Number((await params).id));
+  if (!existing) {
+    return Response.json({ error: 'Resource not found' }, { status: 404 });
+  }
+
+  audited(
+    user,
+    () => deleteResource(existing.id),
+    () => ({ action: 'deleted', entityType: 'resource', entityId: existing.id, details: existing })
+  );
+  return new Response(null, { status: 204 });
+}
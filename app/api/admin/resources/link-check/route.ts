@@ -0,0 +1,11 @@
+import { authorize } from '@/lib/auth';
+import { checkResourceLinks } from '@/lib/resources/links';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST() {
+  const user = await authorize('resources:manage');
+  if (user instanceof Response) return user;
+
+  return Response.json(await checkResourceLinks());
+}
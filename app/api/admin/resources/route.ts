@@ -0,0 +1,23 @@
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { createResource } from '@/lib/resources/repository';
+import { resourceInputSchema } from '@/lib/resources/schema';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  const user = await authorize('resources:manage');
+  if (user instanceof Response) return user;
+
+  const parsed = resourceInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid resource', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const resource = audited(
+    user,
+    () => createResource(parsed.data),
+    (created) => ({ action: 'created', entityType: 'resource', entityId: created.id, details: parsed.data })
+  );
+  return Response.json({ resource }, { status: 201 });
+}
@@ -0,0 +1,51 @@
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { deleteRule, getRule, getRuleBySlug, updateRule } from '@/lib/rules/repository';
+import { ruleInputSchema } from '@/lib/rules/schema';
+
+export const dynamic = 'force-dynamic';
+
+type RuleContext = { params: Promise<{ id: string }> };
+
+export async function PUT(request: Request, { params }: RuleContext) {
+  const user = await authorize('rules:manage');
+  if (user instanceof Response) return user;
+
+  const existing = getRule(Number((await params).id));
+  if (!existing) {
+    return Response.json({ error: 'Rule not found' }, { status: 404 });
+  }
+
+  const parsed = ruleInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid rule', issues: parsed.error.issues }, { status: 400 });
+  }
+  const clash = getRuleBySlug(parsed.data.slug);
+  if (clash && clash.id !== existing.id) {
+    return Response.json({ error: `A rule with the ID "${parsed.data.slug}" already exists` }, { status: 409 });
+  }
+
+  const rule = audited(
+    user,
+    () => updateRule(existing.id, parsed.data),
+    () => ({ action: 'updated', entityType: 'rule', entityId: existing.id, details: { before: existing, after: parsed.data } })
+  );
+  return Response.json({ rule });
+}
+
+export async function DELETE(_request: Request, { params }: RuleContext) {
+  const user = await authorize('rules:manage');
+  if (user instanceof Response) return user;
+
+  const existing = getRule(Number((await params).id));
+  if (!existing) {
+    return Response.json({ error: 'Rule not found' }, { status: 404 });
+  }
+
+  audited(
+    user,
+    () => deleteRule(existing.id),
+    () => ({ action: 'deleted', entityType: 'rule', entityId: existing.id, details: existing })
+  );
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,26 @@
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { createRule, getRuleBySlug } from '@/lib/rules/repository';
+import { ruleInputSchema } from '@/lib/rules/schema';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  const user = await authorize('rules:manage');
+  if (user instanceof Response) return user;
+
+  const parsed = ruleInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid rule', issues: parsed.error.issues }, { status: 400 });
+  }
+  if (getRuleBySlug(parsed.data.slug)) {
+    return Response.json({ error: `A rule with the ID "${parsed.data.slug}" already exists` }, { status: 409 });
+  }
+
+  const rule = audited(
+    user,
+    () => createRule(parsed.data),
+    (created) => ({ action: 'created', entityType: 'rule', entityId: created.id, details: parsed.data })
+  );
+  return Response.json({ rule }, { status: 201 });
+}
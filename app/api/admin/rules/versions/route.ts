@@ -0,0 +1,32 @@
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { rulesPublicationSchema } from '@/lib/rules/schema';
+import { hasUnpublishedChanges, publishRules } from '@/lib/rules/versions';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  const user = await authorize('rules:manage');
+  if (user instanceof Response) return user;
+
+  const parsed = rulesPublicationSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid publication', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  if (!hasUnpublishedChanges()) {
+    return Response.json({ error: 'The draft matches the published rules; there’s nothing new to publish' }, { status: 409 });
+  }
+
+  const published = audited(
+    user,
+    () => publishRules(parsed.data.summary, user.id)!,
+    (rules) => ({
+      action: 'published',
+      entityType: 'rule',
+      entityId: `v${rules.version}`,
+      details: { summary: rules.summary },
+    })
+  );
+  return Response.json({ rules: published }, { status: 201 });
+}
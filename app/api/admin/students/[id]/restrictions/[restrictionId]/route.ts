@@ -0,0 +1,35 @@
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { getStudent, liftRestriction, listRestrictions } from '@/lib/students/repository';
+
+export const dynamic = 'force-dynamic';
+
+type RestrictionContext = { params: Promise<{ id: string; restrictionId: string }> };
+
+// Lifts a ban or suspension early.
+export async function DELETE(_request: Request, { params }: RestrictionContext) {
+  const user = await authorize('students:restrict');
+  if (user instanceof Response) return user;
+
+  const { id, restrictionId } = await params;
+  const student = getStudent(Number(id));
+  const restriction = student && listRestrictions(student.id).find((entry) => entry.id === Number(restrictionId));
+  if (!student || !restriction) {
+    return Response.json({ error: 'Restriction not found' }, { status: 404 });
+  }
+  if (restriction.liftedAt) {
+    return Response.json({ error: 'This restriction was already lifted' }, { status: 409 });
+  }
+
+  audited(
+    user,
+    () => liftRestriction(restriction.id, user.id),
+    () => ({
+      action: `lifted ${restriction.kind}`,
+      entityType: 'student',
+      entityId: student.id,
+      details: { email: student.email, restrictionId: restriction.id },
+    })
+  );
+  return new Response(null, { status: 204 });
+}
@@ -0,0 +1,74 @@
+import { after } from 'next/server';
+import { z } from 'zod';
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { cancelStudentAppointments } from '@/lib/booking/repository';
+import { sendCancellationNotice } from '@/lib/notifications/appointments';
+import { processWaitlist } from '@/lib/notifications/waitlist';
+import { getStudent, restrictStudent } from '@/lib/students/repository';
+import { RESTRICTION_KINDS } from '@/lib/students/types';
+import { addDaysToDate, zonedDateTime } from '@/lib/time';
+
+export const dynamic = 'force-dynamic';
+
+const restrictionRequestSchema = z
+  .object({
+    kind: z.enum(RESTRICTION_KINDS),
+    reason: z.string().trim().min(1).max(1000),
+    // Last day of a suspension; booking reopens the morning after.
+    until: z
+      .string()
+      .regex(/^\d{4}-\d{2}-\d{2}$/)
+      .optional(),
+    cancelUpcoming: z.boolean().default(false),
+  })
+  .refine((request) => request.kind === 'ban' || request.until, {
+    message: 'A suspension needs an end date',
+    path: ['until'],
+  });
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await authorize('students:restrict');
+  if (user instanceof Response) return user;
+
+  const student = getStudent(Number((await params).id));
+  if (!student) {
+    return Response.json({ error: 'Student not found' }, { status: 404 });
+  }
+
+  const parsed = restrictionRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid restriction', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { kind, reason, until, cancelUpcoming } = parsed.data;
+  const now = new Date();
+  const endsAt = kind === 'suspension' ? zonedDateTime(addDaysToDate(until!, 1), '00:00') : undefined;
+  if (endsAt && endsAt <= now) {
+    return Response.json({ error: 'A suspension has to end after today' }, { status: 400 });
+  }
+
+  const { restriction, cancelled } = audited(
+    user,
+    () => ({
+      restriction: restrictStudent(student.id, { kind, reason, endsAt }, user.id, now),
+      cancelled: cancelUpcoming ? cancelStudentAppointments(student.id, endsAt ?? null, now) : [],
+    }),
+    (result) => ({
+      action: kind === 'ban' ? 'banned' : 'suspended',
+      entityType: 'student',
+      entityId: student.id,
+      details: {
+        email: student.email,
+        reason,
+        endsAt: result.restriction.endsAt,
+        cancelledAppointments: result.cancelled.map((appointment) => appointment.id),
+      },
+    })
+  );
+  after(async () => {
+    for (const appointment of cancelled) await sendCancellationNotice(appointment);
+    if (cancelled.length > 0) await processWaitlist();
+  });
+  return Response.json({ restriction, cancelled: cancelled.length }, { status: 201 });
+}
@@ -0,0 +1,31 @@
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { getTerm, saveTerm, TermConfigError } from '@/lib/terms';
+
+export const dynamic = 'force-dynamic';
+
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await authorize('terms:manage');
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const existing = getTerm(id);
+  if (!existing) {
+    return Response.json({ error: 'Term not found' }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => null);
+  try {
+    const term = audited(
+      user,
+      () => saveTerm({ ...body, id }),
+      (saved) => ({ action: 'updated', entityType: 'term', entityId: id, details: { before: existing, after: saved } })
+    );
+    return Response.json({ term });
+  } catch (error) {
+    if (error instanceof TermConfigError) {
+      return Response.json({ error: 'Invalid term', problems: error.problems }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,29 @@
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { getTerm, saveTerm, TermConfigError } from '@/lib/terms';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  const user = await authorize('terms:manage');
+  if (user instanceof Response) return user;
+
+  const body = await request.json().catch(() => null);
+  if (body && typeof body.id === 'string' && getTerm(body.id)) {
+    return Response.json({ error: `A term with the id "${body.id}" already exists` }, { status: 409 });
+  }
+
+  try {
+    const term = audited(
+      user,
+      () => saveTerm(body),
+      (saved) => ({ action: 'created', entityType: 'term', entityId: saved.id, details: saved })
+    );
+    return Response.json({ term }, { status: 201 });
+  } catch (error) {
+    if (error instanceof TermConfigError) {
+      return Response.json({ error: 'Invalid term', problems: error.problems }, { status: 400 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,64 @@
+import { revalidatePath } from 'next/cache';
+import { after } from 'next/server';
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { getUserCredentials } from '@/lib/auth/users';
+import { cancelUncoveredAppointments } from '@/lib/booking/repository';
+import { sendCancellationNotice } from '@/lib/notifications/appointments';
+import { processWaitlist } from '@/lib/notifications/waitlist';
+import { getTutorRecord, saveTutor } from '@/lib/tutors/repository';
+import { tutorInputSchema } from '@/lib/tutors/schema';
+
+export const dynamic = 'force-dynamic';
+
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await authorize('tutors:manage');
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  const existing = getTutorRecord(id);
+  if (!existing) {
+    return Response.json({ error: 'Tutor not found' }, { status: 404 });
+  }
+
+  const parsed = tutorInputSchema.safeParse({ ...(await request.json().catch(() => null)), id });
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid tutor', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const input = parsed.data;
+  const owner = input.email ? getUserCredentials(input.email)?.user : undefined;
+  if (owner && owner.tutorId !== id) {
+    return Response.json({ error: `${input.email} already belongs to another account` }, { status: 409 });
+  }
+
+  // A deactivated tutor's upcoming sessions are cancelled and the students told.
+  const cancelled = audited(
+    user,
+    () => {
+      saveTutor(input);
+      return input.active ? [] : cancelUncoveredAppointments(id);
+    },
+    (result) => ({
+      action: 'updated',
+      entityType: 'tutor',
+      entityId: id,
+      details: { ...changedFields(existing, input), cancelledAppointments: result.map((appointment) => appointment.id) },
+    })
+  );
+  after(async () => {
+    for (const appointment of cancelled) await sendCancellationNotice(appointment);
+    if (cancelled.length > 0) await processWaitlist();
+  });
+  revalidatePath('/bios', 'layout');
+  return Response.json({ tutor: getTutorRecord(id), cancelled: cancelled.length });
+}
+
+// Only what the coordinator changed, as { field: [before, after] }.
+function changedFields(before: Record<string, unknown>, after: Record<string, unknown>) {
+  return Object.fromEntries(
+    Object.entries(after)
+      .filter(([key, value]) => JSON.stringify(before[key]) !== JSON.stringify(value))
+      .map(([key, value]) => [key, [before[key], value]])
+  );
+}
@@ -0,0 +1,59 @@
+import { revalidatePath } from 'next/cache';
+import { after } from 'next/server';
+import { z } from 'zod';
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { cancelUncoveredAppointments } from '@/lib/booking/repository';
+import { sendCancellationNotice } from '@/lib/notifications/appointments';
+import { processWaitlist } from '@/lib/notifications/waitlist';
+import { getTerm } from '@/lib/terms';
+import { getTutorRecord, replaceTutorShifts } from '@/lib/tutors/repository';
+import { tutorShiftsSchema } from '@/lib/tutors/schema';
+
+export const dynamic = 'force-dynamic';
+
+const shiftsRequestSchema = z.object({
+  termId: z.string().min(1),
+  shifts: tutorShiftsSchema,
+});
+
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const user = await authorize('tutors:manage');
+  if (user instanceof Response) return user;
+
+  const { id } = await params;
+  if (!getTutorRecord(id)) {
+    return Response.json({ error: 'Tutor not found' }, { status: 404 });
+  }
+
+  const parsed = shiftsRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid availability', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { termId, shifts } = parsed.data;
+  if (!getTerm(termId)) {
+    return Response.json({ error: 'Term not found' }, { status: 404 });
+  }
+
+  // Sessions booked in a shift that's gone are cancelled and the students told.
+  const cancelled = audited(
+    user,
+    () => {
+      replaceTutorShifts(id, termId, shifts);
+      return cancelUncoveredAppointments(id);
+    },
+    (result) => ({
+      action: 'updated shifts',
+      entityType: 'tutor',
+      entityId: id,
+      details: { termId, shifts, cancelledAppointments: result.map((appointment) => appointment.id) },
+    })
+  );
+  after(async () => {
+    for (const appointment of cancelled) await sendCancellationNotice(appointment);
+    if (cancelled.length > 0) await processWaitlist();
+  });
+  revalidatePath('/bios', 'layout');
+  return Response.json({ tutor: getTutorRecord(id, termId), cancelled: cancelled.length });
+}
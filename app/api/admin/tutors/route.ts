@@ -0,0 +1,34 @@
+import { revalidatePath } from 'next/cache';
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { getUserCredentials } from '@/lib/auth/users';
+import { getTutorRecord, saveTutor } from '@/lib/tutors/repository';
+import { tutorInputSchema } from '@/lib/tutors/schema';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  const user = await authorize('tutors:manage');
+  if (user instanceof Response) return user;
+
+  const parsed = tutorInputSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid tutor', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const input = parsed.data;
+  if (getTutorRecord(input.id)) {
+    return Response.json({ error: `A tutor with the id "${input.id}" already exists` }, { status: 409 });
+  }
+  if (input.email && getUserCredentials(input.email)) {
+    return Response.json({ error: `${input.email} already belongs to another account` }, { status: 409 });
+  }
+
+  audited(
+    user,
+    () => saveTutor(input),
+    () => ({ action: 'created', entityType: 'tutor', entityId: input.id, details: input })
+  );
+  revalidatePath('/bios', 'layout');
+  return Response.json({ tutor: getTutorRecord(input.id) }, { status: 201 });
+}
@@ -0,0 +1,30 @@
+import { z } from 'zod';
+import { updateSessionContext } from '@/lib/booking/repository';
+import { COURSE_CODES, type Course } from '@/lib/tutors/types';
+import { bookingErrorResponse, resolve, type ManageContext } from '../resolve';
+
+export const dynamic = 'force-dynamic';
+
+// The "come prepared" details from the rules page, so the tutor can read up before the session.
+const sessionContextSchema = z.object({
+  course: z.enum(COURSE_CODES as [Course, ...Course[]]).nullable(),
+  assignment: z.string().trim().max(500),
+  attempted: z.string().trim().max(2000),
+  notes: z.string().trim().max(2000),
+});
+
+export async function PUT(request: Request, context: ManageContext) {
+  const appointment = await resolve(context);
+  if (appointment instanceof Response) return appointment;
+
+  const parsed = sessionContextSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid session details', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    return Response.json({ appointment: updateSessionContext(appointment.id, parsed.data) });
+  } catch (error) {
+    return bookingErrorResponse(error);
+  }
+}
@@ -0,0 +1,27 @@
+import { appointmentCalendar } from '@/lib/booking/ics';
+import { managementPath } from '@/lib/booking/tokens';
+import { appointmentReference } from '@/lib/booking/types';
+import { renderCalendar } from '@/lib/ics';
+import { siteUrl } from '@/lib/site';
+import { getTerm } from '@/lib/terms';
+import { resolve, type ManageContext } from '../resolve';
+
+export const dynamic = 'force-dynamic';
+
+// Served under the signed link rather than the appointment id, since the event carries that link.
+export async function GET(_request: Request, context: ManageContext) {
+  const appointment = await resolve(context);
+  if (appointment instanceof Response) return appointment;
+  const term = getTerm(appointment.termId);
+  if (!term) {
+    return Response.json({ error: 'Appointment not found' }, { status: 404 });
+  }
+
+  const manageUrl = `${siteUrl()}${managementPath(appointment)}`;
+  return new Response(renderCalendar(appointmentCalendar(appointment, term, manageUrl)), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `attachment; filename="ccsf-tutoring-${appointmentReference(appointment)}.ics"`,
+    },
+  });
+}
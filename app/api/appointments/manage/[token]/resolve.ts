@@ -0,0 +1,26 @@
+import { BookingError } from '@/lib/booking/errors';
+import { getAppointment } from '@/lib/booking/repository';
+import { verifyManagementToken } from '@/lib/booking/tokens';
+import type { Appointment } from '@/lib/booking/types';
+
+export type ManageContext = { params: Promise<{ token: string }> };
+
+// Resolves the link token to its appointment, or the error response to send instead.
+export async function resolve({ params }: ManageContext): Promise<Appointment | Response> {
+  const check = verifyManagementToken((await params).token);
+  if (check.status === 'expired') {
+    return Response.json({ error: 'This appointment link has expired' }, { status: 410 });
+  }
+  const appointment = check.status === 'valid' ? getAppointment(check.appointmentId) : undefined;
+  if (!appointment) {
+    return Response.json({ error: 'Appointment not found' }, { status: 404 });
+  }
+  return appointment;
+}
+
+export function bookingErrorResponse(error: unknown): Response {
+  if (error instanceof BookingError) {
+    return Response.json(error, { status: error.status });
+  }
+  throw error;
+}
@@ -0,0 +1,56 @@
+import { after } from 'next/server';
+import { z } from 'zod';
+import { cancelAppointment, changeDeadline, rescheduleAppointment } from '@/lib/booking/repository';
+import { managementPath } from '@/lib/booking/tokens';
+import { sendBookingConfirmation, sendCancellationNotice } from '@/lib/notifications/appointments';
+import { processWaitlist } from '@/lib/notifications/waitlist';
+import { bookingErrorResponse, resolve, type ManageContext } from './resolve';
+
+export const dynamic = 'force-dynamic';
+
+const rescheduleSchema = z.object({
+  slotId: z.string().min(1).max(100),
+});
+
+export async function GET(_request: Request, context: ManageContext) {
+  const appointment = await resolve(context);
+  if (appointment instanceof Response) return appointment;
+  return Response.json({ appointment, changeDeadline: changeDeadline(appointment).toISOString() });
+}
+
+export async function DELETE(_request: Request, context: ManageContext) {
+  const appointment = await resolve(context);
+  if (appointment instanceof Response) return appointment;
+
+  try {
+    const cancelled = cancelAppointment(appointment.id);
+    after(async () => {
+      await sendCancellationNotice(cancelled);
+      await processWaitlist();
+    });
+    return Response.json({ appointment: cancelled });
+  } catch (error) {
+    return bookingErrorResponse(error);
+  }
+}
+
+export async function PATCH(request: Request, context: ManageContext) {
+  const appointment = await resolve(context);
+  if (appointment instanceof Response) return appointment;
+
+  const parsed = rescheduleSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid reschedule request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const replacement = rescheduleAppointment(appointment.id, parsed.data.slotId);
+    after(async () => {
+      await sendBookingConfirmation(replacement);
+      await processWaitlist();
+    });
+    return Response.json({ appointment: replacement, manageUrl: managementPath(replacement) });
+  } catch (error) {
+    return bookingErrorResponse(error);
+  }
+}
@@ -0,0 +1,40 @@
+import { after } from 'next/server';
+import { z } from 'zod';
+import { BookingError } from '@/lib/booking/errors';
+import { bookAppointment } from '@/lib/booking/repository';
+import { managementPath } from '@/lib/booking/tokens';
+import { sendBookingConfirmation } from '@/lib/notifications/appointments';
+import { COURSE_CODES, LANGUAGES, type Course } from '@/lib/tutors/types';
+
+export const dynamic = 'force-dynamic';
+
+const bookingRequestSchema = z.object({
+  slotId: z.string().min(1).max(100),
+  studentName: z.string().trim().min(1).max(120),
+  studentEmail: z.email().max(254),
+  language: z.enum(LANGUAGES).optional(),
+  course: z.enum(COURSE_CODES as [Course, ...Course[]]).optional(),
+  assignment: z.string().trim().max(500).optional(),
+  attempted: z.string().trim().max(2000).optional(),
+  notes: z.string().max(2000).optional(),
+  rulesVersion: z.number().int().positive().optional(),
+  recordingConsent: z.boolean().optional(),
+});
+
+export async function POST(request: Request) {
+  const parsed = bookingRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid booking request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const appointment = bookAppointment(parsed.data);
+    after(() => sendBookingConfirmation(appointment));
+    return Response.json({ appointment, manageUrl: managementPath(appointment) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return Response.json(error, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { LocalCredentialsProvider, signIn } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+const loginSchema = z.object({
+  email: z.email().max(254),
+  password: z.string().min(1).max(200),
+});
+
+export async function POST(request: Request) {
+  const parsed = loginSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid login request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const user = await new LocalCredentialsProvider().authenticate(parsed.data);
+  if (!user) {
+    return Response.json({ error: 'Incorrect email or password' }, { status: 401 });
+  }
+
+  await signIn(user);
+  return Response.json({ user });
+}
@@ -0,0 +1,8 @@
+import { signOut } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST() {
+  await signOut();
+  return new Response(null, { status: 204 });
+}
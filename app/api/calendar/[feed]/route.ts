@@ -0,0 +1,31 @@
+import { renderCalendar } from '@/lib/ics';
+import { scheduleFeed, SQUAD_FEED_ID } from '@/lib/schedule/feeds';
+import { getTerms } from '@/lib/terms';
+import { zonedTime } from '@/lib/time';
+import { getTutor, listTutors } from '@/lib/tutors/repository';
+
+export const dynamic = 'force-dynamic';
+
+// /api/calendar/squad.ics for the whole squad, /api/calendar/<tutor-id>.ics for one tutor. Covers the
+// current term and any upcoming ones, so a subscription keeps working across semesters.
+export async function GET(_request: Request, { params }: { params: Promise<{ feed: string }> }) {
+  const { feed } = await params;
+  const id = feed.replace(/\.ics$/, '');
+  if (id !== SQUAD_FEED_ID && !getTutor(id)) {
+    return Response.json({ error: 'Calendar not found' }, { status: 404 });
+  }
+
+  const today = zonedTime(new Date()).date;
+  const schedules = getTerms()
+    .filter((term) => term.endDate >= today)
+    .map((term) => ({ term, tutors: listTutors(term.id) }));
+  const calendar = scheduleFeed(schedules, id === SQUAD_FEED_ID ? undefined : id);
+
+  return new Response(renderCalendar(calendar), {
+    headers: {
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `inline; filename="${id}.ics"`,
+      'Cache-Control': 'public, max-age=3600',
+    },
+  });
+}
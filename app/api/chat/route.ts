@@ -0,0 +1,137 @@
+import { after } from 'next/server';
+import { z } from 'zod';
+import { advanceWithAgent, mockAgentScript } from '@/lib/chat/agent';
+import { advanceConversation, type AssistantTurn } from '@/lib/chat/assistant';
+import { buildSystemPrompt } from '@/lib/chat/prompt';
+import { getChatSessions, newChatSession, reviseLastReply, saveChatTurn } from '@/lib/chat/sessions';
+import type { ToolContext } from '@/lib/chat/tools';
+import { chatMessageSchema, chatStateSchema, INITIAL_CHAT_STATE, type ChatStreamEvent } from '@/lib/chat/types';
+import { getLLMProvider } from '@/lib/llm';
+import { checkChatRateLimit, clientAddress, moderateChatMessage } from '@/lib/moderation';
+
+const MAX_HISTORY = 20;
+
+const UNAVAILABLE_REPLY = 'Sorry, I can’t help right now. Please try again in a moment, or book from the schedule.';
+
+// With a `sessionId` the stored conversation is used. Otherwise, or once it has expired, a new one starts
+// from the `state` and `history` sent.
+const chatRequestSchema = z.object({
+  message: z.string().trim().min(1).max(2000),
+  sessionId: z.string().max(100).optional(),
+  state: chatStateSchema.optional(),
+  history: z.array(chatMessageSchema).max(200).optional(),
+});
+
+export async function POST(request: Request) {
+  const parsed = chatRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid chat request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { message, sessionId } = parsed.data;
+  const now = new Date();
+  const sessions = getChatSessions();
+  const session =
+    (sessionId ? sessions.get(sessionId, now) : undefined) ??
+    newChatSession(parsed.data.state ?? INITIAL_CHAT_STATE, parsed.data.history ?? [], now);
+  const { state, messages: history } = session;
+
+  const address = clientAddress(request);
+  const retryAfter = checkChatRateLimit({ student: state.draft.studentEmail, address }, now);
+  if (retryAfter !== null) {
+    return Response.json(
+      { error: 'You’re sending messages faster than we can keep up with. Please wait a moment and try again.', retryAfter },
+      { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+    );
+  }
+
+  const moderation = await moderateChatMessage(message, {
+    sessionId: session.id,
+    studentEmail: state.draft.studentEmail,
+    address,
+    now,
+    signal: request.signal,
+  });
+  // CHAT_ASSISTANT=guided|agent. The guided flow decides every step and the model only words its replies;
+  // with `agent` the model calls the booking tools itself.
+  const agent = process.env.CHAT_ASSISTANT === 'agent';
+  const provider = getLLMProvider(process.env, agent ? mockAgentScript(now) : []);
+  const context: ToolContext = {
+    sessionId: session.id,
+    studentEmail: state.draft.studentEmail,
+    now,
+    defer: (task) => after(task),
+  };
+
+  let turn: AssistantTurn;
+  // Refusals and the fallback reply are sent exactly as written, and the agent's reply is already in the model's
+  // own words.
+  let asWritten = agent || !moderation.allowed;
+  if (!moderation.allowed) {
+    turn = { state, reply: moderation.reply };
+  } else {
+    try {
+      turn = agent
+        ? await advanceWithAgent(provider, state, history.slice(-MAX_HISTORY), message, context, { signal: request.signal })
+        : advanceConversation(state, message, { now, tools: context });
+    } catch (error) {
+      console.error(agent ? 'Chat agent failed' : 'Chat assistant failed', error);
+      turn = { state, reply: UNAVAILABLE_REPLY };
+      asWritten = true;
+    }
+  }
+  // Saved before streaming so a booking made in this turn isn't lost if the student closes the tab mid-reply.
+  const saved = saveChatTurn(
+    session,
+    [
+      { role: 'user', content: message },
+      { role: 'assistant', content: turn.reply },
+    ],
+    turn.state,
+    now,
+    sessions
+  );
+  after(() => sessions.purgeExpired(new Date()));
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      let reply = '';
+      send({ type: 'session', id: session.id });
+
+      try {
+        const completion = asWritten
+          ? [turn.reply]
+          : provider.streamCompletion(
+              {
+                system: buildSystemPrompt(turn.state),
+                messages: [...history.slice(-MAX_HISTORY), { role: 'user', content: message }],
+                reference: turn.reply,
+              },
+              request.signal
+            );
+        for await (const text of completion) {
+          send({ type: 'delta', text });
+          reply += text;
+        }
+      } catch (error) {
+        console.error('Chat completion failed', error);
+        // Fall back to the grounded reply so the booking flow still moves forward.
+        if (!reply) send({ type: 'delta', text: turn.reply });
+      }
+      if (reply && reply !== turn.reply) reviseLastReply(saved, reply, sessions);
+      send({ type: 'state', state: turn.state });
+      send({ type: 'done' });
+      controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
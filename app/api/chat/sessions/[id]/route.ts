@@ -0,0 +1,21 @@
+import { getChatSessions } from '@/lib/chat/sessions';
+
+export const dynamic = 'force-dynamic';
+
+type SessionContext = { params: Promise<{ id: string }> };
+
+// The conversation so far, for picking it back up after a refresh or on another device.
+export async function GET(_request: Request, { params }: SessionContext) {
+  const session = getChatSessions().get((await params).id, new Date());
+  if (!session) {
+    return Response.json({ error: 'Chat session not found' }, { status: 404 });
+  }
+  return Response.json({ session });
+}
+
+export async function DELETE(_request: Request, { params }: SessionContext) {
+  if (!getChatSessions().delete((await params).id)) {
+    return Response.json({ error: 'Chat session not found' }, { status: 404 });
+  }
+  return new Response(null, { status: 204 });
+}
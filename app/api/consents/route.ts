@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { rememberConsent } from '@/lib/consents';
+import { giveRecordingConsent } from '@/lib/consents/repository';
+import { getScheduleTerm } from '@/lib/terms';
+
+export const dynamic = 'force-dynamic';
+
+const consentRequestSchema = z.object({
+  studentName: z.string().trim().min(1).max(120),
+  studentEmail: z.email().max(254),
+  agreed: z.literal(true),
+});
+
+// Records the student's consent to recording for the current term and hands back the Zoom link.
+export async function POST(request: Request) {
+  const parsed = consentRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid consent', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const term = getScheduleTerm();
+  const consent = giveRecordingConsent(parsed.data.studentName, parsed.data.studentEmail, term.id, 'zoom');
+  await rememberConsent(term);
+  return Response.json({ consent, zoomLink: term.zoom.link }, { status: 201 });
+}
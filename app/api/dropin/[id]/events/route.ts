@@ -0,0 +1,18 @@
+import { getDropInQueue } from '@/lib/dropin';
+import { queueEventStream } from '@/lib/dropin/stream';
+
+export const dynamic = 'force-dynamic';
+
+// Live updates for one student's spot in line. Ends once they've been helped or have left.
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const queue = getDropInQueue();
+  if (!queue.ticket(id)) {
+    return Response.json({ error: 'Queue entry not found' }, { status: 404 });
+  }
+
+  return queueEventStream(queue, request.signal, () => {
+    const ticket = queue.ticket(id)!;
+    return { view: ticket, final: ticket.entry.status === 'done' || ticket.entry.status === 'left' };
+  });
+}
@@ -0,0 +1,25 @@
+import { DropInError, getDropInQueue } from '@/lib/dropin';
+
+export const dynamic = 'force-dynamic';
+
+type DropInContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: DropInContext) {
+  const ticket = getDropInQueue().ticket((await params).id);
+  if (!ticket) {
+    return Response.json({ error: 'Queue entry not found' }, { status: 404 });
+  }
+  return Response.json(ticket);
+}
+
+export async function DELETE(_request: Request, { params }: DropInContext) {
+  try {
+    const entry = getDropInQueue().leave((await params).id);
+    return Response.json({ entry });
+  } catch (error) {
+    if (error instanceof DropInError) {
+      return Response.json(error, { status: error.status });
+    }
+    throw error;
+  }
+}
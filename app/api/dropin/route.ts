@@ -0,0 +1,29 @@
+import { z } from 'zod';
+import { DropInError, getDropInQueue } from '@/lib/dropin';
+import { COURSE_CODES, type Course } from '@/lib/tutors/types';
+
+export const dynamic = 'force-dynamic';
+
+const joinRequestSchema = z.object({
+  studentName: z.string().trim().min(1).max(120),
+  studentEmail: z.email().max(254),
+  course: z.enum(COURSE_CODES as [Course, ...Course[]]).optional(),
+  question: z.string().trim().min(1).max(500),
+});
+
+export async function POST(request: Request) {
+  const parsed = joinRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid queue request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const entry = getDropInQueue().join(parsed.data);
+    return Response.json({ entry, url: `/dropin/${entry.id}` }, { status: 201 });
+  } catch (error) {
+    if (error instanceof DropInError) {
+      return Response.json(error, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,32 @@
+import { getAppointment } from '@/lib/booking/repository';
+import { verifyFeedbackToken } from '@/lib/booking/tokens';
+import { submitFeedback } from '@/lib/feedback/repository';
+import { feedbackResponseSchema } from '@/lib/feedback/schema';
+
+export const dynamic = 'force-dynamic';
+
+// The survey linked from the email sent after a completed session. One response per session.
+export async function POST(request: Request, { params }: { params: Promise<{ token: string }> }) {
+  const check = verifyFeedbackToken((await params).token);
+  if (check.status === 'expired') {
+    return Response.json({ error: 'This survey link has expired' }, { status: 410 });
+  }
+  const appointment = check.status === 'valid' ? getAppointment(check.appointmentId) : undefined;
+  if (!appointment) {
+    return Response.json({ error: 'Appointment not found' }, { status: 404 });
+  }
+  if (appointment.status !== 'completed') {
+    return Response.json({ error: 'You can rate a session once your tutor marks it completed' }, { status: 409 });
+  }
+
+  const parsed = feedbackResponseSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid feedback', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const feedback = submitFeedback(appointment, parsed.data);
+  if (!feedback) {
+    return Response.json({ error: 'You already left feedback for this session' }, { status: 409 });
+  }
+  return Response.json({ feedback: { id: feedback.id } }, { status: 201 });
+}
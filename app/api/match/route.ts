@@ -0,0 +1,13 @@
+import { matchTutors } from '@/lib/matching';
+import { matchRequestSchema } from '@/lib/matching/schema';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  const parsed = matchRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid match request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  return Response.json(await matchTutors(parsed.data));
+}
@@ -0,0 +1,23 @@
+import { sendDueReminders } from '@/lib/notifications/appointments';
+import { sendStudyGroupReminders } from '@/lib/notifications/study-groups';
+
+export const dynamic = 'force-dynamic';
+
+// Called by a scheduler (every 15 minutes is plenty) with "Authorization: Bearer $CRON_SECRET".
+// Without a secret configured it is only open outside production.
+export async function POST(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  const authorized = secret
+    ? request.headers.get('authorization') === `Bearer ${secret}`
+    : process.env.NODE_ENV !== 'production';
+  if (!authorized) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const appointments = await sendDueReminders();
+  const studyGroups = await sendStudyGroupReminders();
+  return Response.json({
+    sent: appointments.sent + studyGroups.sent,
+    failed: appointments.failed + studyGroups.failed,
+  });
+}
@@ -0,0 +1,17 @@
+import { processWaitlist } from '@/lib/notifications/waitlist';
+
+export const dynamic = 'force-dynamic';
+
+// The waitlist expiry job. Call it on the same schedule as the reminders, with "Authorization: Bearer $CRON_SECRET",
+// so offers that weren't taken in time move on to the next student.
+export async function POST(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  const authorized = secret
+    ? request.headers.get('authorization') === `Bearer ${secret}`
+    : process.env.NODE_ENV !== 'production';
+  if (!authorized) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  return Response.json(await processWaitlist());
+}
@@ -0,0 +1,18 @@
+import { checkResourceLinks } from '@/lib/resources/links';
+
+export const dynamic = 'force-dynamic';
+
+// Called by a scheduler (once a day is plenty) with "Authorization: Bearer $CRON_SECRET".
+// Without a secret configured it is only open outside production.
+export async function POST(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  const authorized = secret
+    ? request.headers.get('authorization') === `Bearer ${secret}`
+    : process.env.NODE_ENV !== 'production';
+  if (!authorized) {
+    return Response.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const run = await checkResourceLinks();
+  return Response.json({ checked: run.checked, broken: run.broken.map(({ id, title, link }) => ({ id, title, link })) });
+}
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { listSlots } from '@/lib/booking/repository';
+import { LANGUAGES } from '@/lib/tutors/types';
+
+export const dynamic = 'force-dynamic';
+
+const slotQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  tutor: z.string().optional(),
+  language: z.enum(LANGUAGES).optional(),
+});
+
+// GET /api/slots?date=2026-10-20&tutor=chris-h&language=Python
+export function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const parsed = slotQuerySchema.safeParse(Object.fromEntries(searchParams));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid slot query', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const { date, tutor, language } = parsed.data;
+  return Response.json({ slots: listSlots({ date, tutorId: tutor, language }) });
+}
@@ -0,0 +1,26 @@
+import { StudyGroupError } from '@/lib/study-groups/errors';
+import { listOpenSessions, rsvpForSession } from '@/lib/study-groups/repository';
+import { rsvpRequestSchema } from '@/lib/study-groups/schema';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return Response.json({ sessions: listOpenSessions() });
+}
+
+export async function POST(request: Request) {
+  const parsed = rsvpRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid RSVP', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const rsvp = rsvpForSession(parsed.data);
+    return Response.json({ rsvp, url: `/study-groups/${rsvp.id}` }, { status: 201 });
+  } catch (error) {
+    if (error instanceof StudyGroupError) {
+      return Response.json(error, { status: error.status });
+    }
+    throw error;
+  }
+}
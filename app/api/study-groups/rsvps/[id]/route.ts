@@ -0,0 +1,26 @@
+import { StudyGroupError } from '@/lib/study-groups/errors';
+import { cancelRsvp, getRsvp } from '@/lib/study-groups/repository';
+
+export const dynamic = 'force-dynamic';
+
+type RsvpContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: RsvpContext) {
+  const rsvp = getRsvp((await params).id);
+  if (!rsvp) {
+    return Response.json({ error: 'RSVP not found' }, { status: 404 });
+  }
+  return Response.json({ rsvp });
+}
+
+export async function DELETE(_request: Request, { params }: RsvpContext) {
+  try {
+    const rsvp = cancelRsvp((await params).id);
+    return Response.json({ rsvp });
+  } catch (error) {
+    if (error instanceof StudyGroupError) {
+      return Response.json(error, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,36 @@
+import { after } from 'next/server';
+import { z } from 'zod';
+import { getCurrentTutor } from '@/lib/auth';
+import { BookingError } from '@/lib/booking/errors';
+import { recordOutcome } from '@/lib/booking/repository';
+import { APPOINTMENT_OUTCOMES } from '@/lib/booking/types';
+import { sendFeedbackRequest } from '@/lib/notifications/appointments';
+
+export const dynamic = 'force-dynamic';
+
+const outcomeSchema = z.object({
+  status: z.enum(APPOINTMENT_OUTCOMES),
+});
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const tutor = await getCurrentTutor();
+  if (!tutor) {
+    return Response.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const parsed = outcomeSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid outcome', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const appointment = recordOutcome((await params).id, tutor.tutorId, parsed.data.status);
+    if (appointment.status === 'completed') after(() => sendFeedbackRequest(appointment));
+    return Response.json({ appointment });
+  } catch (error) {
+    if (error instanceof BookingError) {
+      return Response.json(error, { status: error.status });
+    }
+    throw error;
+  }
+}
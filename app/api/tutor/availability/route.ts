@@ -0,0 +1,56 @@
+import { revalidatePath } from 'next/cache';
+import { after } from 'next/server';
+import { z } from 'zod';
+import { audited } from '@/lib/audit';
+import { getCurrentTutor } from '@/lib/auth';
+import { cancelUncoveredAppointments } from '@/lib/booking/repository';
+import { sendCancellationNotice } from '@/lib/notifications/appointments';
+import { processWaitlist } from '@/lib/notifications/waitlist';
+import { getScheduleTerm } from '@/lib/terms';
+import { getTutor, replaceTutorShifts } from '@/lib/tutors/repository';
+import { tutorShiftsSchema } from '@/lib/tutors/schema';
+
+export const dynamic = 'force-dynamic';
+
+const availabilitySchema = z.object({
+  shifts: tutorShiftsSchema,
+});
+
+// Edits the term shown on the schedule page. Sessions booked in a shift that goes away are cancelled and the
+// students told.
+export async function PUT(request: Request) {
+  const user = await getCurrentTutor();
+  if (!user) {
+    return Response.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const parsed = availabilitySchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid availability', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const term = getScheduleTerm();
+  const cancelled = audited(
+    user,
+    () => {
+      replaceTutorShifts(user.tutorId, term.id, parsed.data.shifts);
+      return cancelUncoveredAppointments(user.tutorId);
+    },
+    (result) => ({
+      action: 'updated shifts',
+      entityType: 'tutor',
+      entityId: user.tutorId,
+      details: {
+        termId: term.id,
+        shifts: parsed.data.shifts,
+        cancelledAppointments: result.map((appointment) => appointment.id),
+      },
+    })
+  );
+  after(async () => {
+    for (const appointment of cancelled) await sendCancellationNotice(appointment);
+    if (cancelled.length > 0) await processWaitlist();
+  });
+  revalidatePath('/bios', 'layout');
+  return Response.json({ tutor: getTutor(user.tutorId, term.id), cancelled: cancelled.length });
+}
@@ -0,0 +1,31 @@
+import { z } from 'zod';
+import { getCurrentTutor } from '@/lib/auth';
+import { DropInError, getDropInQueue } from '@/lib/dropin';
+
+export const dynamic = 'force-dynamic';
+
+const finishSchema = z.object({
+  status: z.literal('done'),
+});
+
+export async function PATCH(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const tutor = await getCurrentTutor();
+  if (!tutor) {
+    return Response.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const parsed = finishSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid queue update', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const entry = getDropInQueue().finish((await params).id, tutor.tutorId);
+    return Response.json({ entry });
+  } catch (error) {
+    if (error instanceof DropInError) {
+      return Response.json(error, { status: error.status });
+    }
+    throw error;
+  }
+}
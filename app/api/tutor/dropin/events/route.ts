@@ -0,0 +1,15 @@
+import { getCurrentTutor } from '@/lib/auth';
+import { getDropInQueue } from '@/lib/dropin';
+import { queueEventStream } from '@/lib/dropin/stream';
+
+export const dynamic = 'force-dynamic';
+
+// The whole line, live, for the tutor dashboard.
+export async function GET(request: Request) {
+  if (!(await getCurrentTutor())) {
+    return Response.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const queue = getDropInQueue();
+  return queueEventStream(queue, request.signal, () => ({ view: queue.board() }));
+}
@@ -0,0 +1,24 @@
+import { getCurrentTutor } from '@/lib/auth';
+import { DropInError, getDropInQueue } from '@/lib/dropin';
+import { getTutor } from '@/lib/tutors/repository';
+
+export const dynamic = 'force-dynamic';
+
+// Claims the next student in line, finishing whoever the tutor was helping.
+export async function POST() {
+  const user = await getCurrentTutor();
+  if (!user) {
+    return Response.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  try {
+    const name = getTutor(user.tutorId)?.name ?? user.name;
+    const entry = getDropInQueue().claimNext({ id: user.tutorId, name });
+    return Response.json({ entry });
+  } catch (error) {
+    if (error instanceof DropInError) {
+      return Response.json(error, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,41 @@
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { getAppointment, hasStarted } from '@/lib/booking/repository';
+import { fileIncident, findIncident } from '@/lib/incidents/repository';
+import { incidentReportSchema } from '@/lib/incidents/schema';
+
+export const dynamic = 'force-dynamic';
+
+// A tutor reports a student's conduct in one of their own sessions. Coordinators take it from there.
+export async function POST(request: Request) {
+  const user = await authorize('incidents:report');
+  if (user instanceof Response) return user;
+
+  const parsed = incidentReportSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid incident report', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const appointment = getAppointment(parsed.data.appointmentId);
+  if (!appointment || !user.tutorId || appointment.tutorId !== user.tutorId) {
+    return Response.json({ error: 'Appointment not found' }, { status: 404 });
+  }
+  if (appointment.status === 'cancelled' || !hasStarted(appointment, new Date())) {
+    return Response.json({ error: 'You can report a session once it has started' }, { status: 409 });
+  }
+  if (findIncident(appointment.id, user.id)) {
+    return Response.json({ error: 'You already reported this session' }, { status: 409 });
+  }
+
+  const incident = audited(
+    user,
+    () => fileIncident(parsed.data, user.id),
+    (created) => ({
+      action: 'reported',
+      entityType: 'incident',
+      entityId: created.id,
+      details: { appointmentId: appointment.id, email: created.student.email, category: created.category },
+    })
+  );
+  return Response.json({ incident }, { status: 201 });
+}
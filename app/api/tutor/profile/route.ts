@@ -0,0 +1,27 @@
+import { revalidatePath } from 'next/cache';
+import { audited } from '@/lib/audit';
+import { getCurrentTutor } from '@/lib/auth';
+import { getTutor, updateTutorProfile } from '@/lib/tutors/repository';
+import { tutorProfileSchema } from '@/lib/tutors/schema';
+
+export const dynamic = 'force-dynamic';
+
+export async function PUT(request: Request) {
+  const user = await getCurrentTutor();
+  if (!user) {
+    return Response.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const parsed = tutorProfileSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid profile', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  audited(
+    user,
+    () => updateTutorProfile(user.tutorId, parsed.data),
+    () => ({ action: 'updated', entityType: 'tutor', entityId: user.tutorId, details: parsed.data })
+  );
+  revalidatePath('/bios', 'layout');
+  return Response.json({ tutor: getTutor(user.tutorId) });
+}
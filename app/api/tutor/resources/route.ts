@@ -0,0 +1,24 @@
+import { audited } from '@/lib/audit';
+import { authorize } from '@/lib/auth';
+import { submitResource } from '@/lib/resources/repository';
+import { resourceSubmissionSchema } from '@/lib/resources/schema';
+
+export const dynamic = 'force-dynamic';
+
+// A tutor's suggestion for the Resources page. It waits for a coordinator to publish it.
+export async function POST(request: Request) {
+  const user = await authorize('resources:submit');
+  if (user instanceof Response) return user;
+
+  const parsed = resourceSubmissionSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid resource', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  const resource = audited(
+    user,
+    () => submitResource(parsed.data, user.id),
+    (created) => ({ action: 'submitted', entityType: 'resource', entityId: created.id, details: parsed.data })
+  );
+  return Response.json({ resource }, { status: 201 });
+}
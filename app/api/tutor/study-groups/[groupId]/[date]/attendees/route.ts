@@ -0,0 +1,30 @@
+import { getCurrentTutor } from '@/lib/auth';
+import { StudyGroupError } from '@/lib/study-groups/errors';
+import { addWalkIn } from '@/lib/study-groups/repository';
+import { walkInSchema } from '@/lib/study-groups/schema';
+
+export const dynamic = 'force-dynamic';
+
+// Adds a student who came without an RSVP, already marked present.
+export async function POST(request: Request, { params }: { params: Promise<{ groupId: string; date: string }> }) {
+  const tutor = await getCurrentTutor();
+  if (!tutor) {
+    return Response.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const parsed = walkInSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid attendee', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const { groupId, date } = await params;
+    const rsvp = addWalkIn(groupId, date, parsed.data, tutor.tutorId);
+    return Response.json({ rsvp }, { status: 201 });
+  } catch (error) {
+    if (error instanceof StudyGroupError) {
+      return Response.json(error, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,47 @@
+import { getCurrentTutor } from '@/lib/auth';
+import { StudyGroupError } from '@/lib/study-groups/errors';
+import { getRoster, setAgenda } from '@/lib/study-groups/repository';
+import { agendaSchema } from '@/lib/study-groups/schema';
+
+export const dynamic = 'force-dynamic';
+
+type SessionContext = { params: Promise<{ groupId: string; date: string }> };
+
+export async function GET(_request: Request, { params }: SessionContext) {
+  const tutor = await getCurrentTutor();
+  if (!tutor) {
+    return Response.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  try {
+    const { groupId, date } = await params;
+    return Response.json({ roster: getRoster(groupId, date, tutor.tutorId) });
+  } catch (error) {
+    if (error instanceof StudyGroupError) {
+      return Response.json(error, { status: error.status });
+    }
+    throw error;
+  }
+}
+
+export async function PATCH(request: Request, { params }: SessionContext) {
+  const tutor = await getCurrentTutor();
+  if (!tutor) {
+    return Response.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const parsed = agendaSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid agenda', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const { groupId, date } = await params;
+    return Response.json({ session: setAgenda(groupId, date, parsed.data.agenda, tutor) });
+  } catch (error) {
+    if (error instanceof StudyGroupError) {
+      return Response.json(error, { status: error.status });
+    }
+    throw error;
+  }
+}
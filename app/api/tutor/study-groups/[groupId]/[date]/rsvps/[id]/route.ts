@@ -0,0 +1,32 @@
+import { getCurrentTutor } from '@/lib/auth';
+import { StudyGroupError } from '@/lib/study-groups/errors';
+import { recordAttendance } from '@/lib/study-groups/repository';
+import { attendanceSchema } from '@/lib/study-groups/schema';
+
+export const dynamic = 'force-dynamic';
+
+export async function PATCH(
+  request: Request,
+  { params }: { params: Promise<{ groupId: string; date: string; id: string }> }
+) {
+  const tutor = await getCurrentTutor();
+  if (!tutor) {
+    return Response.json({ error: 'Not signed in' }, { status: 401 });
+  }
+
+  const parsed = attendanceSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid attendance', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const { groupId, date, id } = await params;
+    const rsvp = recordAttendance(groupId, date, id, parsed.data.attended, tutor.tutorId);
+    return Response.json({ rsvp });
+  } catch (error) {
+    if (error instanceof StudyGroupError) {
+      return Response.json(error, { status: error.status });
+    }
+    throw error;
+  }
+}
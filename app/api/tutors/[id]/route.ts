@@ -0,0 +1,12 @@
+import { getTutor } from '@/lib/tutors/repository';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  const tutor = getTutor(id);
+  if (!tutor) {
+    return Response.json({ error: 'Tutor not found' }, { status: 404 });
+  }
+  return Response.json({ tutor });
+}
@@ -0,0 +1,7 @@
+import { listTutors } from '@/lib/tutors/repository';
+
+export const dynamic = 'force-dynamic';
+
+export function GET() {
+  return Response.json({ tutors: listTutors() });
+}
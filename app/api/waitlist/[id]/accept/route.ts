@@ -0,0 +1,35 @@
+import { after } from 'next/server';
+import { BookingError } from '@/lib/booking/errors';
+import { managementPath } from '@/lib/booking/tokens';
+import { sendBookingConfirmation } from '@/lib/notifications/appointments';
+import { processWaitlist } from '@/lib/notifications/waitlist';
+import { WaitlistError } from '@/lib/waitlist/errors';
+import { acceptOffer } from '@/lib/waitlist/repository';
+import { acceptOfferSchema } from '@/lib/waitlist/schema';
+
+export const dynamic = 'force-dynamic';
+
+type WaitlistContext = { params: Promise<{ id: string }> };
+
+export async function POST(request: Request, { params }: WaitlistContext) {
+  const parsed = acceptOfferSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid offer response', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const appointment = acceptOffer((await params).id, parsed.data);
+    after(() => sendBookingConfirmation(appointment));
+    return Response.json({ appointment, manageUrl: managementPath(appointment) }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WaitlistError) {
+      // The hold lapsed before the job got to it; pass the slot on now rather than at the next run.
+      if (error.code === 'OFFER_EXPIRED') after(() => processWaitlist());
+      return Response.json(error, { status: error.status });
+    }
+    if (error instanceof BookingError) {
+      return Response.json(error, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,30 @@
+import { after } from 'next/server';
+import { processWaitlist } from '@/lib/notifications/waitlist';
+import { WaitlistError } from '@/lib/waitlist/errors';
+import { getWaitlistTicket, leaveWaitlist } from '@/lib/waitlist/repository';
+
+export const dynamic = 'force-dynamic';
+
+type WaitlistContext = { params: Promise<{ id: string }> };
+
+export async function GET(_request: Request, { params }: WaitlistContext) {
+  const ticket = getWaitlistTicket((await params).id);
+  if (!ticket) {
+    return Response.json({ error: 'Waitlist entry not found' }, { status: 404 });
+  }
+  return Response.json(ticket);
+}
+
+export async function DELETE(_request: Request, { params }: WaitlistContext) {
+  try {
+    const entry = leaveWaitlist((await params).id);
+    // Giving up an offer frees the held slot for whoever is next.
+    if (entry.offer) after(() => processWaitlist());
+    return Response.json({ entry });
+  } catch (error) {
+    if (error instanceof WaitlistError) {
+      return Response.json(error, { status: error.status });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,22 @@
+import { WaitlistError } from '@/lib/waitlist/errors';
+import { joinWaitlist } from '@/lib/waitlist/repository';
+import { waitlistRequestSchema } from '@/lib/waitlist/schema';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: Request) {
+  const parsed = waitlistRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!parsed.success) {
+    return Response.json({ error: 'Invalid waitlist request', issues: parsed.error.issues }, { status: 400 });
+  }
+
+  try {
+    const ticket = joinWaitlist(parsed.data);
+    return Response.json({ ...ticket, url: `/waitlist/${ticket.entry.id}` }, { status: 201 });
+  } catch (error) {
+    if (error instanceof WaitlistError) {
+      return Response.json(error, { status: error.status });
+    }
+    throw error;
+  }
+}
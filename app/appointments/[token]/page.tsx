@@ -0,0 +1,41 @@
+import type { Metadata } from 'next';
+import ManageAppointment, { LinkProblem } from '@/components/appointments/ManageAppointment';
+import { bookableDates, changeDeadline, getAppointment, isChangeable, isContextEditable } from '@/lib/booking/repository';
+import { managementPath, verifyManagementToken } from '@/lib/booking/tokens';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Manage your appointment - CCSF Tutoring',
+  robots: { index: false },
+};
+
+type ManageAppointmentPageProps = {
+  params: Promise<{ token: string }>;
+};
+
+export default async function ManageAppointmentPage({ params }: ManageAppointmentPageProps) {
+  const { token } = await params;
+  const check = verifyManagementToken(token);
+  if (check.status === 'expired') {
+    return <LinkProblem reason="expired" />;
+  }
+
+  const appointment = check.status === 'valid' ? getAppointment(check.appointmentId) : undefined;
+  if (!appointment) {
+    return <LinkProblem reason="invalid" />;
+  }
+
+  const replacement = appointment.rescheduledTo ? getAppointment(appointment.rescheduledTo) : undefined;
+  return (
+    <ManageAppointment
+      token={token}
+      appointment={appointment}
+      changeDeadline={changeDeadline(appointment).toISOString()}
+      canChange={isChangeable(appointment)}
+      canEditContext={isContextEditable(appointment)}
+      dates={bookableDates()}
+      replacement={replacement && { appointment: replacement, manageUrl: managementPath(replacement) }}
+    />
+  );
+}
@@ -0,0 +1,34 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import TutorProfile from '@/components/bios/TutorProfile';
+import { webcalUrl } from '@/lib/site';
+import { getScheduleTerm } from '@/lib/terms';
+import { getTutor, listTutors } from '@/lib/tutors/repository';
+
+type TutorPageProps = {
+  params: Promise<{ slug: string }>;
+};
+
+export function generateStaticParams() {
+  return listTutors().map((tutor) => ({ slug: tutor.id }));
+}
+
+export async function generateMetadata({ params }: TutorPageProps): Promise<Metadata> {
+  const tutor = getTutor((await params).slug);
+  return tutor
+    ? { title: `${tutor.name} - CCSF Tutoring`, description: tutor.bio }
+    : { title: 'Tutor not found - CCSF Tutoring' };
+}
+
+export default async function TutorPage({ params }: TutorPageProps) {
+  const tutor = getTutor((await params).slug);
+  if (!tutor) notFound();
+
+  return (
+    <TutorProfile
+      tutor={tutor}
+      calendarUrl={webcalUrl(`/api/calendar/${tutor.id}.ics`)}
+      onCampusLocation={getScheduleTerm().onCampusLocation}
+    />
+  );
+}
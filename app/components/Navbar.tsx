@@ -13,6 +13,7 @@ export default function Navbar() {
 
   const navLinks = [
     { href: '/schedule', label: 'Schedule' },
+    { href: '/dropin', label: 'Drop-in' },
     { href: '/rules', label: 'Rules' },
     { href: '/bios', label: 'Bios' },
     { href: '/resources', label: 'Resources' },
@@ -0,0 +1,18 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import QueueTicket from '@/components/dropin/QueueTicket';
+import { getDropInQueue } from '@/lib/dropin';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Your place in line - CCSF Tutoring',
+  robots: { index: false },
+};
+
+export default async function QueueTicketPage({ params }: { params: Promise<{ id: string }> }) {
+  const ticket = getDropInQueue().ticket((await params).id);
+  if (!ticket) notFound();
+
+  return <QueueTicket ticket={ticket} />;
+}
@@ -0,0 +1,15 @@
+import type { Metadata } from 'next';
+import JoinQueue from '@/components/dropin/JoinQueue';
+import { getDropInQueue } from '@/lib/dropin';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Drop-in queue - CCSF Tutoring',
+  description: 'Join the line for the next free tutor in the CCSF CS Tutor Squad Zoom room.',
+};
+
+export default function DropInPage() {
+  const board = getDropInQueue().board();
+  return <JoinQueue waiting={board.waiting.length} tutorsOnDuty={board.tutorsOnDuty} />;
+}
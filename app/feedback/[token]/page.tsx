@@ -0,0 +1,33 @@
+import type { Metadata } from 'next';
+import FeedbackSurvey, { SurveyProblem } from '@/components/feedback/FeedbackSurvey';
+import { getAppointment } from '@/lib/booking/repository';
+import { verifyFeedbackToken } from '@/lib/booking/tokens';
+import { hasFeedback } from '@/lib/feedback/repository';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Rate your session - CCSF Tutoring',
+  robots: { index: false },
+};
+
+type FeedbackPageProps = {
+  params: Promise<{ token: string }>;
+};
+
+export default async function FeedbackPage({ params }: FeedbackPageProps) {
+  const { token } = await params;
+  const check = verifyFeedbackToken(token);
+  if (check.status === 'expired') {
+    return <SurveyProblem reason="expired" />;
+  }
+
+  const appointment = check.status === 'valid' ? getAppointment(check.appointmentId) : undefined;
+  if (!appointment || appointment.status !== 'completed') {
+    return <SurveyProblem reason="invalid" />;
+  }
+  if (hasFeedback(appointment.id)) {
+    return <SurveyProblem reason="answered" />;
+  }
+  return <FeedbackSurvey token={token} appointment={appointment} />;
+}
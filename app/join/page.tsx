@@ -0,0 +1,17 @@
+import type { Metadata } from 'next';
+import RecordingConsent from '@/components/consent/RecordingConsent';
+import { hasRememberedConsent } from '@/lib/consents';
+import { getScheduleTerm } from '@/lib/terms';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Join Zoom tutoring - CCSF Tutoring',
+  description: 'Agree to session recording and join the CCSF CS Tutor Squad Zoom room.',
+};
+
+export default async function JoinPage() {
+  const term = getScheduleTerm();
+  const agreed = await hasRememberedConsent(term);
+  return <RecordingConsent termLabel={term.label} zoomLink={agreed ? term.zoom.link : undefined} />;
+}
@@ -1,9 +1,16 @@
 import HomeContent from '@/components/home/HomeContent';
+import { getScheduleTerm, getTermStatus } from '@/lib/terms';
+import { listTutors } from '@/lib/tutors/repository';
+
+export const dynamic = 'force-dynamic';
 
 export default function Home() {
+  const term = getScheduleTerm();
+  const tutors = listTutors(term.id);
+
   return (
     <>
-      <HomeContent />
+      <HomeContent term={term} status={getTermStatus()} tutors={tutors} />
     </>
   );
 }
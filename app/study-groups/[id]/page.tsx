@@ -0,0 +1,19 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import RsvpTicket from '@/components/study-groups/RsvpTicket';
+import { getRsvp, getSession } from '@/lib/study-groups/repository';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Your study group RSVP - CCSF Tutoring',
+  robots: { index: false },
+};
+
+export default async function RsvpPage({ params }: { params: Promise<{ id: string }> }) {
+  const rsvp = getRsvp((await params).id);
+  const session = rsvp && getSession(rsvp.groupId, rsvp.date);
+  if (!rsvp || !session) notFound();
+
+  return <RsvpTicket rsvp={rsvp} session={session} />;
+}
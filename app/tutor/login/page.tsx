@@ -0,0 +1,17 @@
+import type { Metadata } from 'next';
+import { redirect } from 'next/navigation';
+import LoginForm from '@/components/tutor/LoginForm';
+import { getCurrentUser, landingPath } from '@/lib/auth';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Tutor sign in - CCSF Tutoring',
+  robots: { index: false },
+};
+
+export default async function TutorLoginPage() {
+  const user = await getCurrentUser();
+  if (user) redirect(landingPath(user));
+  return <LoginForm />;
+}
@@ -0,0 +1,37 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import TutorDashboard from '@/components/tutor/TutorDashboard';
+import { requireTutor } from '@/lib/auth';
+import { getTutorQueue } from '@/lib/booking/repository';
+import { getDropInQueue } from '@/lib/dropin';
+import { listIncidents } from '@/lib/incidents/repository';
+import { listResources } from '@/lib/resources/repository';
+import { listTutorRosters } from '@/lib/study-groups/repository';
+import { getScheduleTerm } from '@/lib/terms';
+import { getTutor } from '@/lib/tutors/repository';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Tutor dashboard - CCSF Tutoring',
+  robots: { index: false },
+};
+
+export default async function TutorDashboardPage() {
+  const user = await requireTutor();
+  const term = getScheduleTerm();
+  const tutor = getTutor(user.tutorId, term.id);
+  if (!tutor) notFound();
+
+  return (
+    <TutorDashboard
+      tutor={tutor}
+      term={term}
+      queue={getTutorQueue(tutor.id)}
+      dropIn={getDropInQueue().board()}
+      suggestions={listResources({ submittedBy: user.id })}
+      incidents={listIncidents({ reportedBy: user.id })}
+      studyGroups={listTutorRosters(tutor.id)}
+    />
+  );
+}
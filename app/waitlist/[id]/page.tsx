@@ -0,0 +1,35 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import WaitlistTicket from '@/components/waitlist/WaitlistTicket';
+import { getAppointment } from '@/lib/booking/repository';
+import { managementPath } from '@/lib/booking/tokens';
+import { hasRecordingConsent } from '@/lib/consents/repository';
+import { acknowledgedRulesVersion, getCurrentRules } from '@/lib/rules/versions';
+import { getTerm } from '@/lib/terms';
+import { formatInstant } from '@/lib/time';
+import { getWaitlistTicket } from '@/lib/waitlist/repository';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Your place on the waitlist - CCSF Tutoring',
+  robots: { index: false },
+};
+
+export default async function WaitlistTicketPage({ params }: { params: Promise<{ id: string }> }) {
+  const ticket = getWaitlistTicket((await params).id);
+  if (!ticket) notFound();
+
+  const { entry } = ticket;
+  const rules = getCurrentRules();
+  const appointment = entry.appointmentId ? getAppointment(entry.appointmentId) : undefined;
+  return (
+    <WaitlistTicket
+      ticket={ticket}
+      holdEnds={entry.offer ? formatInstant(new Date(entry.offer.expiresAt)) : undefined}
+      rulesVersion={(acknowledgedRulesVersion(entry.studentEmail) ?? 0) < rules.version ? rules.version : undefined}
+      consentTermLabel={hasRecordingConsent(entry.studentEmail, entry.termId) ? undefined : getTerm(entry.termId)?.label}
+      manageUrl={appointment ? managementPath(appointment) : undefined}
+    />
+  );
+}
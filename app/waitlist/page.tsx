@@ -0,0 +1,38 @@
+import type { Metadata } from 'next';
+import JoinWaitlist from '@/components/waitlist/JoinWaitlist';
+import { hasStarted, listSlots } from '@/lib/booking/repository';
+import { getScheduleTerm } from '@/lib/terms';
+import { addDaysToDate, formatDate, weekdayOfDate, zonedTime } from '@/lib/time';
+import { listTutors } from '@/lib/tutors/repository';
+
+export const dynamic = 'force-dynamic';
+
+export const metadata: Metadata = {
+  title: 'Waitlist - CCSF Tutoring',
+  description: 'Get in line for a Zoom tutoring session when every time you want is already booked.',
+};
+
+type WaitlistPageProps = {
+  searchParams: Promise<{ date?: string | string[]; tutor?: string | string[] }>;
+};
+
+export default async function WaitlistPage({ searchParams }: WaitlistPageProps) {
+  const { date, tutor } = await searchParams;
+  const now = new Date();
+  const term = getScheduleTerm(now);
+  const today = zonedTime(now).date;
+  // Days in the booking window that still have Zoom sessions to wait for.
+  const days = Array.from({ length: term.booking.advanceDays + 1 }, (_, offset) => addDaysToDate(today, offset))
+    .filter((day) => listSlots({ date: day }, now).some((slot) => !hasStarted(slot, now)))
+    .map((day) => ({ date: day, label: `${weekdayOfDate(day)}, ${formatDate(day)}` }));
+
+  return (
+    <JoinWaitlist
+      days={days}
+      tutors={listTutors(term.id).map(({ id, name }) => ({ id, name }))}
+      holdMinutes={term.booking.waitlistHoldMinutes}
+      initialDate={typeof date === 'string' ? date : undefined}
+      initialTutorId={typeof tutor === 'string' ? tutor : undefined}
+    />
+  );
+}
@@ -0,0 +1,30 @@
+import { cn } from '@/lib/utils';
+
+type AdminPanelProps = {
+  title?: string;
+  description?: string;
+  className?: string;
+  children: React.ReactNode;
+};
+
+export default function AdminPanel({ title, description, className, children }: AdminPanelProps) {
+  return (
+    <section className={cn('rounded-3xl border border-slate-200 bg-white p-6 shadow-sm shadow-slate-100', className)}>
+      {title && <h2 className="text-lg font-semibold text-slate-900">{title}</h2>}
+      {description && <p className="mt-1 text-sm text-slate-500">{description}</p>}
+      <div className={cn(title || description ? 'mt-4' : undefined)}>{children}</div>
+    </section>
+  );
+}
+
+export function AdminHeading({ title, children }: { title: string; children?: React.ReactNode }) {
+  return (
+    <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+      <h1 className="text-3xl font-bold text-slate-900">{title}</h1>
+      {children}
+    </div>
+  );
+}
+
+export const FIELD_CLASS =
+  'w-full rounded-2xl border border-slate-200 bg-white px-4 py-2 text-sm outline-none focus:border-slate-400';
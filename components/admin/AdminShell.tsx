@@ -0,0 +1,71 @@
+'use client';
+
+import Link from 'next/link';
+import { usePathname, useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { can, type Permission } from '@/lib/auth/permissions';
+import type { User } from '@/lib/auth/types';
+import { cn } from '@/lib/utils';
+
+const SECTIONS: { href: string; label: string; permission?: Permission }[] = [
+  { href: '/admin', label: 'Overview' },
+  { href: '/admin/tutors', label: 'Tutors', permission: 'tutors:manage' },
+  { href: '/admin/terms', label: 'Terms', permission: 'terms:manage' },
+  { href: '/admin/resources', label: 'Resources', permission: 'resources:manage' },
+  { href: '/admin/rules', label: 'Rules', permission: 'rules:manage' },
+  { href: '/admin/students', label: 'Students', permission: 'students:restrict' },
+  { href: '/admin/incidents', label: 'Incidents', permission: 'incidents:manage' },
+  { href: '/admin/chats', label: 'Flagged chats', permission: 'chats:review' },
+  { href: '/admin/feedback', label: 'Feedback', permission: 'feedback:view' },
+  { href: '/admin/reports', label: 'Reports', permission: 'reports:view' },
+  { href: '/admin/audit', label: 'Audit log', permission: 'audit:view' },
+];
+
+type AdminShellProps = {
+  user: User;
+  children: React.ReactNode;
+};
+
+export default function AdminShell({ user, children }: AdminShellProps) {
+  const pathname = usePathname();
+  const router = useRouter();
+
+  async function signOut() {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    router.replace('/tutor/login');
+    router.refresh();
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-100 via-white to-white py-12">
+      <div className="mx-auto flex max-w-6xl flex-col gap-8 px-6 lg:flex-row lg:px-8">
+        <aside className="lg:w-56 lg:flex-none">
+          <span className="text-sm uppercase tracking-[0.35em] text-sky-700">Admin</span>
+          <p className="mt-2 text-sm text-slate-500">Signed in as {user.name}</p>
+          <nav className="mt-6 flex flex-wrap gap-2 lg:flex-col">
+            {SECTIONS.filter((section) => !section.permission || can(user, section.permission)).map((section) => {
+              const active =
+                section.href === '/admin' ? pathname === '/admin' : pathname.startsWith(section.href);
+              return (
+                <Link
+                  key={section.href}
+                  href={section.href}
+                  className={cn(
+                    'rounded-full px-4 py-2 text-sm transition',
+                    active ? 'bg-slate-900 text-white' : 'text-slate-600 hover:bg-slate-100'
+                  )}
+                >
+                  {section.label}
+                </Link>
+              );
+            })}
+          </nav>
+          <Button type="button" variant="outline" onClick={signOut} className="mt-6 rounded-full px-5">
+            Sign out
+          </Button>
+        </aside>
+        <main className="min-w-0 flex-1">{children}</main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import type { AuditEntry } from '@/lib/audit/types';
+import { formatInstant, parseSqlTimestamp } from '@/lib/time';
+
+const ENTITY_LABELS: Record<AuditEntry['entityType'], string> = {
+  tutor: 'tutor',
+  term: 'term',
+  resource: 'resource',
+  rule: 'rule',
+  student: 'student',
+  user: 'account',
+  consent: 'recording consents',
+  incident: 'incident report',
+  chat: 'chat conversation',
+};
+
+function summarize(details: Record<string, unknown>): string {
+  const text = JSON.stringify(details);
+  return text === '{}' ? '' : text.length > 160 ? `${text.slice(0, 157)}…` : text;
+}
+
+export default function AuditList({ entries }: { entries: AuditEntry[] }) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-slate-400">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-slate-100">
+      {entries.map((entry) => (
+        <li key={entry.id} className="py-3 text-sm">
+          <div className="flex flex-wrap justify-between gap-2">
+            <span className="text-slate-800">
+              <span className="font-semibold">{entry.actorName}</span> {entry.action} {ENTITY_LABELS[entry.entityType]}{' '}
+              <code className="rounded bg-slate-100 px-1.5 py-0.5 text-xs">{entry.entityId}</code>
+            </span>
+            <time dateTime={parseSqlTimestamp(entry.createdAt).toISOString()} className="text-slate-400">
+              {formatInstant(parseSqlTimestamp(entry.createdAt))}
+            </time>
+          </div>
+          {summarize(entry.details) && (
+            <p className="mt-1 break-all font-mono text-xs text-slate-500">{summarize(entry.details)}</p>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,45 @@
+import Link from 'next/link';
+import { MODERATION_CATEGORY_LABELS, type FlaggedConversation } from '@/lib/moderation/types';
+import { formatInstant } from '@/lib/time';
+import { cn } from '@/lib/utils';
+
+export function ChatReviewBadge({ conversation }: { conversation: Pick<FlaggedConversation, 'reviewedAt'> }) {
+  return (
+    <span
+      className={cn(
+        'rounded-full px-3 py-1 text-xs font-semibold',
+        conversation.reviewedAt ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-700'
+      )}
+    >
+      {conversation.reviewedAt ? 'Reviewed' : 'Needs review'}
+    </span>
+  );
+}
+
+export default function ChatFlagList({ conversations }: { conversations: FlaggedConversation[] }) {
+  if (conversations.length === 0) {
+    return <p className="text-sm text-slate-400">No flagged conversations.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-slate-100">
+      {conversations.map((conversation) => (
+        <li key={conversation.sessionId}>
+          <Link
+            href={`/admin/chats/${conversation.sessionId}`}
+            className="flex flex-wrap items-center justify-between gap-2 py-3"
+          >
+            <span>
+              <span className="font-medium text-slate-900">{conversation.studentEmail ?? 'Anonymous student'}</span>
+              <span className="ml-2 text-sm text-slate-500">
+                {conversation.categories.map((category) => MODERATION_CATEGORY_LABELS[category]).join(', ')} ·{' '}
+                {conversation.flags.length} flagged · {formatInstant(new Date(conversation.lastFlaggedAt))}
+              </span>
+            </span>
+            <ChatReviewBadge conversation={conversation} />
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
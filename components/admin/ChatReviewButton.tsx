@@ -0,0 +1,23 @@
+'use client';
+
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useJsonRequest } from '@/hooks/use-json-request';
+
+export default function ChatReviewButton({ sessionId }: { sessionId: string }) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+
+  async function markReviewed() {
+    if (await send(`/api/admin/chat/flags/${sessionId}`, 'PATCH', { reviewed: true })) router.refresh();
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <Button type="button" disabled={pending} onClick={markReviewed} className="rounded-full px-5">
+        Mark reviewed
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import type { FeedbackSummary } from '@/lib/feedback/types';
+
+// One row per tutor or course: response count, average rating and how the ratings spread from 1 to 5.
+export default function FeedbackSummaryTable({ summaries, heading }: { summaries: FeedbackSummary[]; heading: string }) {
+  if (summaries.length === 0) {
+    return <p className="text-sm text-slate-400">No responses yet.</p>;
+  }
+
+  return (
+    <table className="w-full text-left text-sm">
+      <thead className="text-xs uppercase tracking-wide text-slate-400">
+        <tr>
+          <th className="pb-2 font-semibold">{heading}</th>
+          <th className="pb-2 text-right font-semibold">Responses</th>
+          <th className="pb-2 text-right font-semibold">Average</th>
+          <th className="hidden pb-2 pl-6 font-semibold sm:table-cell">Ratings 1–5</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-100">
+        {summaries.map((summary) => (
+          <tr key={summary.key}>
+            <td className="py-2 text-slate-800">{summary.label}</td>
+            <td className="py-2 text-right text-slate-600">{summary.responses}</td>
+            <td className="py-2 text-right font-semibold text-slate-900">{summary.averageRating.toFixed(1)}</td>
+            <td className="hidden py-2 pl-6 sm:table-cell">
+              <div className="flex h-2 w-40 overflow-hidden rounded-full bg-slate-100">
+                {summary.ratings.map((count, index) => (
+                  <div
+                    key={index}
+                    title={`${index + 1}: ${count}`}
+                    style={{ width: `${(count / summary.responses) * 100}%`, opacity: 0.3 + index * 0.175 }}
+                    className="bg-sky-700"
+                  />
+                ))}
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
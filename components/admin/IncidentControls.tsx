@@ -0,0 +1,152 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import { INCIDENT_STATUSES, SANCTIONS, type Incident, type IncidentNote, type Sanction } from '@/lib/incidents/types';
+import { formatInstant, parseSqlTimestamp } from '@/lib/time';
+import { cn } from '@/lib/utils';
+import AdminPanel, { FIELD_CLASS } from './AdminPanel';
+
+type IncidentControlsProps = {
+  incident: Incident;
+  notes: IncidentNote[];
+};
+
+const SANCTION_DESCRIPTIONS: Record<Sanction, string> = {
+  warning: 'Recorded on the incident only. The student can keep booking.',
+  suspension: 'The student can’t book or join the drop-in line for a number of days.',
+  ban: 'The student can’t book until a coordinator lifts the ban.',
+};
+
+export default function IncidentControls({ incident, notes }: IncidentControlsProps) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const [note, setNote] = useState('');
+  const [sanction, setSanction] = useState<Sanction>('warning');
+  const [days, setDays] = useState(7);
+  const [cancelUpcoming, setCancelUpcoming] = useState(true);
+
+  async function save(url: string, method: string, body: unknown) {
+    if (await send(url, method, body)) router.refresh();
+  }
+
+  async function addNote(event: React.FormEvent) {
+    event.preventDefault();
+    if (await send(`/api/admin/incidents/${incident.id}/notes`, 'POST', { body: note })) {
+      setNote('');
+      router.refresh();
+    }
+  }
+
+  async function applySanction(event: React.FormEvent) {
+    event.preventDefault();
+    const body = { sanction, days: sanction === 'suspension' ? days : undefined, cancelUpcoming };
+    await save(`/api/admin/incidents/${incident.id}/sanction`, 'POST', body);
+  }
+
+  return (
+    <>
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+      {!incident.sanction && (
+        <AdminPanel title="Status" className="mt-8">
+          <div className="flex flex-wrap gap-2">
+            {INCIDENT_STATUSES.map((status) => (
+              <Button
+                key={status}
+                type="button"
+                variant={incident.status === status ? 'default' : 'outline'}
+                disabled={pending || incident.status === status}
+                onClick={() => save(`/api/admin/incidents/${incident.id}`, 'PATCH', { status })}
+                className="rounded-full px-5 capitalize"
+              >
+                {status}
+              </Button>
+            ))}
+          </div>
+        </AdminPanel>
+      )}
+
+      <AdminPanel title="Notes" description="Only coordinators see these." className="mt-8">
+        {notes.length > 0 && (
+          <ul className="mb-4 divide-y divide-slate-100">
+            {notes.map((entry) => (
+              <li key={entry.id} className="py-3 text-sm">
+                <p className="text-slate-500">
+                  <span className="font-semibold text-slate-800">{entry.authorName}</span> ·{' '}
+                  {formatInstant(parseSqlTimestamp(entry.createdAt))}
+                </p>
+                <p className="mt-1 whitespace-pre-line text-slate-700">{entry.body}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        <form onSubmit={addNote} className="space-y-3">
+          <textarea
+            value={note}
+            onChange={(event) => setNote(event.target.value)}
+            placeholder="What you found out, who you talked to…"
+            aria-label="Note"
+            rows={3}
+            required
+            maxLength={4000}
+            className={FIELD_CLASS}
+          />
+          <Button type="submit" disabled={pending} className="rounded-full bg-slate-900 px-5 text-white hover:bg-slate-700">
+            Add note
+          </Button>
+        </form>
+      </AdminPanel>
+
+      {!incident.sanction && (
+        <AdminPanel
+          title="Sanction"
+          description="Applying a sanction resolves the incident. It can’t be changed here afterwards, but a suspension or ban can be lifted from the student’s page."
+          className="mt-8"
+        >
+          <form onSubmit={applySanction} className="space-y-3">
+            <div className="flex flex-wrap gap-4 text-sm text-slate-700">
+              {SANCTIONS.map((option) => (
+                <label key={option} className="inline-flex items-center gap-2 capitalize">
+                  <input type="radio" name="sanction" checked={sanction === option} onChange={() => setSanction(option)} />
+                  {option}
+                </label>
+              ))}
+            </div>
+            <p className="text-sm text-slate-500">{SANCTION_DESCRIPTIONS[sanction]}</p>
+            {sanction === 'suspension' && (
+              <label className="block text-sm font-medium text-slate-700">
+                Days, counting today
+                <input
+                  type="number"
+                  min={1}
+                  max={365}
+                  value={days}
+                  onChange={(event) => setDays(Number(event.target.value))}
+                  required
+                  className={cn('mt-1 max-w-32', FIELD_CLASS)}
+                />
+              </label>
+            )}
+            {sanction !== 'warning' && (
+              <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={cancelUpcoming}
+                  onChange={(event) => setCancelUpcoming(event.target.checked)}
+                />
+                Cancel their upcoming appointments {sanction === 'suspension' ? 'during the suspension' : ''}
+              </label>
+            )}
+            <div>
+              <Button type="submit" disabled={pending} className="rounded-full bg-red-600 px-6 text-white hover:bg-red-500">
+                {sanction === 'warning' ? 'Record warning' : `Apply ${sanction}`}
+              </Button>
+            </div>
+          </form>
+        </AdminPanel>
+      )}
+    </>
+  );
+}
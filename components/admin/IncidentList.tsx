@@ -0,0 +1,44 @@
+import Link from 'next/link';
+import { INCIDENT_CATEGORY_LABELS, type Incident, type IncidentStatus } from '@/lib/incidents/types';
+import { formatDate } from '@/lib/time';
+import { cn } from '@/lib/utils';
+
+const STATUS_CLASSES: Record<IncidentStatus, string> = {
+  open: 'bg-amber-50 text-amber-700',
+  reviewing: 'bg-sky-50 text-sky-700',
+  resolved: 'bg-emerald-50 text-emerald-700',
+  dismissed: 'bg-slate-100 text-slate-600',
+};
+
+export function IncidentStatusBadge({ incident }: { incident: Pick<Incident, 'status' | 'sanction'> }) {
+  return (
+    <span className={cn('rounded-full px-3 py-1 text-xs font-semibold capitalize', STATUS_CLASSES[incident.status])}>
+      {incident.sanction ? `${incident.status} · ${incident.sanction}` : incident.status}
+    </span>
+  );
+}
+
+export default function IncidentList({ incidents }: { incidents: Incident[] }) {
+  if (incidents.length === 0) {
+    return <p className="text-sm text-slate-400">No incidents reported.</p>;
+  }
+
+  return (
+    <ul className="divide-y divide-slate-100">
+      {incidents.map((incident) => (
+        <li key={incident.id}>
+          <Link href={`/admin/incidents/${incident.id}`} className="flex flex-wrap items-center justify-between gap-2 py-3">
+            <span>
+              <span className="font-medium text-slate-900">{incident.student.name}</span>
+              <span className="ml-2 text-sm text-slate-500">
+                {INCIDENT_CATEGORY_LABELS[incident.category]} · {formatDate(incident.appointment.date)} with{' '}
+                {incident.appointment.tutorName}
+              </span>
+            </span>
+            <IncidentStatusBadge incident={incident} />
+          </Link>
+        </li>
+      ))}
+    </ul>
+  );
+}
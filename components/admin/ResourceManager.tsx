@@ -0,0 +1,306 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import TagFields, { fromTagDraft, toTagDraft, type TagDraft } from '@/components/resources/TagFields';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import type { Resource } from '@/lib/resources/types';
+import { formatInstant } from '@/lib/time';
+import { cn } from '@/lib/utils';
+import AdminPanel, { FIELD_CLASS } from './AdminPanel';
+
+type Draft = {
+  title: string;
+  href: string;
+  label: string;
+  usefulFor: string;
+  description: string;
+  tags: TagDraft;
+  position: number;
+};
+
+const BLANK_TAGS: TagDraft = { languages: [], courses: [], topics: '' };
+
+function toDraft(resource: Resource): Draft {
+  return {
+    title: resource.title,
+    href: resource.link?.href ?? '',
+    label: resource.link?.label ?? '',
+    usefulFor: resource.usefulFor,
+    description: resource.description,
+    tags: toTagDraft(resource.tags),
+    position: resource.position,
+  };
+}
+
+function toInput(draft: Draft) {
+  const { href, label, tags, ...rest } = draft;
+  return { ...rest, tags: fromTagDraft(tags), link: href ? { href, label: label || undefined } : undefined };
+}
+
+const LINK_HEALTH: Record<NonNullable<Resource['link']>['status'], { label: string; className: string }> = {
+  unchecked: { label: 'Link not checked yet', className: 'text-slate-400' },
+  ok: { label: 'Link works', className: 'text-emerald-700' },
+  broken: { label: 'Link looks broken', className: 'font-semibold text-red-600' },
+};
+
+function LinkHealth({ link }: { link: NonNullable<Resource['link']> }) {
+  const health = LINK_HEALTH[link.status];
+  return (
+    <p className={cn('text-xs', health.className)}>
+      {health.label}
+      {link.problem && `: ${link.problem}`}
+      {link.checkedAt && ` · checked ${formatInstant(new Date(link.checkedAt))}`}
+    </p>
+  );
+}
+
+function TagSummary({ resource }: { resource: Resource }) {
+  const tags = [
+    ...resource.tags.languages,
+    ...resource.tags.courses.map((code) => `CS ${code}`),
+    ...resource.tags.topics.map((topic) => `#${topic}`),
+  ];
+  return <p className="text-xs text-slate-500">{tags.length > 0 ? tags.join(' · ') : 'No tags'}</p>;
+}
+
+function ReviewPanel({ resource }: { resource: Resource }) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const [note, setNote] = useState('');
+
+  async function review(decision: 'published' | 'rejected') {
+    if (await send(`/api/admin/resources/${resource.id}/review`, 'POST', { decision, note })) router.refresh();
+  }
+
+  return (
+    <AdminPanel>
+      <div className="space-y-2">
+        <div className="flex flex-wrap items-baseline justify-between gap-2">
+          <h3 className="font-semibold text-slate-900">{resource.title}</h3>
+          <span className="text-xs text-slate-500">Suggested by {resource.submittedBy?.name ?? 'a tutor'}</span>
+        </div>
+        {resource.link && (
+          <a
+            href={resource.link.href}
+            target="_blank"
+            rel="noreferrer"
+            className="block truncate text-sm text-sky-700 hover:underline"
+          >
+            {resource.link.href}
+          </a>
+        )}
+        <p className="text-sm text-slate-600">
+          <span className="font-medium text-slate-700">Useful for:</span> {resource.usefulFor}
+        </p>
+        <p className="text-sm text-slate-600">{resource.description}</p>
+        <TagSummary resource={resource} />
+      </div>
+      <textarea
+        value={note}
+        onChange={(event) => setNote(event.target.value)}
+        placeholder="Note for the tutor (optional)"
+        aria-label="Review note"
+        rows={2}
+        maxLength={500}
+        className={cn('mt-4', FIELD_CLASS)}
+      />
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+      <div className="mt-3 flex gap-3">
+        <Button
+          type="button"
+          disabled={pending}
+          onClick={() => review('published')}
+          className="rounded-full bg-slate-900 px-5 text-white hover:bg-slate-700"
+        >
+          Publish
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          disabled={pending}
+          onClick={() => review('rejected')}
+          className="rounded-full px-5"
+        >
+          Reject
+        </Button>
+      </div>
+    </AdminPanel>
+  );
+}
+
+function LinkCheckButton() {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const [result, setResult] = useState<string | null>(null);
+
+  async function check() {
+    setResult(null);
+    const run = await send<{ checked: number; broken: Resource[] }>('/api/admin/resources/link-check', 'POST');
+    if (run) {
+      setResult(`Checked ${run.checked} links, ${run.broken.length} broken.`);
+      router.refresh();
+    }
+  }
+
+  return (
+    <div className="flex items-center gap-3">
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {result && <p className="text-sm text-slate-500">{result}</p>}
+      <Button type="button" variant="outline" disabled={pending} onClick={check} className="rounded-full px-5">
+        {pending ? 'Checking links…' : 'Check links now'}
+      </Button>
+    </div>
+  );
+}
+
+function ResourceForm({ resource, nextPosition }: { resource?: Resource; nextPosition: number }) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const blank: Draft = {
+    title: '',
+    href: '',
+    label: '',
+    usefulFor: '',
+    description: '',
+    tags: BLANK_TAGS,
+    position: nextPosition,
+  };
+  const [draft, setDraft] = useState<Draft>(resource ? toDraft(resource) : blank);
+  const [saved, setSaved] = useState(false);
+
+  function update(change: Partial<Draft>) {
+    setDraft({ ...draft, ...change });
+    setSaved(false);
+  }
+
+  async function save(event: React.FormEvent) {
+    event.preventDefault();
+    const url = resource ? `/api/admin/resources/${resource.id}` : '/api/admin/resources';
+    if (await send(url, resource ? 'PUT' : 'POST', toInput(draft))) {
+      if (!resource) setDraft(blank);
+      setSaved(!!resource);
+      router.refresh();
+    }
+  }
+
+  async function remove() {
+    if (resource && window.confirm(`Delete “${resource.title}”?`)) {
+      if (await send(`/api/admin/resources/${resource.id}`, 'DELETE')) router.refresh();
+    }
+  }
+
+  return (
+    <form onSubmit={save} className="space-y-3">
+      {resource?.link && <LinkHealth link={resource.link} />}
+      <div className="grid gap-3 sm:grid-cols-[1fr_6rem]">
+        <input
+          value={draft.title}
+          onChange={(event) => update({ title: event.target.value })}
+          placeholder="Title"
+          aria-label="Title"
+          required
+          className={FIELD_CLASS}
+        />
+        <input
+          type="number"
+          min={0}
+          value={draft.position}
+          onChange={(event) => update({ position: Number(event.target.value) })}
+          aria-label="Position"
+          title="Position on the page"
+          className={FIELD_CLASS}
+        />
+      </div>
+      <div className="grid gap-3 sm:grid-cols-[2fr_1fr]">
+        <input
+          type="url"
+          value={draft.href}
+          onChange={(event) => update({ href: event.target.value })}
+          placeholder="https://… (optional)"
+          aria-label="Link"
+          className={FIELD_CLASS}
+        />
+        <input
+          value={draft.label}
+          onChange={(event) => update({ label: event.target.value })}
+          placeholder="Button label (optional)"
+          aria-label="Link label"
+          className={FIELD_CLASS}
+        />
+      </div>
+      <input
+        value={draft.usefulFor}
+        onChange={(event) => update({ usefulFor: event.target.value })}
+        placeholder="Useful for"
+        aria-label="Useful for"
+        required
+        className={FIELD_CLASS}
+      />
+      <textarea
+        value={draft.description}
+        onChange={(event) => update({ description: event.target.value })}
+        placeholder="Description"
+        aria-label="Description"
+        rows={3}
+        required
+        className={FIELD_CLASS}
+      />
+      <TagFields
+        tags={draft.tags}
+        onChange={(change) => update({ tags: { ...draft.tags, ...change } })}
+        fieldClass={FIELD_CLASS}
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {saved && <p className="text-sm text-emerald-700">Saved.</p>}
+      <div className="flex gap-3">
+        <Button type="submit" disabled={pending} className="rounded-full bg-slate-900 px-5 text-white hover:bg-slate-700">
+          {resource ? 'Save' : 'Add resource'}
+        </Button>
+        {resource && (
+          <Button type="button" variant="outline" disabled={pending} onClick={remove} className="rounded-full px-5">
+            Delete
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
+
+export default function ResourceManager({ resources }: { resources: Resource[] }) {
+  const nextPosition = Math.max(0, ...resources.map((resource) => resource.position)) + 1;
+  const suggestions = resources.filter((resource) => resource.status === 'pending');
+  const published = resources.filter((resource) => resource.status === 'published');
+  const broken = published.filter((resource) => resource.link?.status === 'broken');
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <p className="text-sm text-slate-500">
+          {published.length} published
+          {broken.length > 0 && <span className="font-semibold text-red-600"> · {broken.length} with broken links</span>}
+        </p>
+        <LinkCheckButton />
+      </div>
+
+      {suggestions.length > 0 && (
+        <section className="space-y-4">
+          <h2 className="text-lg font-semibold text-slate-900">Suggestions from tutors</h2>
+          {suggestions.map((resource) => (
+            <ReviewPanel key={resource.id} resource={resource} />
+          ))}
+        </section>
+      )}
+
+      {published.map((resource) => (
+        <AdminPanel key={resource.id}>
+          <ResourceForm resource={resource} nextPosition={nextPosition} />
+        </AdminPanel>
+      ))}
+      <AdminPanel title="Add a resource">
+        <ResourceForm key={nextPosition} nextPosition={nextPosition} />
+      </AdminPanel>
+    </div>
+  );
+}
@@ -0,0 +1,10 @@
+import { describeSuspensionEnd, type Restriction } from '@/lib/students/types';
+
+export default function RestrictionBadge({ restriction }: { restriction?: Restriction }) {
+  if (!restriction) return null;
+  return (
+    <span className="rounded-full bg-red-50 px-3 py-1 text-xs font-semibold text-red-700">
+      {restriction.kind === 'ban' ? 'Banned' : `Suspended ${describeSuspensionEnd(restriction.endsAt!)}`}
+    </span>
+  );
+}
@@ -0,0 +1,89 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import type { Restriction, RestrictionKind } from '@/lib/students/types';
+import { cn } from '@/lib/utils';
+import { FIELD_CLASS } from './AdminPanel';
+
+type RestrictionControlsProps = {
+  studentId: number;
+  active?: Restriction;
+};
+
+export default function RestrictionControls({ studentId, active }: RestrictionControlsProps) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const [kind, setKind] = useState<RestrictionKind>('suspension');
+  const [reason, setReason] = useState('');
+  const [until, setUntil] = useState('');
+  const [cancelUpcoming, setCancelUpcoming] = useState(true);
+
+  async function restrict(event: React.FormEvent) {
+    event.preventDefault();
+    const body = { kind, reason, until: kind === 'suspension' ? until : undefined, cancelUpcoming };
+    if (await send(`/api/admin/students/${studentId}/restrictions`, 'POST', body)) {
+      setReason('');
+      router.refresh();
+    }
+  }
+
+  async function lift() {
+    if (active && (await send(`/api/admin/students/${studentId}/restrictions/${active.id}`, 'DELETE'))) {
+      router.refresh();
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {active && (
+        <Button type="button" variant="outline" disabled={pending} onClick={lift} className="rounded-full px-5">
+          Lift {active.kind} now
+        </Button>
+      )}
+      <form onSubmit={restrict} className="space-y-3">
+        <div className="flex flex-wrap gap-4 text-sm text-slate-700">
+          {(['suspension', 'ban'] as const).map((option) => (
+            <label key={option} className="inline-flex items-center gap-2 capitalize">
+              <input type="radio" name="kind" checked={kind === option} onChange={() => setKind(option)} />
+              {option}
+            </label>
+          ))}
+        </div>
+        {kind === 'suspension' && (
+          <label className="block text-sm font-medium text-slate-700">
+            Suspended through
+            <input
+              type="date"
+              value={until}
+              onChange={(event) => setUntil(event.target.value)}
+              required
+              className={cn('mt-1 max-w-xs', FIELD_CLASS)}
+            />
+          </label>
+        )}
+        <textarea
+          value={reason}
+          onChange={(event) => setReason(event.target.value)}
+          placeholder="Reason (kept in the audit log; not shown to the student)"
+          aria-label="Reason"
+          rows={2}
+          required
+          className={FIELD_CLASS}
+        />
+        <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+          <input type="checkbox" checked={cancelUpcoming} onChange={(event) => setCancelUpcoming(event.target.checked)} />
+          Cancel their upcoming appointments {kind === 'suspension' ? 'during the suspension' : ''}
+        </label>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <div>
+          <Button type="submit" disabled={pending} className="rounded-full bg-red-600 px-6 text-white hover:bg-red-500">
+            {active ? `Replace with ${kind}` : kind === 'ban' ? 'Ban student' : 'Suspend student'}
+          </Button>
+        </div>
+      </form>
+    </div>
+  );
+}
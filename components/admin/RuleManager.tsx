@@ -0,0 +1,182 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import type { Rule, RuleSection, RulesVersion } from '@/lib/rules/types';
+import { formatInstant } from '@/lib/time';
+import { cn } from '@/lib/utils';
+import AdminPanel, { FIELD_CLASS } from './AdminPanel';
+
+const SECTION_TITLES: Record<RuleSection, string> = {
+  do: 'Do',
+  try: 'Try to',
+};
+
+function RuleForm({ section, rule, nextPosition }: { section: RuleSection; rule?: Rule; nextPosition: number }) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const [slug, setSlug] = useState(rule?.slug ?? '');
+  const [body, setBody] = useState(rule?.body ?? '');
+  const [position, setPosition] = useState(rule?.position ?? nextPosition);
+  const [saved, setSaved] = useState(false);
+
+  async function save(event: React.FormEvent) {
+    event.preventDefault();
+    const url = rule ? `/api/admin/rules/${rule.id}` : '/api/admin/rules';
+    if (await send(url, rule ? 'PUT' : 'POST', { slug, section, body, position })) {
+      if (!rule) {
+        setSlug('');
+        setBody('');
+      }
+      setSaved(!!rule);
+      router.refresh();
+    }
+  }
+
+  async function remove() {
+    if (rule && window.confirm('Delete this rule?')) {
+      if (await send(`/api/admin/rules/${rule.id}`, 'DELETE')) router.refresh();
+    }
+  }
+
+  return (
+    <form onSubmit={save} className="flex flex-wrap items-start gap-3 py-3">
+      <input
+        type="number"
+        min={0}
+        value={position}
+        onChange={(event) => setPosition(Number(event.target.value))}
+        aria-label="Position"
+        className={cn(FIELD_CLASS, 'w-20')}
+      />
+      <input
+        value={slug}
+        onChange={(event) => {
+          setSlug(event.target.value);
+          setSaved(false);
+        }}
+        placeholder="rule-id"
+        aria-label="Rule ID"
+        required
+        maxLength={60}
+        className={cn(FIELD_CLASS, 'w-48 font-mono')}
+      />
+      <textarea
+        value={body}
+        onChange={(event) => {
+          setBody(event.target.value);
+          setSaved(false);
+        }}
+        placeholder={rule ? undefined : 'New rule'}
+        aria-label="Rule text"
+        rows={3}
+        required
+        className={cn(FIELD_CLASS, 'min-w-0 flex-1')}
+      />
+      <div className="flex flex-col gap-2">
+        <Button type="submit" disabled={pending} className="rounded-full bg-slate-900 px-5 text-white hover:bg-slate-700">
+          {rule ? 'Save' : 'Add'}
+        </Button>
+        {rule && (
+          <Button type="button" variant="outline" disabled={pending} onClick={remove} className="rounded-full px-5">
+            Delete
+          </Button>
+        )}
+      </div>
+      {error && <p className="w-full text-sm text-red-600">{error}</p>}
+      {saved && <p className="w-full text-sm text-emerald-700">Saved.</p>}
+    </form>
+  );
+}
+
+type RulePublisherProps = {
+  versions: RulesVersion[];
+  unpublished: boolean;
+};
+
+function RulePublisher({ versions, unpublished }: RulePublisherProps) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const [summary, setSummary] = useState('');
+  const [current] = versions;
+
+  async function publish(event: React.FormEvent) {
+    event.preventDefault();
+    if (!window.confirm('Publish these rules? Students will be asked to agree to them before their next booking.')) return;
+    if (await send('/api/admin/rules/versions', 'POST', { summary })) {
+      setSummary('');
+      router.refresh();
+    }
+  }
+
+  return (
+    <AdminPanel
+      title={`Published: version ${current.version}`}
+      description={
+        unpublished
+          ? 'The draft below has changes students can’t see yet.'
+          : 'Students see the rules below. Edits stay in draft until you publish them.'
+      }
+    >
+      {unpublished && (
+        <form onSubmit={publish} className="flex flex-wrap items-start gap-3">
+          <input
+            value={summary}
+            onChange={(event) => setSummary(event.target.value)}
+            placeholder="What changed?"
+            aria-label="Summary of changes"
+            required
+            maxLength={300}
+            className={cn(FIELD_CLASS, 'min-w-0 flex-1')}
+          />
+          <Button type="submit" disabled={pending} className="rounded-full bg-slate-900 px-5 text-white hover:bg-slate-700">
+            Publish version {current.version + 1}
+          </Button>
+          {error && <p className="w-full text-sm text-red-600">{error}</p>}
+        </form>
+      )}
+      <ul className={cn('divide-y divide-slate-100 text-sm', unpublished && 'mt-4')}>
+        {versions.map((version) => (
+          <li key={version.version} className="flex flex-wrap justify-between gap-2 py-2">
+            <span className="text-slate-800">
+              <span className="font-semibold">v{version.version}</span> · {version.summary}
+            </span>
+            <span className="text-slate-400">
+              {version.publishedBy && `${version.publishedBy}, `}
+              {formatInstant(new Date(version.publishedAt))}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </AdminPanel>
+  );
+}
+
+type RuleManagerProps = {
+  rules: Record<RuleSection, Rule[]>;
+  versions: RulesVersion[];
+  unpublished: boolean;
+};
+
+export default function RuleManager({ rules, versions, unpublished }: RuleManagerProps) {
+  return (
+    <div className="space-y-6">
+      <RulePublisher versions={versions} unpublished={unpublished} />
+      {(Object.keys(SECTION_TITLES) as RuleSection[]).map((section) => {
+        const nextPosition = Math.max(0, ...rules[section].map((rule) => rule.position)) + 1;
+        return (
+          <AdminPanel key={section} title={SECTION_TITLES[section]}>
+            <div className="divide-y divide-slate-100">
+              {rules[section].map((rule) => (
+                <RuleForm key={rule.id} section={section} rule={rule} nextPosition={nextPosition} />
+              ))}
+              <RuleForm key={`new-${nextPosition}`} section={section} nextPosition={nextPosition} />
+            </div>
+          </AdminPanel>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import { cn } from '@/lib/utils';
+import { FIELD_CLASS } from './AdminPanel';
+
+type TermEditorProps = {
+  // Omitted when creating a term.
+  termId?: string;
+  initial: unknown;
+};
+
+// Terms are edited as the same JSON that lives in config/terms, and validated by the same schema.
+export default function TermEditor({ termId, initial }: TermEditorProps) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const [text, setText] = useState(() => JSON.stringify(initial, null, 2));
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  async function save() {
+    let term: { id?: string };
+    try {
+      term = JSON.parse(text);
+    } catch (problem) {
+      setParseError(problem instanceof Error ? problem.message : 'Invalid JSON');
+      return;
+    }
+    setParseError(null);
+
+    const result = termId
+      ? await send<{ term: unknown }>(`/api/admin/terms/${termId}`, 'PUT', term)
+      : await send<{ term: { id: string } }>('/api/admin/terms', 'POST', term);
+    if (!result) return;
+    if (termId) {
+      setText(JSON.stringify(result.term, null, 2));
+      setSaved(true);
+      router.refresh();
+    } else {
+      router.push(`/admin/terms/${term.id}`);
+    }
+  }
+
+  return (
+    <div>
+      <textarea
+        value={text}
+        onChange={(event) => {
+          setText(event.target.value);
+          setSaved(false);
+        }}
+        spellCheck={false}
+        rows={32}
+        aria-label="Term configuration"
+        className={cn(FIELD_CLASS, 'font-mono text-xs leading-relaxed')}
+      />
+      {(parseError || error) && <p className="mt-3 whitespace-pre-line text-sm text-red-600">{parseError ?? error}</p>}
+      {saved && <p className="mt-3 text-sm text-emerald-700">Saved to config/terms/{termId}.json.</p>}
+      <Button
+        type="button"
+        disabled={pending}
+        onClick={save}
+        className="mt-4 rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700"
+      >
+        {pending ? 'Saving…' : termId ? 'Save term' : 'Create term'}
+      </Button>
+    </div>
+  );
+}
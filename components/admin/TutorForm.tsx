@@ -0,0 +1,168 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import type { TutorInput } from '@/lib/tutors/schema';
+import { COURSES, LANGUAGES, type TutorRecord } from '@/lib/tutors/types';
+import { cn } from '@/lib/utils';
+import { FIELD_CLASS } from './AdminPanel';
+
+const EMPTY_TUTOR: TutorInput = {
+  id: '',
+  name: '',
+  pronouns: null,
+  bio: '',
+  languages: [],
+  courses: [],
+  active: true,
+  email: null,
+};
+
+function toggle<T>(list: T[], value: T, on: boolean): T[] {
+  return on ? [...list, value] : list.filter((entry) => entry !== value);
+}
+
+// Creates a tutor when `tutor` is omitted, otherwise edits that tutor.
+export default function TutorForm({ tutor }: { tutor?: TutorRecord }) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  // How many upcoming appointments the last save cancelled, once it succeeded.
+  const [saved, setSaved] = useState<number | null>(null);
+  const [form, setForm] = useState<TutorInput>(
+    tutor
+      ? {
+          id: tutor.id,
+          name: tutor.name,
+          pronouns: tutor.pronouns,
+          bio: tutor.bio,
+          languages: tutor.languages,
+          courses: tutor.courses,
+          active: tutor.active,
+          email: tutor.email,
+        }
+      : EMPTY_TUTOR
+  );
+
+  function update(change: Partial<TutorInput>) {
+    setForm({ ...form, ...change });
+    setSaved(null);
+  }
+
+  async function submit(event: React.FormEvent) {
+    event.preventDefault();
+    const body = { ...form, pronouns: form.pronouns ?? '', email: form.email || null };
+    const result = tutor
+      ? await send<{ cancelled: number }>(`/api/admin/tutors/${tutor.id}`, 'PUT', body)
+      : await send('/api/admin/tutors', 'POST', body);
+    if (!result) return;
+    if (tutor) {
+      setSaved((result as { cancelled: number }).cancelled);
+      router.refresh();
+    } else {
+      router.push(`/admin/tutors/${form.id}`);
+    }
+  }
+
+  return (
+    <form onSubmit={submit} className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-2">
+        {!tutor && (
+          <label className="block text-sm font-medium text-slate-700">
+            Id (used in /bios/…)
+            <input
+              value={form.id}
+              onChange={(event) => update({ id: event.target.value.trim().toLowerCase() })}
+              placeholder="e.g. sam-t"
+              required
+              className={cn('mt-1', FIELD_CLASS)}
+            />
+          </label>
+        )}
+        <label className="block text-sm font-medium text-slate-700">
+          Name
+          <input
+            value={form.name}
+            onChange={(event) => update({ name: event.target.value })}
+            required
+            className={cn('mt-1', FIELD_CLASS)}
+          />
+        </label>
+        <label className="block text-sm font-medium text-slate-700">
+          Pronouns
+          <input
+            value={form.pronouns ?? ''}
+            onChange={(event) => update({ pronouns: event.target.value })}
+            className={cn('mt-1', FIELD_CLASS)}
+          />
+        </label>
+        <label className="block text-sm font-medium text-slate-700">
+          Login email
+          <input
+            type="email"
+            value={form.email ?? ''}
+            onChange={(event) => update({ email: event.target.value })}
+            placeholder="Leave blank for no login"
+            className={cn('mt-1', FIELD_CLASS)}
+          />
+        </label>
+      </div>
+      <label className="block text-sm font-medium text-slate-700">
+        Bio
+        <textarea
+          value={form.bio}
+          onChange={(event) => update({ bio: event.target.value })}
+          rows={4}
+          required
+          className={cn('mt-1', FIELD_CLASS)}
+        />
+      </label>
+      <fieldset>
+        <legend className="text-sm font-medium text-slate-700">Languages</legend>
+        <div className="mt-2 flex flex-wrap gap-4">
+          {LANGUAGES.map((language) => (
+            <label key={language} className="inline-flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={form.languages.includes(language)}
+                onChange={(event) => update({ languages: toggle(form.languages, language, event.target.checked) })}
+              />
+              {language}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+      <fieldset>
+        <legend className="text-sm font-medium text-slate-700">Courses</legend>
+        <div className="mt-2 flex flex-wrap gap-4">
+          {COURSES.map((course) => (
+            <label key={course.code} className="inline-flex items-center gap-2 text-sm text-slate-600">
+              <input
+                type="checkbox"
+                checked={form.courses.includes(course.code)}
+                onChange={(event) => update({ courses: toggle(form.courses, course.code, event.target.checked) })}
+              />
+              CS {course.code}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+      <label className="inline-flex items-center gap-2 text-sm text-slate-700">
+        <input type="checkbox" checked={form.active} onChange={(event) => update({ active: event.target.checked })} />
+        Active (shown on the site and bookable). Deactivating signs the tutor out and cancels their upcoming
+        appointments.
+      </label>
+
+      {error && <p className="whitespace-pre-line text-sm text-red-600">{error}</p>}
+      {saved !== null && (
+        <p className="text-sm text-emerald-700">
+          Saved.{saved > 0 && ` ${saved} upcoming appointment${saved === 1 ? ' was' : 's were'} cancelled and the students emailed.`}
+        </p>
+      )}
+      <Button type="submit" disabled={pending} className="rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+        {pending ? 'Saving…' : tutor ? 'Save tutor' : 'Add tutor'}
+      </Button>
+    </form>
+  );
+}
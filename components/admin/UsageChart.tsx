@@ -0,0 +1,60 @@
+import type { UsageRow } from '@/lib/analytics/types';
+
+const SEGMENTS = [
+  { key: 'completed', label: 'Completed', className: 'bg-emerald-500' },
+  { key: 'noShows', label: 'No-shows', className: 'bg-amber-400' },
+  { key: 'upcoming', label: 'Not marked yet', className: 'bg-slate-300' },
+] as const;
+
+function describeRate(rate: number | null): string {
+  return rate === null ? '' : ` · ${Math.round(rate * 100)}% no-show`;
+}
+
+export function UsageLegend() {
+  return (
+    <div className="flex flex-wrap gap-4 text-xs text-slate-500">
+      {SEGMENTS.map((segment) => (
+        <span key={segment.key} className="inline-flex items-center gap-1.5">
+          <span className={`h-2.5 w-2.5 rounded-full ${segment.className}`} />
+          {segment.label}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+// Horizontal bars scaled to the busiest group, split by how the sessions turned out.
+export default function UsageChart({ rows }: { rows: UsageRow[] }) {
+  if (rows.length === 0) {
+    return <p className="text-sm text-slate-400">No appointments this term.</p>;
+  }
+
+  const most = Math.max(1, ...rows.map((row) => row.booked));
+  return (
+    <ul className="space-y-2">
+      {rows.map((row) => {
+        const values = { completed: row.completed, noShows: row.noShows, upcoming: row.booked - row.completed - row.noShows };
+        return (
+          <li key={row.key} className="grid grid-cols-[8rem_1fr] items-center gap-3 text-sm sm:grid-cols-[10rem_1fr_11rem]">
+            <span className="truncate text-slate-700" title={row.label}>
+              {row.label}
+            </span>
+            <div className="flex h-3 overflow-hidden rounded-full bg-slate-100">
+              {SEGMENTS.map((segment) => (
+                <div
+                  key={segment.key}
+                  title={`${segment.label}: ${values[segment.key]}`}
+                  style={{ width: `${(values[segment.key] / most) * 100}%` }}
+                  className={segment.className}
+                />
+              ))}
+            </div>
+            <span className="col-start-2 text-xs text-slate-500 sm:col-start-auto">
+              {row.booked} booked{describeRate(row.noShowRate)}
+            </span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
@@ -0,0 +1,271 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import type { Appointment, Slot } from '@/lib/booking/types';
+import { formatDate, formatTime, formatTimeRange, fromMinutes, weekdayOfDate, zonedTime } from '@/lib/time';
+import { cn } from '@/lib/utils';
+import SessionContextForm from './SessionContextForm';
+
+type ManageAppointmentProps = {
+  token: string;
+  appointment: Appointment;
+  changeDeadline: string;
+  canChange: boolean;
+  canEditContext: boolean;
+  // Dates with open slots to reschedule into.
+  dates: string[];
+  replacement?: { appointment: Appointment; manageUrl: string };
+};
+
+const STATUS_LABELS: Record<Appointment['status'], { label: string; className: string }> = {
+  booked: { label: 'Booked', className: 'bg-emerald-50 text-emerald-700' },
+  cancelled: { label: 'Cancelled', className: 'bg-slate-100 text-slate-600' },
+  completed: { label: 'Completed', className: 'bg-sky-50 text-sky-700' },
+  'no-show': { label: 'Missed', className: 'bg-amber-50 text-amber-700' },
+};
+
+function describeDate(date: string) {
+  return `${weekdayOfDate(date)}, ${formatDate(date)}`;
+}
+
+function describeInstant(iso: string) {
+  const { date, minutes } = zonedTime(new Date(iso));
+  return `${describeDate(date)} at ${formatTime(fromMinutes(minutes))}`;
+}
+
+function PageShell({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-100 via-white to-white py-16">
+      <motion.div
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, ease: [0.6, -0.05, 0.01, 0.99] }}
+        className="mx-auto max-w-2xl px-6 lg:px-8"
+      >
+        {children}
+      </motion.div>
+    </div>
+  );
+}
+
+export function LinkProblem({ reason }: { reason: 'expired' | 'invalid' }) {
+  return (
+    <PageShell>
+      <div className="rounded-3xl border border-slate-200 bg-white p-8 text-center shadow-sm shadow-slate-100">
+        <h1 className="text-2xl font-semibold text-slate-900">
+          {reason === 'expired' ? 'This link has expired' : 'We couldn’t find that appointment'}
+        </h1>
+        <p className="mt-3 text-slate-600">
+          {reason === 'expired'
+            ? 'Appointment links stop working once the session is over.'
+            : 'Please use the link from your booking confirmation exactly as it was sent.'}
+        </p>
+        <Button asChild className="mt-6 rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+          <Link href="/schedule">Book a new appointment</Link>
+        </Button>
+      </div>
+    </PageShell>
+  );
+}
+
+export default function ManageAppointment({
+  token,
+  appointment,
+  changeDeadline,
+  canChange,
+  canEditContext,
+  dates,
+  replacement,
+}: ManageAppointmentProps) {
+  const router = useRouter();
+  const [confirmingCancel, setConfirmingCancel] = useState(false);
+  const [date, setDate] = useState<string | null>(null);
+  const [slots, setSlots] = useState<Slot[] | null>(null);
+  const [sameTutor, setSameTutor] = useState(true);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const status = STATUS_LABELS[appointment.status];
+  const openSlots = (slots ?? []).filter(
+    (slot) => slot.available && (!sameTutor || slot.tutorId === appointment.tutorId)
+  );
+
+  async function request(init: RequestInit) {
+    setPending(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/appointments/manage/${token}`, init);
+      const body = await response.json();
+      if (!response.ok) {
+        setError(body.error ?? 'Something went wrong. Please try again.');
+        return null;
+      }
+      return body;
+    } catch {
+      setError('Something went wrong. Please try again.');
+      return null;
+    } finally {
+      setPending(false);
+    }
+  }
+
+  async function cancel() {
+    if (await request({ method: 'DELETE' })) {
+      router.refresh();
+    }
+  }
+
+  async function reschedule(slot: Slot) {
+    const body = await request({
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ slotId: slot.id }),
+    });
+    if (body) {
+      router.push(body.manageUrl);
+    }
+  }
+
+  async function chooseDate(next: string) {
+    setDate(next || null);
+    setSlots(null);
+    if (!next) return;
+
+    const params = new URLSearchParams({ date: next });
+    if (appointment.language) params.set('language', appointment.language);
+    const response = await fetch(`/api/slots?${params}`);
+    setSlots(response.ok ? (await response.json()).slots : []);
+  }
+
+  return (
+    <PageShell>
+      <span className="text-sm uppercase tracking-[0.35em] text-sky-700">Your appointment</span>
+      <div className="mt-4 rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-semibold text-slate-900">
+              {appointment.language ?? 'Tutoring'} with {appointment.tutorName}
+            </h1>
+            <p className="mt-2 text-slate-700">
+              {describeDate(appointment.date)} · {formatTimeRange(appointment.start, appointment.end)} (Pacific) · Zoom
+            </p>
+            <p className="mt-1 text-sm text-slate-500">Booked for {appointment.studentName}</p>
+            {appointment.status === 'booked' && (
+              <a
+                href={`/api/appointments/manage/${token}/ics`}
+                className="mt-3 inline-block text-sm font-medium text-sky-700 hover:underline"
+              >
+                Add to calendar
+              </a>
+            )}
+          </div>
+          <span className={cn('rounded-full px-3 py-1 text-xs font-semibold', status.className)}>{status.label}</span>
+        </div>
+
+        {replacement && (
+          <p className="mt-6 rounded-2xl bg-sky-50 px-4 py-3 text-sm text-sky-800">
+            This appointment was moved to {describeDate(replacement.appointment.date)} at{' '}
+            {formatTime(replacement.appointment.start)}.{' '}
+            <Link href={replacement.manageUrl} className="font-semibold hover:underline">
+              View the new appointment →
+            </Link>
+          </p>
+        )}
+
+        {appointment.status === 'booked' && !canChange && (
+          <p className="mt-6 rounded-2xl bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            Online changes closed {describeInstant(changeDeadline)}. If you can’t make it, let your tutor know when the
+            session starts.
+          </p>
+        )}
+
+        {canChange && (
+          <p className="mt-6 text-sm text-slate-500">
+            You can cancel or reschedule until {describeInstant(changeDeadline)}.
+          </p>
+        )}
+
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+        {canChange && (
+          <div className="mt-6 flex flex-wrap gap-3">
+            {confirmingCancel ? (
+              <>
+                <Button
+                  type="button"
+                  disabled={pending}
+                  onClick={cancel}
+                  className="rounded-full bg-red-600 px-6 text-white hover:bg-red-500"
+                >
+                  {pending ? 'Cancelling…' : 'Yes, cancel it'}
+                </Button>
+                <Button type="button" variant="outline" onClick={() => setConfirmingCancel(false)} className="rounded-full px-6">
+                  Keep appointment
+                </Button>
+              </>
+            ) : (
+              <Button type="button" variant="outline" onClick={() => setConfirmingCancel(true)} className="rounded-full px-6">
+                Cancel appointment
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {canEditContext && <SessionContextForm token={token} appointment={appointment} />}
+
+      {canChange && (
+        <div className="mt-8 rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100">
+          <h2 className="text-xl font-semibold text-slate-900">Reschedule</h2>
+          <p className="mt-2 text-sm text-slate-500">
+            Pick a new time. Your current appointment is only released once the new one is booked.
+          </p>
+          <div className="mt-4 flex flex-wrap items-center gap-4">
+            <select
+              value={date ?? ''}
+              onChange={(event) => chooseDate(event.target.value)}
+              aria-label="New date"
+              className="rounded-full border border-slate-200 px-4 py-2 text-sm"
+            >
+              <option value="">Choose a day</option>
+              {dates.map((option) => (
+                <option key={option} value={option}>
+                  {describeDate(option)}
+                </option>
+              ))}
+            </select>
+            <label className="inline-flex items-center gap-2 text-sm text-slate-600">
+              <input type="checkbox" checked={sameTutor} onChange={(event) => setSameTutor(event.target.checked)} />
+              Only {appointment.tutorName}
+            </label>
+          </div>
+
+          {date && !slots && <p className="mt-4 text-sm text-slate-400">Loading openings…</p>}
+          {slots && openSlots.length === 0 && (
+            <p className="mt-4 text-sm text-slate-500">No openings that day. Try another day or another tutor.</p>
+          )}
+          {openSlots.length > 0 && (
+            <div className="mt-4 flex flex-wrap gap-2">
+              {openSlots.map((slot) => (
+                <button
+                  key={slot.id}
+                  type="button"
+                  disabled={pending}
+                  onClick={() => reschedule(slot)}
+                  className="rounded-full border border-slate-200 px-4 py-2 text-sm text-slate-700 transition hover:bg-slate-50 disabled:opacity-50"
+                >
+                  {formatTime(slot.start)}
+                  {!sameTutor && <span className="text-slate-400"> · {slot.tutorName}</span>}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </PageShell>
+  );
+}
@@ -0,0 +1,116 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import type { Appointment } from '@/lib/booking/types';
+import { COURSES, type Course } from '@/lib/tutors/types';
+import { cn } from '@/lib/utils';
+
+type SessionContextFormProps = {
+  token: string;
+  appointment: Appointment;
+};
+
+const FIELD_CLASS =
+  'w-full rounded-2xl border border-slate-200 bg-white px-4 py-2.5 text-sm outline-none focus:border-slate-400';
+
+// The same preparation the rules page asks for, sent ahead so the tutor can read up before the session.
+export default function SessionContextForm({ token, appointment }: SessionContextFormProps) {
+  const router = useRouter();
+  const [course, setCourse] = useState<Course | null>(appointment.course);
+  const [assignment, setAssignment] = useState(appointment.assignment);
+  const [attempted, setAttempted] = useState(appointment.attempted);
+  const [notes, setNotes] = useState(appointment.notes);
+  const [pending, setPending] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  async function save(event: React.FormEvent) {
+    event.preventDefault();
+    setPending(true);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/appointments/manage/${token}/context`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ course, assignment, attempted, notes }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setMessage({ text: body.error ?? 'Something went wrong. Please try again.', error: true });
+        return;
+      }
+      setMessage({ text: `Saved. ${appointment.tutorName} will see this before your session.`, error: false });
+      router.refresh();
+    } catch {
+      setMessage({ text: 'Something went wrong. Please try again.', error: true });
+    } finally {
+      setPending(false);
+    }
+  }
+
+  return (
+    <form onSubmit={save} className="mt-8 rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100">
+      <h2 className="text-xl font-semibold text-slate-900">Prepare for your session</h2>
+      <p className="mt-2 text-sm text-slate-500">
+        Tell your tutor what you’re working on and what you’ve tried so far, so you can get straight to it.
+      </p>
+
+      <div className="mt-6 space-y-4">
+        <label className="block text-sm font-medium text-slate-700">
+          Course
+          <select
+            value={course ?? ''}
+            onChange={(event) => setCourse((event.target.value || null) as Course | null)}
+            className={cn('mt-1', FIELD_CLASS)}
+          >
+            <option value="">Not sure / other</option>
+            {COURSES.map((option) => (
+              <option key={option.code} value={option.code}>
+                CS {option.code} · {option.title}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-slate-700">
+          Assignment
+          <input
+            value={assignment}
+            onChange={(event) => setAssignment(event.target.value)}
+            placeholder="e.g. Lab 4: linked lists"
+            maxLength={500}
+            className={cn('mt-1', FIELD_CLASS)}
+          />
+        </label>
+        <label className="block text-sm font-medium text-slate-700">
+          What you’ve tried
+          <textarea
+            value={attempted}
+            onChange={(event) => setAttempted(event.target.value)}
+            placeholder="Where you got stuck, error messages, approaches you’ve ruled out…"
+            maxLength={2000}
+            rows={4}
+            className={cn('mt-1', FIELD_CLASS)}
+          />
+        </label>
+        <label className="block text-sm font-medium text-slate-700">
+          Anything else
+          <textarea
+            value={notes}
+            onChange={(event) => setNotes(event.target.value)}
+            maxLength={2000}
+            rows={2}
+            className={cn('mt-1', FIELD_CLASS)}
+          />
+        </label>
+      </div>
+
+      {message && (
+        <p className={cn('mt-4 text-sm', message.error ? 'text-red-600' : 'text-emerald-700')}>{message.text}</p>
+      )}
+      <Button type="submit" disabled={pending} className="mt-6 rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+        {pending ? 'Saving…' : 'Save details'}
+      </Button>
+    </form>
+  );
+}
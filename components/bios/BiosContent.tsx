@@ -0,0 +1,166 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { useInView } from 'framer-motion';
+import { useMemo, useRef, useState } from 'react';
+import Link from 'next/link';
+import { WEEKDAYS, type Weekday } from '@/lib/time';
+import { filterTutors, type TutorFilters } from '@/lib/tutors/filter';
+import { COURSES, LANGUAGES, type Course, type Language, type Tutor } from '@/lib/tutors/types';
+import { cn } from '@/lib/utils';
+import TutorSchedule from './TutorSchedule';
+
+const TUTORING_DAYS = WEEKDAYS.filter((day) => day !== 'Saturday' && day !== 'Sunday');
+
+function AnimatedSection({ children, delay = 0 }: { children: React.ReactNode; delay?: number }) {
+  const ref = useRef(null);
+  const isInView = useInView(ref, { once: true, margin: "-100px" });
+
+  return (
+    <motion.div
+      ref={ref}
+      initial={{ opacity: 0, y: 60 }}
+      animate={isInView ? { opacity: 1, y: 0 } : { opacity: 0, y: 60 }}
+      transition={{
+        duration: 0.6,
+        delay,
+        ease: [0.6, -0.05, 0.01, 0.99]
+      }}
+    >
+      {children}
+    </motion.div>
+  );
+}
+
+function FilterChips<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+  format = (option) => option,
+}: {
+  label: string;
+  options: readonly T[];
+  value?: T;
+  onChange: (value: T | undefined) => void;
+  format?: (option: T) => string;
+}) {
+  return (
+    <div>
+      <p className="text-xs font-medium uppercase tracking-widest text-slate-500">{label}</p>
+      <div className="mt-2 flex flex-wrap gap-2">
+        {options.map((option) => (
+          <button
+            key={option}
+            type="button"
+            aria-pressed={value === option}
+            onClick={() => onChange(value === option ? undefined : option)}
+            className={cn(
+              'rounded-full border px-3 py-1 text-xs font-medium transition',
+              value === option
+                ? 'border-slate-900 bg-slate-900 text-white'
+                : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+            )}
+          >
+            {format(option)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TutorCard({ tutor, onCampusLocation }: { tutor: Tutor; onCampusLocation: string }) {
+  return (
+    <Link
+      href={`/bios/${tutor.id}`}
+      className="block rounded-3xl border border-slate-200 bg-white p-6 shadow-sm shadow-slate-100 transition hover:-translate-y-1 hover:shadow-md"
+    >
+      <div className="flex items-baseline justify-between gap-3">
+        <h2 className="text-xl font-semibold text-slate-900">{tutor.name}</h2>
+        {tutor.pronouns && <span className="text-sm text-slate-500">{tutor.pronouns}</span>}
+      </div>
+      <p className="mt-3 text-sm leading-relaxed text-slate-600">{tutor.bio}</p>
+      <div className="mt-4 flex flex-wrap gap-2">
+        {tutor.languages.map((language) => (
+          <span key={language} className="rounded-full bg-sky-50 px-3 py-1 text-xs font-semibold text-sky-700">
+            {language}
+          </span>
+        ))}
+        {tutor.courses.map((course) => (
+          <span key={course} className="rounded-full bg-slate-100 px-3 py-1 text-xs font-medium text-slate-600">
+            CS {course}
+          </span>
+        ))}
+      </div>
+      <TutorSchedule shifts={tutor.availability} onCampusLocation={onCampusLocation} className="mt-4" />
+    </Link>
+  );
+}
+
+export default function BiosContent({ tutors, onCampusLocation }: { tutors: Tutor[]; onCampusLocation: string }) {
+  const [filters, setFilters] = useState<TutorFilters>({});
+  const visible = useMemo(() => filterTutors(tutors, filters), [tutors, filters]);
+  const hasFilters = Boolean(filters.query || filters.course || filters.language || filters.day);
+
+  return (
+    <div className="min-h-screen bg-white p-8">
+      <motion.h1
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, ease: [0.6, -0.05, 0.01, 0.99] }}
+        className="text-3xl font-bold"
+      >
+        Bios
+      </motion.h1>
+      <AnimatedSection delay={0.2}>
+        <p className="mt-4 text-gray-600">Meet the Tutor Squad, and find someone who knows your class.</p>
+
+        <div className="mt-8 space-y-4 rounded-3xl border border-slate-200 bg-slate-50 p-6">
+          <input
+            type="search"
+            value={filters.query ?? ''}
+            onChange={(event) => setFilters({ ...filters, query: event.target.value })}
+            placeholder="Search by name, course or topic…"
+            aria-label="Search tutors"
+            className="w-full rounded-full border border-slate-200 bg-white px-4 py-2.5 text-sm outline-none focus:border-slate-400"
+          />
+          <FilterChips<Course>
+            label="Course"
+            options={COURSES.map((course) => course.code)}
+            value={filters.course}
+            onChange={(course) => setFilters({ ...filters, course })}
+            format={(code) => `CS ${code}`}
+          />
+          <FilterChips<Language>
+            label="Language"
+            options={LANGUAGES}
+            value={filters.language}
+            onChange={(language) => setFilters({ ...filters, language })}
+          />
+          <FilterChips<Weekday>
+            label="Available on"
+            options={TUTORING_DAYS}
+            value={filters.day}
+            onChange={(day) => setFilters({ ...filters, day })}
+          />
+          {hasFilters && (
+            <button type="button" onClick={() => setFilters({})} className="text-sm font-medium text-sky-700 hover:underline">
+              Clear filters
+            </button>
+          )}
+        </div>
+
+        {visible.length === 0 ? (
+          <p className="mt-8 text-gray-600">No tutors match those filters yet. Try removing one.</p>
+        ) : (
+          <div className="mt-8 grid gap-6 sm:grid-cols-2">
+            {visible.map((tutor) => (
+              <TutorCard key={tutor.id} tutor={tutor} onCampusLocation={onCampusLocation} />
+            ))}
+          </div>
+        )}
+      </AnimatedSection>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+'use client';
+
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { COURSES, type Tutor } from '@/lib/tutors/types';
+import TutorSchedule from './TutorSchedule';
+
+type TutorProfileProps = {
+  tutor: Tutor;
+  // webcal:// subscription to this tutor's shifts.
+  calendarUrl: string;
+  onCampusLocation: string;
+};
+
+export default function TutorProfile({ tutor, calendarUrl, onCampusLocation }: TutorProfileProps) {
+  const virtual = tutor.availability.filter((shift) => shift.modality === 'virtual');
+  const onCampus = tutor.availability.filter((shift) => shift.modality === 'on-campus');
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-100 via-white to-white py-16">
+      <div className="mx-auto max-w-3xl px-6 lg:px-8">
+        <Link href="/bios" className="text-sm font-medium text-sky-700 hover:underline">
+          ← All tutors
+        </Link>
+
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, ease: [0.6, -0.05, 0.01, 0.99] }}
+          className="mt-6"
+        >
+          <h1 className="text-3xl font-serif font-semibold text-slate-900 sm:text-4xl">{tutor.name}</h1>
+          {tutor.pronouns && <p className="mt-1 text-slate-500">{tutor.pronouns}</p>}
+          <p className="mt-6 text-base leading-relaxed text-slate-700">{tutor.bio}</p>
+        </motion.div>
+
+        <div className="mt-10 grid gap-6 sm:grid-cols-2">
+          <div className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm shadow-slate-100">
+            <h2 className="text-lg font-semibold text-slate-900">Helps with</h2>
+            <div className="mt-3 flex flex-wrap gap-2">
+              {tutor.languages.map((language) => (
+                <span key={language} className="rounded-full bg-sky-50 px-3 py-1 text-xs font-semibold text-sky-700">
+                  {language}
+                </span>
+              ))}
+            </div>
+            <ul className="mt-4 space-y-1 text-sm text-slate-600">
+              {tutor.courses.map((code) => (
+                <li key={code}>
+                  <span className="font-medium text-slate-800">CS {code}</span>{' '}
+                  {COURSES.find((course) => course.code === code)?.title}
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm shadow-slate-100">
+            <h2 className="text-lg font-semibold text-slate-900">Schedule</h2>
+            <h3 className="mt-3 text-xs font-medium uppercase tracking-widest text-slate-500">On Zoom</h3>
+            <TutorSchedule shifts={virtual} onCampusLocation={onCampusLocation} className="mt-2" />
+            <h3 className="mt-4 text-xs font-medium uppercase tracking-widest text-slate-500">On campus</h3>
+            <TutorSchedule shifts={onCampus} onCampusLocation={onCampusLocation} className="mt-2" />
+            <a href={calendarUrl} className="mt-4 inline-block text-sm font-medium text-sky-700 hover:underline">
+              Subscribe in your calendar
+            </a>
+          </div>
+        </div>
+
+        {virtual.length > 0 && (
+          <div className="mt-10 text-center">
+            <Button asChild size="lg" className="rounded-full bg-slate-900 px-8 text-white hover:bg-slate-700">
+              <Link href={`/schedule?tutor=${encodeURIComponent(tutor.id)}`}>Book with {tutor.name.split(' ')[0]} →</Link>
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
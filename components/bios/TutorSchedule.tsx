@@ -0,0 +1,27 @@
+import { formatTimeRange } from '@/lib/time';
+import type { TutorShift } from '@/lib/tutors/types';
+import { cn } from '@/lib/utils';
+
+type TutorScheduleProps = {
+  shifts: TutorShift[];
+  // Where on-campus shifts happen this term.
+  onCampusLocation: string;
+  className?: string;
+};
+
+export default function TutorSchedule({ shifts, onCampusLocation, className }: TutorScheduleProps) {
+  if (shifts.length === 0) {
+    return <p className={cn('text-sm text-slate-500', className)}>No shifts scheduled this week.</p>;
+  }
+
+  return (
+    <ul className={cn('space-y-1 text-sm text-slate-600', className)}>
+      {shifts.map((shift) => (
+        <li key={`${shift.modality}-${shift.day}-${shift.start}`}>
+          <span className="font-medium text-slate-800">{shift.day}</span> {formatTimeRange(shift.start, shift.end)}{' '}
+          <span className="text-slate-400">({shift.modality === 'virtual' ? 'Zoom' : onCampusLocation})</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,111 @@
+'use client';
+
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import { cn } from '@/lib/utils';
+
+type RecordingConsentProps = {
+  termLabel: string;
+  // Present when this browser already agreed for the term.
+  zoomLink?: string;
+};
+
+const FIELD_CLASS =
+  'w-full rounded-2xl border border-slate-200 bg-white px-4 py-2.5 text-sm outline-none focus:border-slate-400';
+
+export default function RecordingConsent({ termLabel, zoomLink }: RecordingConsentProps) {
+  const { pending, error, send } = useJsonRequest();
+  const [studentName, setStudentName] = useState('');
+  const [studentEmail, setStudentEmail] = useState('');
+  const [agreed, setAgreed] = useState(false);
+
+  async function consent(event: React.FormEvent) {
+    event.preventDefault();
+    const body = await send<{ zoomLink: string }>('/api/consents', 'POST', { studentName, studentEmail, agreed });
+    if (body) window.location.assign(body.zoomLink);
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-100 via-white to-white py-16">
+      <motion.div
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, ease: [0.6, -0.05, 0.01, 0.99] }}
+        className="mx-auto max-w-2xl px-6 lg:px-8"
+      >
+        <span className="text-sm uppercase tracking-[0.35em] text-sky-700">Zoom tutoring</span>
+        <h1 className="mt-2 text-3xl font-bold text-slate-900">Before you join</h1>
+
+        <div className="mt-6 rounded-3xl border-l-4 border-amber-400 bg-amber-50 p-6 shadow-sm">
+          <p className="text-base leading-relaxed text-amber-900">
+            <strong>All Zoom tutoring sessions are recorded.</strong> Recordings are kept private unless the tutor or the
+            student being tutored asks for them as part of an incident report. Students from other sections may also be
+            in the room.
+          </p>
+        </div>
+
+        <div className="mt-8 rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100">
+          {zoomLink ? (
+            <>
+              <h2 className="text-xl font-semibold text-slate-900">You’ve agreed to recording for {termLabel}</h2>
+              <p className="mt-2 text-sm text-slate-500">Thanks! You won’t be asked again this semester.</p>
+              <Button asChild className="mt-6 rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+                <a href={zoomLink}>Join Zoom Meeting</a>
+              </Button>
+            </>
+          ) : (
+            <form onSubmit={consent} className="space-y-4">
+              <p className="text-sm text-slate-500">
+                We ask once per semester and keep a record of your answer. Use the same email you book with.
+              </p>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <label className="block text-sm font-medium text-slate-700">
+                  Your name
+                  <input
+                    value={studentName}
+                    onChange={(event) => setStudentName(event.target.value)}
+                    required
+                    maxLength={120}
+                    className={cn('mt-1', FIELD_CLASS)}
+                  />
+                </label>
+                <label className="block text-sm font-medium text-slate-700">
+                  Email
+                  <input
+                    type="email"
+                    value={studentEmail}
+                    onChange={(event) => setStudentEmail(event.target.value)}
+                    required
+                    maxLength={254}
+                    className={cn('mt-1', FIELD_CLASS)}
+                  />
+                </label>
+              </div>
+              <label className="flex items-start gap-3 text-sm text-slate-700">
+                <input
+                  type="checkbox"
+                  checked={agreed}
+                  onChange={(event) => setAgreed(event.target.checked)}
+                  required
+                  className="mt-1"
+                />
+                I agree to my Zoom tutoring sessions being recorded during {termLabel}.
+              </label>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <Button
+                type="submit"
+                disabled={pending || !agreed}
+                className="rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700"
+              >
+                {pending ? 'Saving…' : 'Agree and join Zoom'}
+              </Button>
+            </form>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import { COURSES, type Course } from '@/lib/tutors/types';
+import { cn } from '@/lib/utils';
+
+type JoinQueueProps = {
+  waiting: number;
+  tutorsOnDuty: number;
+};
+
+const FIELD_CLASS =
+  'w-full rounded-2xl border border-slate-200 bg-white px-4 py-2.5 text-sm outline-none focus:border-slate-400';
+
+function plural(count: number, noun: string) {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+export default function JoinQueue({ waiting, tutorsOnDuty }: JoinQueueProps) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const [studentName, setStudentName] = useState('');
+  const [studentEmail, setStudentEmail] = useState('');
+  const [course, setCourse] = useState<Course | ''>('');
+  const [question, setQuestion] = useState('');
+
+  async function join(event: React.FormEvent) {
+    event.preventDefault();
+    const body = await send<{ url: string }>('/api/dropin', 'POST', {
+      studentName,
+      studentEmail,
+      course: course || undefined,
+      question,
+    });
+    if (body) router.push(body.url);
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-100 via-white to-white py-16">
+      <motion.div
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, ease: [0.6, -0.05, 0.01, 0.99] }}
+        className="mx-auto max-w-2xl px-6 lg:px-8"
+      >
+        <span className="text-sm uppercase tracking-[0.35em] text-sky-700">Drop-in queue</span>
+        <h1 className="mt-2 text-3xl font-bold text-slate-900">Get in line for the next free tutor</h1>
+        <p className="mt-3 text-slate-600">
+          Virtual drop-in happens in one shared Zoom room, so students from other sections may be there too. Join the
+          line here, then wait in the{' '}
+          <a href="/join" target="_blank" className="font-medium text-sky-700 hover:underline">
+            Zoom waiting room
+          </a>
+          . This page keeps your place and tells you when a tutor is ready for you.
+        </p>
+
+        <div className="mt-8 rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100">
+          {tutorsOnDuty === 0 ? (
+            <>
+              <h2 className="text-xl font-semibold text-slate-900">The Zoom room is closed right now</h2>
+              <p className="mt-2 text-sm text-slate-500">
+                No tutor is on a virtual shift at the moment. Check the schedule for drop-in hours, or book an appointment.
+              </p>
+              <Button asChild className="mt-6 rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+                <Link href="/schedule">View the schedule</Link>
+              </Button>
+            </>
+          ) : (
+            <form onSubmit={join}>
+              <p className="text-sm text-slate-500">
+                {plural(tutorsOnDuty, 'tutor')} on duty · {waiting === 0 ? 'no one' : plural(waiting, 'student')} waiting
+              </p>
+              <div className="mt-6 space-y-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <label className="block text-sm font-medium text-slate-700">
+                    Your name
+                    <input
+                      value={studentName}
+                      onChange={(event) => setStudentName(event.target.value)}
+                      required
+                      maxLength={120}
+                      className={cn('mt-1', FIELD_CLASS)}
+                    />
+                  </label>
+                  <label className="block text-sm font-medium text-slate-700">
+                    Email
+                    <input
+                      type="email"
+                      value={studentEmail}
+                      onChange={(event) => setStudentEmail(event.target.value)}
+                      required
+                      maxLength={254}
+                      className={cn('mt-1', FIELD_CLASS)}
+                    />
+                  </label>
+                </div>
+                <label className="block text-sm font-medium text-slate-700">
+                  Course
+                  <select
+                    value={course}
+                    onChange={(event) => setCourse(event.target.value as Course | '')}
+                    className={cn('mt-1', FIELD_CLASS)}
+                  >
+                    <option value="">Not sure / other</option>
+                    {COURSES.map((option) => (
+                      <option key={option.code} value={option.code}>
+                        CS {option.code} · {option.title}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block text-sm font-medium text-slate-700">
+                  What do you need help with?
+                  <textarea
+                    value={question}
+                    onChange={(event) => setQuestion(event.target.value)}
+                    required
+                    maxLength={500}
+                    rows={3}
+                    placeholder="e.g. My loop in Lab 3 never stops and I can’t see why"
+                    className={cn('mt-1', FIELD_CLASS)}
+                  />
+                </label>
+              </div>
+
+              {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+              <Button
+                type="submit"
+                disabled={pending}
+                className="mt-6 rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700"
+              >
+                {pending ? 'Joining…' : 'Join the queue'}
+              </Button>
+            </form>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { useEventStream } from '@/hooks/use-event-stream';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import type { DropInTicket } from '@/lib/dropin/types';
+
+type QueueTicketProps = {
+  ticket: DropInTicket;
+};
+
+function isClosed(ticket: DropInTicket) {
+  return ticket.entry.status === 'done' || ticket.entry.status === 'left';
+}
+
+function describeWait(ticket: DropInTicket) {
+  if (ticket.position === 1) return 'You’re next.';
+  if (ticket.estimatedMinutes === null) return 'No tutor is on duty right now, so we can’t estimate the wait.';
+  return `About ${ticket.estimatedMinutes} minute${ticket.estimatedMinutes === 1 ? '' : 's'} to go.`;
+}
+
+export default function QueueTicket({ ticket: initial }: QueueTicketProps) {
+  const ticket = useEventStream(`/api/dropin/${initial.entry.id}/events`, initial, isClosed);
+  const { pending, error, send } = useJsonRequest();
+  const [confirmingLeave, setConfirmingLeave] = useState(false);
+  const { entry } = ticket;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-100 via-white to-white py-16">
+      <motion.div
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, ease: [0.6, -0.05, 0.01, 0.99] }}
+        className="mx-auto max-w-2xl px-6 lg:px-8"
+      >
+        <span className="text-sm uppercase tracking-[0.35em] text-sky-700">Drop-in queue</span>
+        <div className="mt-4 rounded-3xl border border-slate-200 bg-white p-8 text-center shadow-sm shadow-slate-100">
+          {entry.status === 'waiting' && ticket.position !== null && (
+            <>
+              <p className="text-sm text-slate-500">Your place in line</p>
+              <p className="mt-2 text-6xl font-bold text-slate-900">{ticket.position}</p>
+              <p className="mt-4 text-slate-700">{describeWait(ticket)}</p>
+              <p className="mt-2 text-sm text-slate-500">
+                Keep this page open and wait in the{' '}
+                <a href="/join" target="_blank" className="font-medium text-sky-700 hover:underline">
+                  Zoom waiting room
+                </a>
+                . It updates on its own.
+              </p>
+            </>
+          )}
+
+          {entry.status === 'waiting' && ticket.position === null && (
+            <>
+              <h1 className="text-2xl font-semibold text-slate-900">This spot has expired</h1>
+              <p className="mt-3 text-slate-600">The drop-in line starts fresh every day.</p>
+              <Button asChild className="mt-6 rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+                <Link href="/dropin">Join today’s queue</Link>
+              </Button>
+            </>
+          )}
+
+          {entry.status === 'helping' && (
+            <>
+              <h1 className="text-2xl font-semibold text-slate-900">{entry.tutorName} is ready for you</h1>
+              <p className="mt-3 text-slate-600">
+                They’ll let you in from the Zoom waiting room. If you’re not in the meeting yet, join now.
+              </p>
+              <Button asChild className="mt-6 rounded-full bg-emerald-600 px-6 text-white hover:bg-emerald-500">
+                <a href="/join" target="_blank">
+                  Join Zoom
+                </a>
+              </Button>
+            </>
+          )}
+
+          {entry.status === 'done' && (
+            <>
+              <h1 className="text-2xl font-semibold text-slate-900">Thanks for stopping by</h1>
+              <p className="mt-3 text-slate-600">Need more help? You can get back in line or book an appointment.</p>
+            </>
+          )}
+
+          {entry.status === 'left' && (
+            <>
+              <h1 className="text-2xl font-semibold text-slate-900">You’ve left the queue</h1>
+              <p className="mt-3 text-slate-600">Changed your mind? You can get back in line any time a tutor is on duty.</p>
+            </>
+          )}
+
+          {isClosed(ticket) && (
+            <div className="mt-6 flex flex-wrap justify-center gap-3">
+              <Button asChild className="rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+                <Link href="/dropin">Join the queue again</Link>
+              </Button>
+              <Button asChild variant="outline" className="rounded-full px-6">
+                <Link href="/schedule">Book an appointment</Link>
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {!isClosed(ticket) && (
+          <div className="mt-8 rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100">
+            <h2 className="text-xl font-semibold text-slate-900">Your question</h2>
+            <p className="mt-2 whitespace-pre-line text-slate-700">{entry.question}</p>
+            {entry.course && <p className="mt-2 text-sm text-slate-500">CS {entry.course}</p>}
+
+            {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+            <div className="mt-6 flex flex-wrap gap-3">
+              {confirmingLeave ? (
+                <>
+                  <Button
+                    type="button"
+                    disabled={pending}
+                    onClick={() => send(`/api/dropin/${entry.id}`, 'DELETE')}
+                    className="rounded-full bg-red-600 px-6 text-white hover:bg-red-500"
+                  >
+                    {pending ? 'Leaving…' : 'Yes, leave the queue'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setConfirmingLeave(false)} className="rounded-full px-6">
+                    Keep my place
+                  </Button>
+                </>
+              ) : (
+                <Button type="button" variant="outline" onClick={() => setConfirmingLeave(true)} className="rounded-full px-6">
+                  Leave the queue
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
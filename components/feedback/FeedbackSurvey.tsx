@@ -0,0 +1,183 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import type { Appointment } from '@/lib/booking/types';
+import { RATINGS, RATING_LABELS, type Rating } from '@/lib/feedback/types';
+import { formatDate, formatTimeRange, weekdayOfDate } from '@/lib/time';
+import { COURSES, type Course } from '@/lib/tutors/types';
+import { cn } from '@/lib/utils';
+
+type FeedbackSurveyProps = {
+  token: string;
+  appointment: Appointment;
+};
+
+const FIELD_CLASS =
+  'w-full rounded-2xl border border-slate-200 bg-white px-4 py-2.5 text-sm outline-none focus:border-slate-400';
+
+const PROBLEMS = {
+  expired: { title: 'This survey has closed', text: 'Survey links stop working two weeks after the session.' },
+  invalid: { title: 'We couldn’t find that session', text: 'Please use the link from your email exactly as it was sent.' },
+  answered: { title: 'Thanks, we already have your feedback', text: 'Each session can be rated once.' },
+};
+
+function PageShell({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-100 via-white to-white py-16">
+      <motion.div
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, ease: [0.6, -0.05, 0.01, 0.99] }}
+        className="mx-auto max-w-2xl px-6 lg:px-8"
+      >
+        {children}
+      </motion.div>
+    </div>
+  );
+}
+
+export function SurveyProblem({ reason }: { reason: keyof typeof PROBLEMS }) {
+  return (
+    <PageShell>
+      <div className="rounded-3xl border border-slate-200 bg-white p-8 text-center shadow-sm shadow-slate-100">
+        <h1 className="text-2xl font-semibold text-slate-900">{PROBLEMS[reason].title}</h1>
+        <p className="mt-3 text-slate-600">{PROBLEMS[reason].text}</p>
+        <Button asChild className="mt-6 rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+          <Link href="/schedule">Book another session</Link>
+        </Button>
+      </div>
+    </PageShell>
+  );
+}
+
+export default function FeedbackSurvey({ token, appointment }: FeedbackSurveyProps) {
+  const { pending, error, send } = useJsonRequest();
+  const [rating, setRating] = useState<Rating | null>(null);
+  const [course, setCourse] = useState<Course | null>(appointment.course);
+  const [workedOn, setWorkedOn] = useState(appointment.assignment);
+  const [comments, setComments] = useState('');
+  const [anonymous, setAnonymous] = useState(false);
+  const [sent, setSent] = useState(false);
+
+  async function submit(event: React.FormEvent) {
+    event.preventDefault();
+    if (await send(`/api/feedback/${token}`, 'POST', { rating, course, workedOn, comments, anonymous })) {
+      setSent(true);
+    }
+  }
+
+  if (sent) {
+    return (
+      <PageShell>
+        <div className="rounded-3xl border border-slate-200 bg-white p-8 text-center shadow-sm shadow-slate-100">
+          <h1 className="text-2xl font-semibold text-slate-900">Thanks for your feedback!</h1>
+          <p className="mt-3 text-slate-600">It helps us train tutors and plan next semester’s schedule.</p>
+          <Button asChild className="mt-6 rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+            <Link href="/schedule">Book another session</Link>
+          </Button>
+        </div>
+      </PageShell>
+    );
+  }
+
+  return (
+    <PageShell>
+      <span className="text-sm uppercase tracking-[0.35em] text-sky-700">Session feedback</span>
+      <h1 className="mt-2 text-3xl font-bold text-slate-900">How was your session with {appointment.tutorName}?</h1>
+      <p className="mt-2 text-slate-600">
+        {weekdayOfDate(appointment.date)}, {formatDate(appointment.date)} ·{' '}
+        {formatTimeRange(appointment.start, appointment.end)}
+      </p>
+
+      <form
+        onSubmit={submit}
+        className="mt-8 space-y-6 rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100"
+      >
+        <fieldset>
+          <legend className="text-sm font-medium text-slate-700">How helpful was it?</legend>
+          <div className="mt-2 flex flex-wrap gap-2">
+            {RATINGS.map((value) => (
+              <button
+                key={value}
+                type="button"
+                onClick={() => setRating(value)}
+                aria-pressed={rating === value}
+                title={RATING_LABELS[value]}
+                className={cn(
+                  'h-11 w-11 rounded-full border text-sm font-semibold transition',
+                  rating === value
+                    ? 'border-slate-900 bg-slate-900 text-white'
+                    : 'border-slate-200 text-slate-600 hover:bg-slate-50'
+                )}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-slate-400">
+            {rating ? RATING_LABELS[rating] : '1 is not helpful, 5 is extremely helpful'}
+          </p>
+        </fieldset>
+
+        <label className="block text-sm font-medium text-slate-700">
+          Course
+          <select
+            value={course ?? ''}
+            onChange={(event) => setCourse((event.target.value || null) as Course | null)}
+            className={cn('mt-1', FIELD_CLASS)}
+          >
+            <option value="">Not sure / other</option>
+            {COURSES.map((option) => (
+              <option key={option.code} value={option.code}>
+                CS {option.code} · {option.title}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="block text-sm font-medium text-slate-700">
+          What did you work on?
+          <input
+            value={workedOn}
+            onChange={(event) => setWorkedOn(event.target.value)}
+            placeholder="e.g. Lab 4: linked lists"
+            maxLength={500}
+            className={cn('mt-1', FIELD_CLASS)}
+          />
+        </label>
+        <label className="block text-sm font-medium text-slate-700">
+          Anything else?
+          <textarea
+            value={comments}
+            onChange={(event) => setComments(event.target.value)}
+            placeholder="What went well, and what could have been better"
+            rows={4}
+            maxLength={2000}
+            className={cn('mt-1', FIELD_CLASS)}
+          />
+        </label>
+        <label className="flex items-start gap-3 text-sm text-slate-700">
+          <input
+            type="checkbox"
+            checked={anonymous}
+            onChange={(event) => setAnonymous(event.target.checked)}
+            className="mt-1"
+          />
+          Keep my response anonymous. Coordinators will see your answers but not your name.
+        </label>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <Button
+          type="submit"
+          disabled={pending || !rating}
+          className="rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700"
+        >
+          {pending ? 'Sending…' : 'Send feedback'}
+        </Button>
+      </form>
+    </PageShell>
+  );
+}
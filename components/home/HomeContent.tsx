@@ -6,42 +6,23 @@ import Link from 'next/link';
 import { motion } from 'framer-motion';
 import { useInView } from 'framer-motion';
 import { Button } from '@/components/ui/button';
+import type { Term, TermStatus } from '@/lib/terms/schema';
+import { formatDate, formatTimeRange, type Weekday } from '@/lib/time';
+import { shiftsFor } from '@/lib/tutors/schedule';
+import type { Tutor } from '@/lib/tutors/types';
 import TechStack from './TechStack';
 
 // Constants
-const ZOOM_LINK = 'https://ccsf-edu.zoom.us/j/92121773277';
-const ZOOM_MEETING_ID = '921 2177 3277';
-const ZOOM_MEETING_DIGITS = ZOOM_MEETING_ID.replace(/\s/g, '');
-const ZOOM_LOCAL_NUMBER_URL = 'https://ccsf-edu.zoom.us/u/asSuUAeom';
-const ZOOM_SKYPE_LINK = `https://ccsf-edu.zoom.us/skype/${ZOOM_MEETING_DIGITS}`;
 const VIDEO_ID = '1XXWdW8UaBc44SnzYcyP0LqFt0GIYjnso';
-const CONTACT_EMAIL = 'questions-cs-tutor-squad@googlegroups.com';
-const FEEDBACK_EMAIL = 'jpotter@ccsf.edu';
 const LEARNING_ASSISTANCE_URL = 'https://www.ccsf.edu/departments/learning-assistance';
 
-const ON_CAMPUS_HOURS = [
-  { day: 'Monday', hours: '10am - 4pm', studyGroup: '110C study group 12pm - 2pm' },
-  { day: 'Tuesday', hours: '12pm - 6pm', studyGroup: '111C study group 12pm - 2pm' },
-  { day: 'Wednesday', hours: '10am - 4pm', studyGroup: '110C study group 12pm - 2pm' },
-  { day: 'Thursday', hours: '11am - 6pm', studyGroup: '111C study group 12pm - 2pm' },
-] as const;
-
-const ZOOM_PHONE_NUMBERS = [
-  { number: '+1 669 900 6833', location: 'US (San Jose)' },
-  { number: '+1 346 248 7799', location: 'US (Houston)' },
-  { number: '+1 253 215 8782', location: 'US (Tacoma)' },
-  { number: '+1 301 715 8592', location: 'US (Washington DC)' },
-  { number: '+1 312 626 6799', location: 'US (Chicago)' },
-  { number: '+1 929 205 6099', location: 'US (New York)' },
-] as const;
-
 const IMPORTANT_NOTES = [
   {
     text: (
       <>
         <strong>All Zoom tutoring sessions will be recorded!</strong> Recordings will be kept private unless requested by
-        either the tutor or the student being tutored as part of an incident report. By joining any tutoring session at
-        the link above, you are indicating that you are okay with being recorded.
+        either the tutor or the student being tutored as part of an incident report. Before you join a session at the link
+        below, we’ll ask you to agree to being recorded, once per semester.
       </>
     ),
   },
@@ -138,10 +119,10 @@ function VideoSection() {
   );
 }
 
-function ImportantNotes() {
+function ImportantNotes({ term }: { term: Term }) {
   return (
     <AnimatedSection delay={0.6} className="mb-16">
-      <div className="bg-amber-50 border-l-4 border-amber-400 p-6 rounded-r-lg max-w-4xl mx-auto">
+      <div id="important-notes" className="bg-amber-50 border-l-4 border-amber-400 p-6 rounded-r-lg max-w-4xl mx-auto">
         <h2 className="text-2xl font-bold text-gray-900 mb-4">⚠️ Important Notes</h2>
         <ul className="space-y-3 text-gray-700">
           {IMPORTANT_NOTES.map((note, index) => (
@@ -154,14 +135,15 @@ function ImportantNotes() {
         <div className="mt-6 pt-6 border-t border-amber-200">
           <p className="text-gray-700 mb-2">
             <strong>Questions?</strong> Email us at:{' '}
-            <a href={`mailto:${CONTACT_EMAIL}`} className="text-blue-600 hover:underline font-semibold">
-              {CONTACT_EMAIL}
+            <a href={`mailto:${term.contacts.questions}`} className="text-blue-600 hover:underline font-semibold">
+              {term.contacts.questions}
             </a>
           </p>
           <p className="text-gray-700">
-            <strong>Feedback?</strong> Fill out this anonymous form or send an email to:{' '}
-            <a href={`mailto:${FEEDBACK_EMAIL}`} className="text-blue-600 hover:underline font-semibold">
-              {FEEDBACK_EMAIL}
+            <strong>Feedback?</strong> After each appointment we email you a short survey, which you can answer
+            anonymously. You can also send an email to:{' '}
+            <a href={`mailto:${term.contacts.feedback}`} className="text-blue-600 hover:underline font-semibold">
+              {term.contacts.feedback}
             </a>
           </p>
         </div>
@@ -170,7 +152,7 @@ function ImportantNotes() {
   );
 }
 
-function ZoomLinkSection() {
+function ZoomLinkSection({ term }: { term: Term }) {
   return (
     <AnimatedSection delay={0.7} className="mb-16">
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-8 max-w-4xl mx-auto text-center">
@@ -181,19 +163,17 @@ function ZoomLinkSection() {
           size="lg"
           className="bg-blue-600 text-white hover:bg-blue-700 shadow-lg hover:shadow-xl rounded-lg mb-4"
         >
-          <a href={ZOOM_LINK} target="_blank" rel="noopener noreferrer">
-            Join Zoom Meeting
-          </a>
+          <Link href="/join">Join Zoom Meeting</Link>
         </Button>
         <p className="text-sm text-gray-600 mt-4">
-          Meeting ID: <strong>{ZOOM_MEETING_ID}</strong>
+          Meeting ID: <strong>{term.zoom.meetingId}</strong>
         </p>
       </div>
     </AnimatedSection>
   );
 }
 
-function ScheduleSection() {
+function ScheduleSection({ term }: { term: Term }) {
   return (
     <AnimatedSection delay={0.8} className="mb-16">
       <div className="max-w-4xl mx-auto">
@@ -204,12 +184,12 @@ function ScheduleSection() {
           </p>
           <p className="text-gray-700 mb-4">
             Please <Link href="/schedule" className="text-blue-600 hover:underline font-semibold">book an appointment</Link> if you can! If you
-            don't have an appointment, you are still welcome to join the Zoom session on a drop-in basis. If the tutor on
-            duty is busy, they will let you know and will give you the option to remain in the waiting room.
+            don't have an appointment, you are still welcome to join the Zoom session on a drop-in basis: <Link href="/dropin" className="text-blue-600 hover:underline font-semibold">join the drop-in queue</Link> and
+            you will see your place in line while you wait. If the tutor on duty is busy, they will bring you in from the waiting room when your turn comes.
           </p>
           <p className="text-gray-700 mb-6">
             If there are no tutors available at the times you'd prefer, please let us know through this anonymous form or send
-            an email to <a href={`mailto:${FEEDBACK_EMAIL}`} className="text-blue-600 hover:underline font-semibold">{FEEDBACK_EMAIL}</a>. While
+            an email to <a href={`mailto:${term.contacts.feedback}`} className="text-blue-600 hover:underline font-semibold">{term.contacts.feedback}</a>. While
             we cannot guarantee that we'll be able to accommodate you, we'll do our best!
           </p>
           <Button asChild size="lg" className="w-full bg-gray-900 text-white hover:bg-gray-800 rounded-lg">
@@ -221,7 +201,16 @@ function ScheduleSection() {
   );
 }
 
-function OnCampusTutoring() {
+function OnCampusTutoring({ term, tutors }: { term: Term; tutors: Tutor[] }) {
+  const onCampusHours = term.onCampusHours.map((hours) => ({
+    day: hours.day,
+    hours: formatTimeRange(hours.start, hours.end),
+    studyGroup: term.studyGroups
+      .filter((group) => group.day === hours.day)
+      .map((group) => `${group.course} study group ${formatTimeRange(group.start, group.end)}`)
+      .join(', '),
+  }));
+
   return (
     <AnimatedSection delay={0.9} className="mb-16">
       <div className="max-w-4xl mx-auto">
@@ -237,18 +226,30 @@ function OnCampusTutoring() {
           <div className="bg-gray-50 rounded-lg p-6">
             <h3 className="text-xl font-bold text-gray-900 mb-4">Hours:</h3>
             <div className="space-y-3 text-gray-700">
-              {ON_CAMPUS_HOURS.map((schedule, index) => (
+              {onCampusHours.map((schedule, index) => (
                 <div
                   key={schedule.day}
-                  className={`flex justify-between items-center py-2 ${index < ON_CAMPUS_HOURS.length - 1 ? 'border-b border-gray-200' : ''}`}
+                  className={`flex justify-between items-center py-2 ${index < onCampusHours.length - 1 ? 'border-b border-gray-200' : ''}`}
                 >
-                  <span className="font-semibold">{schedule.day}</span>
+                  <div>
+                    <span className="font-semibold">{schedule.day}</span>
+                    <p className="text-sm text-gray-500">{onCampusTutorNames(tutors, schedule.day) || 'Tutors to be announced'}</p>
+                  </div>
                   <span>
-                    {schedule.hours} <span className="text-gray-500">({schedule.studyGroup})</span>
+                    {schedule.hours} {schedule.studyGroup && <span className="text-gray-500">({schedule.studyGroup})</span>}
                   </span>
                 </div>
               ))}
             </div>
+            {term.studyGroups.length > 0 && (
+              <p className="mt-4 text-sm text-gray-600">
+                Study groups have limited space.{' '}
+                <Link href="/schedule" className="font-medium text-sky-700 hover:underline">
+                  RSVP on the schedule
+                </Link>{' '}
+                to save a spot.
+              </p>
+            )}
           </div>
         </div>
       </div>
@@ -290,7 +291,10 @@ function OtherTutoringSection() {
   );
 }
 
-function AdditionalZoomDetails() {
+function AdditionalZoomDetails({ term }: { term: Term }) {
+  const meetingDigits = term.zoom.meetingId.replace(/\s/g, '');
+  const skypeLink = `https://ccsf-edu.zoom.us/skype/${meetingDigits}`;
+
   return (
     <AnimatedSection delay={1.2} className="mb-16">
       <div className="max-w-4xl mx-auto">
@@ -299,20 +303,20 @@ function AdditionalZoomDetails() {
           <div className="space-y-6">
             <div>
               <h3 className="font-semibold text-gray-900 mb-2">Join Zoom Meeting</h3>
-              <a href={ZOOM_LINK} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
-                {ZOOM_LINK}
-              </a>
+              <Link href="/join" className="text-blue-600 hover:underline">
+                Agree to recording and join →
+              </Link>
             </div>
             <div>
               <h3 className="font-semibold text-gray-900 mb-2">Meeting ID</h3>
-              <p className="text-gray-700">{ZOOM_MEETING_ID}</p>
+              <p className="text-gray-700">{term.zoom.meetingId}</p>
             </div>
             <div>
               <h3 className="font-semibold text-gray-900 mb-2">One tap mobile</h3>
               <div className="space-y-1 text-gray-700">
-                {ZOOM_PHONE_NUMBERS.slice(0, 2).map((phone) => (
+                {term.zoom.phoneNumbers.slice(0, 2).map((phone) => (
                   <p key={`onetap-${phone.number}`}>
-                    {phone.number},,{ZOOM_MEETING_DIGITS}# {phone.location}
+                    {phone.number},,{meetingDigits}# {phone.location}
                   </p>
                 ))}
               </div>
@@ -320,23 +324,23 @@ function AdditionalZoomDetails() {
             <div>
               <h3 className="font-semibold text-gray-900 mb-2">Dial by your location</h3>
               <div className="space-y-1 text-gray-700">
-                {ZOOM_PHONE_NUMBERS.map((phone) => (
+                {term.zoom.phoneNumbers.map((phone) => (
                   <p key={`dial-${phone.number}`}>
                     {phone.number} {phone.location}
                   </p>
                 ))}
               </div>
-              <p className="text-sm text-gray-600 mt-2">Meeting ID: {ZOOM_MEETING_ID}</p>
+              <p className="text-sm text-gray-600 mt-2">Meeting ID: {term.zoom.meetingId}</p>
               <p className="text-sm text-gray-600 mt-2">
-                <a href={ZOOM_LOCAL_NUMBER_URL} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                <a href={term.zoom.localNumbersUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
                   Find your local number
                 </a>
               </p>
             </div>
             <div>
               <h3 className="font-semibold text-gray-900 mb-2">Join by Skype for Business</h3>
-              <a href={ZOOM_SKYPE_LINK} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
-                {ZOOM_SKYPE_LINK}
+              <a href={skypeLink} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline break-all">
+                {skypeLink}
               </a>
             </div>
           </div>
@@ -346,7 +350,38 @@ function AdditionalZoomDetails() {
   );
 }
 
-export default function HomeContent() {
+function onCampusTutorNames(tutors: Tutor[], day: Weekday): string {
+  return tutors
+    .filter((tutor) => shiftsFor(tutor, 'on-campus', day).length > 0)
+    .map((tutor) => tutor.name)
+    .join(', ');
+}
+
+function BetweenTermsNotice({ status }: { status: Extract<TermStatus, { status: 'between' }> }) {
+  return (
+    <AnimatedSection delay={0.45} className="mb-12 -mt-20">
+      <div className="bg-slate-50 border border-slate-200 rounded-lg p-6 max-w-4xl mx-auto text-center text-gray-700">
+        <p className="font-semibold text-gray-900">We&apos;re between semesters, so tutoring is on break.</p>
+        {status.next ? (
+          <p className="mt-2">
+            Tutoring for {status.next.label} starts on {formatDate(status.next.startDate)}. The schedule below is for{' '}
+            {status.next.label}.
+          </p>
+        ) : (
+          <p className="mt-2">Check back soon for next semester&apos;s schedule.</p>
+        )}
+      </div>
+    </AnimatedSection>
+  );
+}
+
+type HomeContentProps = {
+  term: Term;
+  status: TermStatus;
+  tutors: Tutor[];
+};
+
+export default function HomeContent({ term, status, tutors }: HomeContentProps) {
   return (
     <div className="min-h-screen bg-gradient-to-b from-slate-100 via-white to-white">
       <div className="max-w-7xl mx-auto px-6 sm:px-8 lg:px-10 py-16 md:py-24">
@@ -356,20 +391,24 @@ export default function HomeContent() {
           <TechStack />
         </AnimatedSection>
 
-        <AnimatedSection delay={0.45} className="text-center mb-12 -mt-20">
-          <Button asChild size="lg" className="bg-blue-600 text-white hover:bg-blue-700 shadow-lg hover:shadow-xl rounded-lg">
-            <Link href="/schedule">📅 Click here for the tutoring schedule for fall 2025</Link>
-          </Button>
-        </AnimatedSection>
+        {status.status === 'between' ? (
+          <BetweenTermsNotice status={status} />
+        ) : (
+          <AnimatedSection delay={0.45} className="text-center mb-12 -mt-20">
+            <Button asChild size="lg" className="bg-blue-600 text-white hover:bg-blue-700 shadow-lg hover:shadow-xl rounded-lg">
+              <Link href="/schedule">📅 Click here for the tutoring schedule for {term.label.toLowerCase()}</Link>
+            </Button>
+          </AnimatedSection>
+        )}
 
         <VideoSection />
-        <ImportantNotes />
-        <ZoomLinkSection />
-        <ScheduleSection />
-        <OnCampusTutoring />
+        <ImportantNotes term={term} />
+        <ZoomLinkSection term={term} />
+        <ScheduleSection term={term} />
+        <OnCampusTutoring term={term} tutors={tutors} />
         <BookAppointmentSection />
         <OtherTutoringSection />
-        <AdditionalZoomDetails />
+        <AdditionalZoomDetails term={term} />
       </div>
     </div>
   );
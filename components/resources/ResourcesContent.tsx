@@ -0,0 +1,222 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { useInView } from 'framer-motion';
+import { useRef, useState } from 'react';
+import { filterResources, resourceTopics, type ResourceFilter } from '@/lib/resources/search';
+import type { Resource } from '@/lib/resources/types';
+import { COURSES, LANGUAGES, type Course, type Language } from '@/lib/tutors/types';
+import { cn } from '@/lib/utils';
+
+function AnimatedSection({
+  children,
+  delay = 0,
+  className = '',
+}: {
+  children: React.ReactNode;
+  delay?: number;
+  className?: string;
+}) {
+  const ref = useRef(null);
+  const isInView = useInView(ref, { once: true, margin: "-100px" });
+
+  return (
+    <motion.div
+      ref={ref}
+      initial={{ opacity: 0, y: 60 }}
+      animate={isInView ? { opacity: 1, y: 0 } : { opacity: 0, y: 60 }}
+      transition={{
+        duration: 0.6,
+        delay,
+        ease: [0.6, -0.05, 0.01, 0.99]
+      }}
+      className={className}
+    >
+      {children}
+    </motion.div>
+  );
+}
+
+type ResourcesContentProps = {
+  resources: Resource[];
+  initialFilter: ResourceFilter;
+};
+
+const SELECT_CLASS = 'rounded-full border border-slate-200 bg-white px-4 py-2 text-sm text-slate-700';
+
+function TagList({ resource }: { resource: Resource }) {
+  const tags = [
+    ...resource.tags.languages,
+    ...resource.tags.courses.map((code) => `CS ${code}`),
+    ...resource.tags.topics.map((topic) => `#${topic}`),
+  ];
+  if (tags.length === 0) return null;
+  return (
+    <ul className="mt-3 flex flex-wrap gap-1.5">
+      {tags.map((tag) => (
+        <li key={tag} className="rounded-full bg-slate-100 px-2.5 py-0.5 text-xs text-slate-600">
+          {tag}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function ResourcesContent({ resources, initialFilter }: ResourcesContentProps) {
+  const [filter, setFilter] = useState<ResourceFilter>(initialFilter);
+  const shown = filterResources(resources, filter);
+  const topics = resourceTopics(resources);
+  const filtered = Boolean(filter.q || filter.language || filter.course || filter.topic);
+
+  // Keep the address bar in step so a filtered list can be shared.
+  function update(change: Partial<ResourceFilter>) {
+    const next = { ...filter, ...change };
+    setFilter(next);
+    const params = new URLSearchParams(
+      Object.entries(next).filter((entry): entry is [string, string] => Boolean(entry[1]))
+    );
+    window.history.replaceState(null, '', params.size > 0 ? `?${params}` : window.location.pathname);
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-100 via-white to-white py-16">
+      <div className="mx-auto max-w-5xl px-6 lg:px-8">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, ease: [0.6, -0.05, 0.01, 0.99] }}
+          className="mb-10 text-center"
+        >
+          <span className="text-sm uppercase tracking-[0.35em] text-sky-700">Tutor squad picks</span>
+          <h1 className="mt-3 text-3xl font-serif font-semibold text-slate-900 sm:text-4xl">
+            Helpful Resources for Tutors & Students
+          </h1>
+          <p className="mt-4 text-base text-slate-600 sm:text-lg">
+            Curated by our Tutor Squad and the CS department to support your coursework, deepen your understanding, and keep
+            you exploring.
+          </p>
+        </motion.div>
+
+        <AnimatedSection delay={0.15}>
+          <div className="rounded-3xl border-l-4 border-emerald-400 bg-emerald-50 p-6 shadow-sm">
+            <p className="text-sm font-medium uppercase tracking-widest text-emerald-600">How to use this page</p>
+            <p className="mt-3 text-base leading-relaxed text-emerald-800">
+              We’ve highlighted what each resource is best for so you can jump straight to the help you need—whether that’s
+              stepping through tricky code, sharpening command-line skills, or mastering tools like vim and VS Code on the hills
+              cluster.
+            </p>
+          </div>
+        </AnimatedSection>
+
+        <div className="mt-10 flex flex-wrap items-center gap-3">
+          <input
+            type="search"
+            value={filter.q ?? ''}
+            onChange={(event) => update({ q: event.target.value })}
+            placeholder="Search resources"
+            aria-label="Search resources"
+            className="min-w-56 flex-1 rounded-full border border-slate-200 bg-white px-4 py-2 text-sm outline-none focus:border-slate-400"
+          />
+          <select
+            value={filter.language ?? ''}
+            onChange={(event) => update({ language: (event.target.value || undefined) as Language | undefined })}
+            aria-label="Language"
+            className={SELECT_CLASS}
+          >
+            <option value="">Any language</option>
+            {LANGUAGES.map((language) => (
+              <option key={language} value={language}>
+                {language}
+              </option>
+            ))}
+          </select>
+          <select
+            value={filter.course ?? ''}
+            onChange={(event) => update({ course: (event.target.value || undefined) as Course | undefined })}
+            aria-label="Course"
+            className={SELECT_CLASS}
+          >
+            <option value="">Any course</option>
+            {COURSES.map((course) => (
+              <option key={course.code} value={course.code}>
+                CS {course.code}
+              </option>
+            ))}
+          </select>
+        </div>
+        {topics.length > 0 && (
+          <div className="mt-4 flex flex-wrap gap-2">
+            {topics.map((topic) => (
+              <button
+                key={topic}
+                type="button"
+                aria-pressed={filter.topic === topic}
+                onClick={() => update({ topic: filter.topic === topic ? undefined : topic })}
+                className={cn(
+                  'rounded-full border px-3 py-1 text-xs transition',
+                  filter.topic === topic
+                    ? 'border-slate-900 bg-slate-900 text-white'
+                    : 'border-slate-200 bg-white text-slate-600 hover:bg-slate-50'
+                )}
+              >
+                #{topic}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {shown.length === 0 && (
+          <p className="mt-12 rounded-3xl border border-dashed border-slate-200 p-8 text-center text-sm text-slate-500">
+            Nothing matches that search.{' '}
+            {filtered && (
+              <button
+                type="button"
+                onClick={() => update({ q: undefined, language: undefined, course: undefined, topic: undefined })}
+                className="font-medium text-sky-700 hover:underline"
+              >
+                Show everything
+              </button>
+            )}
+          </p>
+        )}
+
+        <div className="mt-8 grid gap-8 sm:grid-cols-2">
+          {shown.map((resource, index) => (
+            <AnimatedSection
+              key={resource.id}
+              delay={0.2 + index * 0.05}
+              className="group relative overflow-hidden rounded-3xl border border-slate-200 bg-white p-6 shadow-sm shadow-slate-100 transition duration-300 hover:-translate-y-1 hover:shadow-md"
+            >
+              <div className="relative z-10">
+                <h2 className="text-xl font-semibold text-slate-900">{resource.title}</h2>
+                <p className="mt-2 text-sm font-medium uppercase tracking-widest text-slate-500">
+                  Useful for: <span className="normal-case text-slate-700">{resource.usefulFor}</span>
+                </p>
+                <TagList resource={resource} />
+                <p className="mt-4 text-sm leading-relaxed text-slate-600">{resource.description}</p>
+                {resource.link ? (
+                  <a
+                    href={resource.link.href}
+                    target="_blank"
+                    rel="noreferrer"
+                    className="mt-6 inline-flex items-center gap-2 rounded-full bg-slate-900 px-4 py-2 text-sm font-semibold text-white transition hover:bg-slate-700"
+                  >
+                    {resource.link.label ?? 'Visit resource'}
+                    <span aria-hidden>↗</span>
+                  </a>
+                ) : (
+                  <span className="mt-6 inline-flex items-center gap-2 rounded-full bg-slate-200 px-4 py-2 text-sm font-medium text-slate-600">
+                    Link coming soon
+                  </span>
+                )}
+              </div>
+              <div className="absolute inset-0 opacity-0 transition group-hover:opacity-100">
+                <div className="h-full w-full bg-gradient-to-br from-slate-900/5 via-transparent to-sky-200/30" />
+              </div>
+            </AnimatedSection>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+'use client';
+
+import type { ResourceTags } from '@/lib/resources/types';
+import { COURSE_CODES, LANGUAGES, type Course, type Language } from '@/lib/tutors/types';
+
+// Topics are edited as one comma-separated line and only split when the form is sent.
+export type TagDraft = {
+  languages: Language[];
+  courses: Course[];
+  topics: string;
+};
+
+export function toTagDraft(tags: ResourceTags): TagDraft {
+  return { ...tags, topics: tags.topics.join(', ') };
+}
+
+export function fromTagDraft(draft: TagDraft): ResourceTags {
+  return { ...draft, topics: draft.topics.split(',').map((topic) => topic.trim()).filter(Boolean) };
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter((other) => other !== value) : [...values, value];
+}
+
+type TagFieldsProps = {
+  tags: TagDraft;
+  onChange: (change: Partial<TagDraft>) => void;
+  fieldClass: string;
+};
+
+export default function TagFields({ tags, onChange, fieldClass }: TagFieldsProps) {
+  return (
+    <div className="space-y-3">
+      <fieldset className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-slate-700">
+        <legend className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-400">Languages</legend>
+        {LANGUAGES.map((language) => (
+          <label key={language} className="inline-flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={tags.languages.includes(language)}
+              onChange={() => onChange({ languages: toggle(tags.languages, language) })}
+            />
+            {language}
+          </label>
+        ))}
+      </fieldset>
+      <fieldset className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-slate-700">
+        <legend className="mb-1 text-xs font-semibold uppercase tracking-wide text-slate-400">Courses</legend>
+        {COURSE_CODES.map((course) => (
+          <label key={course} className="inline-flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={tags.courses.includes(course)}
+              onChange={() => onChange({ courses: toggle(tags.courses, course) })}
+            />
+            CS {course}
+          </label>
+        ))}
+      </fieldset>
+      <input
+        value={tags.topics}
+        onChange={(event) => onChange({ topics: event.target.value })}
+        placeholder="Topics, comma separated (e.g. debugging, command line)"
+        aria-label="Topics"
+        className={fieldClass}
+      />
+    </div>
+  );
+}
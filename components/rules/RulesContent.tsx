@@ -0,0 +1,152 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { useInView } from 'framer-motion';
+import { useRef } from 'react';
+import { parseRuleBody, rulesInSection, type RulesVersion } from '@/lib/rules/types';
+import { formatDate, zonedTime } from '@/lib/time';
+
+function AnimatedSection({
+  children,
+  delay = 0,
+  className = '',
+}: {
+  children: React.ReactNode;
+  delay?: number;
+  className?: string;
+}) {
+  const ref = useRef(null);
+  const isInView = useInView(ref, { once: true, margin: "-100px" });
+
+  return (
+    <motion.div
+      ref={ref}
+      initial={{ opacity: 0, y: 60 }}
+      animate={isInView ? { opacity: 1, y: 0 } : { opacity: 0, y: 60 }}
+      transition={{ 
+        duration: 0.6, 
+        delay,
+        ease: [0.6, -0.05, 0.01, 0.99] 
+      }}
+      className={className}
+    >
+      {children}
+    </motion.div>
+  );
+}
+
+type RulesContentProps = {
+  rules: RulesVersion;
+};
+
+function RuleText({ body }: { body: string }) {
+  return (
+    <>
+      {parseRuleBody(body).map((span, index) =>
+        span.href ? (
+          <a
+            key={index}
+            href={span.href}
+            target="_blank"
+            rel="noreferrer"
+            className="font-semibold text-sky-700 hover:underline"
+          >
+            {span.text}
+          </a>
+        ) : span.bold ? (
+          <span key={index} className="font-semibold">
+            {span.text}
+          </span>
+        ) : (
+          span.text
+        )
+      )}
+    </>
+  );
+}
+
+export default function RulesContent({ rules }: RulesContentProps) {
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-100 via-white to-white py-16">
+      <div className="mx-auto max-w-4xl px-6 lg:px-8">
+        <motion.div
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, ease: [0.6, -0.05, 0.01, 0.99] }}
+          className="mb-10 text-center"
+        >
+          <span className="text-sm uppercase tracking-[0.35em] text-sky-700">Tutor squad etiquette</span>
+          <h1 className="mt-3 text-3xl font-serif font-semibold text-slate-900 sm:text-4xl">
+            CS Tutor Squad Rules and Suggestions
+          </h1>
+          <p className="mt-4 text-base text-slate-600 sm:text-lg">
+            Please follow the rules below—and keep the suggestions in mind—whenever you make use of the tutoring services
+            offered by the CS Tutor Squad.
+          </p>
+          <p className="mt-3 text-xs uppercase tracking-widest text-slate-400">
+            Version {rules.version} · Updated {formatDate(zonedTime(new Date(rules.publishedAt)).date)}
+          </p>
+        </motion.div>
+
+        <AnimatedSection delay={0.15} className="mb-10">
+          <div className="rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100">
+            <h2 className="text-xl font-semibold text-slate-900 sm:text-2xl">Do</h2>
+            <p className="mt-3 text-sm text-slate-500 sm:text-base">
+              These expectations help keep tutoring productive and welcoming for everyone.
+            </p>
+            <ul className="mt-6 space-y-4">
+              {rulesInSection(rules, 'do').map((rule, index) => (
+                <li key={rule.slug} id={rule.slug} className="flex scroll-mt-24 items-start gap-3 text-slate-700">
+                  <motion.span
+                    className="mt-2 inline-flex h-2.5 w-2.5 flex-none rounded-full bg-sky-600"
+                    initial={{ scale: 1, opacity: 0.9 }}
+                    animate={{ scale: [1, 1.35, 1], opacity: [0.9, 1, 0.9] }}
+                    transition={{ duration: 1.6, repeat: Infinity, delay: index * 0.2, ease: 'easeInOut' }}
+                  />
+                  <span className="leading-relaxed">
+                    <RuleText body={rule.body} />
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </AnimatedSection>
+
+        <AnimatedSection delay={0.25} className="mb-10">
+          <div className="rounded-3xl border-l-4 border-amber-400 bg-amber-50 p-6 shadow-sm">
+            <p className="text-sm font-medium uppercase tracking-widest text-amber-600">Important reminder</p>
+            <p className="mt-3 text-base leading-relaxed text-amber-800">
+              If you don’t adhere to the rules above, you may have your tutoring session cut short, have one or more of your
+              appointments removed, or be banned from receiving tutoring. Please take these rules seriously and ask a tutor if
+              you have any questions about them.
+            </p>
+          </div>
+        </AnimatedSection>
+
+        <AnimatedSection delay={0.35}>
+          <div className="rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100">
+            <h2 className="text-xl font-semibold text-slate-900 sm:text-2xl">Try to</h2>
+            <p className="mt-3 text-sm text-slate-500 sm:text-base">
+              These suggestions make the most of the time you have with a tutor.
+            </p>
+            <ul className="mt-6 space-y-4">
+              {rulesInSection(rules, 'try').map((rule, index) => (
+                <li key={rule.slug} id={rule.slug} className="flex scroll-mt-24 items-start gap-3 text-slate-700">
+                  <motion.span
+                    className="mt-2 inline-flex h-2.5 w-2.5 flex-none rounded-full bg-emerald-500"
+                    initial={{ scale: 1, opacity: 0.9 }}
+                    animate={{ scale: [1, 1.35, 1], opacity: [0.9, 1, 0.9] }}
+                    transition={{ duration: 1.6, repeat: Infinity, delay: index * 0.2 + 0.1, ease: 'easeInOut' }}
+                  />
+                  <span className="leading-relaxed">
+                    <RuleText body={rule.body} />
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </AnimatedSection>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,268 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { appointmentCalendarPath } from '@/lib/booking/types';
+import { readChatStream } from '@/lib/chat/client';
+import type { ChatSession } from '@/lib/chat/sessions/types';
+import { INITIAL_CHAT_STATE, type ChatMessage, type ChatStage, type ChatState } from '@/lib/chat/types';
+import { formatDate, formatTimeRange } from '@/lib/time';
+import type { Tutor } from '@/lib/tutors/types';
+import { cn } from '@/lib/utils';
+
+const GREETING: ChatMessage = {
+  role: 'assistant',
+  content:
+    'Hi! I can help you book a Zoom session with a CS tutor. Tell me what you need help with and when, for example "I need help with Python on Tuesday".',
+};
+
+// Remembers this browser's conversation so a refresh picks it back up.
+const SESSION_KEY = 'ccsf-chat-session';
+
+const SUGGESTIONS = ['I need help with Python on Tuesday', 'Java help on Wednesday', 'Show me other tutors'];
+
+// Quick replies for the stages where the assistant asks the student to agree to something.
+const AGREEMENTS: Partial<Record<ChatStage, { label: string; href: string; link: string }>> = {
+  rules: { label: 'I agree to the rules', href: '/rules', link: 'Read the full rules' },
+  consent: { label: 'I agree to being recorded', href: '/#important-notes', link: 'About recordings' },
+};
+
+type ChatAssistantProps = {
+  preferredTutor?: Pick<Tutor, 'id' | 'name'>;
+  // A conversation to resume, from a link copied on another device.
+  resumeSessionId?: string;
+};
+
+export default function ChatAssistant({ preferredTutor, resumeSessionId }: ChatAssistantProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>(() => [
+    preferredTutor
+      ? {
+          role: 'assistant',
+          content: `Hi! Let’s book a Zoom session with ${preferredTutor.name}. What do you need help with, and which day works for you?`,
+        }
+      : GREETING,
+  ]);
+  const [state, setState] = useState<ChatState>(() =>
+    preferredTutor
+      ? { ...INITIAL_CHAT_STATE, draft: { preferredTutorId: preferredTutor.id } }
+      : INITIAL_CHAT_STATE
+  );
+  const [sessionId, setSessionId] = useState<string | null>(null);
+  const [input, setInput] = useState('');
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const scrollRef = useRef<HTMLDivElement | null>(null);
+  const agreement = AGREEMENTS[state.stage];
+
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight, behavior: 'smooth' });
+  }, [messages]);
+
+  // Arriving from a tutor's bio starts a booking with them, so only a shared link resumes in that case.
+  useEffect(() => {
+    const id = resumeSessionId ?? (preferredTutor ? null : window.localStorage.getItem(SESSION_KEY));
+    if (!id) return;
+
+    let cancelled = false;
+    fetch(`/api/chat/sessions/${encodeURIComponent(id)}`)
+      .then((response) => (response.ok ? (response.json() as Promise<{ session: ChatSession }>) : null))
+      .then((body) => {
+        if (cancelled) return;
+        if (!body) {
+          window.localStorage.removeItem(SESSION_KEY);
+          return;
+        }
+        window.localStorage.setItem(SESSION_KEY, body.session.id);
+        setSessionId(body.session.id);
+        setState(body.session.state);
+        setMessages([GREETING, ...body.session.messages]);
+      })
+      .catch(() => {});
+    return () => {
+      cancelled = true;
+    };
+  }, [resumeSessionId, preferredTutor]);
+
+  async function startOver() {
+    if (sessionId) await fetch(`/api/chat/sessions/${sessionId}`, { method: 'DELETE' }).catch(() => {});
+    window.localStorage.removeItem(SESSION_KEY);
+    setSessionId(null);
+    setState(INITIAL_CHAT_STATE);
+    setMessages([GREETING]);
+    setError(null);
+  }
+
+  async function copyLink() {
+    if (!sessionId) return;
+    await navigator.clipboard.writeText(`${window.location.origin}/schedule?chat=${sessionId}`);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  }
+
+  async function send(text: string) {
+    const message = text.trim();
+    if (!message || isStreaming) return;
+
+    const history = messages.slice(1);
+    setMessages((current) => [...current, { role: 'user', content: message }, { role: 'assistant', content: '' }]);
+    setInput('');
+    setError(null);
+    setIsStreaming(true);
+
+    try {
+      const response = await fetch('/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ message, sessionId: sessionId ?? undefined, state, history }),
+      });
+      if (!response.ok) {
+        const body = (await response.json().catch(() => null)) as { error?: string } | null;
+        throw new Error(body?.error ?? `Chat request failed (${response.status})`);
+      }
+
+      await readChatStream(response, (event) => {
+        if (event.type === 'session') {
+          setSessionId(event.id);
+          window.localStorage.setItem(SESSION_KEY, event.id);
+        } else if (event.type === 'delta') {
+          setMessages((current) => {
+            const last = current[current.length - 1];
+            return [...current.slice(0, -1), { ...last, content: last.content + event.text }];
+          });
+        } else if (event.type === 'state') {
+          setState(event.state);
+        } else if (event.type === 'error') {
+          setError(event.message);
+        }
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+      setMessages((current) => (current[current.length - 1].content ? current : current.slice(0, -1)));
+    } finally {
+      setIsStreaming(false);
+    }
+  }
+
+  return (
+    <div className="flex h-[640px] flex-col rounded-3xl border border-slate-200 bg-white shadow-sm shadow-slate-100">
+      <div className="flex items-center justify-between border-b border-slate-100 px-6 py-4">
+        <div>
+          <p className="text-sm font-semibold text-slate-900">Booking assistant</p>
+          <p className="text-xs text-slate-500">Virtual sessions · Pacific time</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {state.appointment && (
+            <span className="rounded-full bg-emerald-50 px-3 py-1 text-xs font-semibold text-emerald-700">
+              Booked · {state.appointment.reference}
+            </span>
+          )}
+          {sessionId && !isStreaming && (
+            <>
+              <button type="button" onClick={copyLink} className="text-xs font-medium text-sky-700 hover:underline">
+                {copied ? 'Link copied' : 'Continue on another device'}
+              </button>
+              <button type="button" onClick={startOver} className="text-xs font-medium text-slate-500 hover:underline">
+                Start over
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 space-y-4 overflow-y-auto px-6 py-6">
+        {messages.map((message, index) => (
+          <motion.div
+            key={`message-${index}`}
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ duration: 0.25 }}
+            className={cn('flex', message.role === 'user' ? 'justify-end' : 'justify-start')}
+          >
+            <div
+              className={cn(
+                'max-w-[80%] whitespace-pre-line rounded-2xl px-4 py-3 text-sm leading-relaxed',
+                message.role === 'user' ? 'bg-slate-900 text-white' : 'bg-slate-100 text-slate-800'
+              )}
+            >
+              {message.content || <span className="animate-pulse text-slate-400">…</span>}
+            </div>
+          </motion.div>
+        ))}
+
+        {state.appointment && (
+          <div className="rounded-2xl border border-emerald-200 bg-emerald-50 p-4 text-sm text-emerald-900">
+            <p className="font-semibold">Appointment confirmed</p>
+            <p className="mt-1">
+              {state.appointment.tutorName} · {state.appointment.skill} · {state.appointment.day},{' '}
+              {formatDate(state.appointment.date)}{' '}
+              {formatTimeRange(state.appointment.start, state.appointment.end)}
+            </p>
+            <div className="mt-2 flex flex-wrap gap-4 font-semibold text-emerald-800">
+              <a href={appointmentCalendarPath(state.appointment.manageUrl)} className="hover:underline">
+                Add to calendar
+              </a>
+              <Link href={state.appointment.manageUrl} className="hover:underline">
+                Cancel or reschedule →
+              </Link>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {error && <p className="px-6 pb-2 text-sm text-red-600">{error}</p>}
+
+      {messages.length === 1 && (
+        <div className="flex flex-wrap gap-2 px-6 pb-3">
+          {SUGGESTIONS.map((suggestion) => (
+            <button
+              key={suggestion}
+              type="button"
+              onClick={() => send(suggestion)}
+              className="rounded-full border border-slate-200 px-3 py-1.5 text-xs text-slate-600 transition hover:bg-slate-50"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {agreement && !isStreaming && (
+        <div className="flex flex-wrap items-center gap-3 px-6 pb-3">
+          <button
+            type="button"
+            onClick={() => send('I agree')}
+            className="rounded-full border border-slate-200 px-3 py-1.5 text-xs text-slate-600 transition hover:bg-slate-50"
+          >
+            {agreement.label}
+          </button>
+          <Link href={agreement.href} target="_blank" className="text-xs font-medium text-sky-700 hover:underline">
+            {agreement.link} ↗
+          </Link>
+        </div>
+      )}
+
+      <form
+        onSubmit={(event) => {
+          event.preventDefault();
+          send(input);
+        }}
+        className="flex gap-3 border-t border-slate-100 px-6 py-4"
+      >
+        <input
+          value={input}
+          onChange={(event) => setInput(event.target.value)}
+          placeholder="Type your message…"
+          aria-label="Message"
+          maxLength={2000}
+          className="flex-1 rounded-full border border-slate-200 px-4 py-2.5 text-sm outline-none focus:border-slate-400"
+        />
+        <Button type="submit" disabled={isStreaming || !input.trim()} className="rounded-full bg-slate-900 px-6 text-white">
+          {isStreaming ? 'Sending…' : 'Send'}
+        </Button>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+'use client';
+
+import { motion } from 'framer-motion';
+import { useInView } from 'framer-motion';
+import { useRef } from 'react';
+import Link from 'next/link';
+import type { StudyGroupSession } from '@/lib/study-groups/types';
+import type { Term, TermStatus } from '@/lib/terms/schema';
+import { formatDate } from '@/lib/time';
+import type { Tutor } from '@/lib/tutors/types';
+import ChatAssistant from './ChatAssistant';
+import StudyGroups from './StudyGroups';
+import WeekCalendar from './WeekCalendar';
+
+function AnimatedSection({ children, delay = 0 }: { children: React.ReactNode; delay?: number }) {
+  const ref = useRef(null);
+  const isInView = useInView(ref, { once: true, margin: "-100px" });
+
+  return (
+    <motion.div
+      ref={ref}
+      initial={{ opacity: 0, y: 60 }}
+      animate={isInView ? { opacity: 1, y: 0 } : { opacity: 0, y: 60 }}
+      transition={{ 
+        duration: 0.6, 
+        delay,
+        ease: [0.6, -0.05, 0.01, 0.99] 
+      }}
+    >
+      {children}
+    </motion.div>
+  );
+}
+
+type ScheduleContentProps = {
+  term: Term;
+  status: TermStatus;
+  tutors: Tutor[];
+  studyGroups: StudyGroupSession[];
+  preferredTutorId?: string;
+  chatSessionId?: string;
+  calendarUrl: string;
+};
+
+export default function ScheduleContent({
+  term,
+  status,
+  tutors,
+  studyGroups,
+  preferredTutorId,
+  chatSessionId,
+  calendarUrl,
+}: ScheduleContentProps) {
+  const preferredTutor = tutors.find((tutor) => tutor.id === preferredTutorId);
+
+  return (
+    <div className="min-h-screen bg-white p-8">
+      <div className="mx-auto max-w-6xl">
+        <motion.h1
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.6, ease: [0.6, -0.05, 0.01, 0.99] }}
+          className="text-3xl font-bold"
+        >
+          Schedule
+        </motion.h1>
+        <AnimatedSection delay={0.2}>
+          {status.status === 'between' && (
+            <p className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-700">
+              We&apos;re between semesters right now.{' '}
+              {status.next
+                ? `This is the ${status.next.label} schedule; tutoring resumes on ${formatDate(status.next.startDate)}.`
+                : 'Check back soon for next semester\'s schedule.'}
+            </p>
+          )}
+          <p className="mt-4 mb-8 text-gray-600">
+            Drop in on Zoom or in {term.onCampusLocation} during any shift below, or ask the booking assistant to reserve a
+            Zoom session with a tutor.{' '}
+            <a href={calendarUrl} className="font-medium text-sky-700 hover:underline">
+              Subscribe to the full schedule
+            </a>{' '}
+            to keep it in your own calendar.
+          </p>
+          <WeekCalendar term={term} tutors={tutors} inSession={status.status === 'active'} />
+        </AnimatedSection>
+        <AnimatedSection delay={0.3}>
+          <div className="mx-auto mt-10 max-w-3xl">
+            <h2 className="mb-4 text-xl font-semibold text-slate-900">Book a Zoom appointment</h2>
+            <ChatAssistant preferredTutor={preferredTutor} resumeSessionId={chatSessionId} />
+            <p className="mt-3 text-sm text-slate-500">
+              Every time you want is taken?{' '}
+              <Link href="/waitlist" className="font-medium text-sky-700 hover:underline">
+                Join the waitlist
+              </Link>{' '}
+              and we’ll email you if a session opens up.
+            </p>
+          </div>
+        </AnimatedSection>
+        <AnimatedSection delay={0.3}>
+          <StudyGroups sessions={studyGroups} />
+        </AnimatedSection>
+      </div>
+    </div>
+  );
+}
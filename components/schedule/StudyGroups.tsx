@@ -0,0 +1,125 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import { sessionKey, type StudyGroupSession } from '@/lib/study-groups/types';
+import { formatDate, formatTimeRange } from '@/lib/time';
+import { cn } from '@/lib/utils';
+
+type StudyGroupsProps = {
+  sessions: StudyGroupSession[];
+};
+
+const FIELD_CLASS =
+  'w-full rounded-2xl border border-slate-200 bg-white px-4 py-2.5 text-sm outline-none focus:border-slate-400';
+
+function RsvpForm({ session }: { session: StudyGroupSession }) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const [studentName, setStudentName] = useState('');
+  const [studentEmail, setStudentEmail] = useState('');
+
+  async function rsvp(event: React.FormEvent) {
+    event.preventDefault();
+    const body = await send<{ url: string }>('/api/study-groups', 'POST', {
+      groupId: session.groupId,
+      date: session.date,
+      studentName,
+      studentEmail,
+    });
+    if (body) router.push(body.url);
+  }
+
+  return (
+    <form onSubmit={rsvp} className="mt-4 space-y-3">
+      <div className="grid gap-3 sm:grid-cols-2">
+        <input
+          value={studentName}
+          onChange={(event) => setStudentName(event.target.value)}
+          placeholder="Your name"
+          aria-label="Your name"
+          required
+          maxLength={120}
+          className={FIELD_CLASS}
+        />
+        <input
+          type="email"
+          value={studentEmail}
+          onChange={(event) => setStudentEmail(event.target.value)}
+          placeholder="Email"
+          aria-label="Email"
+          required
+          maxLength={254}
+          className={FIELD_CLASS}
+        />
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <Button type="submit" disabled={pending} className="rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+        {pending ? 'Saving…' : 'Save my spot'}
+      </Button>
+    </form>
+  );
+}
+
+export default function StudyGroups({ sessions }: StudyGroupsProps) {
+  const [open, setOpen] = useState<string | null>(null);
+
+  return (
+    <div className="mx-auto mt-10 max-w-3xl">
+      <h2 className="text-xl font-semibold text-slate-900">Study groups</h2>
+      <p className="mt-2 mb-4 text-sm text-slate-500">
+        Work through problems together with a tutor leading. RSVP to save a spot and we’ll email you a reminder the day
+        before.
+      </p>
+      {sessions.length === 0 ? (
+        <p className="rounded-2xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm text-slate-600">
+          No study groups meet in the next week.
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {sessions.map((session) => {
+            const key = sessionKey(session);
+            const spotsLeft = Math.max(session.capacity - session.going, 0);
+            return (
+              <li key={key} className="rounded-3xl border border-amber-200 bg-amber-50/40 p-5">
+                <div className="flex flex-wrap items-start justify-between gap-3">
+                  <div>
+                    <p className="font-semibold text-slate-900">CS {session.course} study group</p>
+                    <p className="text-sm text-slate-600">
+                      {session.day}, {formatDate(session.date)} · {formatTimeRange(session.start, session.end)} ·{' '}
+                      {session.location}
+                    </p>
+                  </div>
+                  <span className={cn('text-sm font-medium', spotsLeft === 0 ? 'text-red-700' : 'text-emerald-700')}>
+                    {spotsLeft === 0 ? 'Full' : `${spotsLeft} of ${session.capacity} spots left`}
+                  </span>
+                </div>
+                {session.agenda && (
+                  <p className="mt-3 whitespace-pre-line text-sm text-slate-700">
+                    <span className="font-medium">Agenda:</span> {session.agenda}
+                  </p>
+                )}
+                {open === key ? (
+                  <RsvpForm session={session} />
+                ) : (
+                  spotsLeft > 0 && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      onClick={() => setOpen(key)}
+                      className="mt-4 rounded-full px-6"
+                    >
+                      RSVP
+                    </Button>
+                  )
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
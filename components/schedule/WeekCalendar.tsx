@@ -0,0 +1,258 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useNow } from '@/hooks/use-now';
+import {
+  buildScheduleEvents,
+  filterScheduleEvents,
+  isOpenNow,
+  type ScheduleEvent,
+  type ScheduleEventKind,
+  type ScheduleFilters,
+} from '@/lib/schedule/calendar';
+import type { Term } from '@/lib/terms/schema';
+import { formatTime, formatTimeRange, fromMinutes, toMinutes, zonedTime, type Weekday } from '@/lib/time';
+import { COURSES, type Course, type Tutor } from '@/lib/tutors/types';
+import { cn } from '@/lib/utils';
+
+const WEEK: Weekday[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday'];
+const PIXELS_PER_MINUTE = 1;
+
+const KIND_STYLES: Record<ScheduleEventKind, { label: string; className: string; swatch: string }> = {
+  virtual: { label: 'Zoom', className: 'border-sky-300 bg-sky-50 text-sky-900', swatch: 'bg-sky-400' },
+  'on-campus': { label: 'On campus', className: 'border-emerald-300 bg-emerald-50 text-emerald-900', swatch: 'bg-emerald-400' },
+  'study-group': { label: 'Study group', className: 'border-amber-300 bg-amber-50 text-amber-900', swatch: 'bg-amber-400' },
+};
+
+type WeekCalendarProps = {
+  term: Term;
+  tutors: Tutor[];
+  // Off during breaks, so nothing is highlighted as "open now" when nobody is tutoring.
+  inSession: boolean;
+};
+
+type PositionedEvent = ScheduleEvent & { lane: number; lanes: number };
+
+// Greedy lane assignment so overlapping shifts sit side by side instead of on top of each other.
+function layoutDay(events: ScheduleEvent[]): PositionedEvent[] {
+  const laneEnds: number[] = [];
+  const placed = events.map((event) => {
+    const start = toMinutes(event.start);
+    let lane = laneEnds.findIndex((end) => end <= start);
+    if (lane === -1) lane = laneEnds.length;
+    laneEnds[lane] = toMinutes(event.end);
+    return { ...event, lane };
+  });
+  return placed.map((event) => ({ ...event, lanes: laneEnds.length }));
+}
+
+export default function WeekCalendar({ term, tutors, inSession }: WeekCalendarProps) {
+  const clock = useNow();
+  const now = inSession ? clock : null;
+  const today = now ? zonedTime(now) : null;
+  const [view, setView] = useState<'week' | 'day'>('week');
+  const [selectedDay, setSelectedDay] = useState<Weekday | null>(null);
+  const [filters, setFilters] = useState<ScheduleFilters>({});
+
+  const events = useMemo(() => buildScheduleEvents(term, tutors), [term, tutors]);
+  const visible = useMemo(() => filterScheduleEvents(events, filters), [events, filters]);
+
+  const activeDay = selectedDay ?? (today && WEEK.includes(today.day) ? today.day : 'Monday');
+  const days = view === 'week' ? WEEK : [activeDay];
+
+  const allTimes = [...events, ...term.onCampusHours].flatMap((item) => [toMinutes(item.start), toMinutes(item.end)]);
+  const dayStart = Math.floor(Math.min(...allTimes, 10 * 60) / 60) * 60;
+  const dayEnd = Math.ceil(Math.max(...allTimes, 17 * 60) / 60) * 60;
+  const hours = Array.from({ length: (dayEnd - dayStart) / 60 }, (_, index) => dayStart + index * 60);
+
+  const openNow = now ? visible.filter((event) => isOpenNow(event, now)) : [];
+
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm shadow-slate-100">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-900">{term.label} tutoring schedule</h2>
+          <p className="text-sm text-slate-500">All times are Pacific time.</p>
+        </div>
+        <div className="inline-flex rounded-full border border-slate-200 p-1">
+          {(['week', 'day'] as const).map((option) => (
+            <button
+              key={option}
+              type="button"
+              aria-pressed={view === option}
+              onClick={() => setView(option)}
+              className={cn(
+                'rounded-full px-4 py-1.5 text-sm font-medium capitalize transition',
+                view === option ? 'bg-slate-900 text-white' : 'text-slate-600 hover:bg-slate-50'
+              )}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-6 flex flex-wrap gap-3">
+        {view === 'day' && (
+          <select
+            value={activeDay}
+            onChange={(event) => setSelectedDay(event.target.value as Weekday)}
+            aria-label="Day"
+            className="rounded-full border border-slate-200 px-4 py-2 text-sm"
+          >
+            {WEEK.map((day) => (
+              <option key={day} value={day}>
+                {day}
+              </option>
+            ))}
+          </select>
+        )}
+        <select
+          value={filters.course ?? ''}
+          onChange={(event) => setFilters({ ...filters, course: (event.target.value || undefined) as Course | undefined })}
+          aria-label="Course"
+          className="rounded-full border border-slate-200 px-4 py-2 text-sm"
+        >
+          <option value="">All courses</option>
+          {COURSES.map((course) => (
+            <option key={course.code} value={course.code}>
+              CS {course.code}
+            </option>
+          ))}
+        </select>
+        <select
+          value={filters.tutorId ?? ''}
+          onChange={(event) => setFilters({ ...filters, tutorId: event.target.value || undefined })}
+          aria-label="Tutor"
+          className="rounded-full border border-slate-200 px-4 py-2 text-sm"
+        >
+          <option value="">All tutors</option>
+          {tutors.map((tutor) => (
+            <option key={tutor.id} value={tutor.id}>
+              {tutor.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {openNow.length > 0 && (
+        <p className="mt-4 rounded-2xl bg-emerald-50 px-4 py-3 text-sm text-emerald-800">
+          <span className="font-semibold">Open now:</span>{' '}
+          {openNow.map((event) => `${event.title} (${KIND_STYLES[event.kind].label})`).join(', ')}
+        </p>
+      )}
+
+      <div className="mt-6 overflow-x-auto">
+        <div className="grid min-w-[640px]" style={{ gridTemplateColumns: `3.5rem repeat(${days.length}, minmax(0, 1fr))` }}>
+          <div />
+          {days.map((day) => (
+            <div
+              key={`heading-${day}`}
+              className={cn(
+                'pb-2 text-center text-sm font-semibold',
+                today?.day === day ? 'text-sky-700' : 'text-slate-700'
+              )}
+            >
+              {view === 'week' ? day.slice(0, 3) : day}
+            </div>
+          ))}
+
+          <div className="relative" style={{ height: (dayEnd - dayStart) * PIXELS_PER_MINUTE }}>
+            {hours.map((minutes) => (
+              <span
+                key={`hour-${minutes}`}
+                className="absolute right-2 -translate-y-1/2 text-xs text-slate-400"
+                style={{ top: (minutes - dayStart) * PIXELS_PER_MINUTE }}
+              >
+                {formatTime(fromMinutes(minutes))}
+              </span>
+            ))}
+          </div>
+
+          {days.map((day) => (
+            <div
+              key={`column-${day}`}
+              className="relative border-l border-slate-100"
+              style={{ height: (dayEnd - dayStart) * PIXELS_PER_MINUTE }}
+            >
+              {hours.map((minutes) => (
+                <div
+                  key={`line-${day}-${minutes}`}
+                  className="absolute inset-x-0 border-t border-slate-100"
+                  style={{ top: (minutes - dayStart) * PIXELS_PER_MINUTE }}
+                />
+              ))}
+
+              {term.onCampusHours
+                .filter((hoursForDay) => hoursForDay.day === day)
+                .map((hoursForDay) => (
+                  <div
+                    key={`room-${day}-${hoursForDay.start}`}
+                    title={`${term.onCampusLocation} open ${formatTimeRange(hoursForDay.start, hoursForDay.end)}`}
+                    className="absolute inset-x-0 bg-emerald-50/40"
+                    style={{
+                      top: (toMinutes(hoursForDay.start) - dayStart) * PIXELS_PER_MINUTE,
+                      height: (toMinutes(hoursForDay.end) - toMinutes(hoursForDay.start)) * PIXELS_PER_MINUTE,
+                    }}
+                  />
+                ))}
+
+              {layoutDay(visible.filter((event) => event.day === day)).map((event) => {
+                const open = now ? isOpenNow(event, now) : false;
+                return (
+                  <div
+                    key={event.id}
+                    className={cn(
+                      'absolute overflow-hidden rounded-lg border px-2 py-1 text-xs leading-tight',
+                      KIND_STYLES[event.kind].className,
+                      open && 'ring-2 ring-emerald-500 ring-offset-1'
+                    )}
+                    style={{
+                      top: (toMinutes(event.start) - dayStart) * PIXELS_PER_MINUTE,
+                      height: (toMinutes(event.end) - toMinutes(event.start)) * PIXELS_PER_MINUTE,
+                      left: `calc(${(event.lane / event.lanes) * 100}% + 2px)`,
+                      width: `calc(${100 / event.lanes}% - 4px)`,
+                    }}
+                  >
+                    {event.tutorId ? (
+                      <Link href={`/bios/${event.tutorId}`} className="font-semibold hover:underline">
+                        {event.title}
+                      </Link>
+                    ) : (
+                      <span className="font-semibold">{event.title}</span>
+                    )}
+                    <p>{formatTimeRange(event.start, event.end)}</p>
+                    <p className="opacity-70">{event.location}</p>
+                    {open && <p className="mt-1 font-semibold text-emerald-700">Open now</p>}
+                  </div>
+                );
+              })}
+
+              {today?.day === day && today.minutes >= dayStart && today.minutes <= dayEnd && (
+                <div
+                  aria-hidden
+                  className="absolute inset-x-0 z-10 border-t-2 border-red-400"
+                  style={{ top: (today.minutes - dayStart) * PIXELS_PER_MINUTE }}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap gap-4 text-xs text-slate-500">
+        {Object.values(KIND_STYLES).map((style) => (
+          <span key={style.label} className="inline-flex items-center gap-1.5">
+            <span className={cn('h-2.5 w-2.5 rounded-full', style.swatch)} />
+            {style.label}
+          </span>
+        ))}
+        <span className="inline-flex items-center gap-1.5">
+          <span className="h-2.5 w-2.5 rounded-full bg-emerald-100" />
+          {term.onCampusLocation} open
+        </span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import type { StudyGroupRsvp, StudyGroupSession } from '@/lib/study-groups/types';
+import { formatDate, formatTimeRange } from '@/lib/time';
+
+type RsvpTicketProps = {
+  rsvp: StudyGroupRsvp;
+  session: StudyGroupSession;
+};
+
+export default function RsvpTicket({ rsvp, session }: RsvpTicketProps) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const [confirmingCancel, setConfirmingCancel] = useState(false);
+  const going = rsvp.status === 'going';
+
+  async function cancel() {
+    if (await send(`/api/study-groups/rsvps/${rsvp.id}`, 'DELETE')) router.refresh();
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-100 via-white to-white py-16">
+      <motion.div
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, ease: [0.6, -0.05, 0.01, 0.99] }}
+        className="mx-auto max-w-2xl px-6 lg:px-8"
+      >
+        <span className="text-sm uppercase tracking-[0.35em] text-sky-700">Study group · CS {session.course}</span>
+        <div className="mt-4 rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100">
+          <h1 className="text-2xl font-semibold text-slate-900">
+            {going ? (session.ended ? 'Thanks for coming' : 'You’re on the list') : 'Your RSVP is cancelled'}
+          </h1>
+          <p className="mt-3 text-lg text-slate-700">
+            {session.day}, {formatDate(session.date)} · {formatTimeRange(session.start, session.end)}
+          </p>
+          <p className="mt-1 text-slate-600">{session.location}</p>
+          {going && !session.started && (
+            <p className="mt-4 text-sm text-slate-500">We’ll email {rsvp.studentEmail} a reminder the day before.</p>
+          )}
+
+          {session.agenda && (
+            <div className="mt-6 rounded-2xl bg-amber-50 p-4">
+              <p className="text-sm font-medium text-amber-900">Agenda</p>
+              <p className="mt-1 whitespace-pre-line text-sm text-slate-700">{session.agenda}</p>
+            </div>
+          )}
+
+          {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+          <div className="mt-6 flex flex-wrap gap-3">
+            {going && !session.started ? (
+              confirmingCancel ? (
+                <>
+                  <Button
+                    type="button"
+                    disabled={pending}
+                    onClick={cancel}
+                    className="rounded-full bg-red-600 px-6 text-white hover:bg-red-500"
+                  >
+                    {pending ? 'Cancelling…' : 'Yes, give up my spot'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setConfirmingCancel(false)} className="rounded-full px-6">
+                    Keep my spot
+                  </Button>
+                </>
+              ) : (
+                <Button type="button" variant="outline" onClick={() => setConfirmingCancel(true)} className="rounded-full px-6">
+                  Cancel my RSVP
+                </Button>
+              )
+            ) : (
+              <Button asChild className="rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+                <Link href="/schedule">See upcoming study groups</Link>
+              </Button>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import type { Term } from '@/lib/terms/schema';
+import { WEEKDAYS, type Weekday } from '@/lib/time';
+import { MODALITIES, type Modality, type TutorShift } from '@/lib/tutors/types';
+import { cn } from '@/lib/utils';
+
+type AvailabilityEditorProps = {
+  term: Term;
+  shifts: TutorShift[];
+  // Where to PUT { termId, shifts }; coordinators edit through the admin API.
+  url?: string;
+};
+
+const MODALITY_LABELS: Record<Modality, string> = {
+  virtual: 'Zoom',
+  'on-campus': 'On campus',
+};
+
+const FIELD_CLASS = 'rounded-full border border-slate-200 bg-white px-3 py-2 text-sm outline-none focus:border-slate-400';
+
+export default function AvailabilityEditor({
+  term,
+  shifts: initialShifts,
+  url = '/api/tutor/availability',
+}: AvailabilityEditorProps) {
+  const router = useRouter();
+  const [shifts, setShifts] = useState<TutorShift[]>(initialShifts);
+  const [pending, setPending] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  function update(index: number, change: Partial<TutorShift>) {
+    setShifts(shifts.map((shift, position) => (position === index ? { ...shift, ...change } : shift)));
+  }
+
+  async function save() {
+    setPending(true);
+    setMessage(null);
+    try {
+      const response = await fetch(url, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ termId: term.id, shifts }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        const issue = body.issues?.[0];
+        const row = typeof issue?.path?.[1] === 'number' ? `Row ${issue.path[1] + 1}: ` : '';
+        setMessage({ text: issue ? `${row}${issue.message}` : body.error, error: true });
+        return;
+      }
+      setShifts(body.tutor.availability);
+      const cancelled: number = body.cancelled;
+      setMessage({
+        text:
+          cancelled > 0
+            ? `Availability saved. ${cancelled} appointment${cancelled === 1 ? '' : 's'} outside the new hours ${cancelled === 1 ? 'was' : 'were'} cancelled and the students emailed.`
+            : 'Availability saved.',
+        error: false,
+      });
+      router.refresh();
+    } catch {
+      setMessage({ text: 'Something went wrong. Please try again.', error: true });
+    } finally {
+      setPending(false);
+    }
+  }
+
+  return (
+    <div className="rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100">
+      <h2 className="text-xl font-semibold text-slate-900">Weekly availability</h2>
+      <p className="mt-2 text-sm text-slate-500">
+        Weekly shifts for {term.label}. Zoom shifts become bookable slots; appointments already booked are kept.
+      </p>
+
+      <div className="mt-6 space-y-3">
+        {shifts.length === 0 && <p className="text-sm text-slate-400">No shifts yet.</p>}
+        {shifts.map((shift, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <select
+              value={shift.day}
+              onChange={(event) => update(index, { day: event.target.value as Weekday })}
+              aria-label="Day"
+              className={FIELD_CLASS}
+            >
+              {WEEKDAYS.map((day) => (
+                <option key={day} value={day}>
+                  {day}
+                </option>
+              ))}
+            </select>
+            <input
+              type="time"
+              value={shift.start}
+              onChange={(event) => update(index, { start: event.target.value })}
+              aria-label="Start"
+              step={900}
+              className={FIELD_CLASS}
+            />
+            <span className="text-slate-400">to</span>
+            <input
+              type="time"
+              value={shift.end}
+              onChange={(event) => update(index, { end: event.target.value })}
+              aria-label="End"
+              step={900}
+              className={FIELD_CLASS}
+            />
+            <select
+              value={shift.modality}
+              onChange={(event) => update(index, { modality: event.target.value as Modality })}
+              aria-label="Where"
+              className={FIELD_CLASS}
+            >
+              {MODALITIES.map((modality) => (
+                <option key={modality} value={modality}>
+                  {MODALITY_LABELS[modality]}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => setShifts(shifts.filter((_, position) => position !== index))}
+              className="text-sm text-slate-500 hover:text-red-600"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {message && (
+        <p className={cn('mt-4 text-sm', message.error ? 'text-red-600' : 'text-emerald-700')}>{message.text}</p>
+      )}
+      <div className="mt-6 flex flex-wrap gap-3">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => setShifts([...shifts, { day: 'Monday', start: '10:00', end: '12:00', modality: 'virtual' }])}
+          className="rounded-full px-6"
+        >
+          Add shift
+        </Button>
+        <Button
+          type="button"
+          disabled={pending}
+          onClick={save}
+          className="rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700"
+        >
+          {pending ? 'Saving…' : 'Save availability'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+'use client';
+
+import { Button } from '@/components/ui/button';
+import { useEventStream } from '@/hooks/use-event-stream';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import type { DropInBoard, DropInEntry } from '@/lib/dropin/types';
+import { formatTime, fromMinutes, zonedTime } from '@/lib/time';
+
+type DropInPanelProps = {
+  tutorId: string;
+  board: DropInBoard;
+};
+
+function joinedAt(entry: DropInEntry) {
+  return formatTime(fromMinutes(zonedTime(new Date(entry.joinedAt)).minutes));
+}
+
+function Student({ entry }: { entry: DropInEntry }) {
+  return (
+    <>
+      <p className="font-medium text-slate-900">
+        {entry.studentName}
+        {entry.course && <span className="font-normal text-slate-500"> · CS {entry.course}</span>}
+      </p>
+      <p className="mt-1 whitespace-pre-line text-sm text-slate-700">{entry.question}</p>
+    </>
+  );
+}
+
+// The shared Zoom room's line, kept live over server-sent events.
+export default function DropInPanel({ tutorId, board: initial }: DropInPanelProps) {
+  const board = useEventStream('/api/tutor/dropin/events', initial);
+  const { pending, error, send } = useJsonRequest();
+  const current = board.helping.find((entry) => entry.tutorId === tutorId);
+  const others = board.helping.filter((entry) => entry !== current);
+
+  return (
+    <section>
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-900">Drop-in queue</h2>
+          <p className="mt-1 text-sm text-slate-500">
+            {board.waiting.length} waiting · {board.tutorsOnDuty} on duty · about {board.averageMinutes} min per student
+          </p>
+        </div>
+        <Button
+          type="button"
+          disabled={pending || board.waiting.length === 0}
+          onClick={() => send('/api/tutor/dropin', 'POST')}
+          className="rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700"
+        >
+          {current ? 'Done · next student' : 'Take next student'}
+        </Button>
+      </div>
+
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+      {current && (
+        <div className="mt-4 rounded-3xl border border-emerald-200 bg-emerald-50/50 p-6">
+          <p className="text-xs font-semibold uppercase tracking-wide text-emerald-700">You’re helping</p>
+          <div className="mt-2">
+            <Student entry={current} />
+            <a href={`mailto:${current.studentEmail}`} className="mt-1 inline-block text-sm text-sky-700 hover:underline">
+              {current.studentEmail}
+            </a>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            disabled={pending}
+            onClick={() => send(`/api/tutor/dropin/${current.id}`, 'PATCH', { status: 'done' })}
+            className="mt-4 rounded-full px-5"
+          >
+            Done
+          </Button>
+        </div>
+      )}
+
+      {board.waiting.length === 0 ? (
+        <p className="mt-4 rounded-3xl border border-dashed border-slate-200 p-6 text-sm text-slate-500">
+          No one is waiting.
+        </p>
+      ) : (
+        <ol className="mt-4 divide-y divide-slate-100 rounded-3xl border border-slate-200 bg-white px-6">
+          {board.waiting.map((entry, index) => (
+            <li key={entry.id} className="flex gap-4 py-4">
+              <span className="w-6 shrink-0 text-lg font-semibold text-slate-400">{index + 1}</span>
+              <div className="min-w-0 flex-1">
+                <Student entry={entry} />
+              </div>
+              <span className="shrink-0 text-xs text-slate-400">joined {joinedAt(entry)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {others.length > 0 && (
+        <p className="mt-3 text-sm text-slate-500">
+          With other tutors: {others.map((entry) => `${entry.studentName} (${entry.tutorName})`).join(', ')}
+        </p>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import { INCIDENT_CATEGORIES, INCIDENT_CATEGORY_LABELS, type IncidentCategory } from '@/lib/incidents/types';
+
+const FIELD_CLASS =
+  'w-full rounded-2xl border border-slate-200 bg-white px-4 py-2.5 text-sm outline-none focus:border-slate-400';
+
+// Reports a student's conduct in one session. Only coordinators see the report.
+export default function IncidentReportForm({ appointmentId }: { appointmentId: string }) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const [open, setOpen] = useState(false);
+  const [category, setCategory] = useState<IncidentCategory>('disrespect');
+  const [description, setDescription] = useState('');
+
+  async function submit(event: React.FormEvent) {
+    event.preventDefault();
+    if (await send('/api/tutor/incidents', 'POST', { appointmentId, category, description })) {
+      setOpen(false);
+      router.refresh();
+    }
+  }
+
+  if (!open) {
+    return (
+      <button type="button" onClick={() => setOpen(true)} className="text-xs font-medium text-red-700 hover:underline">
+        Report an incident
+      </button>
+    );
+  }
+
+  return (
+    <form onSubmit={submit} className="mt-2 space-y-3 rounded-2xl border border-red-100 bg-red-50/40 p-4">
+      <p className="text-xs text-slate-500">
+        Only the tutoring coordinators see this report. They’ll follow up with you and decide what happens next.
+      </p>
+      <select
+        value={category}
+        onChange={(event) => setCategory(event.target.value as IncidentCategory)}
+        aria-label="What happened"
+        className={FIELD_CLASS}
+      >
+        {INCIDENT_CATEGORIES.map((option) => (
+          <option key={option} value={option}>
+            {INCIDENT_CATEGORY_LABELS[option]}
+          </option>
+        ))}
+      </select>
+      <textarea
+        value={description}
+        onChange={(event) => setDescription(event.target.value)}
+        placeholder="Describe what happened, in as much detail as you can"
+        aria-label="Description"
+        rows={4}
+        required
+        maxLength={4000}
+        className={FIELD_CLASS}
+      />
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      <div className="flex gap-2">
+        <Button type="submit" disabled={pending} className="rounded-full bg-slate-900 px-5 text-white hover:bg-slate-700">
+          {pending ? 'Sending…' : 'Send report'}
+        </Button>
+        <Button type="button" variant="outline" onClick={() => setOpen(false)} className="rounded-full px-5">
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
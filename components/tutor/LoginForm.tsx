@@ -0,0 +1,90 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { landingPath } from '@/lib/auth/permissions';
+
+const FIELD_CLASS =
+  'mt-1 w-full rounded-full border border-slate-200 bg-white px-4 py-2.5 text-sm outline-none focus:border-slate-400';
+
+export default function LoginForm() {
+  const router = useRouter();
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function submit(event: React.FormEvent) {
+    event.preventDefault();
+    setPending(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setError(body.error ?? 'Something went wrong. Please try again.');
+        return;
+      }
+      router.replace(landingPath(body.user));
+      router.refresh();
+    } catch {
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setPending(false);
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-100 via-white to-white py-16">
+      <motion.form
+        onSubmit={submit}
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, ease: [0.6, -0.05, 0.01, 0.99] }}
+        className="mx-auto max-w-md rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100"
+      >
+        <span className="text-sm uppercase tracking-[0.35em] text-sky-700">Tutor squad</span>
+        <h1 className="mt-2 text-2xl font-semibold text-slate-900">Sign in</h1>
+        <p className="mt-2 text-sm text-slate-500">For tutors and Tutor Squad coordinators.</p>
+
+        <label className="mt-6 block text-sm font-medium text-slate-700">
+          Email
+          <input
+            type="email"
+            value={email}
+            onChange={(event) => setEmail(event.target.value)}
+            autoComplete="username"
+            required
+            className={FIELD_CLASS}
+          />
+        </label>
+        <label className="mt-4 block text-sm font-medium text-slate-700">
+          Password
+          <input
+            type="password"
+            value={password}
+            onChange={(event) => setPassword(event.target.value)}
+            autoComplete="current-password"
+            required
+            className={FIELD_CLASS}
+          />
+        </label>
+
+        {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+        <Button
+          type="submit"
+          disabled={pending}
+          className="mt-6 w-full rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700"
+        >
+          {pending ? 'Signing in…' : 'Sign in'}
+        </Button>
+      </motion.form>
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import type { Tutor } from '@/lib/tutors/types';
+import { cn } from '@/lib/utils';
+
+const FIELD_CLASS =
+  'mt-1 w-full rounded-2xl border border-slate-200 bg-white px-4 py-2.5 text-sm outline-none focus:border-slate-400';
+
+export default function ProfileEditor({ tutor }: { tutor: Tutor }) {
+  const router = useRouter();
+  const [pronouns, setPronouns] = useState(tutor.pronouns ?? '');
+  const [bio, setBio] = useState(tutor.bio);
+  const [pending, setPending] = useState(false);
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null);
+
+  async function save(event: React.FormEvent) {
+    event.preventDefault();
+    setPending(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/tutor/profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ pronouns, bio }),
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        setMessage({ text: body.issues?.[0]?.message ?? body.error, error: true });
+        return;
+      }
+      setMessage({ text: 'Profile saved.', error: false });
+      router.refresh();
+    } catch {
+      setMessage({ text: 'Something went wrong. Please try again.', error: true });
+    } finally {
+      setPending(false);
+    }
+  }
+
+  return (
+    <form onSubmit={save} className="rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100">
+      <h2 className="text-xl font-semibold text-slate-900">Your bio</h2>
+      <p className="mt-2 text-sm text-slate-500">Shown on the Bios page. Ask a coordinator to change your courses or languages.</p>
+
+      <label className="mt-6 block text-sm font-medium text-slate-700">
+        Pronouns
+        <input
+          value={pronouns}
+          onChange={(event) => setPronouns(event.target.value)}
+          placeholder="Optional"
+          maxLength={40}
+          className={FIELD_CLASS}
+        />
+      </label>
+      <label className="mt-4 block text-sm font-medium text-slate-700">
+        Bio
+        <textarea
+          value={bio}
+          onChange={(event) => setBio(event.target.value)}
+          maxLength={2000}
+          rows={6}
+          required
+          className={FIELD_CLASS}
+        />
+      </label>
+
+      {message && (
+        <p className={cn('mt-4 text-sm', message.error ? 'text-red-600' : 'text-emerald-700')}>{message.text}</p>
+      )}
+      <Button type="submit" disabled={pending} className="mt-6 rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+        {pending ? 'Saving…' : 'Save bio'}
+      </Button>
+    </form>
+  );
+}
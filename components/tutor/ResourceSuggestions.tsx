@@ -0,0 +1,127 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import TagFields, { fromTagDraft, type TagDraft } from '@/components/resources/TagFields';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import type { Resource, ResourceStatus } from '@/lib/resources/types';
+import { cn } from '@/lib/utils';
+
+const FIELD_CLASS =
+  'w-full rounded-2xl border border-slate-200 bg-white px-4 py-2.5 text-sm outline-none focus:border-slate-400';
+
+const STATUS_LABELS: Record<ResourceStatus, { label: string; className: string }> = {
+  pending: { label: 'Waiting for review', className: 'bg-amber-50 text-amber-700' },
+  published: { label: 'Published', className: 'bg-emerald-50 text-emerald-700' },
+  rejected: { label: 'Not added', className: 'bg-slate-100 text-slate-600' },
+};
+
+const BLANK = { title: '', href: '', usefulFor: '', description: '' };
+const BLANK_TAGS: TagDraft = { languages: [], courses: [], topics: '' };
+
+// Tutors suggest links for the Resources page; a coordinator publishes them.
+export default function ResourceSuggestions({ suggestions }: { suggestions: Resource[] }) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const [draft, setDraft] = useState(BLANK);
+  const [tags, setTags] = useState(BLANK_TAGS);
+  const [sent, setSent] = useState(false);
+
+  function update(change: Partial<typeof BLANK>) {
+    setDraft({ ...draft, ...change });
+    setSent(false);
+  }
+
+  async function submit(event: React.FormEvent) {
+    event.preventDefault();
+    const { href, ...rest } = draft;
+    const body = { ...rest, link: { href }, tags: fromTagDraft(tags) };
+    if (await send('/api/tutor/resources', 'POST', body)) {
+      setDraft(BLANK);
+      setTags(BLANK_TAGS);
+      setSent(true);
+      router.refresh();
+    }
+  }
+
+  return (
+    <section className="rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100">
+      <h2 className="text-xl font-semibold text-slate-900">Suggest a resource</h2>
+      <p className="mt-2 text-sm text-slate-500">
+        Found something students keep asking about? A coordinator reviews suggestions before they appear on the Resources
+        page.
+      </p>
+
+      <form onSubmit={submit} className="mt-6 space-y-3">
+        <input
+          value={draft.title}
+          onChange={(event) => update({ title: event.target.value })}
+          placeholder="Title"
+          aria-label="Title"
+          required
+          maxLength={120}
+          className={FIELD_CLASS}
+        />
+        <input
+          type="url"
+          value={draft.href}
+          onChange={(event) => update({ href: event.target.value })}
+          placeholder="https://…"
+          aria-label="Link"
+          required
+          className={FIELD_CLASS}
+        />
+        <input
+          value={draft.usefulFor}
+          onChange={(event) => update({ usefulFor: event.target.value })}
+          placeholder="Useful for (e.g. debugging recursion in Python)"
+          aria-label="Useful for"
+          required
+          maxLength={200}
+          className={FIELD_CLASS}
+        />
+        <textarea
+          value={draft.description}
+          onChange={(event) => update({ description: event.target.value })}
+          placeholder="Why it helps"
+          aria-label="Description"
+          rows={3}
+          required
+          maxLength={1000}
+          className={FIELD_CLASS}
+        />
+        <TagFields
+          tags={tags}
+          onChange={(change) => {
+            setTags({ ...tags, ...change });
+            setSent(false);
+          }}
+          fieldClass={FIELD_CLASS}
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {sent && <p className="text-sm text-emerald-700">Thanks! It’s waiting for review.</p>}
+        <Button type="submit" disabled={pending} className="rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+          {pending ? 'Sending…' : 'Send suggestion'}
+        </Button>
+      </form>
+
+      {suggestions.length > 0 && (
+        <ul className="mt-8 divide-y divide-slate-100 border-t border-slate-100">
+          {suggestions.map((resource) => {
+            const status = STATUS_LABELS[resource.status];
+            return (
+              <li key={resource.id} className="py-3 text-sm">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="font-medium text-slate-800">{resource.title}</span>
+                  <span className={cn('rounded-full px-3 py-1 text-xs font-semibold', status.className)}>{status.label}</span>
+                </div>
+                {resource.reviewNote && <p className="mt-1 text-slate-500">“{resource.reviewNote}”</p>}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </section>
+  );
+}
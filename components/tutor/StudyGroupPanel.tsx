@@ -0,0 +1,170 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import { sessionKey, type StudyGroupRoster, type StudyGroupRsvp } from '@/lib/study-groups/types';
+import { formatDate, formatTimeRange } from '@/lib/time';
+import { cn } from '@/lib/utils';
+
+type StudyGroupPanelProps = {
+  rosters: StudyGroupRoster[];
+};
+
+const FIELD_CLASS =
+  'w-full rounded-2xl border border-slate-200 bg-white px-4 py-2.5 text-sm outline-none focus:border-slate-400';
+
+function Attendee({ roster, rsvp }: { roster: StudyGroupRoster; rsvp: StudyGroupRsvp }) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+
+  async function mark(attended: boolean) {
+    const url = `/api/tutor/study-groups/${roster.groupId}/${roster.date}/rsvps/${rsvp.id}`;
+    if (await send(url, 'PATCH', { attended })) router.refresh();
+  }
+
+  return (
+    <li className="flex flex-wrap items-center justify-between gap-2 py-3 text-sm">
+      <span className="text-slate-700">
+        {rsvp.studentName} <span className="text-slate-400">· {rsvp.studentEmail}</span>
+      </span>
+      {roster.started && (
+        <span className="flex gap-2">
+          {([true, false] as const).map((attended) => (
+            <Button
+              key={String(attended)}
+              type="button"
+              size="sm"
+              variant="outline"
+              disabled={pending}
+              onClick={() => mark(attended)}
+              className={cn(
+                'rounded-full px-4',
+                rsvp.attended === attended && (attended ? 'border-emerald-300 bg-emerald-50' : 'border-amber-300 bg-amber-50')
+              )}
+            >
+              {attended ? 'Here' : 'Absent'}
+            </Button>
+          ))}
+        </span>
+      )}
+      {error && <p className="w-full text-red-600">{error}</p>}
+    </li>
+  );
+}
+
+function Meeting({ roster }: { roster: StudyGroupRoster }) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const [agenda, setAgenda] = useState(roster.agenda);
+  const [studentName, setStudentName] = useState('');
+  const [studentEmail, setStudentEmail] = useState('');
+  const base = `/api/tutor/study-groups/${roster.groupId}/${roster.date}`;
+  const present = roster.rsvps.filter((rsvp) => rsvp.attended).length;
+
+  async function saveAgenda(event: React.FormEvent) {
+    event.preventDefault();
+    if (await send(base, 'PATCH', { agenda })) router.refresh();
+  }
+
+  async function addWalkIn(event: React.FormEvent) {
+    event.preventDefault();
+    if (await send(`${base}/attendees`, 'POST', { studentName, studentEmail })) {
+      setStudentName('');
+      setStudentEmail('');
+      router.refresh();
+    }
+  }
+
+  return (
+    <li className="rounded-3xl border border-slate-200 bg-white p-6">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <p className="font-semibold text-slate-900">
+          CS {roster.course} · {roster.day}, {formatDate(roster.date)} · {formatTimeRange(roster.start, roster.end)}
+        </p>
+        <span className="text-sm text-slate-500">
+          {roster.going} of {roster.capacity} RSVP’d
+          {roster.started && ` · ${present} here`}
+        </span>
+      </div>
+
+      {!roster.ended && (
+        <form onSubmit={saveAgenda} className="mt-4 space-y-2">
+          <label className="block text-sm font-medium text-slate-700">
+            Agenda
+            <textarea
+              value={agenda}
+              onChange={(event) => setAgenda(event.target.value)}
+              rows={3}
+              maxLength={2000}
+              placeholder="What you’ll cover, so students can come prepared"
+              className={cn('mt-1', FIELD_CLASS)}
+            />
+          </label>
+          <div className="flex items-center gap-3">
+            <Button type="submit" variant="outline" disabled={pending || agenda === roster.agenda} className="rounded-full px-5">
+              Save agenda
+            </Button>
+            {roster.agendaBy && <span className="text-xs text-slate-400">Last set by {roster.agendaBy}</span>}
+          </div>
+        </form>
+      )}
+      {roster.ended && roster.agenda && <p className="mt-3 whitespace-pre-line text-sm text-slate-600">{roster.agenda}</p>}
+
+      {roster.rsvps.length === 0 ? (
+        <p className="mt-4 text-sm text-slate-500">No RSVPs yet.</p>
+      ) : (
+        <ul className="mt-4 divide-y divide-slate-100">
+          {roster.rsvps.map((rsvp) => (
+            <Attendee key={rsvp.id} roster={roster} rsvp={rsvp} />
+          ))}
+        </ul>
+      )}
+
+      {roster.started && (
+        <form onSubmit={addWalkIn} className="mt-4 grid gap-2 sm:grid-cols-[1fr_1fr_auto]">
+          <input
+            value={studentName}
+            onChange={(event) => setStudentName(event.target.value)}
+            placeholder="Walk-in name"
+            aria-label="Walk-in name"
+            required
+            maxLength={120}
+            className={FIELD_CLASS}
+          />
+          <input
+            type="email"
+            value={studentEmail}
+            onChange={(event) => setStudentEmail(event.target.value)}
+            placeholder="Email"
+            aria-label="Walk-in email"
+            required
+            maxLength={254}
+            className={FIELD_CLASS}
+          />
+          <Button type="submit" disabled={pending} className="rounded-full bg-slate-900 px-5 text-white hover:bg-slate-700">
+            Add walk-in
+          </Button>
+        </form>
+      )}
+      {error && <p className="mt-3 text-sm text-red-600">{error}</p>}
+    </li>
+  );
+}
+
+// This week's meetings of the study groups for the tutor's courses.
+export default function StudyGroupPanel({ rosters }: StudyGroupPanelProps) {
+  if (rosters.length === 0) return null;
+
+  return (
+    <section>
+      <h2 className="text-xl font-semibold text-slate-900">Study groups</h2>
+      <ul className="mt-4 space-y-4">
+        {rosters.map((roster) => (
+          <Meeting key={sessionKey(roster)} roster={roster} />
+        ))}
+      </ul>
+    </section>
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import type { Appointment, AppointmentOutcome, TutorQueue } from '@/lib/booking/types';
+import type { DropInBoard } from '@/lib/dropin/types';
+import type { Incident, IncidentStatus } from '@/lib/incidents/types';
+import type { Resource } from '@/lib/resources/types';
+import type { StudyGroupRoster } from '@/lib/study-groups/types';
+import type { Term } from '@/lib/terms/schema';
+import { formatDate, formatTime, formatTimeRange, weekdayOfDate } from '@/lib/time';
+import type { Tutor } from '@/lib/tutors/types';
+import { cn } from '@/lib/utils';
+import AvailabilityEditor from './AvailabilityEditor';
+import DropInPanel from './DropInPanel';
+import IncidentReportForm from './IncidentReportForm';
+import ProfileEditor from './ProfileEditor';
+import ResourceSuggestions from './ResourceSuggestions';
+import StudyGroupPanel from './StudyGroupPanel';
+
+type TutorDashboardProps = {
+  tutor: Tutor;
+  term: Term;
+  queue: TutorQueue;
+  dropIn: DropInBoard;
+  suggestions: Resource[];
+  incidents: Incident[];
+  studyGroups: StudyGroupRoster[];
+};
+
+const STATUS_LABELS: Record<Appointment['status'], { label: string; className: string }> = {
+  booked: { label: 'Booked', className: 'bg-emerald-50 text-emerald-700' },
+  cancelled: { label: 'Cancelled', className: 'bg-slate-100 text-slate-600' },
+  completed: { label: 'Completed', className: 'bg-sky-50 text-sky-700' },
+  'no-show': { label: 'No-show', className: 'bg-amber-50 text-amber-700' },
+};
+
+const INCIDENT_STATUS_LABELS: Record<IncidentStatus, { label: string; className: string }> = {
+  open: { label: 'Sent', className: 'bg-amber-50 text-amber-700' },
+  reviewing: { label: 'Being reviewed', className: 'bg-sky-50 text-sky-700' },
+  resolved: { label: 'Resolved', className: 'bg-emerald-50 text-emerald-700' },
+  dismissed: { label: 'Closed', className: 'bg-slate-100 text-slate-600' },
+};
+
+const OUTCOME_LABELS: Record<AppointmentOutcome, string> = {
+  completed: 'Completed',
+  'no-show': 'No-show',
+};
+
+function describeDate(date: string) {
+  return `${weekdayOfDate(date)}, ${formatDate(date)}`;
+}
+
+function Context({ label, value }: { label: string; value: string | null }) {
+  if (!value) return null;
+  return (
+    <div>
+      <dt className="text-xs font-semibold uppercase tracking-wide text-slate-400">{label}</dt>
+      <dd className="mt-1 whitespace-pre-line text-sm text-slate-700">{value}</dd>
+    </div>
+  );
+}
+
+function QueueItem({ appointment, reported }: { appointment: TutorQueue['today'][number]; reported: boolean }) {
+  const router = useRouter();
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const status = STATUS_LABELS[appointment.status];
+  const hasContext = appointment.course || appointment.assignment || appointment.attempted || appointment.notes;
+
+  async function record(outcome: AppointmentOutcome) {
+    setPending(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/tutor/appointments/${appointment.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: outcome }),
+      });
+      if (!response.ok) {
+        setError((await response.json()).error ?? 'Something went wrong. Please try again.');
+        return;
+      }
+      router.refresh();
+    } catch {
+      setError('Something went wrong. Please try again.');
+    } finally {
+      setPending(false);
+    }
+  }
+
+  return (
+    <li className="rounded-3xl border border-slate-200 bg-white p-6 shadow-sm shadow-slate-100">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <p className="text-lg font-semibold text-slate-900">{formatTimeRange(appointment.start, appointment.end)}</p>
+          <p className="mt-1 text-slate-700">
+            {appointment.studentName}{' '}
+            <a href={`mailto:${appointment.studentEmail}`} className="text-sm text-sky-700 hover:underline">
+              {appointment.studentEmail}
+            </a>
+          </p>
+        </div>
+        <span className={cn('rounded-full px-3 py-1 text-xs font-semibold', status.className)}>{status.label}</span>
+      </div>
+
+      {hasContext ? (
+        <dl className="mt-4 grid gap-4 sm:grid-cols-2">
+          <Context
+            label="Course"
+            value={[appointment.course && `CS ${appointment.course}`, appointment.language].filter(Boolean).join(' · ')}
+          />
+          <Context label="Assignment" value={appointment.assignment} />
+          <Context label="What they’ve tried" value={appointment.attempted} />
+          <Context label="Notes" value={appointment.notes} />
+        </dl>
+      ) : (
+        <p className="mt-4 text-sm text-slate-400">No details from the student yet.</p>
+      )}
+
+      {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+      {appointment.started ? (
+        <div className="mt-4 flex flex-wrap gap-2">
+          {(Object.keys(OUTCOME_LABELS) as AppointmentOutcome[]).map((outcome) => (
+            <Button
+              key={outcome}
+              type="button"
+              variant={appointment.status === outcome ? 'default' : 'outline'}
+              disabled={pending || appointment.status === outcome}
+              onClick={() => record(outcome)}
+              className="rounded-full px-5"
+            >
+              {OUTCOME_LABELS[outcome]}
+            </Button>
+          ))}
+        </div>
+      ) : (
+        <p className="mt-4 text-xs text-slate-400">You can mark the outcome once the session starts.</p>
+      )}
+      {appointment.started && appointment.status !== 'cancelled' && (
+        <div className="mt-3">
+          {reported ? (
+            <p className="text-xs text-slate-400">You reported an incident in this session.</p>
+          ) : (
+            <IncidentReportForm appointmentId={appointment.id} />
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+export default function TutorDashboard({
+  tutor,
+  term,
+  queue,
+  dropIn,
+  suggestions,
+  incidents,
+  studyGroups,
+}: TutorDashboardProps) {
+  const router = useRouter();
+  const reported = new Set(incidents.map((incident) => incident.appointment.id));
+
+  async function signOut() {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    router.replace('/tutor/login');
+    router.refresh();
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-100 via-white to-white py-16">
+      <motion.div
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, ease: [0.6, -0.05, 0.01, 0.99] }}
+        className="mx-auto max-w-4xl space-y-10 px-6 lg:px-8"
+      >
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <span className="text-sm uppercase tracking-[0.35em] text-sky-700">Tutor dashboard</span>
+            <h1 className="mt-2 text-3xl font-bold text-slate-900">Hi, {tutor.name.split(' ')[0]}</h1>
+            <p className="mt-1 text-slate-600">
+              {describeDate(queue.date)} · {term.label}
+            </p>
+          </div>
+          <div className="flex items-center gap-4 text-sm">
+            <Link href={`/bios/${tutor.id}`} className="font-medium text-sky-700 hover:underline">
+              View your profile
+            </Link>
+            <Button type="button" variant="outline" onClick={signOut} className="rounded-full px-5">
+              Sign out
+            </Button>
+          </div>
+        </div>
+
+        <section>
+          <h2 className="text-xl font-semibold text-slate-900">Today’s queue</h2>
+          {queue.today.length === 0 ? (
+            <p className="mt-4 rounded-3xl border border-dashed border-slate-200 p-6 text-sm text-slate-500">
+              No appointments today.
+            </p>
+          ) : (
+            <ul className="mt-4 space-y-4">
+              {queue.today.map((appointment) => (
+                <QueueItem key={appointment.id} appointment={appointment} reported={reported.has(appointment.id)} />
+              ))}
+            </ul>
+          )}
+        </section>
+
+        <DropInPanel tutorId={tutor.id} board={dropIn} />
+        <StudyGroupPanel rosters={studyGroups} />
+
+        {queue.upcoming.length > 0 && (
+          <section>
+            <h2 className="text-xl font-semibold text-slate-900">Coming up this week</h2>
+            <ul className="mt-4 divide-y divide-slate-100 rounded-3xl border border-slate-200 bg-white px-6">
+              {queue.upcoming.map((appointment) => (
+                <li key={appointment.id} className="flex flex-wrap justify-between gap-2 py-3 text-sm">
+                  <span className="text-slate-700">
+                    {describeDate(appointment.date)} · {formatTime(appointment.start)}
+                  </span>
+                  <span className="text-slate-500">
+                    {appointment.studentName}
+                    {appointment.course && ` · CS ${appointment.course}`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        {incidents.length > 0 && (
+          <section>
+            <h2 className="text-xl font-semibold text-slate-900">Your incident reports</h2>
+            <ul className="mt-4 divide-y divide-slate-100 rounded-3xl border border-slate-200 bg-white px-6">
+              {incidents.map((incident) => {
+                const status = INCIDENT_STATUS_LABELS[incident.status];
+                return (
+                  <li key={incident.id} className="flex flex-wrap items-center justify-between gap-2 py-3 text-sm">
+                    <span className="text-slate-700">
+                      {describeDate(incident.appointment.date)} · {incident.student.name}
+                    </span>
+                    <span className={cn('rounded-full px-3 py-1 text-xs font-semibold', status.className)}>
+                      {status.label}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </section>
+        )}
+
+        <ProfileEditor tutor={tutor} />
+        <AvailabilityEditor term={term} shifts={tutor.availability} />
+        <ResourceSuggestions suggestions={suggestions} />
+      </motion.div>
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import { COURSES, type Course } from '@/lib/tutors/types';
+import { cn } from '@/lib/utils';
+
+type JoinWaitlistProps = {
+  days: { date: string; label: string }[];
+  tutors: { id: string; name: string }[];
+  holdMinutes: number;
+  initialDate?: string;
+  initialTutorId?: string;
+};
+
+const FIELD_CLASS =
+  'w-full rounded-2xl border border-slate-200 bg-white px-4 py-2.5 text-sm outline-none focus:border-slate-400';
+
+function describeHold(minutes: number) {
+  return minutes % 60 === 0 ? `${minutes / 60} hour${minutes === 60 ? '' : 's'}` : `${minutes} minutes`;
+}
+
+export default function JoinWaitlist({ days, tutors, holdMinutes, initialDate, initialTutorId }: JoinWaitlistProps) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const [studentName, setStudentName] = useState('');
+  const [studentEmail, setStudentEmail] = useState('');
+  const [date, setDate] = useState(days.some((day) => day.date === initialDate) ? initialDate! : (days[0]?.date ?? ''));
+  const [tutorId, setTutorId] = useState(tutors.some((tutor) => tutor.id === initialTutorId) ? initialTutorId! : '');
+  const [course, setCourse] = useState<Course | ''>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  async function join(event: React.FormEvent) {
+    event.preventDefault();
+    const body = await send<{ url: string }>('/api/waitlist', 'POST', {
+      studentName,
+      studentEmail,
+      date,
+      tutorId: tutorId || undefined,
+      course: course || undefined,
+      from: from || undefined,
+      to: to || undefined,
+    });
+    if (body) router.push(body.url);
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-100 via-white to-white py-16">
+      <motion.div
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, ease: [0.6, -0.05, 0.01, 0.99] }}
+        className="mx-auto max-w-2xl px-6 lg:px-8"
+      >
+        <span className="text-sm uppercase tracking-[0.35em] text-sky-700">Waitlist</span>
+        <h1 className="mt-2 text-3xl font-bold text-slate-900">Wait for a session to open up</h1>
+        <p className="mt-3 text-slate-600">
+          When every Zoom session you want is booked, get in line here. If someone cancels, the next student in line
+          gets an email and we hold the time for them for {describeHold(holdMinutes)}. The{' '}
+          <Link href="/rules" className="font-medium text-sky-700 hover:underline">
+            one appointment per day
+          </Link>{' '}
+          rule still applies, so you can wait for one session a day.
+        </p>
+
+        <div className="mt-8 rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100">
+          {days.length === 0 ? (
+            <>
+              <h2 className="text-xl font-semibold text-slate-900">There are no Zoom sessions to wait for</h2>
+              <p className="mt-2 text-sm text-slate-500">
+                No tutor has Zoom hours in the booking window right now. Check the schedule for drop-in hours.
+              </p>
+              <Button asChild className="mt-6 rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+                <Link href="/schedule">View the schedule</Link>
+              </Button>
+            </>
+          ) : (
+            <form onSubmit={join} className="space-y-4">
+              <div className="grid gap-4 sm:grid-cols-2">
+                <label className="block text-sm font-medium text-slate-700">
+                  Your name
+                  <input
+                    value={studentName}
+                    onChange={(event) => setStudentName(event.target.value)}
+                    required
+                    maxLength={120}
+                    className={cn('mt-1', FIELD_CLASS)}
+                  />
+                </label>
+                <label className="block text-sm font-medium text-slate-700">
+                  Email
+                  <input
+                    type="email"
+                    value={studentEmail}
+                    onChange={(event) => setStudentEmail(event.target.value)}
+                    required
+                    maxLength={254}
+                    className={cn('mt-1', FIELD_CLASS)}
+                  />
+                </label>
+              </div>
+              <label className="block text-sm font-medium text-slate-700">
+                Day
+                <select value={date} onChange={(event) => setDate(event.target.value)} className={cn('mt-1', FIELD_CLASS)}>
+                  {days.map((day) => (
+                    <option key={day.date} value={day.date}>
+                      {day.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <label className="block text-sm font-medium text-slate-700">
+                  Tutor
+                  <select value={tutorId} onChange={(event) => setTutorId(event.target.value)} className={cn('mt-1', FIELD_CLASS)}>
+                    <option value="">Any tutor</option>
+                    {tutors.map((tutor) => (
+                      <option key={tutor.id} value={tutor.id}>
+                        {tutor.name}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <label className="block text-sm font-medium text-slate-700">
+                  Course
+                  <select
+                    value={course}
+                    onChange={(event) => setCourse(event.target.value as Course | '')}
+                    className={cn('mt-1', FIELD_CLASS)}
+                  >
+                    <option value="">Any course</option>
+                    {COURSES.map((option) => (
+                      <option key={option.code} value={option.code}>
+                        CS {option.code} · {option.title}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <label className="block text-sm font-medium text-slate-700">
+                  Earliest start <span className="font-normal text-slate-400">(optional)</span>
+                  <input
+                    type="time"
+                    value={from}
+                    onChange={(event) => setFrom(event.target.value)}
+                    className={cn('mt-1', FIELD_CLASS)}
+                  />
+                </label>
+                <label className="block text-sm font-medium text-slate-700">
+                  Latest end <span className="font-normal text-slate-400">(optional)</span>
+                  <input
+                    type="time"
+                    value={to}
+                    onChange={(event) => setTo(event.target.value)}
+                    className={cn('mt-1', FIELD_CLASS)}
+                  />
+                </label>
+              </div>
+
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <Button
+                type="submit"
+                disabled={pending || !date}
+                className="rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700"
+              >
+                {pending ? 'Joining…' : 'Join the waitlist'}
+              </Button>
+            </form>
+          )}
+        </div>
+      </motion.div>
+    </div>
+  );
+}
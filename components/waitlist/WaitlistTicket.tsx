@@ -0,0 +1,209 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { useJsonRequest } from '@/hooks/use-json-request';
+import { formatDate, formatTime, formatTimeRange, weekdayOfDate } from '@/lib/time';
+import type { WaitlistEntry, WaitlistTicket as Ticket } from '@/lib/waitlist/types';
+
+type WaitlistTicketProps = {
+  ticket: Ticket;
+  // When the hold on an open offer runs out, on San Francisco's clock.
+  holdEnds?: string;
+  // Set when the student still has to agree to the current rules before booking.
+  rulesVersion?: number;
+  // Set when the student still has to agree to recording for the offer's term.
+  consentTermLabel?: string;
+  manageUrl?: string;
+};
+
+function describeWanted(entry: WaitlistEntry) {
+  const time =
+    entry.from && entry.to
+      ? formatTimeRange(entry.from, entry.to)
+      : entry.from
+        ? `from ${formatTime(entry.from)}`
+        : entry.to
+          ? `until ${formatTime(entry.to)}`
+          : 'any time';
+  return [entry.tutorName ?? 'Any tutor', entry.course ? `CS ${entry.course}` : 'any course', time].join(' · ');
+}
+
+export default function WaitlistTicket({ ticket, holdEnds, rulesVersion, consentTermLabel, manageUrl }: WaitlistTicketProps) {
+  const router = useRouter();
+  const { pending, error, send } = useJsonRequest();
+  const [agreedToRules, setAgreedToRules] = useState(false);
+  const [agreedToRecording, setAgreedToRecording] = useState(false);
+  const [confirmingLeave, setConfirmingLeave] = useState(false);
+  const { entry } = ticket;
+  const day = `${weekdayOfDate(entry.date)}, ${formatDate(entry.date)}`;
+  const open = entry.status === 'waiting' || entry.status === 'offered';
+
+  async function accept() {
+    const body = await send(`/api/waitlist/${entry.id}/accept`, 'POST', {
+      rulesVersion: rulesVersion && agreedToRules ? rulesVersion : undefined,
+      recordingConsent: consentTermLabel ? agreedToRecording : undefined,
+    });
+    if (body) router.refresh();
+  }
+
+  async function leave() {
+    if (await send(`/api/waitlist/${entry.id}`, 'DELETE')) router.refresh();
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-slate-100 via-white to-white py-16">
+      <motion.div
+        initial={{ opacity: 0, y: 30 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ duration: 0.6, ease: [0.6, -0.05, 0.01, 0.99] }}
+        className="mx-auto max-w-2xl px-6 lg:px-8"
+      >
+        <span className="text-sm uppercase tracking-[0.35em] text-sky-700">Waitlist · {day}</span>
+        <div className="mt-4 rounded-3xl border border-slate-200 bg-white p-8 text-center shadow-sm shadow-slate-100">
+          {entry.status === 'waiting' && (
+            <>
+              <p className="text-sm text-slate-500">Your place in line</p>
+              <p className="mt-2 text-6xl font-bold text-slate-900">{ticket.position}</p>
+              <p className="mt-4 text-slate-700">We’ll email {entry.studentEmail} as soon as a matching session opens up.</p>
+              <p className="mt-2 text-sm text-slate-500">
+                Students ahead of you who already have an appointment that day are skipped.
+              </p>
+            </>
+          )}
+
+          {entry.status === 'offered' && entry.offer && (
+            <>
+              <h1 className="text-2xl font-semibold text-slate-900">A session opened up for you</h1>
+              <p className="mt-3 text-lg text-slate-700">
+                {entry.offer.tutorName} · {formatTimeRange(entry.offer.start, entry.offer.end)}
+              </p>
+              <p className="mt-2 text-sm text-amber-700">Held for you until {holdEnds}. After that it goes to the next student.</p>
+
+              <div className="mx-auto mt-6 max-w-md space-y-3 text-left">
+                {rulesVersion && (
+                  <label className="flex items-start gap-3 text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={agreedToRules}
+                      onChange={(event) => setAgreedToRules(event.target.checked)}
+                      className="mt-1"
+                    />
+                    <span>
+                      I’ve read and agree to the{' '}
+                      <Link href="/rules" target="_blank" className="font-medium text-sky-700 hover:underline">
+                        Tutor Squad rules
+                      </Link>
+                      .
+                    </span>
+                  </label>
+                )}
+                {consentTermLabel && (
+                  <label className="flex items-start gap-3 text-sm text-slate-700">
+                    <input
+                      type="checkbox"
+                      checked={agreedToRecording}
+                      onChange={(event) => setAgreedToRecording(event.target.checked)}
+                      className="mt-1"
+                    />
+                    I agree to my Zoom tutoring sessions being recorded during {consentTermLabel}.
+                  </label>
+                )}
+              </div>
+              <Button
+                type="button"
+                disabled={pending || (!!rulesVersion && !agreedToRules) || (!!consentTermLabel && !agreedToRecording)}
+                onClick={accept}
+                className="mt-6 rounded-full bg-emerald-600 px-6 text-white hover:bg-emerald-500"
+              >
+                {pending ? 'Booking…' : 'Book this session'}
+              </Button>
+            </>
+          )}
+
+          {entry.status === 'booked' && (
+            <>
+              <h1 className="text-2xl font-semibold text-slate-900">You’re booked</h1>
+              {entry.offer && (
+                <p className="mt-3 text-slate-600">
+                  {entry.offer.tutorName} · {formatTimeRange(entry.offer.start, entry.offer.end)}. A confirmation email with
+                  the Zoom details is on its way.
+                </p>
+              )}
+              {manageUrl && (
+                <Button asChild variant="outline" className="mt-6 rounded-full px-6">
+                  <Link href={manageUrl}>Cancel or reschedule</Link>
+                </Button>
+              )}
+            </>
+          )}
+
+          {entry.status === 'expired' && (
+            <>
+              <h1 className="text-2xl font-semibold text-slate-900">
+                {entry.offer ? 'The hold on your session ran out' : 'This waitlist spot has expired'}
+              </h1>
+              <p className="mt-3 text-slate-600">
+                {entry.offer
+                  ? 'It went to the next student in line. You can join the waitlist again if you still need help.'
+                  : 'No matching session opened up in time.'}
+              </p>
+            </>
+          )}
+
+          {entry.status === 'left' && (
+            <>
+              <h1 className="text-2xl font-semibold text-slate-900">You’ve left the waitlist</h1>
+              <p className="mt-3 text-slate-600">Changed your mind? You can join again while there are sessions left to wait for.</p>
+            </>
+          )}
+
+          {(entry.status === 'expired' || entry.status === 'left') && (
+            <div className="mt-6 flex flex-wrap justify-center gap-3">
+              <Button asChild className="rounded-full bg-slate-900 px-6 text-white hover:bg-slate-700">
+                <Link href="/waitlist">Join the waitlist again</Link>
+              </Button>
+              <Button asChild variant="outline" className="rounded-full px-6">
+                <Link href="/schedule">Book an appointment</Link>
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {open && (
+          <div className="mt-8 rounded-3xl border border-slate-200 bg-white p-8 shadow-sm shadow-slate-100">
+            <h2 className="text-xl font-semibold text-slate-900">What you’re waiting for</h2>
+            <p className="mt-2 text-slate-700">{day}</p>
+            <p className="mt-1 text-sm text-slate-500">{describeWanted(entry)}</p>
+
+            {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+            <div className="mt-6 flex flex-wrap gap-3">
+              {confirmingLeave ? (
+                <>
+                  <Button
+                    type="button"
+                    disabled={pending}
+                    onClick={leave}
+                    className="rounded-full bg-red-600 px-6 text-white hover:bg-red-500"
+                  >
+                    {pending ? 'Leaving…' : 'Yes, leave the waitlist'}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={() => setConfirmingLeave(false)} className="rounded-full px-6">
+                    Keep my place
+                  </Button>
+                </>
+              ) : (
+                <Button type="button" variant="outline" onClick={() => setConfirmingLeave(true)} className="rounded-full px-6">
+                  Leave the waitlist
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+      </motion.div>
+    </div>
+  );
+}
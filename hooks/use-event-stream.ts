@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+// The latest JSON view pushed by a server-sent event stream, starting from the server-rendered one.
+// Once `isFinal` holds the stream is closed for good; EventSource would otherwise keep reconnecting
+// to a stream the server ended on purpose.
+export function useEventStream<T>(url: string, initial: T, isFinal?: (view: T) => boolean): T {
+  const [view, setView] = useState(initial);
+  const finished = isFinal?.(view) ?? false;
+
+  useEffect(() => {
+    if (finished) return;
+    const source = new EventSource(url);
+    source.onmessage = (event) => setView(JSON.parse(event.data) as T);
+    return () => source.close();
+  }, [url, finished]);
+
+  return view;
+}
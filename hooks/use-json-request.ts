@@ -0,0 +1,46 @@
+import { useState } from 'react';
+
+type ErrorBody = {
+  error?: string;
+  issues?: { path: (string | number)[]; message: string }[];
+  problems?: string[];
+};
+
+// The most specific message an API error carries: the first validation issue, else the summary.
+function describeError(body: ErrorBody): string {
+  const issue = body.issues?.[0];
+  if (issue) return issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message;
+  if (body.problems?.length) return body.problems.join('\n');
+  return body.error ?? 'Something went wrong. Please try again.';
+}
+
+// fetch() for the JSON APIs, tracking whether a request is in flight and the last error.
+export function useJsonRequest() {
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function send<T>(url: string, method: string, body?: unknown): Promise<T | null> {
+    setPending(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+      const data = response.status === 204 ? {} : await response.json();
+      if (!response.ok) {
+        setError(describeError(data));
+        return null;
+      }
+      return data as T;
+    } catch {
+      setError('Something went wrong. Please try again.');
+      return null;
+    } finally {
+      setPending(false);
+    }
+  }
+
+  return { pending, error, send };
+}
@@ -0,0 +1,16 @@
+import { useSyncExternalStore } from 'react';
+
+function subscribe(onTick: () => void) {
+  const interval = setInterval(onTick, 15_000);
+  return () => clearInterval(interval);
+}
+
+const getMinute = () => Math.floor(Date.now() / 60_000);
+const getServerMinute = () => null;
+
+// Current time, refreshed every minute. Null during server rendering so markup that depends on the
+// clock never causes a hydration mismatch.
+export function useNow(): Date | null {
+  const minute = useSyncExternalStore(subscribe, getMinute, getServerMinute);
+  return minute === null ? null : new Date(minute * 60_000);
+}
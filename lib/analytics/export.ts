@@ -0,0 +1,56 @@
+import { toCsv } from '@/lib/csv';
+import { toXlsx, type XlsxColumn } from '@/lib/xlsx';
+import { USAGE_DIMENSIONS, USAGE_DIMENSION_LABELS, type UsageReport, type UsageRow } from './types';
+
+const COUNT_COLUMNS: XlsxColumn[] = [
+  { header: 'Booked' },
+  { header: 'Completed' },
+  { header: 'No-shows' },
+  { header: 'Cancelled' },
+  { header: 'No-show rate', format: 'percent' },
+];
+
+function counts(row: UsageRow): (number | null)[] {
+  return [row.booked, row.completed, row.noShows, row.cancelled, row.noShowRate];
+}
+
+function summary(report: UsageReport): [string, number][] {
+  const { totals } = report;
+  return [
+    ['Appointments booked', totals.booked],
+    ['Completed', totals.completed],
+    ['No-shows', totals.noShows],
+    ['Cancelled', totals.cancelled],
+    ['Students', totals.students],
+    ['Drop-in visits', totals.dropInVisits],
+  ];
+}
+
+// One long table: every breakdown stacked, with the dimension in the first column.
+export function usageCsv(report: UsageReport): string {
+  const rows = USAGE_DIMENSIONS.flatMap((dimension) =>
+    report.breakdowns[dimension].map((row) => [
+      USAGE_DIMENSION_LABELS[dimension],
+      row.label,
+      ...counts(row).slice(0, 4),
+      row.noShowRate === null ? '' : `${(row.noShowRate * 100).toFixed(1)}%`,
+    ])
+  );
+  return toCsv(['Breakdown', 'Group', ...COUNT_COLUMNS.map((column) => column.header)], rows);
+}
+
+// A summary sheet, then one sheet per breakdown.
+export function usageWorkbook(report: UsageReport): Buffer {
+  return toXlsx([
+    {
+      name: 'Summary',
+      columns: [{ header: 'Term' }, { header: report.termId }],
+      rows: summary(report),
+    },
+    ...USAGE_DIMENSIONS.map((dimension) => ({
+      name: USAGE_DIMENSION_LABELS[dimension],
+      columns: [{ header: USAGE_DIMENSION_LABELS[dimension] }, ...COUNT_COLUMNS],
+      rows: report.breakdowns[dimension].map((row) => [row.label, ...counts(row)]),
+    })),
+  ]);
+}
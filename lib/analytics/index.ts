@@ -0,0 +1,100 @@
+import type { AppointmentStatus } from '@/lib/booking/types';
+import { getDb, type Db } from '@/lib/db';
+import type { Term } from '@/lib/terms/schema';
+import { addDaysToDate, formatTime, WEEKDAYS, weekdayOfDate, zonedDateTime } from '@/lib/time';
+import { COURSES, type Modality } from '@/lib/tutors/types';
+import { USAGE_DIMENSIONS, type UsageCounts, type UsageDimension, type UsageReport, type UsageRow } from './types';
+
+type SessionRow = {
+  tutor_id: string;
+  tutor_name: string;
+  student_id: number;
+  course: string | null;
+  date: string;
+  start_time: string;
+  status: AppointmentStatus;
+  modality: Modality;
+};
+
+type Group = { key: string; label: string; order: number | string };
+
+const MODALITY_LABELS: Record<Modality, string> = { virtual: 'Virtual (Zoom)', 'on-campus': 'On campus' };
+
+// Which bucket a session falls in for each breakdown, and how the buckets sort.
+const GROUPS: Record<UsageDimension, (session: SessionRow) => Group> = {
+  course: ({ course }) => {
+    const index = COURSES.findIndex((entry) => entry.code === course);
+    return index < 0
+      ? { key: 'other', label: 'Other / not given', order: COURSES.length }
+      : { key: COURSES[index].code, label: `CS ${COURSES[index].code}`, order: index };
+  },
+  tutor: ({ tutor_id, tutor_name }) => ({ key: tutor_id, label: tutor_name, order: tutor_name }),
+  weekday: ({ date }) => {
+    const day = weekdayOfDate(date);
+    return { key: day, label: day, order: (WEEKDAYS.indexOf(day) + 6) % 7 };
+  },
+  hour: ({ start_time }) => {
+    const hour = `${start_time.slice(0, 2)}:00`;
+    return { key: hour, label: formatTime(hour), order: hour };
+  },
+  modality: ({ modality }) => ({ key: modality, label: MODALITY_LABELS[modality], order: modality }),
+};
+
+// Appointments in the term, broken down every way the Learning Assistance reports ask for.
+export function usageReport(term: Pick<Term, 'id' | 'startDate' | 'endDate'>, db: Db = getDb()): UsageReport {
+  const sessions = db
+    .prepare(
+      `SELECT a.tutor_id, t.name AS tutor_name, a.student_id, a.course, a.date, a.start_time, a.status, a.modality
+       FROM appointments a
+       JOIN tutors t ON t.id = a.tutor_id
+       WHERE a.term_id = ?`
+    )
+    .all(term.id) as SessionRow[];
+
+  const { visits } = db
+    .prepare("SELECT COUNT(*) AS visits FROM drop_in_queue WHERE claimed_at IS NOT NULL AND joined_at >= ? AND joined_at < ?")
+    .get(
+      zonedDateTime(term.startDate, '00:00').toISOString(),
+      zonedDateTime(addDaysToDate(term.endDate, 1), '00:00').toISOString()
+    ) as { visits: number };
+
+  const live = sessions.filter((session) => session.status !== 'cancelled');
+  return {
+    termId: term.id,
+    totals: {
+      ...count(sessions),
+      students: new Set(live.map((session) => session.student_id)).size,
+      dropInVisits: visits,
+    },
+    breakdowns: Object.fromEntries(
+      USAGE_DIMENSIONS.map((dimension) => [dimension, breakdown(sessions, GROUPS[dimension])])
+    ) as Record<UsageDimension, UsageRow[]>,
+  };
+}
+
+function breakdown(sessions: SessionRow[], group: (session: SessionRow) => Group): UsageRow[] {
+  const groups = new Map<string, { group: Group; sessions: SessionRow[] }>();
+  for (const session of sessions) {
+    const key = group(session);
+    const entry = groups.get(key.key) ?? { group: key, sessions: [] };
+    entry.sessions.push(session);
+    groups.set(key.key, entry);
+  }
+  return [...groups.values()]
+    .sort((a, b) => (a.group.order < b.group.order ? -1 : a.group.order > b.group.order ? 1 : 0))
+    .map((entry) => ({ key: entry.group.key, label: entry.group.label, ...count(entry.sessions) }));
+}
+
+function count(sessions: SessionRow[]): UsageCounts {
+  const tally = (status: AppointmentStatus) => sessions.filter((session) => session.status === status).length;
+  const completed = tally('completed');
+  const noShows = tally('no-show');
+  const cancelled = tally('cancelled');
+  return {
+    booked: sessions.length - cancelled,
+    completed,
+    noShows,
+    cancelled,
+    noShowRate: completed + noShows > 0 ? noShows / (completed + noShows) : null,
+  };
+}
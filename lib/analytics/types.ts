@@ -0,0 +1,32 @@
+export const USAGE_DIMENSIONS = ['course', 'tutor', 'weekday', 'hour', 'modality'] as const;
+
+export type UsageDimension = (typeof USAGE_DIMENSIONS)[number];
+
+export const USAGE_DIMENSION_LABELS: Record<UsageDimension, string> = {
+  course: 'Course',
+  tutor: 'Tutor',
+  weekday: 'Weekday',
+  hour: 'Start time',
+  modality: 'Modality',
+};
+
+// `booked` counts every appointment that wasn't cancelled, including ones still to come. The no-show rate
+// is over sessions with an outcome, and is null until there are any.
+export type UsageCounts = {
+  booked: number;
+  completed: number;
+  noShows: number;
+  cancelled: number;
+  noShowRate: number | null;
+};
+
+export type UsageRow = UsageCounts & {
+  key: string;
+  label: string;
+};
+
+export type UsageReport = {
+  termId: string;
+  totals: UsageCounts & { students: number; dropInVisits: number };
+  breakdowns: Record<UsageDimension, UsageRow[]>;
+};
@@ -0,0 +1,71 @@
+import type { User } from '@/lib/auth/types';
+import { getDb, type Db } from '@/lib/db';
+import type { AuditChange, AuditEntityType, AuditEntry } from './types';
+
+export type { AuditChange, AuditEntityType, AuditEntry } from './types';
+export { AUDIT_ENTITY_TYPES } from './types';
+
+type AuditRow = {
+  id: number;
+  actor_id: number;
+  actor_name: string;
+  action: string;
+  entity_type: AuditEntityType;
+  entity_id: string;
+  details: string;
+  created_at: string;
+};
+
+export type AuditQuery = {
+  entityType?: AuditEntityType;
+  entityId?: string;
+  limit?: number;
+};
+
+export function recordAudit(actor: Pick<User, 'id'>, change: AuditChange, db: Db = getDb()): void {
+  db.prepare('INSERT INTO audit_log (actor_id, action, entity_type, entity_id, details) VALUES (?, ?, ?, ?, ?)').run(
+    actor.id,
+    change.action,
+    change.entityType,
+    String(change.entityId),
+    JSON.stringify(change.details ?? {})
+  );
+}
+
+// Runs a change and its audit entry in one transaction, so nothing is saved without a record of who did it.
+export function audited<T>(
+  actor: Pick<User, 'id'>,
+  change: () => T,
+  describe: (result: T) => AuditChange,
+  db: Db = getDb()
+): T {
+  return db.transaction(() => {
+    const result = change();
+    recordAudit(actor, describe(result), db);
+    return result;
+  })();
+}
+
+export function listAuditLog({ entityType, entityId, limit = 100 }: AuditQuery = {}, db: Db = getDb()): AuditEntry[] {
+  const rows = db
+    .prepare(
+      `SELECT l.id, l.actor_id, u.name AS actor_name, l.action, l.entity_type, l.entity_id, l.details, l.created_at
+       FROM audit_log l
+       JOIN users u ON u.id = l.actor_id
+       WHERE (? IS NULL OR l.entity_type = ?) AND (? IS NULL OR l.entity_id = ?)
+       ORDER BY l.id DESC
+       LIMIT ?`
+    )
+    .all(entityType ?? null, entityType ?? null, entityId ?? null, entityId ?? null, limit) as AuditRow[];
+
+  return rows.map((row) => ({
+    id: row.id,
+    actorId: row.actor_id,
+    actorName: row.actor_name,
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    details: JSON.parse(row.details),
+    createdAt: row.created_at,
+  }));
+}
@@ -0,0 +1,22 @@
+export const AUDIT_ENTITY_TYPES = ['tutor', 'term', 'resource', 'rule', 'student', 'user', 'consent', 'incident', 'chat'] as const;
+
+export type AuditEntityType = (typeof AUDIT_ENTITY_TYPES)[number];
+
+export type AuditChange = {
+  // Past-tense verb, e.g. "updated" or "suspended".
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string | number;
+  details?: Record<string, unknown>;
+};
+
+export type AuditEntry = {
+  id: number;
+  actorId: number;
+  actorName: string;
+  action: string;
+  entityType: AuditEntityType;
+  entityId: string;
+  details: Record<string, unknown>;
+  createdAt: string;
+};
@@ -0,0 +1,68 @@
+import { cookies } from 'next/headers';
+import { notFound, redirect } from 'next/navigation';
+import { can, type Permission } from './permissions';
+import { createSession, deleteSession, getSessionUser } from './sessions';
+import type { User } from './types';
+
+export type { Credentials, Role, User } from './types';
+export { can, canAccessAdmin, landingPath, PERMISSIONS, type Permission } from './permissions';
+export { LocalCredentialsProvider, type AuthProvider } from './providers';
+
+export const SESSION_COOKIE = 'ccsf_session';
+
+export type TutorUser = User & { tutorId: string };
+
+export async function getCurrentUser(): Promise<User | undefined> {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  return token ? getSessionUser(token) : undefined;
+}
+
+export async function getCurrentTutor(): Promise<TutorUser | undefined> {
+  const user = await getCurrentUser();
+  return user?.tutorId ? { ...user, tutorId: user.tutorId } : undefined;
+}
+
+// For pages: sends anyone who isn't signed in as a tutor to the login form.
+export async function requireTutor(): Promise<TutorUser> {
+  const tutor = await getCurrentTutor();
+  if (!tutor) redirect('/tutor/login');
+  return tutor;
+}
+
+// For pages: signed-out visitors go to the login form; signed-in users without access get a 404.
+export async function requirePermission(permission: Permission): Promise<User> {
+  const user = await getCurrentUser();
+  if (!user) redirect('/tutor/login');
+  if (!can(user, permission)) notFound();
+  return user;
+}
+
+// For route handlers: the signed-in user if they hold `permission`, otherwise the 401/403 to send.
+export async function authorize(permission: Permission): Promise<User | Response> {
+  const user = await getCurrentUser();
+  if (!user) {
+    return Response.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  if (!can(user, permission)) {
+    return Response.json({ error: 'You don’t have access to that' }, { status: 403 });
+  }
+  return user;
+}
+
+export async function signIn(user: User): Promise<void> {
+  const { token, expiresAt } = createSession(user.id);
+  (await cookies()).set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+export async function signOut(): Promise<void> {
+  const store = await cookies();
+  const token = store.get(SESSION_COOKIE)?.value;
+  if (token) deleteSession(token);
+  store.delete(SESSION_COOKIE);
+}
@@ -0,0 +1,40 @@
+import type { Role, User } from './types';
+
+export const PERMISSIONS = [
+  'tutors:manage',
+  'terms:manage',
+  'resources:manage',
+  'resources:submit',
+  'rules:manage',
+  'students:restrict',
+  'consents:export',
+  'incidents:report',
+  'incidents:manage',
+  'feedback:view',
+  'reports:view',
+  'chats:review',
+  'audit:view',
+] as const;
+
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Used from the tutor dashboard rather than the admin console.
+const DASHBOARD_PERMISSIONS: readonly Permission[] = ['resources:submit', 'incidents:report'];
+
+const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  tutor: DASHBOARD_PERMISSIONS,
+  coordinator: PERMISSIONS,
+};
+
+export function can(user: Pick<User, 'role'> | undefined, permission: Permission): boolean {
+  return !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+export function canAccessAdmin(user: Pick<User, 'role'> | undefined): boolean {
+  return !!user && ROLE_PERMISSIONS[user.role].some((permission) => !DASHBOARD_PERMISSIONS.includes(permission));
+}
+
+// Coordinators land in /admin after signing in; tutors land on their dashboard.
+export function landingPath(user: Pick<User, 'role'>): string {
+  return canAccessAdmin(user) ? '/admin' : '/tutor';
+}
@@ -0,0 +1,27 @@
+import { getDb, type Db } from '@/lib/db';
+import { verifyPassword } from './password';
+import type { Credentials, User } from './types';
+import { getUserCredentials, isAccountActive } from './users';
+
+export interface AuthProvider {
+  readonly id: string;
+  authenticate(credentials: Credentials): Promise<User | null>;
+}
+
+// Email and password checked against the users table, so sign-in works offline and in tests.
+export class LocalCredentialsProvider implements AuthProvider {
+  readonly id = 'credentials';
+
+  constructor(private readonly db: Db = getDb()) {}
+
+  async authenticate({ email, password }: Credentials): Promise<User | null> {
+    const account = getUserCredentials(email, this.db);
+    if (!account?.passwordHash || !(await verifyPassword(password, account.passwordHash))) {
+      return null;
+    }
+    if (!isAccountActive(account.user, this.db)) {
+      return null;
+    }
+    return account.user;
+  }
+}
@@ -0,0 +1,39 @@
+import { createHash, randomBytes } from 'crypto';
+import { getDb, type Db } from '@/lib/db';
+import type { User } from './types';
+import { getUser, isAccountActive } from './users';
+
+export const SESSION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+function sessionId(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+// Returns the token for the cookie; only its hash is stored.
+export function createSession(userId: number, now: Date = new Date(), db: Db = getDb()): { token: string; expiresAt: Date } {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(now.getTime() + SESSION_TTL_MS);
+  db.prepare('INSERT INTO sessions (id, user_id, expires_at) VALUES (?, ?, ?)').run(
+    sessionId(token),
+    userId,
+    expiresAt.toISOString()
+  );
+  return { token, expiresAt };
+}
+
+export function getSessionUser(token: string, now: Date = new Date(), db: Db = getDb()): User | undefined {
+  const row = db
+    .prepare('SELECT user_id FROM sessions WHERE id = ? AND expires_at > ?')
+    .get(sessionId(token), now.toISOString()) as { user_id: number } | undefined;
+  const user = row ? getUser(row.user_id, db) : undefined;
+  return user && isAccountActive(user, db) ? user : undefined;
+}
+
+export function deleteSession(token: string, db: Db = getDb()): void {
+  db.prepare('DELETE FROM sessions WHERE id = ?').run(sessionId(token));
+}
+
+// Signs a tutor out everywhere.
+export function deleteTutorSessions(tutorId: string, db: Db = getDb()): void {
+  db.prepare('DELETE FROM sessions WHERE user_id IN (SELECT id FROM users WHERE tutor_id = ?)').run(tutorId);
+}
@@ -0,0 +1,17 @@
+export const ROLES = ['tutor', 'coordinator'] as const;
+
+export type Role = (typeof ROLES)[number];
+
+export type User = {
+  id: number;
+  email: string;
+  name: string;
+  role: Role;
+  // The tutor profile this account manages, if any.
+  tutorId: string | null;
+};
+
+export type Credentials = {
+  email: string;
+  password: string;
+};
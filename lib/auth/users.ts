@@ -0,0 +1,44 @@
+import { getDb, type Db } from '@/lib/db';
+import { hashPassword } from './password';
+import type { Role, User } from './types';
+
+type UserRow = {
+  id: number;
+  email: string;
+  name: string;
+  role: Role;
+  tutor_id: string | null;
+  password_hash: string | null;
+};
+
+const SELECT_USER = 'SELECT id, email, name, role, tutor_id, password_hash FROM users';
+
+export function getUser(id: number, db: Db = getDb()): User | undefined {
+  const row = db.prepare(`${SELECT_USER} WHERE id = ?`).get(id) as UserRow | undefined;
+  return row ? toUser(row) : undefined;
+}
+
+// Tutor accounts stop working while the tutor is deactivated.
+export function isAccountActive(user: User, db: Db = getDb()): boolean {
+  if (!user.tutorId) return true;
+  const row = db.prepare('SELECT active FROM tutors WHERE id = ?').get(user.tutorId) as { active: number } | undefined;
+  return row?.active === 1;
+}
+
+// Includes the password hash, for credential checks only.
+export function getUserCredentials(email: string, db: Db = getDb()): { user: User; passwordHash: string | null } | undefined {
+  const row = db.prepare(`${SELECT_USER} WHERE email = ?`).get(email.trim()) as UserRow | undefined;
+  return row ? { user: toUser(row), passwordHash: row.password_hash } : undefined;
+}
+
+export async function setPassword(email: string, password: string, db: Db = getDb()): Promise<boolean> {
+  const passwordHash = await hashPassword(password);
+  const result = db
+    .prepare("UPDATE users SET password_hash = ?, updated_at = datetime('now') WHERE email = ?")
+    .run(passwordHash, email.trim());
+  return result.changes > 0;
+}
+
+function toUser(row: UserRow): User {
+  return { id: row.id, email: row.email, name: row.name, role: row.role, tutorId: row.tutor_id };
+}
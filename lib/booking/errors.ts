@@ -0,0 +1,68 @@
+export const BOOKING_ERROR_CODES = [
+  'SLOT_NOT_FOUND',
+  'SLOT_TAKEN',
+  'SLOT_IN_PAST',
+  'OUTSIDE_BOOKING_WINDOW',
+  'DAILY_LIMIT',
+  'WEEKLY_LIMIT',
+  'APPOINTMENT_CLOSED',
+  'CHANGE_CUTOFF_PASSED',
+  'APPOINTMENT_NOT_FOUND',
+  'SESSION_NOT_STARTED',
+  'STUDENT_RESTRICTED',
+  'RULES_NOT_ACKNOWLEDGED',
+  'RECORDING_CONSENT_REQUIRED',
+] as const;
+
+export type BookingErrorCode = (typeof BOOKING_ERROR_CODES)[number];
+
+// Explanations shown to whoever made the request, shared by the API and the booking UI.
+export const BOOKING_ERROR_MESSAGES: Record<BookingErrorCode, string> = {
+  SLOT_NOT_FOUND: 'That time isn’t one of the tutor’s Zoom openings.',
+  SLOT_TAKEN: 'Someone else just booked that time. Please pick another opening.',
+  SLOT_IN_PAST: 'That time has already passed. Please pick a later opening.',
+  OUTSIDE_BOOKING_WINDOW: 'That date is outside the booking window for this semester.',
+  DAILY_LIMIT: 'You already have an appointment that day. The rules allow one appointment per day.',
+  WEEKLY_LIMIT: 'You’ve reached the weekly appointment limit. Please leave some time for other students.',
+  APPOINTMENT_CLOSED: 'This appointment has already been cancelled or has taken place.',
+  CHANGE_CUTOFF_PASSED: 'It’s too close to the session to cancel or reschedule online.',
+  APPOINTMENT_NOT_FOUND: 'We couldn’t find that appointment.',
+  SESSION_NOT_STARTED: 'This session hasn’t started yet.',
+  STUDENT_RESTRICTED: 'You can’t book tutoring appointments right now. Please contact the Tutor Squad coordinator.',
+  RULES_NOT_ACKNOWLEDGED: 'Please read and agree to the Tutor Squad rules before booking.',
+  RECORDING_CONSENT_REQUIRED: 'Zoom tutoring sessions are recorded. Please agree to being recorded before booking.',
+};
+
+const HTTP_STATUS: Record<BookingErrorCode, number> = {
+  SLOT_NOT_FOUND: 404,
+  SLOT_TAKEN: 409,
+  SLOT_IN_PAST: 422,
+  OUTSIDE_BOOKING_WINDOW: 422,
+  DAILY_LIMIT: 409,
+  WEEKLY_LIMIT: 409,
+  APPOINTMENT_CLOSED: 409,
+  CHANGE_CUTOFF_PASSED: 409,
+  APPOINTMENT_NOT_FOUND: 404,
+  SESSION_NOT_STARTED: 409,
+  STUDENT_RESTRICTED: 403,
+  RULES_NOT_ACKNOWLEDGED: 428,
+  RECORDING_CONSENT_REQUIRED: 428,
+};
+
+export class BookingError extends Error {
+  constructor(
+    readonly code: BookingErrorCode,
+    message: string = BOOKING_ERROR_MESSAGES[code]
+  ) {
+    super(message);
+    this.name = 'BookingError';
+  }
+
+  get status(): number {
+    return HTTP_STATUS[this.code];
+  }
+
+  toJSON() {
+    return { error: this.message, code: this.code };
+  }
+}
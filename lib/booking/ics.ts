@@ -0,0 +1,26 @@
+import type { IcsCalendar } from '@/lib/ics';
+import type { Term } from '@/lib/terms/schema';
+import { appointmentReference, type Appointment } from './types';
+
+export function appointmentCalendar(appointment: Appointment, term: Term, manageUrl: string): IcsCalendar {
+  return {
+    name: 'CCSF CS tutoring',
+    events: [
+      {
+        uid: `${appointment.id}@ccsf-tutoring`,
+        summary: `${appointment.language ?? 'CS'} tutoring with ${appointment.tutorName}`,
+        start: { date: appointment.date, time: appointment.start },
+        end: { date: appointment.date, time: appointment.end },
+        location: term.zoom.link,
+        url: term.zoom.link,
+        status: appointment.status === 'cancelled' ? 'CANCELLED' : 'CONFIRMED',
+        description: [
+          `Confirmation number: ${appointmentReference(appointment)}`,
+          `Join Zoom: ${term.zoom.link}`,
+          `Meeting ID: ${term.zoom.meetingId}`,
+          `Cancel or reschedule: ${manageUrl}`,
+        ].join('\n'),
+      },
+    ],
+  };
+}
@@ -0,0 +1,544 @@
+import { randomUUID } from 'crypto';
+import { hasRecordingConsent, recordRecordingConsent } from '@/lib/consents/repository';
+import { getDb, type Db } from '@/lib/db';
+import { getScheduleTerm, getTerm, getTerms, type Term } from '@/lib/terms';
+import {
+  addDaysToDate,
+  formatDate,
+  formatTime,
+  fromMinutes,
+  startOfWeek,
+  toMinutes,
+  weekdayOfDate,
+  zonedDateTime,
+  zonedTime,
+} from '@/lib/time';
+import { acknowledgedRulesVersion, getCurrentRules, recordAcknowledgment } from '@/lib/rules/versions';
+import { activeRestrictionFor, upsertStudent } from '@/lib/students/repository';
+import { describeSuspensionEnd } from '@/lib/students/types';
+import { getTutor, listTutors } from '@/lib/tutors/repository';
+import { shiftsFor } from '@/lib/tutors/schedule';
+import type { Course, Language } from '@/lib/tutors/types';
+import { BookingError } from './errors';
+import { slotsForTutor } from './slots';
+import {
+  parseSlotId,
+  slotId,
+  type Appointment,
+  type AppointmentOutcome,
+  type AppointmentStatus,
+  type Slot,
+  type SlotHold,
+  type TutorQueue,
+} from './types';
+
+type AppointmentRow = {
+  id: string;
+  term_id: string;
+  tutor_id: string;
+  tutor_name: string;
+  student_name: string;
+  student_email: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  language: Language | null;
+  course: Course | null;
+  assignment: string;
+  attempted: string;
+  notes: string;
+  status: AppointmentStatus;
+  rescheduled_to: string | null;
+  created_at: string;
+};
+
+export type BookingRequest = {
+  slotId: string;
+  studentName: string;
+  studentEmail: string;
+  language?: Language;
+  course?: Course;
+  assignment?: string;
+  attempted?: string;
+  notes?: string;
+  // The rules version the student agreed to while booking. Not needed once they've agreed to the current one.
+  rulesVersion?: number;
+  // Set when the student agrees to recording while booking. Not needed once they have for the term.
+  recordingConsent?: boolean;
+  // The chat conversation holding the slot, if any. Its hold is released once the booking is made.
+  holder?: string;
+};
+
+export type SessionContext = Pick<Appointment, 'course' | 'assignment' | 'attempted' | 'notes'>;
+
+export type SlotQuery = {
+  date: string;
+  tutorId?: string;
+  language?: Language;
+  // Slots this chat conversation is holding count as available to it.
+  holder?: string;
+};
+
+const SELECT_APPOINTMENT = `
+  SELECT a.id, a.term_id, a.tutor_id, t.name AS tutor_name, s.name AS student_name, s.email AS student_email,
+         a.date, a.start_time, a.end_time, a.language, a.course, a.assignment, a.attempted, a.notes, a.status, a.rescheduled_to, a.created_at
+  FROM appointments a
+  JOIN tutors t ON t.id = a.tutor_id
+  JOIN students s ON s.id = a.student_id`;
+
+// Counted against the daily and weekly limits; only cancellations give a booking back.
+const HOLDS_SLOT = "status <> 'cancelled'";
+
+// Slots set aside for a waitlisted student until their offer is accepted or runs out.
+const WAITLIST_HOLD = "status = 'offered' AND hold_expires_at > ?";
+
+// Slots set aside for a chat conversation that's about to book them.
+const CHAT_HOLD = 'expires_at > ?';
+
+// Long enough to give a name and email and say yes to the rules.
+export const SLOT_HOLD_MINUTES = 10;
+
+export function termForDate(date: string, terms: Term[] = getTerms()): Term | undefined {
+  return terms.find((term) => term.startDate <= date && date <= term.endDate);
+}
+
+// Zoom slots on `date`, with `available` false for ones already booked, held for the waitlist or another
+// conversation, or already started.
+export function listSlots({ date, tutorId, language, holder }: SlotQuery, now: Date = new Date(), db: Db = getDb()): Slot[] {
+  const term = termForDate(date);
+  if (!term) return [];
+
+  const tutors = listTutors(term.id, db).filter(
+    (tutor) => (!tutorId || tutor.id === tutorId) && (!language || tutor.languages.includes(language))
+  );
+  const taken = new Set(
+    (
+      db
+        .prepare(`SELECT tutor_id, start_time FROM appointments WHERE date = ? AND ${HOLDS_SLOT}`)
+        .all(date) as { tutor_id: string; start_time: string }[]
+    ).map((row) => `${row.tutor_id} ${row.start_time}`)
+  );
+  const held = new Set(
+    (
+      db
+        .prepare(`SELECT offer_tutor_id, offer_start FROM waitlist_entries WHERE date = ? AND ${WAITLIST_HOLD}`)
+        .all(date, now.toISOString()) as { offer_tutor_id: string; offer_start: string }[]
+    ).map((row) => `${row.offer_tutor_id} ${row.offer_start}`)
+  );
+  const heldInChat = new Set(
+    (
+      db
+        .prepare(`SELECT tutor_id, start_time FROM slot_holds WHERE date = ? AND holder IS NOT ? AND ${CHAT_HOLD}`)
+        .all(date, holder ?? null, now.toISOString()) as { tutor_id: string; start_time: string }[]
+    ).map((row) => `${row.tutor_id} ${row.start_time}`)
+  );
+
+  return tutors
+    .flatMap((tutor) => slotsForTutor(tutor, date, term.booking.sessionMinutes))
+    .map((slot) => {
+      const key = `${slot.tutorId} ${slot.start}`;
+      return { ...slot, available: !taken.has(key) && !held.has(key) && !heldInChat.has(key) && !hasStarted(slot, now) };
+    })
+    .sort((a, b) => toMinutes(a.start) - toMinutes(b.start) || a.tutorName.localeCompare(b.tutorName));
+}
+
+// Dates from today through the booking window that still have at least one open slot.
+export function bookableDates(now: Date = new Date(), db: Db = getDb()): string[] {
+  const today = zonedTime(now).date;
+  const { advanceDays } = getScheduleTerm(now).booking;
+  return Array.from({ length: advanceDays + 1 }, (_, offset) => addDaysToDate(today, offset)).filter((date) =>
+    listSlots({ date }, now, db).some((slot) => slot.available)
+  );
+}
+
+// Reserves a slot for a student. The checks and the insert run in one IMMEDIATE transaction, so two
+// requests for the same slot (or the same student) can't both pass the rules; the partial unique
+// index on appointments is the backstop if they ever did.
+export function bookAppointment(request: BookingRequest, now: Date = new Date(), db: Db = getDb()): Appointment {
+  return reserveSlot(request, { checkAgreements: true }, now, db);
+}
+
+// Sets a slot aside for a chat conversation for SLOT_HOLD_MINUTES, in place of any slot it held before.
+export function holdSlot(id: string, holder: string, now: Date = new Date(), db: Db = getDb()): SlotHold {
+  const { tutorId, date, slot } = findBookableSlot(id, now, db);
+  const expiresAt = new Date(now.getTime() + SLOT_HOLD_MINUTES * 60_000).toISOString();
+
+  const hold = db.transaction(() => {
+    db.prepare('DELETE FROM slot_holds WHERE expires_at <= ?').run(now.toISOString());
+    const open = listSlots({ date, tutorId, holder }, now, db).find((entry) => entry.start === slot.start);
+    if (!open?.available) {
+      throw new BookingError('SLOT_TAKEN');
+    }
+    db.prepare(
+      `INSERT INTO slot_holds (holder, tutor_id, date, start_time, expires_at) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (holder) DO UPDATE
+       SET tutor_id = excluded.tutor_id, date = excluded.date, start_time = excluded.start_time, expires_at = excluded.expires_at`
+    ).run(holder, tutorId, date, slot.start, expiresAt);
+  });
+  hold.immediate();
+
+  return { slotId: slotId(tutorId, date, slot.start), holder, expiresAt };
+}
+
+export function releaseSlotHold(holder: string, db: Db = getDb()): void {
+  db.prepare('DELETE FROM slot_holds WHERE holder = ?').run(holder);
+}
+
+function reserveSlot(
+  request: BookingRequest,
+  { checkAgreements }: { checkAgreements: boolean },
+  now: Date,
+  db: Db
+): Appointment {
+  const { term, tutorId, date, slot } = findBookableSlot(request.slotId, now, db);
+
+  const restriction = activeRestrictionFor(request.studentEmail, now, db);
+  if (restriction) {
+    throw new BookingError(
+      'STUDENT_RESTRICTED',
+      restriction.endsAt
+        ? `Your booking privileges are suspended ${describeSuspensionEnd(restriction.endsAt)}. Please contact the Tutor Squad coordinator with any questions.`
+        : undefined
+    );
+  }
+
+  const rules = getCurrentRules(db);
+  const agreeing = request.rulesVersion === rules.version;
+  if (checkAgreements && !agreeing && (acknowledgedRulesVersion(request.studentEmail, db) ?? 0) < rules.version) {
+    throw new BookingError(
+      'RULES_NOT_ACKNOWLEDGED',
+      request.rulesVersion
+        ? 'The Tutor Squad rules changed since you agreed to them. Please read the new version before booking.'
+        : undefined
+    );
+  }
+  const consenting = request.recordingConsent === true;
+  if (checkAgreements && !consenting && !hasRecordingConsent(request.studentEmail, term.id, db)) {
+    throw new BookingError('RECORDING_CONSENT_REQUIRED');
+  }
+
+  const id = randomUUID();
+  const reserve = db.transaction(() => {
+    const studentId = upsertStudent(request.studentName, request.studentEmail, db);
+    if (agreeing) recordAcknowledgment(studentId, rules.version, now, db);
+    if (consenting) recordRecordingConsent(studentId, term.id, 'booking', now, db);
+
+    const hold = db
+      .prepare(
+        `SELECT student_id FROM waitlist_entries WHERE offer_tutor_id = ? AND date = ? AND offer_start = ? AND ${WAITLIST_HOLD}`
+      )
+      .get(tutorId, date, slot.start, now.toISOString()) as { student_id: number } | undefined;
+    if (hold && hold.student_id !== studentId) {
+      throw new BookingError(
+        'SLOT_TAKEN',
+        'That time is being held for a student on the waitlist. Please pick another opening.'
+      );
+    }
+    const chatHold = db
+      .prepare(`SELECT holder FROM slot_holds WHERE tutor_id = ? AND date = ? AND start_time = ? AND ${CHAT_HOLD}`)
+      .get(tutorId, date, slot.start, now.toISOString()) as { holder: string } | undefined;
+    if (chatHold && chatHold.holder !== request.holder) {
+      throw new BookingError('SLOT_TAKEN', 'Another student is booking that time right now. Please pick another opening.');
+    }
+
+    const { maxPerDay, maxPerWeek } = term.booking;
+    const sameDay = countAppointments(db, studentId, date, date);
+    if (sameDay >= maxPerDay) {
+      throw new BookingError(
+        'DAILY_LIMIT',
+        maxPerDay === 1
+          ? `You already have an appointment on ${formatDate(date)}. The rules allow one appointment per day.`
+          : `You already have ${sameDay} appointments on ${formatDate(date)}, the most allowed in one day.`
+      );
+    }
+
+    const weekStart = startOfWeek(date);
+    const sameWeek = countAppointments(db, studentId, weekStart, addDaysToDate(weekStart, 6));
+    if (sameWeek >= maxPerWeek) {
+      throw new BookingError(
+        'WEEKLY_LIMIT',
+        `You already have ${sameWeek} appointments the week of ${formatDate(weekStart)}, the weekly limit. Please leave some time for other students.`
+      );
+    }
+
+    try {
+      db.prepare(
+        `INSERT INTO appointments
+           (id, term_id, tutor_id, student_id, date, start_time, end_time, language, course, assignment, attempted, notes)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        id,
+        term.id,
+        tutorId,
+        studentId,
+        date,
+        slot.start,
+        slot.end,
+        request.language ?? null,
+        request.course ?? null,
+        request.assignment ?? '',
+        request.attempted ?? '',
+        request.notes ?? ''
+      );
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new BookingError('SLOT_TAKEN');
+      }
+      throw error;
+    }
+    if (request.holder) releaseSlotHold(request.holder, db);
+  });
+  reserve.immediate();
+
+  return getAppointment(id, db)!;
+}
+
+// The slot behind `id`, as long as it's a real opening that hasn't started and is inside the booking window.
+// Whether it's free is up to the caller.
+function findBookableSlot(id: string, now: Date, db: Db): { term: Term; tutorId: string; date: string; slot: Slot } {
+  const parsed = parseSlotId(id);
+  if (!parsed) {
+    throw new BookingError('SLOT_NOT_FOUND');
+  }
+
+  const { tutorId, date, start } = parsed;
+  const term = termForDate(date);
+  if (!term) {
+    throw new BookingError('OUTSIDE_BOOKING_WINDOW', `Tutoring isn’t in session on ${formatDate(date)}.`);
+  }
+
+  const tutor = getTutor(tutorId, term.id, db);
+  const slot = tutor && slotsForTutor(tutor, date, term.booking.sessionMinutes).find((entry) => entry.start === start);
+  if (!slot) {
+    throw new BookingError('SLOT_NOT_FOUND');
+  }
+  if (hasStarted(slot, now)) {
+    throw new BookingError('SLOT_IN_PAST');
+  }
+
+  const lastBookableDate = addDaysToDate(zonedTime(now).date, term.booking.advanceDays);
+  if (date > lastBookableDate) {
+    throw new BookingError(
+      'OUTSIDE_BOOKING_WINDOW',
+      `Appointments open ${term.booking.advanceDays} days ahead, so the latest you can book right now is ${formatDate(lastBookableDate)}.`
+    );
+  }
+  return { term, tutorId, date, slot };
+}
+
+export function getAppointment(id: string, db: Db = getDb()): Appointment | undefined {
+  const row = db.prepare(`${SELECT_APPOINTMENT} WHERE a.id = ?`).get(id) as AppointmentRow | undefined;
+  return row ? toAppointment(row) : undefined;
+}
+
+// Last moment the student can cancel or reschedule online, per the term's cutoff.
+export function changeDeadline(appointment: Appointment): Date {
+  const cutoffMinutes = getTerm(appointment.termId)?.booking.changeCutoffMinutes ?? 0;
+  return new Date(zonedDateTime(appointment.date, appointment.start).getTime() - cutoffMinutes * 60_000);
+}
+
+export function isChangeable(appointment: Appointment, now: Date = new Date()): boolean {
+  return appointment.status === 'booked' && now < changeDeadline(appointment);
+}
+
+export function cancelAppointment(id: string, now: Date = new Date(), db: Db = getDb()): Appointment {
+  const appointment = getChangeableAppointment(id, now, db);
+  db.prepare("UPDATE appointments SET status = 'cancelled', updated_at = datetime('now') WHERE id = ?").run(appointment.id);
+  return getAppointment(id, db)!;
+}
+
+// Cancels a student's booked sessions that start after `now` (and before `until`, when given), for example
+// when a coordinator suspends them. Unlike a student cancelling, the change cutoff doesn't apply.
+export function cancelStudentAppointments(
+  studentId: number,
+  until: Date | null,
+  now: Date = new Date(),
+  db: Db = getDb()
+): Appointment[] {
+  const rows = db
+    .prepare(`${SELECT_APPOINTMENT} WHERE a.student_id = ? AND a.status = 'booked' AND a.date >= ?`)
+    .all(studentId, zonedTime(now).date) as AppointmentRow[];
+  const cancel = db.prepare("UPDATE appointments SET status = 'cancelled', updated_at = datetime('now') WHERE id = ?");
+
+  return rows
+    .map(toAppointment)
+    .filter((appointment) => {
+      const startsAt = zonedDateTime(appointment.date, appointment.start);
+      return startsAt > now && (!until || startsAt < until);
+    })
+    .map((appointment) => {
+      cancel.run(appointment.id);
+      return { ...appointment, status: 'cancelled' as const };
+    });
+}
+
+// Cancels a tutor's upcoming booked sessions that no longer fall within one of their Zoom shifts, or all of
+// them once the tutor is deactivated. As with a suspension, the change cutoff doesn't apply.
+export function cancelUncoveredAppointments(tutorId: string, now: Date = new Date(), db: Db = getDb()): Appointment[] {
+  const rows = db
+    .prepare(`${SELECT_APPOINTMENT} WHERE a.tutor_id = ? AND a.status = 'booked' AND a.date >= ?`)
+    .all(tutorId, zonedTime(now).date) as AppointmentRow[];
+  const cancel = db.prepare("UPDATE appointments SET status = 'cancelled', updated_at = datetime('now') WHERE id = ?");
+
+  return rows
+    .map(toAppointment)
+    .filter((appointment) => {
+      if (zonedDateTime(appointment.date, appointment.start) <= now) return false;
+      const tutor = getTutor(tutorId, appointment.termId, db);
+      const shifts = tutor ? shiftsFor(tutor, 'virtual', weekdayOfDate(appointment.date)) : [];
+      return !shifts.some((shift) => shift.start <= appointment.start && appointment.end <= shift.end);
+    })
+    .map((appointment) => {
+      cancel.run(appointment.id);
+      return { ...appointment, status: 'cancelled' as const };
+    });
+}
+
+// Moves an appointment to another slot. The old booking is released and the new one goes through the
+// same rules as any booking; if it's refused, the transaction rolls back and the old one stands.
+export function rescheduleAppointment(id: string, slotId: string, now: Date = new Date(), db: Db = getDb()): Appointment {
+  const appointment = getChangeableAppointment(id, now, db);
+
+  const move = db.transaction(() => {
+    db.prepare("UPDATE appointments SET status = 'cancelled', updated_at = datetime('now') WHERE id = ?").run(id);
+    // The student agreed to the rules and to recording when they booked; moving the session doesn't ask again.
+    const replacement = reserveSlot(
+      {
+        slotId,
+        studentName: appointment.studentName,
+        studentEmail: appointment.studentEmail,
+        language: appointment.language ?? undefined,
+        course: appointment.course ?? undefined,
+        assignment: appointment.assignment,
+        attempted: appointment.attempted,
+        notes: appointment.notes,
+      },
+      { checkAgreements: false },
+      now,
+      db
+    );
+    db.prepare('UPDATE appointments SET rescheduled_to = ? WHERE id = ?').run(replacement.id, id);
+    return replacement;
+  });
+  return move.immediate();
+}
+
+// Students can fill in or update what they're working on any time before the session starts.
+export function isContextEditable(appointment: Appointment, now: Date = new Date()): boolean {
+  return appointment.status === 'booked' && !hasStarted(appointment, now);
+}
+
+export function updateSessionContext(id: string, context: SessionContext, now: Date = new Date(), db: Db = getDb()): Appointment {
+  const appointment = getAppointment(id, db);
+  if (!appointment || !isContextEditable(appointment, now)) {
+    throw new BookingError('APPOINTMENT_CLOSED');
+  }
+  db.prepare(
+    `UPDATE appointments SET course = ?, assignment = ?, attempted = ?, notes = ?, updated_at = datetime('now')
+     WHERE id = ?`
+  ).run(context.course, context.assignment, context.attempted, context.notes, id);
+  return getAppointment(id, db)!;
+}
+
+// A tutor's appointments from `from` through `to`, cancelled ones left out.
+export function listTutorAppointments(tutorId: string, from: string, to: string, db: Db = getDb()): Appointment[] {
+  const rows = db
+    .prepare(
+      `${SELECT_APPOINTMENT}
+       WHERE a.tutor_id = ? AND a.date BETWEEN ? AND ? AND a.${HOLDS_SLOT}
+       ORDER BY a.date, a.start_time`
+    )
+    .all(tutorId, from, to) as AppointmentRow[];
+  return rows.map(toAppointment);
+}
+
+export function getTutorQueue(tutorId: string, now: Date = new Date(), db: Db = getDb()): TutorQueue {
+  const date = zonedTime(now).date;
+  const appointments = listTutorAppointments(tutorId, date, addDaysToDate(date, 7), db);
+  return {
+    date,
+    today: appointments
+      .filter((appointment) => appointment.date === date)
+      .map((appointment) => ({ ...appointment, started: hasStarted(appointment, now) })),
+    upcoming: appointments.filter((appointment) => appointment.date > date),
+  };
+}
+
+// Marks a session completed or missed. The tutor can correct an outcome, but not before the session starts.
+export function recordOutcome(
+  id: string,
+  tutorId: string,
+  outcome: AppointmentOutcome,
+  now: Date = new Date(),
+  db: Db = getDb()
+): Appointment {
+  const appointment = getAppointment(id, db);
+  if (!appointment || appointment.tutorId !== tutorId) {
+    throw new BookingError('APPOINTMENT_NOT_FOUND');
+  }
+  if (appointment.status === 'cancelled') {
+    throw new BookingError('APPOINTMENT_CLOSED');
+  }
+  if (!hasStarted(appointment, now)) {
+    throw new BookingError('SESSION_NOT_STARTED');
+  }
+  db.prepare("UPDATE appointments SET status = ?, updated_at = datetime('now') WHERE id = ?").run(outcome, id);
+  return getAppointment(id, db)!;
+}
+
+function getChangeableAppointment(id: string, now: Date, db: Db): Appointment {
+  const appointment = getAppointment(id, db);
+  if (!appointment || appointment.status !== 'booked') {
+    throw new BookingError('APPOINTMENT_CLOSED');
+  }
+
+  const deadline = changeDeadline(appointment);
+  if (now >= deadline) {
+    const { date, minutes } = zonedTime(deadline);
+    throw new BookingError(
+      'CHANGE_CUTOFF_PASSED',
+      date === appointment.date
+        ? `Changes to this appointment closed at ${formatTime(fromMinutes(minutes))}. If you can’t make it, just let your tutor know when the session starts.`
+        : `Changes to this appointment closed on ${formatDate(date)}.`
+    );
+  }
+  return appointment;
+}
+
+export function countAppointments(db: Db, studentId: number, from: string, to: string): number {
+  const row = db
+    .prepare(`SELECT COUNT(*) AS count FROM appointments WHERE student_id = ? AND date BETWEEN ? AND ? AND ${HOLDS_SLOT}`)
+    .get(studentId, from, to) as { count: number };
+  return row.count;
+}
+
+export function hasStarted(slot: Pick<Slot, 'date' | 'start'>, now: Date): boolean {
+  const today = zonedTime(now);
+  return slot.date < today.date || (slot.date === today.date && toMinutes(slot.start) <= today.minutes);
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return error instanceof Error && 'code' in error && error.code === 'SQLITE_CONSTRAINT_UNIQUE';
+}
+
+function toAppointment(row: AppointmentRow): Appointment {
+  return {
+    id: row.id,
+    termId: row.term_id,
+    tutorId: row.tutor_id,
+    tutorName: row.tutor_name,
+    studentName: row.student_name,
+    studentEmail: row.student_email,
+    date: row.date,
+    start: row.start_time,
+    end: row.end_time,
+    language: row.language,
+    course: row.course,
+    assignment: row.assignment,
+    attempted: row.attempted,
+    notes: row.notes,
+    status: row.status,
+    rescheduledTo: row.rescheduled_to,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,27 @@
+import { fromMinutes, toMinutes, weekdayOfDate } from '@/lib/time';
+import { shiftsFor } from '@/lib/tutors/schedule';
+import type { Tutor } from '@/lib/tutors/types';
+import { slotId, type Slot } from './types';
+
+// Every session-length slot in the tutor's Zoom shifts on `date`, all marked available. Leftover
+// minutes at the end of a shift that can't fit a whole session are dropped.
+export function slotsForTutor(tutor: Tutor, date: string, sessionMinutes: number): Slot[] {
+  const day = weekdayOfDate(date);
+  return shiftsFor(tutor, 'virtual', day).flatMap((shift) => {
+    const slots: Slot[] = [];
+    for (let minutes = toMinutes(shift.start); minutes + sessionMinutes <= toMinutes(shift.end); minutes += sessionMinutes) {
+      const start = fromMinutes(minutes);
+      slots.push({
+        id: slotId(tutor.id, date, start),
+        tutorId: tutor.id,
+        tutorName: tutor.name,
+        date,
+        day,
+        start,
+        end: fromMinutes(minutes + sessionMinutes),
+        available: true,
+      });
+    }
+    return slots;
+  });
+}
@@ -0,0 +1,95 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { addDaysToDate, zonedDateTime } from '@/lib/time';
+import type { Appointment } from './types';
+
+const DEVELOPMENT_SECRET = 'ccsf-tutoring-development-secret';
+
+// How long after a session its feedback link keeps working.
+const FEEDBACK_WINDOW_DAYS = 14;
+
+export type TokenCheck =
+  | { status: 'valid'; appointmentId: string }
+  | { status: 'expired' }
+  | { status: 'invalid' };
+
+type TokenPayload = {
+  // appointment id
+  a: string;
+  // expiry, in seconds since the epoch
+  e: number;
+  // what the link is for; management links leave it out
+  p?: 'feedback';
+};
+
+function tokenSecret(env: NodeJS.ProcessEnv = process.env): string {
+  if (env.BOOKING_TOKEN_SECRET) return env.BOOKING_TOKEN_SECRET;
+  if (env.NODE_ENV === 'production') {
+    throw new Error('BOOKING_TOKEN_SECRET must be set in production');
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', tokenSecret()).update(payload).digest('base64url');
+}
+
+// A link token for managing one appointment. It stays valid until the session ends; whether a
+// change is still allowed is decided separately by the term's cutoff.
+export function createManagementToken(appointment: Pick<Appointment, 'id' | 'date' | 'end'>): string {
+  return createToken({ a: appointment.id, e: epochSeconds(zonedDateTime(appointment.date, appointment.end)) });
+}
+
+export function verifyManagementToken(token: string, now: Date = new Date()): TokenCheck {
+  return verifyToken(token, undefined, now);
+}
+
+// A link token for the survey sent after a session. It can't be used to manage the appointment.
+export function createFeedbackToken(appointment: Pick<Appointment, 'id' | 'date' | 'end'>): string {
+  const expires = zonedDateTime(addDaysToDate(appointment.date, FEEDBACK_WINDOW_DAYS), appointment.end);
+  return createToken({ a: appointment.id, e: epochSeconds(expires), p: 'feedback' });
+}
+
+export function verifyFeedbackToken(token: string, now: Date = new Date()): TokenCheck {
+  return verifyToken(token, 'feedback', now);
+}
+
+export function managementPath(appointment: Pick<Appointment, 'id' | 'date' | 'end'>): string {
+  return `/appointments/${createManagementToken(appointment)}`;
+}
+
+export function feedbackPath(appointment: Pick<Appointment, 'id' | 'date' | 'end'>): string {
+  return `/feedback/${createFeedbackToken(appointment)}`;
+}
+
+function createToken(payload: TokenPayload): string {
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded)}`;
+}
+
+function verifyToken(token: string, purpose: TokenPayload['p'], now: Date): TokenCheck {
+  const [encoded, signature, ...rest] = token.split('.');
+  if (!encoded || !signature || rest.length > 0) return { status: 'invalid' };
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { status: 'invalid' };
+  }
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    return { status: 'invalid' };
+  }
+  if (typeof payload.a !== 'string' || typeof payload.e !== 'number' || payload.p !== purpose) {
+    return { status: 'invalid' };
+  }
+  if (payload.e * 1000 <= now.getTime()) return { status: 'expired' };
+
+  return { status: 'valid', appointmentId: payload.a };
+}
+
+function epochSeconds(instant: Date): number {
+  return Math.floor(instant.getTime() / 1000);
+}
@@ -0,0 +1,79 @@
+import type { Weekday } from '@/lib/time';
+import type { Course, Language } from '@/lib/tutors/types';
+
+export const APPOINTMENT_STATUSES = ['booked', 'cancelled', 'completed', 'no-show'] as const;
+
+export type AppointmentStatus = (typeof APPOINTMENT_STATUSES)[number];
+
+// What a tutor can record once a session has started.
+export const APPOINTMENT_OUTCOMES = ['completed', 'no-show'] as const;
+
+export type AppointmentOutcome = (typeof APPOINTMENT_OUTCOMES)[number];
+
+// One bookable Zoom session: a tutor's virtual shift cut into session-length pieces on a real date.
+export type Slot = {
+  id: string;
+  tutorId: string;
+  tutorName: string;
+  date: string;
+  day: Weekday;
+  start: string;
+  end: string;
+  available: boolean;
+};
+
+export type Appointment = {
+  id: string;
+  termId: string;
+  tutorId: string;
+  tutorName: string;
+  studentName: string;
+  studentEmail: string;
+  date: string;
+  start: string;
+  end: string;
+  language: Language | null;
+  course: Course | null;
+  // What the student is working on and has already tried, for the tutor to read ahead of the session.
+  assignment: string;
+  attempted: string;
+  notes: string;
+  status: AppointmentStatus;
+  // Set on a cancelled appointment that was moved to another slot.
+  rescheduledTo: string | null;
+  createdAt: string;
+};
+
+// A slot set aside for one chat conversation while the student finishes booking it.
+export type SlotHold = {
+  slotId: string;
+  holder: string;
+  expiresAt: string;
+};
+
+// A tutor's dashboard view: today's sessions in order, then the rest of the week.
+export type TutorQueue = {
+  date: string;
+  today: (Appointment & { started: boolean })[];
+  upcoming: Appointment[];
+};
+
+// "chris-h@2026-10-20T14:30"
+export function slotId(tutorId: string, date: string, start: string): string {
+  return `${tutorId}@${date}T${start}`;
+}
+
+export function parseSlotId(id: string): { tutorId: string; date: string; start: string } | undefined {
+  const match = id.match(/^([a-z0-9-]+)@(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})$/);
+  return match ? { tutorId: match[1], date: match[2], start: match[3] } : undefined;
+}
+
+// The calendar file for a booking, from its "/appointments/<token>" management link.
+export function appointmentCalendarPath(managePath: string): string {
+  return `/api/appointments/manage/${managePath.split('/').pop()}/ics`;
+}
+
+// Short code students can quote to the Tutor Squad.
+export function appointmentReference(appointment: Pick<Appointment, 'id'>): string {
+  return appointment.id.replace(/-/g, '').slice(0, 8).toUpperCase();
+}
@@ -0,0 +1,114 @@
+import type { AgentMessage, LLMProvider, MockTurn, ToolCallRequest } from '@/lib/llm';
+import { listJoin, type AssistantTurn } from './assistant';
+import { extractDay, extractSkill } from './parse';
+import { buildAgentPrompt } from './prompt';
+import { callTool, toolSpecs, type ToolContext, type ToolOutcome, type ToolResult } from './tools';
+import type { ChatMessage, ChatState } from './types';
+
+// Rounds of tool calls the model gets per student message before it has to answer.
+const MAX_STEPS = 6;
+
+const STUCK_REPLY = 'Sorry, I got stuck working that out. Could you try asking another way?';
+
+type AgentOptions = {
+  maxSteps?: number;
+  signal?: AbortSignal;
+};
+
+export type AgentRun = {
+  reply: string;
+  // The conversation as the model saw it, tool calls and results included.
+  messages: AgentMessage[];
+  // The student the conversation acts for: the one it started with, or the first a booking call named.
+  studentEmail?: string;
+};
+
+// Lets the model act through the chat tools until it answers. Each call is validated, authorized and traced
+// exactly as it is for the guided assistant, so the model can't do anything a student couldn't.
+export async function runAgent(
+  provider: LLMProvider,
+  { system, messages }: { system: string; messages: AgentMessage[] },
+  context: ToolContext,
+  { maxSteps = MAX_STEPS, signal }: AgentOptions = {}
+): Promise<AgentRun> {
+  const transcript = [...messages];
+  const tools = toolSpecs();
+  let { studentEmail } = context;
+
+  for (let step = 0; step < maxSteps; step++) {
+    const turn = await provider.completeWithTools({ system, messages: transcript, tools }, signal);
+    if (turn.toolCalls.length === 0) {
+      return { reply: turn.content, messages: transcript, studentEmail };
+    }
+
+    transcript.push({ role: 'assistant', content: turn.content, toolCalls: turn.toolCalls });
+    for (const call of turn.toolCalls) {
+      const outcome = callTool(call.name, call.arguments, { ...context, studentEmail });
+      studentEmail ??= studentNamedBy(call, outcome);
+      transcript.push({
+        role: 'tool',
+        toolCallId: call.id,
+        name: call.name,
+        content: JSON.stringify(outcome.ok ? outcome.result : { error: outcome.error }),
+      });
+    }
+  }
+  return { reply: STUCK_REPLY, messages: transcript, studentEmail };
+}
+
+// Any booking call that got past validation names the student, whether or not the slot was still free.
+function studentNamedBy(call: ToolCallRequest, outcome: ToolOutcome): string | undefined {
+  if (call.name !== 'bookAppointment') return undefined;
+  if (!outcome.ok && outcome.error.code === 'INVALID_ARGUMENTS') return undefined;
+  return (call.arguments as { studentEmail: string }).studentEmail.trim().toLowerCase();
+}
+
+// One student message handled by the model instead of the guided flow. The state is passed through, except that
+// the student a booking named is kept so later turns can only book or cancel for them.
+export async function advanceWithAgent(
+  provider: LLMProvider,
+  state: ChatState,
+  history: ChatMessage[],
+  message: string,
+  context: ToolContext,
+  options: AgentOptions = {}
+): Promise<AssistantTurn> {
+  const { reply, studentEmail } = await runAgent(
+    provider,
+    { system: buildAgentPrompt(context.now), messages: [...history, { role: 'user', content: message }] },
+    context,
+    options
+  );
+  if (studentEmail === state.draft.studentEmail) return { state, reply };
+  return { state: { ...state, draft: { ...state.draft, studentEmail } }, reply };
+}
+
+// What the offline mock model does in agent mode, since it can't choose tools itself: it looks up tutors for
+// the language and day in the student's message and names them, through the same tools a real model calls.
+export function mockAgentScript(now: Date): MockTurn[] {
+  return [
+    ({ messages }) => {
+      const text = messages.findLast((message) => message.role === 'user')?.content ?? '';
+      const language = extractSkill(text);
+      if (!language) {
+        const content = 'Which language would you like help with: Python, Java, JavaScript, C++ or Linux?';
+        return { content, toolCalls: [] };
+      }
+      const day = extractDay(text, now);
+      return { content: '', toolCalls: [{ id: 'call_1', name: 'searchTutors', arguments: { language, day } }] };
+    },
+    ({ messages }) => {
+      const last = messages[messages.length - 1];
+      const call = messages.findLast((message) => 'toolCalls' in message)?.toolCalls?.[0];
+      const { language, day } = (call?.arguments ?? {}) as { language?: string; day?: string };
+      const found = JSON.parse(last.content) as Partial<ToolResult<'searchTutors'>>;
+      const when = day ? ` on ${day}` : '';
+      if (!found.tutors) return { content: 'Sorry, I couldn’t look that up. Please try again.', toolCalls: [] };
+      if (found.tutors.length === 0) {
+        return { content: `No one tutors ${language}${when} this term. Would another day work?`, toolCalls: [] };
+      }
+      const names = listJoin(found.tutors.map((tutor) => tutor.name));
+      return { content: `${names} tutor ${language}${when}. You can book with them from the schedule.`, toolCalls: [] };
+    },
+  ];
+}
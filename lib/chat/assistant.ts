@@ -0,0 +1,524 @@
+import { randomUUID } from 'crypto';
+import { SLOT_HOLD_MINUTES, termForDate } from '@/lib/booking/repository';
+import { hasRecordingConsent } from '@/lib/consents/repository';
+import { ruleText, rulesInSection, type RulesVersion } from '@/lib/rules/types';
+import { acknowledgedRulesVersion, getCurrentRules } from '@/lib/rules/versions';
+import { getScheduleTerm } from '@/lib/terms';
+import { slotId } from '@/lib/booking/types';
+import { getTutor } from '@/lib/tutors/repository';
+import { shiftsFor } from '@/lib/tutors/schedule';
+import { LANGUAGES, type Language, type Tutor } from '@/lib/tutors/types';
+import {
+  addDaysToDate,
+  formatDate,
+  formatTime,
+  formatTimeRange,
+  nextDateForWeekday,
+  weekdayOfDate,
+  zonedTime,
+  type Weekday,
+} from '@/lib/time';
+import {
+  extractDay,
+  extractEmail,
+  extractName,
+  extractSkill,
+  extractTime,
+  isAffirmative,
+  isNegative,
+  wantsAlternatives,
+  wantsCancellation,
+  wantsResources,
+  wantsRestart,
+} from './parse';
+import { callTool, type ToolArguments, type ToolContext, type ToolName, type ToolResult } from './tools';
+import { INITIAL_CHAT_STATE, type ChatState, type ConfirmedAppointment } from './types';
+
+const WEEK_ORDER: Weekday[] = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+
+export type AssistantTurn = {
+  state: ChatState;
+  // Grounded reply the LLM provider is asked to convey. The mock provider streams it verbatim.
+  reply: string;
+};
+
+type TurnOptions = {
+  now?: Date;
+  // Who the tool calls are made for. Defaults to a throwaway conversation.
+  tools?: Omit<ToolContext, 'now'>;
+};
+
+type Opening = { start: string; end: string };
+
+// Advances the booking conversation by one student message. This is deliberately deterministic:
+// the LLM only phrases replies, it never decides which tutor or time gets booked. Every lookup and
+// booking goes through the same tools the model can call, so they're authorized and traced alike.
+export function advanceConversation(state: ChatState, message: string, options: TurnOptions = {}): AssistantTurn {
+  const context: ToolContext = { sessionId: randomUUID(), ...options.tools, now: options.now ?? new Date() };
+  const text = message.trim();
+
+  if (wantsRestart(text)) {
+    return askForNeed(resetKeepingStudent(state), 'No problem, let’s start over.');
+  }
+
+  switch (state.stage) {
+    case 'need':
+      return handleNeed(state, text, context);
+    case 'match':
+      return handleMatch(state, text, context);
+    case 'time':
+      return handleTime(state, text, context);
+    case 'details':
+      return handleDetails(state, text, context);
+    case 'rules':
+      return handleRules(state, text, context);
+    case 'consent':
+      return handleConsent(state, text, context);
+    case 'confirm':
+      return handleConfirm(state, text, context);
+    case 'confirmed':
+      if (wantsCancellation(text)) return cancelBooking(state, context);
+      return handleNeed(resetKeepingStudent(state), text, context);
+  }
+}
+
+function handleNeed(state: ChatState, text: string, context: ToolContext): AssistantTurn {
+  const draft = {
+    ...state.draft,
+    skill: extractSkill(text) ?? state.draft.skill,
+    day: extractDay(text, context.now) ?? state.draft.day,
+  };
+  const next: ChatState = { ...state, draft };
+
+  if (wantsResources(text)) {
+    return suggestResources(next, extractSkill(text), context);
+  }
+  if (!draft.skill) {
+    return askForNeed(next);
+  }
+  if (!draft.day) {
+    const days = availableDays(lookUp('searchTutors', { language: draft.skill }, context).tutors);
+    return {
+      state: { ...next, stage: 'need' },
+      reply: `Got it, ${draft.skill}. Which day works for you? ${draft.skill} tutors are on Zoom on ${listJoin(days)}.`,
+    };
+  }
+
+  return proposeMatch(next, draft.skill, draft.day, context);
+}
+
+function handleMatch(state: ChatState, text: string, context: ToolContext): AssistantTurn {
+  const skill = extractSkill(text);
+  const day = extractDay(text, context.now);
+  if ((skill && skill !== state.draft.skill) || (day && day !== state.draft.day)) {
+    return handleNeed({ ...state, stage: 'need' }, text, context);
+  }
+
+  const candidates = state.candidates.map((id) => getTutor(id)).filter((tutor): tutor is Tutor => Boolean(tutor));
+  const named = candidates.find((tutor) => text.toLowerCase().includes(tutor.name.split(' ')[0].toLowerCase()));
+  if (named) {
+    return askForTime({ ...state, candidateIndex: candidates.indexOf(named) }, named, context);
+  }
+
+  if (wantsAlternatives(text)) {
+    const others = candidates.filter((_, index) => index !== state.candidateIndex);
+    if (others.length === 0) {
+      return {
+        state,
+        reply: `${currentTutor(state)?.name} is the only ${state.draft.skill} tutor on ${state.draft.day}. Would you like to book with them, or try another day?`,
+      };
+    }
+    const lines = others.map((tutor) => `• ${tutor.name} (${describeShift(tutor, state.draft.day!)})`);
+    return {
+      state,
+      reply: `Here are the other ${state.draft.skill} tutors on ${state.draft.day}:\n${lines.join('\n')}\nWho would you like to book with?`,
+    };
+  }
+
+  if (isNegative(text)) {
+    const nextIndex = state.candidateIndex + 1;
+    if (nextIndex >= candidates.length) {
+      return askForNeed({ ...state, stage: 'need', draft: { ...state.draft, day: undefined } }, 'That was everyone on that day.');
+    }
+    return presentCandidate({ ...state, candidateIndex: nextIndex }, candidates[nextIndex]);
+  }
+
+  const tutor = currentTutor(state);
+  if (isAffirmative(text) && tutor) {
+    return askForTime(state, tutor, context);
+  }
+
+  return {
+    state,
+    reply: `Would you like to book with ${tutor?.name}? You can say "yes", "no", or "show me other tutors".`,
+  };
+}
+
+function handleTime(state: ChatState, text: string, context: ToolContext): AssistantTurn {
+  const tutor = currentTutor(state);
+  const date = state.draft.date;
+  if (!tutor || !date) {
+    return askForNeed({ ...state, stage: 'need' });
+  }
+
+  const start = extractTime(text);
+  const openings = openSlots(tutor, date, context);
+  if (!start || !openings.some((slot) => slot.start === start)) {
+    if (openings.length === 0) {
+      return askForTime(state, tutor, context);
+    }
+    return {
+      state,
+      reply: `${tutor.name} has openings on ${describeDate(date)} at ${listStarts(openings)}. Which time would you like?`,
+    };
+  }
+
+  const hold = callTool('holdSlot', { slotId: slotId(tutor.id, date, start) }, context);
+  if (!hold.ok) {
+    const retry = askForTime(state, tutor, context);
+    return { ...retry, reply: `${hold.error.message} ${retry.reply}` };
+  }
+
+  const next: ChatState = { ...state, stage: 'details', draft: { ...state.draft, start } };
+  if (next.draft.studentName && next.draft.studentEmail) {
+    return askForConfirmation(next, context);
+  }
+  return {
+    state: next,
+    reply:
+      `${formatTime(start)} it is. I’m holding it for you for ${SLOT_HOLD_MINUTES} minutes. ` +
+      'What’s your name and CCSF email address?',
+  };
+}
+
+function handleDetails(state: ChatState, text: string, context: ToolContext): AssistantTurn {
+  const draft = {
+    ...state.draft,
+    studentEmail: extractEmail(text) ?? state.draft.studentEmail,
+    studentName: extractName(text) ?? state.draft.studentName,
+  };
+  const next: ChatState = { ...state, draft };
+
+  if (!draft.studentName) {
+    return { state: next, reply: 'Thanks! And what name should the tutor expect?' };
+  }
+  if (!draft.studentEmail) {
+    return { state: next, reply: `Thanks, ${draft.studentName}. What email address should we send the confirmation to?` };
+  }
+  return askForConfirmation(next, context);
+}
+
+function handleRules(state: ChatState, text: string, context: ToolContext): AssistantTurn {
+  if (isNegative(text)) {
+    return askForNeed(
+      resetKeepingStudent(state),
+      'Okay, I didn’t book anything. You’ll need to agree to the rules before booking a session.'
+    );
+  }
+  if (!isAffirmative(text)) {
+    return { state, reply: 'Do you agree to follow the Tutor Squad rules? Please answer "yes" or "no".' };
+  }
+  return askForConfirmation({ ...state, draft: { ...state.draft, rulesVersion: getCurrentRules().version } }, context);
+}
+
+function handleConsent(state: ChatState, text: string, context: ToolContext): AssistantTurn {
+  if (isNegative(text)) {
+    const room = (termForDate(state.draft.date!) ?? getScheduleTerm(context.now)).onCampusLocation;
+    return askForNeed(
+      resetKeepingStudent(state),
+      `Okay, I didn’t book anything. Zoom sessions are always recorded, but you can get help in person in ${room} ` +
+        'without being recorded.'
+    );
+  }
+  if (!isAffirmative(text)) {
+    return { state, reply: 'Are you okay with your Zoom sessions being recorded? Please answer "yes" or "no".' };
+  }
+  const consentTermId = termForDate(state.draft.date!)?.id;
+  return askForConfirmation({ ...state, draft: { ...state.draft, consentTermId } }, context);
+}
+
+function handleConfirm(state: ChatState, text: string, context: ToolContext): AssistantTurn {
+  if (isNegative(text)) {
+    return askForNeed(resetKeepingStudent(state), 'Okay, I didn’t book anything.');
+  }
+  if (!isAffirmative(text)) {
+    return { state, reply: 'Should I go ahead and book it? Please answer "yes" or "no".' };
+  }
+
+  const tutor = currentTutor(state);
+  const { skill, day, date, start, studentName, studentEmail } = state.draft;
+  if (!tutor || !skill || !day || !date || !start || !studentName || !studentEmail) {
+    return askForNeed(resetKeepingStudent(state), 'Something went missing from your booking.');
+  }
+
+  const booking = callTool(
+    'bookAppointment',
+    {
+      slotId: slotId(tutor.id, date, start),
+      studentName,
+      studentEmail,
+      language: skill,
+      rulesVersion: state.draft.rulesVersion,
+      recordingConsent: state.draft.consentTermId === termForDate(date)?.id,
+    },
+    context
+  );
+  if (!booking.ok) {
+    const { code, message } = booking.error;
+    if (code === 'SLOT_TAKEN' || code === 'SLOT_IN_PAST' || code === 'SLOT_NOT_FOUND') {
+      const retry = askForTime({ ...state, draft: { ...state.draft, start: undefined } }, tutor, context);
+      return { ...retry, reply: `${message} ${retry.reply}` };
+    }
+    if (code === 'RULES_NOT_ACKNOWLEDGED') {
+      return askForRules(state, getCurrentRules(), 'The Tutor Squad rules were just updated.');
+    }
+    if (code === 'RECORDING_CONSENT_REQUIRED') {
+      return askForConsent(state);
+    }
+    return askForNeed(resetKeepingStudent(state), message);
+  }
+
+  const { appointment: booked, reference, manageUrl } = booking.result;
+  const appointment: ConfirmedAppointment = {
+    id: booked.id,
+    reference,
+    tutorId: tutor.id,
+    tutorName: tutor.name,
+    skill,
+    day,
+    date,
+    start: booked.start,
+    end: booked.end,
+    studentName: booked.studentName,
+    studentEmail: booked.studentEmail,
+    manageUrl,
+  };
+
+  return {
+    state: { ...state, stage: 'confirmed', appointment },
+    reply:
+      `✅ You’re booked! ${tutor.name} will help you with ${skill} on ${describeDate(date)} from ${formatTimeRange(appointment.start, appointment.end)} on Zoom. ` +
+      `Your confirmation number is ${appointment.reference}. Please be on time and bring your assignment instructions. ` +
+      'If your plans change, you can cancel or reschedule from the link below.',
+  };
+}
+
+function proposeMatch(state: ChatState, skill: Language, day: Weekday, context: ToolContext): AssistantTurn {
+  const date = upcomingDate(day, skill, context);
+  const term = termForDate(date);
+  if (!term) {
+    return {
+      state: { ...state, stage: 'need', draft: { ...state.draft, day: undefined, date: undefined } },
+      reply: `Tutoring isn’t in session on ${describeDate(date)}. Is there another day that works for you?`,
+    };
+  }
+
+  const candidates = lookUp('searchTutors', { language: skill, date }, context)
+    .tutors.map((match) => getTutor(match.id, term.id))
+    .filter((tutor): tutor is Tutor => Boolean(tutor));
+  if (candidates.length === 0) {
+    const days = availableDays(lookUp('searchTutors', { language: skill }, context).tutors);
+    return {
+      state: { ...state, stage: 'need', draft: { ...state.draft, day: undefined } },
+      reply: `Sorry, there are no ${skill} tutors on Zoom on ${day}. ${skill} tutoring is available on ${listJoin(days)}. Which day works instead?`,
+    };
+  }
+
+  const preferredId = state.draft.preferredTutorId;
+  const preferred = candidates.find((tutor) => tutor.id === preferredId);
+  const ordered = preferred ? [preferred, ...candidates.filter((tutor) => tutor !== preferred)] : candidates;
+  const preface =
+    preferredId && !preferred
+      ? `${getTutor(preferredId)?.name ?? 'That tutor'} isn’t on Zoom for ${skill} on ${day}, but I found another match!`
+      : undefined;
+
+  return presentCandidate(
+    {
+      ...state,
+      stage: 'match',
+      draft: { ...state.draft, date },
+      candidates: ordered.map((tutor) => tutor.id),
+      candidateIndex: 0,
+    },
+    ordered[0],
+    preface
+  );
+}
+
+function presentCandidate(state: ChatState, tutor: Tutor, preface = 'I found a great match!'): AssistantTurn {
+  const day = state.draft.day!;
+  return {
+    state: { ...state, stage: 'match', draft: { ...state.draft, tutorId: tutor.id } },
+    reply:
+      `${preface} ${tutor.name} helps with ${listJoin(tutor.languages)} and is on Zoom ${describeDate(state.draft.date!)} ${describeShift(tutor, day)}. ` +
+      'Would you like to book with them, or see other tutors?',
+  };
+}
+
+function askForTime(state: ChatState, tutor: Tutor, context: ToolContext): AssistantTurn {
+  const date = state.draft.date!;
+  const openings = openSlots(tutor, date, context);
+  if (openings.length === 0) {
+    return {
+      state: { ...state, stage: 'match', draft: { ...state.draft, tutorId: tutor.id } },
+      reply:
+        `Sorry, ${tutor.name} is fully booked on ${describeDate(date)}. Would you like to see other tutors, or try another day? ` +
+        'You can also join the waitlist at /waitlist and we’ll email you if a time opens up.',
+    };
+  }
+  return {
+    state: { ...state, stage: 'time', draft: { ...state.draft, tutorId: tutor.id } },
+    reply: `Great choice! ${tutor.name} has openings on ${describeDate(date)} at ${listStarts(openings)}. What time works for you?`,
+  };
+}
+
+function askForConfirmation(state: ChatState, context: ToolContext): AssistantTurn {
+  const tutor = currentTutor(state);
+  const { skill, date, start, studentName, studentEmail } = state.draft;
+  const slot = tutor && openSlots(tutor, date!, context).find((entry) => entry.start === start);
+  if (!tutor || !slot) {
+    return askForNeed(resetKeepingStudent(state), 'That time isn’t available any more.');
+  }
+  const rules = getCurrentRules();
+  const agreed = Math.max(state.draft.rulesVersion ?? 0, acknowledgedRulesVersion(studentEmail!) ?? 0);
+  if (agreed < rules.version) {
+    return askForRules(state, rules, agreed > 0 ? 'The Tutor Squad rules have changed since you last booked.' : undefined);
+  }
+  const termId = termForDate(date!)?.id;
+  if (termId && state.draft.consentTermId !== termId && !hasRecordingConsent(studentEmail!, termId)) {
+    return askForConsent(state);
+  }
+  return {
+    state: { ...state, stage: 'confirm' },
+    reply:
+      `Here’s your booking:\n• Tutor: ${tutor.name}\n• Topic: ${skill}\n• When: ${describeDate(date!)}, ${formatTimeRange(slot.start, slot.end)} (Pacific)\n` +
+      `• Student: ${studentName} <${studentEmail}>\nShall I confirm it?`,
+  };
+}
+
+function cancelBooking(state: ChatState, context: ToolContext): AssistantTurn {
+  const booked = state.appointment;
+  if (!booked) {
+    return askForNeed(resetKeepingStudent(state));
+  }
+  const cancellation = callTool('cancelAppointment', { appointmentId: booked.id }, context);
+  if (!cancellation.ok) {
+    return { state, reply: `${cancellation.error.message} You can also cancel from the link below.` };
+  }
+  return askForNeed(
+    resetKeepingStudent(state),
+    `Done, I cancelled your session with ${booked.tutorName} on ${describeDate(booked.date)} at ${formatTime(booked.start)}.`
+  );
+}
+
+function suggestResources(state: ChatState, language: Language | undefined, context: ToolContext): AssistantTurn {
+  const { resources } = lookUp('lookupResource', { language }, context);
+  if (resources.length === 0) {
+    return askForNeed(state, `I couldn’t find any ${language ?? ''} study resources, but you can browse them all at /resources.`);
+  }
+  const lines = resources.map((resource) => `• ${resource.title}${resource.href ? ` (${resource.href})` : ''}: ${resource.usefulFor}`);
+  return askForNeed(
+    state,
+    `Here are some ${language ? `${language} ` : ''}resources the Tutor Squad recommends:\n${lines.join('\n')}\n` +
+      'There’s more at /resources. If you’d like a tutor too, I can book one.'
+  );
+}
+
+// Only the "Do" rules are binding; the suggestions stay on the Rules page.
+function askForRules(
+  state: ChatState,
+  rules: RulesVersion,
+  preface = 'Before I book, please read the Tutor Squad rules.'
+): AssistantTurn {
+  const lines = rulesInSection(rules, 'do').map((rule) => `• ${ruleText(rule.body)}`);
+  return {
+    state: { ...state, stage: 'rules', draft: { ...state.draft, rulesVersion: undefined } },
+    reply:
+      `${preface}\n${lines.join('\n')}\n` +
+      `You can read them, along with tips for a good session, at /rules (version ${rules.version}). Do you agree to follow them?`,
+  };
+}
+
+function askForConsent(state: ChatState): AssistantTurn {
+  return {
+    state: { ...state, stage: 'consent', draft: { ...state.draft, consentTermId: undefined } },
+    reply:
+      'One more thing: all Zoom tutoring sessions are recorded. Recordings stay private unless you or your tutor ' +
+      'ask for them as part of an incident report. Are you okay with your sessions being recorded this semester?',
+  };
+}
+
+function askForNeed(state: ChatState, preface?: string): AssistantTurn {
+  const question = `What would you like help with? We tutor ${listJoin([...LANGUAGES])}. Mention a day too, like "Python on Tuesday".`;
+  return {
+    state: { ...state, stage: 'need' },
+    reply: preface ? `${preface} ${question}` : question,
+  };
+}
+
+function resetKeepingStudent(state: ChatState): ChatState {
+  return {
+    ...INITIAL_CHAT_STATE,
+    draft: {
+      studentName: state.draft.studentName,
+      studentEmail: state.draft.studentEmail,
+      preferredTutorId: state.draft.preferredTutorId,
+      rulesVersion: state.draft.rulesVersion,
+      consentTermId: state.draft.consentTermId,
+    },
+  };
+}
+
+function currentTutor(state: ChatState): Tutor | undefined {
+  const id = state.candidates[state.candidateIndex] ?? state.draft.tutorId;
+  return id ? getTutor(id) : undefined;
+}
+
+function describeShift(tutor: Tutor, day: Weekday): string {
+  return shiftsFor(tutor, 'virtual', day)
+    .map((shift) => formatTimeRange(shift.start, shift.end))
+    .join(', ');
+}
+
+function openSlots(tutor: Tutor, date: string, context: ToolContext): Opening[] {
+  return lookUp('getAvailability', { date, tutorId: tutor.id }, context).slots;
+}
+
+// The next `day` on the calendar. If that's today but every slot has already passed or been taken,
+// the same weekday next week.
+function upcomingDate(day: Weekday, skill: Language, context: ToolContext): string {
+  const today = zonedTime(context.now).date;
+  const date = nextDateForWeekday(day, today);
+  if (date !== today || lookUp('getAvailability', { date, language: skill }, context).slots.length > 0) {
+    return date;
+  }
+  return addDaysToDate(date, 7);
+}
+
+function describeDate(date: string): string {
+  return `${weekdayOfDate(date)}, ${formatDate(date)}`;
+}
+
+function listStarts(slots: Opening[]): string {
+  return listJoin(slots.map((slot) => formatTime(slot.start)));
+}
+
+function availableDays(tutors: { zoomHours: { day: Weekday }[] }[]): Weekday[] {
+  const days = new Set(tutors.flatMap((tutor) => tutor.zoomHours.map((shift) => shift.day)));
+  return WEEK_ORDER.filter((day) => days.has(day));
+}
+
+// For lookups, which only fail if this file passes them bad arguments.
+function lookUp<Name extends ToolName>(name: Name, args: ToolArguments<Name>, context: ToolContext): ToolResult<Name> {
+  const outcome = callTool(name, args, context);
+  if (!outcome.ok) {
+    throw new Error(`${name} failed: ${outcome.error.message}`);
+  }
+  return outcome.result;
+}
+
+export function listJoin(items: string[]): string {
+  if (items.length <= 1) return items.join('');
+  if (items.length === 2) return `${items[0]} and ${items[1]}`;
+  return `${items.slice(0, -1).join(', ')}, and ${items[items.length - 1]}`;
+}
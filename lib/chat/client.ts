@@ -0,0 +1,25 @@
+import type { ChatStreamEvent } from './types';
+
+// Reads the server-sent events emitted by /api/chat and hands each one to `onEvent`.
+export async function readChatStream(response: Response, onEvent: (event: ChatStreamEvent) => void): Promise<void> {
+  if (!response.body) return;
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    const frames = buffer.split('\n\n');
+    buffer = frames.pop() ?? '';
+    for (const frame of frames) {
+      const data = frame
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.slice(5).trim())
+        .join('');
+      if (data) onEvent(JSON.parse(data) as ChatStreamEvent);
+    }
+  }
+}
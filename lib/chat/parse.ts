@@ -0,0 +1,90 @@
+import { addDays, parseTime, WEEKDAYS, weekdayInTimeZone, type Weekday } from '@/lib/time';
+import type { Language } from '@/lib/tutors/types';
+
+// Order matters: "javascript" has to win over "java".
+const SKILL_PATTERNS: { skill: Language; pattern: RegExp }[] = [
+  { skill: 'JavaScript', pattern: /\b(javascript|js|node(\.js)?|typescript|react)\b/i },
+  { skill: 'C++', pattern: /(\bc\+\+|\bcpp\b|\b110b\b|\b110c\b)/i },
+  { skill: 'Java', pattern: /\b(java|111b|111c)\b/i },
+  { skill: 'Python', pattern: /\b(python|py|110a)\b/i },
+  { skill: 'Linux', pattern: /\b(linux|unix|bash|shell|vim|hills|160a)\b/i },
+];
+
+const DAY_PATTERNS: { day: Weekday; pattern: RegExp }[] = WEEKDAYS.map((day) => ({
+  day,
+  pattern: new RegExp(`\\b${day.slice(0, 3)}(${day.slice(3).toLowerCase()}|s|rs)?\\b`, 'i'),
+}));
+
+export function extractSkill(text: string): Language | undefined {
+  return SKILL_PATTERNS.find(({ pattern }) => pattern.test(text))?.skill;
+}
+
+// Every language the text mentions, for when a student needs help with more than one.
+export function extractSkills(text: string): Language[] {
+  return SKILL_PATTERNS.filter(({ pattern }) => pattern.test(text)).map(({ skill }) => skill);
+}
+
+export function extractDay(text: string, now: Date): Weekday | undefined {
+  if (/\btoday\b/i.test(text)) return weekdayInTimeZone(now);
+  if (/\btomorrow\b/i.test(text)) return addDays(weekdayInTimeZone(now), 1);
+  return DAY_PATTERNS.find(({ pattern }) => pattern.test(text))?.day;
+}
+
+export function extractTime(text: string): string | undefined {
+  return parseTime(text);
+}
+
+export function extractEmail(text: string): string | undefined {
+  return text.match(/[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[a-z]{2,}/i)?.[0].toLowerCase();
+}
+
+// "My name is Ana Lopez", "I'm Ana", or a bare "Ana Lopez, ana@mail.ccsf.edu".
+export function extractName(text: string): string | undefined {
+  const introduced = text.match(/\b(?:my name is|name's|i am|i'm|this is)\s+([a-z][a-z'-]*(?:\s+[a-z][a-z'-]*){0,3})/i);
+  if (introduced) return toTitleCase(introduced[1]);
+
+  const email = extractEmail(text);
+  const remainder = (email ? text.replace(new RegExp(escapeRegExp(email), 'i'), ' ') : text)
+    .replace(/[,;]/g, ' ')
+    .trim();
+  if (/^[a-z][a-z'-]*(?:\s+[a-z][a-z'-]*){0,3}$/i.test(remainder) && !isAffirmative(remainder) && !isNegative(remainder)) {
+    return toTitleCase(remainder);
+  }
+  return undefined;
+}
+
+export function isAffirmative(text: string): boolean {
+  return /^\s*(y|yes|yeah|yep|yup|sure|ok|okay|sounds good|confirm|book it|let'?s do it|perfect|great|(?:i )?agree)\b/i.test(text);
+}
+
+export function isNegative(text: string): boolean {
+  return /^\s*(n|no|nope|nah|not really|cancel|never ?mind)\b/i.test(text);
+}
+
+export function wantsAlternatives(text: string): boolean {
+  return /\b(other|another|different|else|more) (tutors?|options?|ones?|person|people)\b|\bsomeone else\b/i.test(text);
+}
+
+export function wantsCancellation(text: string): boolean {
+  return /\bcancel\b/i.test(text) && !/\b(don.?t|do not)\b/i.test(text);
+}
+
+export function wantsResources(text: string): boolean {
+  return /\b(resources?|tutorials?|study (guides?|materials?)|practice (problems?|exercises?)|readings?)\b/i.test(text);
+}
+
+export function wantsRestart(text: string): boolean {
+  return /\b(start over|restart|reset|new booking)\b/i.test(text);
+}
+
+function toTitleCase(value: string): string {
+  return value
+    .trim()
+    .split(/\s+/)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
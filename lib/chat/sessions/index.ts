@@ -0,0 +1,79 @@
+import { randomUUID } from 'crypto';
+import type { ChatMessage, ChatState } from '../types';
+import { MemoryChatSessionStore } from './memory';
+import { SqliteChatSessionStore } from './sqlite';
+import type { ChatSession, ChatSessionStore } from './types';
+
+export type { ChatSession, ChatSessionStore } from './types';
+export { MemoryChatSessionStore } from './memory';
+export { SqliteChatSessionStore } from './sqlite';
+
+// A conversation is kept for a week after its last message.
+export const CHAT_SESSION_TTL_DAYS = 7;
+
+// The oldest messages are dropped past this, which is well beyond what the model is shown.
+const MAX_STORED_MESSAGES = 200;
+
+// Shared per process on globalThis, like the drop-in queue, so the memory store survives dev server reloads.
+const globalForSessions = globalThis as typeof globalThis & { __ccsfChatSessions?: ChatSessionStore };
+
+// CHAT_SESSION_STORE=sqlite|memory. Defaults to SQLite so conversations survive a restart.
+export function getChatSessionStore(env: NodeJS.ProcessEnv = process.env): ChatSessionStore {
+  const choice = env.CHAT_SESSION_STORE ?? 'sqlite';
+
+  switch (choice) {
+    case 'sqlite':
+      return new SqliteChatSessionStore();
+    case 'memory':
+      return new MemoryChatSessionStore();
+    default:
+      throw new Error(`Unknown CHAT_SESSION_STORE "${choice}"`);
+  }
+}
+
+export function getChatSessions(): ChatSessionStore {
+  globalForSessions.__ccsfChatSessions ??= getChatSessionStore();
+  return globalForSessions.__ccsfChatSessions;
+}
+
+// A new, unsaved conversation picking up from `state` and any earlier `messages`.
+export function newChatSession(state: ChatState, messages: ChatMessage[] = [], now: Date = new Date()): ChatSession {
+  return {
+    id: randomUUID(),
+    state,
+    messages: messages.slice(-MAX_STORED_MESSAGES),
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    expiresAt: expiryFrom(now),
+  };
+}
+
+// Saves one exchange and the state it led to, and pushes the expiry back.
+export function saveChatTurn(
+  session: ChatSession,
+  exchange: ChatMessage[],
+  state: ChatState,
+  now: Date = new Date(),
+  store: ChatSessionStore = getChatSessions()
+): ChatSession {
+  const saved: ChatSession = {
+    ...session,
+    state,
+    messages: [...session.messages, ...exchange].slice(-MAX_STORED_MESSAGES),
+    updatedAt: now.toISOString(),
+    expiresAt: expiryFrom(now),
+  };
+  store.save(saved);
+  return saved;
+}
+
+// Swaps the grounded reply saved with a turn for the wording the model actually streamed.
+export function reviseLastReply(session: ChatSession, content: string, store: ChatSessionStore = getChatSessions()): void {
+  const last = session.messages[session.messages.length - 1];
+  if (last?.role !== 'assistant') return;
+  store.save({ ...session, messages: [...session.messages.slice(0, -1), { ...last, content: content.slice(0, 4000) }] });
+}
+
+function expiryFrom(now: Date): string {
+  return new Date(now.getTime() + CHAT_SESSION_TTL_DAYS * 24 * 60 * 60_000).toISOString();
+}
@@ -0,0 +1,32 @@
+import type { ChatSession, ChatSessionStore } from './types';
+
+// Keeps conversations in a Map. Used by tests, and handy for running the assistant without a database.
+export class MemoryChatSessionStore implements ChatSessionStore {
+  readonly name = 'memory';
+
+  private readonly sessions = new Map<string, ChatSession>();
+
+  get(id: string, now: Date): ChatSession | undefined {
+    const session = this.sessions.get(id);
+    return session && session.expiresAt > now.toISOString() ? structuredClone(session) : undefined;
+  }
+
+  save(session: ChatSession): void {
+    this.sessions.set(session.id, structuredClone(session));
+  }
+
+  delete(id: string): boolean {
+    return this.sessions.delete(id);
+  }
+
+  purgeExpired(now: Date): number {
+    let purged = 0;
+    for (const [id, session] of this.sessions) {
+      if (session.expiresAt <= now.toISOString()) {
+        this.sessions.delete(id);
+        purged += 1;
+      }
+    }
+    return purged;
+  }
+}
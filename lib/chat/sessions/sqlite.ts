@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import { getDb, type Db } from '@/lib/db';
+import { chatMessageSchema, chatStateSchema } from '../types';
+import type { ChatSession, ChatSessionStore } from './types';
+
+type SessionRow = {
+  id: string;
+  state: string;
+  messages: string;
+  created_at: string;
+  updated_at: string;
+  expires_at: string;
+};
+
+const storedSchema = z.object({ state: chatStateSchema, messages: z.array(chatMessageSchema) });
+
+export class SqliteChatSessionStore implements ChatSessionStore {
+  readonly name = 'sqlite';
+
+  constructor(private readonly db: Db = getDb()) {}
+
+  get(id: string, now: Date): ChatSession | undefined {
+    const row = this.db
+      .prepare('SELECT * FROM chat_sessions WHERE id = ? AND expires_at > ?')
+      .get(id, now.toISOString()) as SessionRow | undefined;
+    return row ? toSession(row) : undefined;
+  }
+
+  save(session: ChatSession): void {
+    this.db
+      .prepare(
+        `INSERT INTO chat_sessions (id, state, messages, created_at, updated_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET state = excluded.state, messages = excluded.messages,
+           updated_at = excluded.updated_at, expires_at = excluded.expires_at`
+      )
+      .run(
+        session.id,
+        JSON.stringify(session.state),
+        JSON.stringify(session.messages),
+        session.createdAt,
+        session.updatedAt,
+        session.expiresAt
+      );
+  }
+
+  delete(id: string): boolean {
+    return this.db.prepare('DELETE FROM chat_sessions WHERE id = ?').run(id).changes > 0;
+  }
+
+  purgeExpired(now: Date): number {
+    return this.db.prepare('DELETE FROM chat_sessions WHERE expires_at <= ?').run(now.toISOString()).changes;
+  }
+}
+
+// A conversation saved before a change to the chat state that it no longer fits is treated as gone.
+function toSession(row: SessionRow): ChatSession | undefined {
+  const stored = storedSchema.safeParse({ state: JSON.parse(row.state), messages: JSON.parse(row.messages) });
+  if (!stored.success) return undefined;
+  return {
+    id: row.id,
+    ...stored.data,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    expiresAt: row.expires_at,
+  };
+}
@@ -0,0 +1,23 @@
+import type { ChatMessage, ChatState } from '../types';
+
+// A conversation with the booking assistant. `state` carries the pending tutor match and the booking
+// form filled in so far. Timestamps are ISO strings.
+export type ChatSession = {
+  id: string;
+  state: ChatState;
+  messages: ChatMessage[];
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+};
+
+// Where conversations live. SQLite in the app; the in-memory store keeps tests off the database.
+export interface ChatSessionStore {
+  readonly name: string;
+  // Expired sessions are never returned, even before they're purged.
+  get(id: string, now: Date): ChatSession | undefined;
+  save(session: ChatSession): void;
+  delete(id: string): boolean;
+  // Removes sessions that expired before `now` and returns how many there were.
+  purgeExpired(now: Date): number;
+}
@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import {
+  bookAppointment,
+  cancelAppointment,
+  getAppointment,
+  holdSlot,
+  listSlots,
+  termForDate,
+} from '@/lib/booking/repository';
+import { managementPath, verifyManagementToken } from '@/lib/booking/tokens';
+import { appointmentReference } from '@/lib/booking/types';
+import { sendBookingConfirmation, sendCancellationNotice } from '@/lib/notifications/appointments';
+import { processWaitlist } from '@/lib/notifications/waitlist';
+import { listResources } from '@/lib/resources/repository';
+import { filterResources } from '@/lib/resources/search';
+import { getScheduleTerm } from '@/lib/terms';
+import { WEEKDAYS, weekdayOfDate } from '@/lib/time';
+import { findTutors } from '@/lib/tutors/repository';
+import { shiftsFor } from '@/lib/tutors/schedule';
+import { COURSE_CODES, LANGUAGES, type Course } from '@/lib/tutors/types';
+import { ToolError } from './errors';
+import { appointmentsBookedIn } from './trace';
+import type { ChatTool, ToolContext } from './types';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD');
+const slotIdSchema = z.string().min(1).max(100);
+const courseSchema = z.enum(COURSE_CODES as [Course, ...Course[]]);
+
+const MAX_RESOURCES = 5;
+
+function defineTool<Parameters extends z.ZodType, Result>(tool: ChatTool<Parameters, Result>) {
+  return tool;
+}
+
+export const searchTutorsTool = defineTool({
+  name: 'searchTutors',
+  description:
+    'Find tutors who help with a language and have Zoom hours, optionally only on one weekday or on the weekday of a date.',
+  parameters: z.object({
+    language: z.enum(LANGUAGES),
+    day: z.enum(WEEKDAYS).optional(),
+    date: dateSchema.optional(),
+  }),
+  run({ language, day, date }, { now }) {
+    const term = date ? termForDate(date) : getScheduleTerm(now);
+    if (!term) return { tutors: [] };
+
+    const tutors = findTutors(language, { day: day ?? (date ? weekdayOfDate(date) : undefined), termId: term.id });
+    return {
+      tutors: tutors.map((tutor) => ({
+        id: tutor.id,
+        name: tutor.name,
+        pronouns: tutor.pronouns,
+        languages: tutor.languages,
+        courses: tutor.courses,
+        zoomHours: shiftsFor(tutor, 'virtual').map(({ day, start, end }) => ({ day, start, end })),
+      })),
+    };
+  },
+});
+
+export const getAvailabilityTool = defineTool({
+  name: 'getAvailability',
+  description: 'List the open Zoom appointment slots on a date, optionally for one tutor or one language.',
+  parameters: z.object({
+    date: dateSchema,
+    tutorId: z.string().max(100).optional(),
+    language: z.enum(LANGUAGES).optional(),
+  }),
+  run({ date, tutorId, language }, { sessionId, now }) {
+    const slots = listSlots({ date, tutorId, language, holder: sessionId }, now).filter((slot) => slot.available);
+    return {
+      date,
+      slots: slots.map(({ id, tutorId, tutorName, start, end }) => ({ slotId: id, tutorId, tutorName, start, end })),
+    };
+  },
+});
+
+export const holdSlotTool = defineTool({
+  name: 'holdSlot',
+  description:
+    'Set an open slot aside for this student for a few minutes while they confirm. Holding another slot releases the first.',
+  parameters: z.object({ slotId: slotIdSchema }),
+  run({ slotId }, { sessionId, now }) {
+    return { hold: holdSlot(slotId, sessionId, now) };
+  },
+});
+
+export const bookAppointmentTool = defineTool({
+  name: 'bookAppointment',
+  description:
+    'Book a slot for the student. Only call this once the student has confirmed. Pass rulesVersion and ' +
+    'recordingConsent when the student agreed to the rules or to recording in this conversation.',
+  parameters: z.object({
+    slotId: slotIdSchema,
+    studentName: z.string().trim().min(1).max(120),
+    studentEmail: z.email().max(254),
+    language: z.enum(LANGUAGES).optional(),
+    course: courseSchema.optional(),
+    rulesVersion: z.number().int().positive().optional(),
+    recordingConsent: z.boolean().optional(),
+  }),
+  authorize({ studentEmail }, context) {
+    if (context.studentEmail && context.studentEmail.toLowerCase() !== studentEmail.toLowerCase()) {
+      throw new ToolError('FORBIDDEN', 'Students can only book appointments for themselves.');
+    }
+  },
+  run(args, { sessionId, now, defer }) {
+    const appointment = bookAppointment({ ...args, holder: sessionId }, now);
+    defer?.(() => sendBookingConfirmation(appointment));
+    return { appointment, reference: appointmentReference(appointment), manageUrl: managementPath(appointment) };
+  },
+});
+
+const cancelParameters = z
+  .object({
+    appointmentId: z.string().max(100).optional(),
+    manageLink: z.string().max(1000).optional(),
+  })
+  .refine((args) => args.appointmentId || args.manageLink, 'Pass appointmentId or manageLink');
+
+export const cancelAppointmentTool = defineTool({
+  name: 'cancelAppointment',
+  description:
+    'Cancel an appointment the student booked in this conversation (by appointmentId), or one they have the ' +
+    'management link for from their confirmation email (manageLink).',
+  parameters: cancelParameters,
+  authorize(args, context) {
+    if (args.manageLink) {
+      if (!linkedAppointment(args, context)) {
+        throw new ToolError('FORBIDDEN', 'That link isn’t a valid management link for this appointment.');
+      }
+    } else if (!appointmentsBookedIn(context.sessionId).includes(args.appointmentId!)) {
+      throw new ToolError(
+        'FORBIDDEN',
+        'Students can only cancel appointments they booked in this conversation, or with the link from their confirmation email.'
+      );
+    }
+    const appointment = getAppointment(linkedAppointment(args, context) ?? args.appointmentId!);
+    if (context.studentEmail && appointment && appointment.studentEmail.toLowerCase() !== context.studentEmail.toLowerCase()) {
+      throw new ToolError('FORBIDDEN', 'Students can only cancel their own appointments.');
+    }
+  },
+  run(args, context) {
+    const appointment = cancelAppointment(linkedAppointment(args, context) ?? args.appointmentId!, context.now);
+    context.defer?.(async () => {
+      await sendCancellationNotice(appointment);
+      await processWaitlist();
+    });
+    return { appointment };
+  },
+});
+
+export const lookupResourceTool = defineTool({
+  name: 'lookupResource',
+  description: 'Search the Tutor Squad’s library of study resources by keywords, language, course or topic.',
+  parameters: z.object({
+    query: z.string().max(200).optional(),
+    language: z.enum(LANGUAGES).optional(),
+    course: courseSchema.optional(),
+    topic: z.string().max(60).optional(),
+  }),
+  run({ query, language, course, topic }) {
+    const resources = filterResources(listResources({ status: 'published' }), {
+      q: query,
+      language,
+      course,
+      topic: topic?.toLowerCase(),
+    });
+    return {
+      resources: resources.slice(0, MAX_RESOURCES).map((resource) => ({
+        id: resource.id,
+        title: resource.title,
+        href: resource.link?.href ?? null,
+        usefulFor: resource.usefulFor,
+        description: resource.description,
+      })),
+    };
+  },
+});
+
+// Accepts the whole "/appointments/<token>" link or just the token. Undefined unless it's valid and, when an
+// appointmentId was passed too, for that appointment.
+function linkedAppointment(
+  { appointmentId, manageLink }: z.output<typeof cancelParameters>,
+  { now }: ToolContext
+): string | undefined {
+  if (!manageLink) return undefined;
+  const check = verifyManagementToken(manageLink.trim().split('/').pop() ?? '', now);
+  if (check.status !== 'valid' || (appointmentId && appointmentId !== check.appointmentId)) return undefined;
+  return check.appointmentId;
+}
@@ -0,0 +1,24 @@
+export const TOOL_ERROR_CODES = ['UNKNOWN_TOOL', 'INVALID_ARGUMENTS', 'FORBIDDEN'] as const;
+
+export type ToolErrorCode = (typeof TOOL_ERROR_CODES)[number];
+
+export const TOOL_ERROR_MESSAGES: Record<ToolErrorCode, string> = {
+  UNKNOWN_TOOL: 'There’s no tool by that name.',
+  INVALID_ARGUMENTS: 'The arguments don’t match the tool’s parameters.',
+  FORBIDDEN: 'This conversation isn’t allowed to do that.',
+};
+
+// Problems with the call itself. What goes wrong inside a tool (a slot already taken, say) keeps its own error.
+export class ToolError extends Error {
+  constructor(
+    readonly code: ToolErrorCode,
+    message: string = TOOL_ERROR_MESSAGES[code]
+  ) {
+    super(message);
+    this.name = 'ToolError';
+  }
+
+  toJSON() {
+    return { error: this.message, code: this.code };
+  }
+}
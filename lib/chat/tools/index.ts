@@ -0,0 +1,100 @@
+import { z } from 'zod';
+import { BookingError } from '@/lib/booking/errors';
+import type { ToolSpec } from '@/lib/llm';
+import {
+  bookAppointmentTool,
+  cancelAppointmentTool,
+  getAvailabilityTool,
+  holdSlotTool,
+  lookupResourceTool,
+  searchTutorsTool,
+} from './definitions';
+import { ToolError } from './errors';
+import { recordToolCall } from './trace';
+import type { ChatTool, ToolCallOutcome, ToolContext, ToolOutcome } from './types';
+
+export type { ChatTool, ToolCallOutcome, ToolCallRecord, ToolContext, ToolFailure, ToolOutcome } from './types';
+export { TOOL_CALL_OUTCOMES } from './types';
+export { ToolError, TOOL_ERROR_CODES, type ToolErrorCode } from './errors';
+export { appointmentsBookedIn, listToolCalls } from './trace';
+
+// Everything the booking assistant can do, by the name the model calls it.
+export const CHAT_TOOLS = {
+  searchTutors: searchTutorsTool,
+  getAvailability: getAvailabilityTool,
+  holdSlot: holdSlotTool,
+  bookAppointment: bookAppointmentTool,
+  cancelAppointment: cancelAppointmentTool,
+  lookupResource: lookupResourceTool,
+};
+
+export type ToolName = keyof typeof CHAT_TOOLS;
+
+export type ToolArguments<Name extends ToolName> = z.input<(typeof CHAT_TOOLS)[Name]['parameters']>;
+
+export type ToolResult<Name extends ToolName> = ReturnType<(typeof CHAT_TOOLS)[Name]['run']>;
+
+export function toolSpecs(tools: ChatTool[] = Object.values(CHAT_TOOLS)): ToolSpec[] {
+  return tools.map((tool) => {
+    const parameters: Record<string, unknown> = z.toJSONSchema(tool.parameters, { io: 'input' });
+    delete parameters.$schema;
+    return { name: tool.name, description: tool.description, parameters };
+  });
+}
+
+// Validates, authorizes and runs one tool call, and records it in the trace log whatever happens. Refusals
+// and booking errors come back as a failed outcome for the caller (or the model) to act on.
+export function callTool<Name extends ToolName>(
+  name: Name,
+  args: ToolArguments<Name>,
+  context: ToolContext
+): ToolOutcome<ToolResult<Name>>;
+export function callTool(name: string, args: unknown, context: ToolContext): ToolOutcome;
+export function callTool(name: string, args: unknown, context: ToolContext): ToolOutcome {
+  const started = performance.now();
+  const trace = (outcome: ToolCallOutcome, result: unknown, error: string | null) =>
+    recordToolCall({
+      sessionId: context.sessionId,
+      tool: name,
+      arguments: args,
+      outcome,
+      result,
+      error,
+      durationMs: Math.round(performance.now() - started),
+      createdAt: context.now.toISOString(),
+    });
+
+  const tool: ChatTool | undefined = Object.hasOwn(CHAT_TOOLS, name) ? CHAT_TOOLS[name as ToolName] : undefined;
+  if (!tool) {
+    trace('invalid', undefined, 'UNKNOWN_TOOL');
+    return { ok: false, error: failure(new ToolError('UNKNOWN_TOOL', `There’s no tool called "${name}".`)) };
+  }
+
+  const parsed = tool.parameters.safeParse(args);
+  if (!parsed.success) {
+    trace('invalid', undefined, 'INVALID_ARGUMENTS');
+    return { ok: false, error: { ...failure(new ToolError('INVALID_ARGUMENTS')), issues: parsed.error.issues } };
+  }
+
+  try {
+    tool.authorize?.(parsed.data, context);
+  } catch (error) {
+    if (!(error instanceof ToolError)) throw error;
+    trace('forbidden', undefined, error.code);
+    return { ok: false, error: failure(error) };
+  }
+
+  try {
+    const result = tool.run(parsed.data, context);
+    trace('ok', result, null);
+    return { ok: true, result };
+  } catch (error) {
+    trace('failed', undefined, error instanceof BookingError ? error.code : String(error));
+    if (!(error instanceof BookingError)) throw error;
+    return { ok: false, error: failure(error) };
+  }
+}
+
+function failure(error: ToolError | BookingError) {
+  return { code: error.code, message: error.message };
+}
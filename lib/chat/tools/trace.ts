@@ -0,0 +1,57 @@
+import { getDb, type Db } from '@/lib/db';
+import type { ToolCallOutcome, ToolCallRecord } from './types';
+
+type ToolCallRow = {
+  id: number;
+  session_id: string;
+  tool: string;
+  arguments: string;
+  outcome: ToolCallOutcome;
+  result: string | null;
+  error: string | null;
+  duration_ms: number;
+  created_at: string;
+};
+
+export function recordToolCall(call: Omit<ToolCallRecord, 'id'>, db: Db = getDb()): void {
+  db.prepare(
+    `INSERT INTO chat_tool_calls (session_id, tool, arguments, outcome, result, error, duration_ms, created_at)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    call.sessionId,
+    call.tool,
+    JSON.stringify(call.arguments ?? null),
+    call.outcome,
+    call.result === undefined ? null : JSON.stringify(call.result),
+    call.error,
+    call.durationMs,
+    call.createdAt
+  );
+}
+
+// A conversation's tool calls, oldest first.
+export function listToolCalls(sessionId: string, db: Db = getDb()): ToolCallRecord[] {
+  const rows = db.prepare('SELECT * FROM chat_tool_calls WHERE session_id = ? ORDER BY id').all(sessionId) as ToolCallRow[];
+  return rows.map((row) => ({
+    id: row.id,
+    sessionId: row.session_id,
+    tool: row.tool,
+    arguments: JSON.parse(row.arguments),
+    outcome: row.outcome,
+    result: row.result === null ? null : JSON.parse(row.result),
+    error: row.error,
+    durationMs: row.duration_ms,
+    createdAt: row.created_at,
+  }));
+}
+
+// Appointments booked through the assistant in this conversation, which makes them the student's to cancel.
+export function appointmentsBookedIn(sessionId: string, db: Db = getDb()): string[] {
+  const rows = db
+    .prepare(
+      `SELECT json_extract(result, '$.appointment.id') AS id FROM chat_tool_calls
+       WHERE session_id = ? AND tool = 'bookAppointment' AND outcome = 'ok'`
+    )
+    .all(sessionId) as { id: string | null }[];
+  return rows.flatMap((row) => (row.id ? [row.id] : []));
+}
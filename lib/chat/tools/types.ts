@@ -0,0 +1,46 @@
+import type { z } from 'zod';
+
+export type ToolContext = {
+  // The conversation making the calls. Slot holds and the trace are tied to it.
+  sessionId: string;
+  // The student's email once they've given it; bookings and cancellations are then only for that address.
+  studentEmail?: string;
+  now: Date;
+  // Runs follow-up work such as confirmation emails once the reply is sent. Without it, follow-ups are skipped.
+  defer?: (task: () => Promise<unknown>) => void;
+};
+
+export type ChatTool<Parameters extends z.ZodType = z.ZodType, Result = unknown> = {
+  name: string;
+  // Shown to the model, so written for it.
+  description: string;
+  parameters: Parameters;
+  // Throws a FORBIDDEN ToolError when this conversation may not make the call. Tools without it are open to anyone.
+  authorize?: (args: z.output<Parameters>, context: ToolContext) => void;
+  run: (args: z.output<Parameters>, context: ToolContext) => Result;
+};
+
+export type ToolFailure = {
+  code: string;
+  message: string;
+  issues?: z.core.$ZodIssue[];
+};
+
+export type ToolOutcome<Result = unknown> = { ok: true; result: Result } | { ok: false; error: ToolFailure };
+
+export const TOOL_CALL_OUTCOMES = ['ok', 'invalid', 'forbidden', 'failed'] as const;
+
+export type ToolCallOutcome = (typeof TOOL_CALL_OUTCOMES)[number];
+
+// One line of the trace log.
+export type ToolCallRecord = {
+  id: number;
+  sessionId: string;
+  tool: string;
+  arguments: unknown;
+  outcome: ToolCallOutcome;
+  result: unknown;
+  error: string | null;
+  durationMs: number;
+  createdAt: string;
+};
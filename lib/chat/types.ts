@@ -0,0 +1,81 @@
+import { z } from 'zod';
+import { LANGUAGES } from '@/lib/tutors/types';
+import { WEEKDAYS } from '@/lib/time';
+
+const timeSchema = z.string().regex(/^\d{2}:\d{2}$/);
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+export const chatMessageSchema = z.object({
+  role: z.enum(['user', 'assistant']),
+  content: z.string().max(4000),
+});
+
+export type ChatMessage = z.infer<typeof chatMessageSchema>;
+
+// need -> match -> time -> details -> (rules) -> (consent) -> confirm -> confirmed. Students who haven't agreed
+// to the current rules, or to recording this term, are asked before the confirmation.
+export const chatStageSchema = z.enum(['need', 'match', 'time', 'details', 'rules', 'consent', 'confirm', 'confirmed']);
+
+export type ChatStage = z.infer<typeof chatStageSchema>;
+
+export const bookingDraftSchema = z.object({
+  skill: z.enum(LANGUAGES).optional(),
+  day: z.enum(WEEKDAYS).optional(),
+  // The calendar date ("YYYY-MM-DD") the chosen weekday resolved to.
+  date: dateSchema.optional(),
+  tutorId: z.string().optional(),
+  // Set when the student arrives from a tutor's bio page ("book with this tutor").
+  preferredTutorId: z.string().optional(),
+  start: timeSchema.optional(),
+  studentName: z.string().max(120).optional(),
+  studentEmail: z.string().max(254).optional(),
+  // The rules version the student agreed to in this conversation.
+  rulesVersion: z.number().int().positive().optional(),
+  // The term the student agreed to recording for in this conversation.
+  consentTermId: z.string().optional(),
+});
+
+export type BookingDraft = z.infer<typeof bookingDraftSchema>;
+
+export const confirmedAppointmentSchema = z.object({
+  id: z.string(),
+  reference: z.string(),
+  tutorId: z.string(),
+  tutorName: z.string(),
+  skill: z.enum(LANGUAGES),
+  day: z.enum(WEEKDAYS),
+  date: dateSchema,
+  start: timeSchema,
+  end: timeSchema,
+  studentName: z.string(),
+  studentEmail: z.string(),
+  // Signed link for cancelling or rescheduling.
+  manageUrl: z.string(),
+});
+
+export type ConfirmedAppointment = z.infer<typeof confirmedAppointmentSchema>;
+
+export const chatStateSchema = z.object({
+  stage: chatStageSchema,
+  draft: bookingDraftSchema,
+  candidates: z.array(z.string()),
+  candidateIndex: z.number().int().min(0),
+  appointment: confirmedAppointmentSchema.optional(),
+});
+
+export type ChatState = z.infer<typeof chatStateSchema>;
+
+export const INITIAL_CHAT_STATE: ChatState = {
+  stage: 'need',
+  draft: {},
+  candidates: [],
+  candidateIndex: 0,
+};
+
+// Server-sent events emitted by /api/chat.
+export type ChatStreamEvent =
+  | { type: 'session'; id: string }
+  | { type: 'delta'; text: string }
+  | { type: 'state'; state: ChatState }
+  | { type: 'error'; message: string }
+  | { type: 'done' };
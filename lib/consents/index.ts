@@ -0,0 +1,21 @@
+import { cookies } from 'next/headers';
+import type { Term } from '@/lib/terms/schema';
+import { addDaysToDate, zonedDateTime } from '@/lib/time';
+
+// Lets a student who already agreed this term go straight through to Zoom from the same browser.
+// The consent itself lives in the database; the cookie only remembers which term it covers.
+export const CONSENT_COOKIE = 'ccsf_recording_consent';
+
+export async function rememberConsent(term: Term): Promise<void> {
+  (await cookies()).set(CONSENT_COOKIE, term.id, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: zonedDateTime(addDaysToDate(term.endDate, 1), '00:00'),
+  });
+}
+
+export async function hasRememberedConsent(term: Term): Promise<boolean> {
+  return (await cookies()).get(CONSENT_COOKIE)?.value === term.id;
+}
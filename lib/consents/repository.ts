@@ -0,0 +1,83 @@
+import { getDb, type Db } from '@/lib/db';
+import { upsertStudent } from '@/lib/students/repository';
+import type { ConsentSource, RecordingConsent } from './types';
+
+type ConsentRow = {
+  student_id: number;
+  student_name: string;
+  student_email: string;
+  term_id: string;
+  source: ConsentSource;
+  consented_at: string;
+};
+
+export type ConsentQuery = {
+  termId?: string;
+  email?: string;
+};
+
+const SELECT_CONSENT = `
+  SELECT c.student_id, s.name AS student_name, s.email AS student_email, c.term_id, c.source, c.consented_at
+  FROM recording_consents c
+  JOIN students s ON s.id = c.student_id`;
+
+export function hasRecordingConsent(email: string, termId: string, db: Db = getDb()): boolean {
+  return getRecordingConsent(email, termId, db) !== undefined;
+}
+
+export function getRecordingConsent(email: string, termId: string, db: Db = getDb()): RecordingConsent | undefined {
+  const row = db
+    .prepare(`${SELECT_CONSENT} WHERE s.email = ? AND c.term_id = ?`)
+    .get(email.trim().toLowerCase(), termId) as ConsentRow | undefined;
+  return row ? toConsent(row) : undefined;
+}
+
+// The first consent of the term stands; agreeing again later doesn't move its timestamp.
+export function recordRecordingConsent(
+  studentId: number,
+  termId: string,
+  source: ConsentSource,
+  now: Date = new Date(),
+  db: Db = getDb()
+) {
+  db.prepare(
+    'INSERT OR IGNORE INTO recording_consents (student_id, term_id, source, consented_at) VALUES (?, ?, ?, ?)'
+  ).run(studentId, termId, source, now.toISOString());
+}
+
+export function giveRecordingConsent(
+  studentName: string,
+  studentEmail: string,
+  termId: string,
+  source: ConsentSource,
+  now: Date = new Date(),
+  db: Db = getDb()
+): RecordingConsent {
+  db.transaction(() => {
+    recordRecordingConsent(upsertStudent(studentName, studentEmail, db), termId, source, now, db);
+  })();
+  return getRecordingConsent(studentEmail, termId, db)!;
+}
+
+export function listRecordingConsents({ termId, email }: ConsentQuery = {}, db: Db = getDb()): RecordingConsent[] {
+  email = email?.trim().toLowerCase();
+  const rows = db
+    .prepare(
+      `${SELECT_CONSENT}
+       WHERE (? IS NULL OR c.term_id = ?) AND (? IS NULL OR s.email = ?)
+       ORDER BY c.consented_at, s.email`
+    )
+    .all(termId ?? null, termId ?? null, email ?? null, email ?? null) as ConsentRow[];
+  return rows.map(toConsent);
+}
+
+function toConsent(row: ConsentRow): RecordingConsent {
+  return {
+    studentId: row.student_id,
+    studentName: row.student_name,
+    studentEmail: row.student_email,
+    termId: row.term_id,
+    source: row.source,
+    consentedAt: row.consented_at,
+  };
+}
@@ -0,0 +1,13 @@
+export const CONSENT_SOURCES = ['zoom', 'booking'] as const;
+
+// Where the student agreed: the notice in front of the Zoom link, or the booking assistant.
+export type ConsentSource = (typeof CONSENT_SOURCES)[number];
+
+export type RecordingConsent = {
+  studentId: number;
+  studentName: string;
+  studentEmail: string;
+  termId: string;
+  source: ConsentSource;
+  consentedAt: string;
+};
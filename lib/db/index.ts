@@ -0,0 +1,67 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+export type Db = Database.Database;
+
+const MIGRATIONS_DIR = path.join(process.cwd(), 'migrations');
+const DEFAULT_DATABASE_PATH = path.join(process.cwd(), 'data', 'ccsf-tutoring.db');
+
+// Keep one connection per process. Next's dev server re-evaluates modules on every edit, so the
+// handle lives on globalThis instead of in module scope.
+const globalForDb = globalThis as typeof globalThis & { __ccsfDb?: Db };
+
+export function getDb(): Db {
+  if (!globalForDb.__ccsfDb) {
+    globalForDb.__ccsfDb = openDatabase(process.env.DATABASE_PATH ?? DEFAULT_DATABASE_PATH);
+  }
+  return globalForDb.__ccsfDb;
+}
+
+// Swaps the shared connection, say for a fresh seeded copy per evaluation case.
+export function setDb(db: Db): void {
+  globalForDb.__ccsfDb = db;
+}
+
+// Opens (and migrates) a database. Pass ":memory:" for a throwaway seeded copy.
+export function openDatabase(filename: string): Db {
+  if (filename !== ':memory:') {
+    fs.mkdirSync(path.dirname(filename), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  migrate(db);
+  return db;
+}
+
+export function migrate(db: Db, directory = MIGRATIONS_DIR): string[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      name TEXT PRIMARY KEY,
+      applied_at TEXT NOT NULL DEFAULT (datetime('now'))
+    )
+  `);
+
+  const applied = new Set(
+    db
+      .prepare('SELECT name FROM schema_migrations')
+      .all()
+      .map((row) => (row as { name: string }).name)
+  );
+  const pending = fs
+    .readdirSync(directory)
+    .filter((file) => file.endsWith('.sql') && !applied.has(file))
+    .sort();
+
+  const record = db.prepare('INSERT INTO schema_migrations (name) VALUES (?)');
+  for (const file of pending) {
+    const sql = fs.readFileSync(path.join(directory, file), 'utf8');
+    db.transaction(() => {
+      db.exec(sql);
+      record.run(file);
+    })();
+  }
+  return pending;
+}
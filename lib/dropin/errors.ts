@@ -0,0 +1,49 @@
+export const DROP_IN_ERROR_CODES = [
+  'QUEUE_CLOSED',
+  'ALREADY_IN_QUEUE',
+  'STUDENT_RESTRICTED',
+  'ENTRY_NOT_FOUND',
+  'ENTRY_CLOSED',
+  'QUEUE_EMPTY',
+  'NOT_YOUR_STUDENT',
+] as const;
+
+export type DropInErrorCode = (typeof DROP_IN_ERROR_CODES)[number];
+
+export const DROP_IN_ERROR_MESSAGES: Record<DropInErrorCode, string> = {
+  QUEUE_CLOSED: 'No tutor is on duty in the Zoom room right now. Please check the schedule for drop-in hours.',
+  ALREADY_IN_QUEUE: 'You’re already in the queue. Use the link from when you joined to check your place.',
+  STUDENT_RESTRICTED: 'You can’t use tutoring right now. Please contact the Tutor Squad coordinator.',
+  ENTRY_NOT_FOUND: 'We couldn’t find that spot in the queue.',
+  ENTRY_CLOSED: 'This student has already been helped or has left the queue.',
+  QUEUE_EMPTY: 'No one is waiting right now.',
+  NOT_YOUR_STUDENT: 'Another tutor is helping this student.',
+};
+
+const HTTP_STATUS: Record<DropInErrorCode, number> = {
+  QUEUE_CLOSED: 409,
+  ALREADY_IN_QUEUE: 409,
+  STUDENT_RESTRICTED: 403,
+  ENTRY_NOT_FOUND: 404,
+  ENTRY_CLOSED: 409,
+  QUEUE_EMPTY: 409,
+  NOT_YOUR_STUDENT: 403,
+};
+
+export class DropInError extends Error {
+  constructor(
+    readonly code: DropInErrorCode,
+    message: string = DROP_IN_ERROR_MESSAGES[code]
+  ) {
+    super(message);
+    this.name = 'DropInError';
+  }
+
+  get status(): number {
+    return HTTP_STATUS[this.code];
+  }
+
+  toJSON() {
+    return { error: this.message, code: this.code };
+  }
+}
@@ -0,0 +1,59 @@
+import { EventEmitter } from 'events';
+import { activeRestrictionFor } from '@/lib/students/repository';
+import { getTermStatus } from '@/lib/terms';
+import { fromMinutes, zonedTime } from '@/lib/time';
+import { listTutors } from '@/lib/tutors/repository';
+import { shiftsFor } from '@/lib/tutors/schedule';
+import { MemoryDropInStore } from './memory';
+import { DropInQueue } from './queue';
+import { SqliteDropInStore } from './sqlite';
+import type { DropInStore } from './types';
+
+export type { DropInBoard, DropInEntry, DropInStatus, DropInStore, DropInTicket } from './types';
+export { DropInError } from './errors';
+export { DropInQueue, type DropInQueueOptions, type JoinRequest } from './queue';
+export { MemoryDropInStore } from './memory';
+export { SqliteDropInStore } from './sqlite';
+
+// Subscribers (and the memory store) are held in memory, so they're shared per process on globalThis,
+// surviving dev server reloads the same way the database handle does. The queue itself is rebuilt per
+// call so the errors it throws are this module's DropInError.
+const globalForQueue = globalThis as typeof globalThis & { __ccsfDropIn?: { store: DropInStore; events: EventEmitter } };
+
+// DROP_IN_STORE=sqlite|memory. Defaults to SQLite so the line survives a restart.
+export function getDropInStore(env: NodeJS.ProcessEnv = process.env): DropInStore {
+  const choice = env.DROP_IN_STORE ?? 'sqlite';
+
+  switch (choice) {
+    case 'sqlite':
+      return new SqliteDropInStore();
+    case 'memory':
+      return new MemoryDropInStore();
+    default:
+      throw new Error(`Unknown DROP_IN_STORE "${choice}"`);
+  }
+}
+
+export function getDropInQueue(): DropInQueue {
+  globalForQueue.__ccsfDropIn ??= { store: getDropInStore(), events: new EventEmitter().setMaxListeners(0) };
+  const { store, events } = globalForQueue.__ccsfDropIn;
+  return new DropInQueue(store, {
+    onDuty: tutorsOnDuty,
+    isRestricted: (email, now) => activeRestrictionFor(email, now) !== undefined,
+    events,
+  });
+}
+
+// Tutors whose virtual shift covers `now`. Nobody is on duty between terms.
+export function tutorsOnDuty(now: Date = new Date()): string[] {
+  const status = getTermStatus(now);
+  if (status.status !== 'active') return [];
+
+  const { day, minutes } = zonedTime(now);
+  const time = fromMinutes(minutes);
+  return listTutors(status.term.id)
+    .filter((tutor) =>
+      shiftsFor(tutor, 'virtual', day).some((shift) => shift.start <= time && time < shift.end)
+    )
+    .map((tutor) => tutor.id);
+}
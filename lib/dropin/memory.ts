@@ -0,0 +1,36 @@
+import type { DropInChanges, DropInEntry, DropInStore } from './types';
+
+// Keeps the queue in a Map. Used by tests, and handy for running the queue without a database.
+export class MemoryDropInStore implements DropInStore {
+  readonly name = 'memory';
+
+  private readonly entries = new Map<string, DropInEntry>();
+
+  insert(entry: DropInEntry): void {
+    this.entries.set(entry.id, { ...entry });
+  }
+
+  get(id: string): DropInEntry | undefined {
+    const entry = this.entries.get(id);
+    return entry && { ...entry };
+  }
+
+  listActive(since: string): DropInEntry[] {
+    return [...this.entries.values()]
+      .filter((entry) => (entry.status === 'waiting' || entry.status === 'helping') && entry.joinedAt >= since)
+      .sort((a, b) => a.joinedAt.localeCompare(b.joinedAt))
+      .map((entry) => ({ ...entry }));
+  }
+
+  listFinished(since: string): DropInEntry[] {
+    return [...this.entries.values()]
+      .filter((entry) => entry.status === 'done' && entry.finishedAt !== null && entry.finishedAt >= since)
+      .sort((a, b) => a.finishedAt!.localeCompare(b.finishedAt!))
+      .map((entry) => ({ ...entry }));
+  }
+
+  update(id: string, changes: DropInChanges): void {
+    const entry = this.entries.get(id);
+    if (entry) this.entries.set(id, { ...entry, ...changes });
+  }
+}
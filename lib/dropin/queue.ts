@@ -0,0 +1,177 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import type { Course } from '@/lib/tutors/types';
+import { zonedDateTime, zonedTime } from '@/lib/time';
+import { DropInError } from './errors';
+import type { DropInBoard, DropInEntry, DropInStore, DropInTicket } from './types';
+
+export type JoinRequest = {
+  studentName: string;
+  studentEmail: string;
+  course?: Course;
+  question: string;
+};
+
+export type DropInQueueOptions = {
+  // Ids of the tutors holding a virtual shift at `now`. The queue only takes students while this is non-empty.
+  onDuty: (now: Date) => string[];
+  isRestricted?: (email: string, now: Date) => boolean;
+  // Lets several queue objects over the same store notify the same subscribers.
+  events?: EventEmitter;
+};
+
+const DEFAULT_HELP_MINUTES = 15;
+// How far back finished students count towards the average.
+const AVERAGE_WINDOW_MS = 3 * 60 * 60 * 1000;
+
+// The shared Zoom room's line. Every change is announced to subscribers, which is what the live
+// event streams listen to.
+export class DropInQueue {
+  private readonly events: EventEmitter;
+
+  constructor(
+    readonly store: DropInStore,
+    private readonly options: DropInQueueOptions
+  ) {
+    this.events = options.events ?? new EventEmitter().setMaxListeners(0);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.events.on('change', listener);
+    return () => this.events.off('change', listener);
+  }
+
+  join(request: JoinRequest, now: Date = new Date()): DropInEntry {
+    if (this.options.onDuty(now).length === 0) {
+      throw new DropInError('QUEUE_CLOSED');
+    }
+    if (this.options.isRestricted?.(request.studentEmail, now)) {
+      throw new DropInError('STUDENT_RESTRICTED');
+    }
+    const email = request.studentEmail.toLowerCase();
+    if (this.active(now).some((entry) => entry.studentEmail.toLowerCase() === email)) {
+      throw new DropInError('ALREADY_IN_QUEUE');
+    }
+
+    const entry: DropInEntry = {
+      id: randomUUID(),
+      studentName: request.studentName,
+      studentEmail: request.studentEmail,
+      course: request.course ?? null,
+      question: request.question,
+      status: 'waiting',
+      tutorId: null,
+      tutorName: null,
+      joinedAt: now.toISOString(),
+      claimedAt: null,
+      finishedAt: null,
+    };
+    this.store.insert(entry);
+    this.changed();
+    return entry;
+  }
+
+  leave(id: string, now: Date = new Date()): DropInEntry {
+    const entry = this.open(id);
+    this.store.update(id, { status: 'left', finishedAt: now.toISOString() });
+    this.changed();
+    return { ...entry, status: 'left', finishedAt: now.toISOString() };
+  }
+
+  // Finishes whoever the tutor was helping and hands them the longest-waiting student.
+  claimNext(tutor: { id: string; name: string }, now: Date = new Date()): DropInEntry {
+    const active = this.active(now);
+    const next = active.find((entry) => entry.status === 'waiting');
+    if (!next) {
+      throw new DropInError('QUEUE_EMPTY');
+    }
+
+    const finishedAt = now.toISOString();
+    for (const entry of active) {
+      if (entry.status === 'helping' && entry.tutorId === tutor.id) {
+        this.store.update(entry.id, { status: 'done', finishedAt });
+      }
+    }
+    const claim = { status: 'helping', tutorId: tutor.id, tutorName: tutor.name, claimedAt: now.toISOString() } as const;
+    this.store.update(next.id, claim);
+    this.changed();
+    return { ...next, ...claim };
+  }
+
+  finish(id: string, tutorId: string, now: Date = new Date()): DropInEntry {
+    const entry = this.open(id);
+    if (entry.status !== 'helping' || entry.tutorId !== tutorId) {
+      throw new DropInError('NOT_YOUR_STUDENT');
+    }
+    this.store.update(id, { status: 'done', finishedAt: now.toISOString() });
+    this.changed();
+    return { ...entry, status: 'done', finishedAt: now.toISOString() };
+  }
+
+  ticket(id: string, now: Date = new Date()): DropInTicket | undefined {
+    const entry = this.store.get(id);
+    if (!entry) return undefined;
+
+    const tutorsOnDuty = this.options.onDuty(now).length;
+    const active = this.active(now);
+    const index = active.filter((other) => other.status === 'waiting').findIndex((other) => other.id === id);
+    if (entry.status !== 'waiting' || index === -1) {
+      return { entry, position: null, estimatedMinutes: null, tutorsOnDuty };
+    }
+
+    const position = index + 1;
+    const helping = active.filter((other) => other.status === 'helping').length;
+    return {
+      entry,
+      position,
+      estimatedMinutes: estimateWait(position, helping, tutorsOnDuty, this.averageMinutes(now)),
+      tutorsOnDuty,
+    };
+  }
+
+  board(now: Date = new Date()): DropInBoard {
+    const active = this.active(now);
+    return {
+      waiting: active.filter((entry) => entry.status === 'waiting'),
+      helping: active.filter((entry) => entry.status === 'helping'),
+      tutorsOnDuty: this.options.onDuty(now).length,
+      averageMinutes: this.averageMinutes(now),
+    };
+  }
+
+  averageMinutes(now: Date = new Date()): number {
+    const durations = this.store
+      .listFinished(new Date(now.getTime() - AVERAGE_WINDOW_MS).toISOString())
+      .filter((entry) => entry.claimedAt)
+      .map((entry) => (Date.parse(entry.finishedAt!) - Date.parse(entry.claimedAt!)) / 60_000);
+    if (durations.length === 0) return DEFAULT_HELP_MINUTES;
+    return Math.max(1, Math.round(durations.reduce((sum, minutes) => sum + minutes, 0) / durations.length));
+  }
+
+  // The line starts fresh each day; anyone left over from yesterday no longer counts.
+  private active(now: Date): DropInEntry[] {
+    return this.store.listActive(zonedDateTime(zonedTime(now).date, '00:00').toISOString());
+  }
+
+  private open(id: string): DropInEntry {
+    const entry = this.store.get(id);
+    if (!entry) {
+      throw new DropInError('ENTRY_NOT_FOUND');
+    }
+    if (entry.status === 'done' || entry.status === 'left') {
+      throw new DropInError('ENTRY_CLOSED');
+    }
+    return entry;
+  }
+
+  private changed() {
+    this.events.emit('change');
+  }
+}
+
+// Everyone ahead takes a full session and anyone already with a tutor is about halfway through,
+// shared across the tutors on duty.
+function estimateWait(position: number, helping: number, tutorsOnDuty: number, averageMinutes: number): number | null {
+  if (tutorsOnDuty === 0) return null;
+  return Math.ceil(((position - 1) * averageMinutes + (helping * averageMinutes) / 2) / tutorsOnDuty);
+}
@@ -0,0 +1,98 @@
+import { getDb, type Db } from '@/lib/db';
+import type { Course } from '@/lib/tutors/types';
+import type { DropInChanges, DropInEntry, DropInStatus, DropInStore } from './types';
+
+type EntryRow = {
+  id: string;
+  student_name: string;
+  student_email: string;
+  course: Course | null;
+  question: string;
+  status: DropInStatus;
+  tutor_id: string | null;
+  tutor_name: string | null;
+  joined_at: string;
+  claimed_at: string | null;
+  finished_at: string | null;
+};
+
+const COLUMNS: Record<keyof DropInChanges, string> = {
+  status: 'status',
+  tutorId: 'tutor_id',
+  tutorName: 'tutor_name',
+  claimedAt: 'claimed_at',
+  finishedAt: 'finished_at',
+};
+
+export class SqliteDropInStore implements DropInStore {
+  readonly name = 'sqlite';
+
+  constructor(private readonly db: Db = getDb()) {}
+
+  insert(entry: DropInEntry): void {
+    this.db
+      .prepare(
+        `INSERT INTO drop_in_queue (id, student_name, student_email, course, question, status, tutor_id, tutor_name,
+           joined_at, claimed_at, finished_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        entry.id,
+        entry.studentName,
+        entry.studentEmail,
+        entry.course,
+        entry.question,
+        entry.status,
+        entry.tutorId,
+        entry.tutorName,
+        entry.joinedAt,
+        entry.claimedAt,
+        entry.finishedAt
+      );
+  }
+
+  get(id: string): DropInEntry | undefined {
+    const row = this.db.prepare('SELECT * FROM drop_in_queue WHERE id = ?').get(id) as EntryRow | undefined;
+    return row ? toEntry(row) : undefined;
+  }
+
+  listActive(since: string): DropInEntry[] {
+    const rows = this.db
+      .prepare(
+        "SELECT * FROM drop_in_queue WHERE status IN ('waiting', 'helping') AND joined_at >= ? ORDER BY joined_at, rowid"
+      )
+      .all(since) as EntryRow[];
+    return rows.map(toEntry);
+  }
+
+  listFinished(since: string): DropInEntry[] {
+    const rows = this.db
+      .prepare("SELECT * FROM drop_in_queue WHERE status = 'done' AND finished_at >= ? ORDER BY finished_at")
+      .all(since) as EntryRow[];
+    return rows.map(toEntry);
+  }
+
+  update(id: string, changes: DropInChanges): void {
+    const keys = Object.keys(changes) as (keyof DropInChanges)[];
+    if (keys.length === 0) return;
+    this.db
+      .prepare(`UPDATE drop_in_queue SET ${keys.map((key) => `${COLUMNS[key]} = ?`).join(', ')} WHERE id = ?`)
+      .run(...keys.map((key) => changes[key] ?? null), id);
+  }
+}
+
+function toEntry(row: EntryRow): DropInEntry {
+  return {
+    id: row.id,
+    studentName: row.student_name,
+    studentEmail: row.student_email,
+    course: row.course,
+    question: row.question,
+    status: row.status,
+    tutorId: row.tutor_id,
+    tutorName: row.tutor_name,
+    joinedAt: row.joined_at,
+    claimedAt: row.claimed_at,
+    finishedAt: row.finished_at,
+  };
+}
@@ -0,0 +1,75 @@
+import type { DropInQueue } from './queue';
+
+export type StreamFrame = {
+  view: unknown;
+  // Sends this view, then ends the stream.
+  final?: boolean;
+};
+
+// Wait estimates and who's on duty drift with the clock, so views are re-rendered this often even
+// when nothing happens. Doubles as a keep-alive for proxies that close quiet connections.
+const REFRESH_MS = 30_000;
+
+// Serves `render()` as server-sent events: once on connect, then on every queue change and refresh.
+// Unchanged views aren't sent again.
+export function queueEventStream(queue: DropInQueue, signal: AbortSignal, render: () => StreamFrame): Response {
+  const encoder = new TextEncoder();
+  let release = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (signal.aborted) return controller.close();
+
+      let last = '';
+      let stopped = false;
+      const push = (refresh = false) => {
+        if (stopped) return;
+        try {
+          const { view, final } = render();
+          const data = JSON.stringify(view);
+          if (data !== last) {
+            controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+            last = data;
+          } else if (refresh) {
+            controller.enqueue(encoder.encode(': keep-alive\n\n'));
+          }
+          if (final) stop(true);
+        } catch (error) {
+          console.error('Drop-in queue stream failed', error);
+          stop(true);
+        }
+      };
+      const stop = (close: boolean) => {
+        if (stopped) return;
+        stopped = true;
+        clearInterval(timer);
+        unsubscribe();
+        signal.removeEventListener('abort', abort);
+        if (!close) return;
+        try {
+          controller.close();
+        } catch {
+          // The client already went away; push() runs inside queue updates, so this mustn't throw.
+        }
+      };
+      const abort = () => stop(true);
+
+      signal.addEventListener('abort', abort);
+      const unsubscribe = queue.subscribe(() => push());
+      const timer = setInterval(() => push(true), REFRESH_MS);
+      release = () => stop(false);
+      push();
+    },
+    cancel() {
+      release();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
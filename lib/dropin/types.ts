@@ -0,0 +1,53 @@
+import type { Course } from '@/lib/tutors/types';
+
+export const DROP_IN_STATUSES = ['waiting', 'helping', 'done', 'left'] as const;
+
+export type DropInStatus = (typeof DROP_IN_STATUSES)[number];
+
+export type DropInEntry = {
+  id: string;
+  studentName: string;
+  studentEmail: string;
+  course: Course | null;
+  question: string;
+  status: DropInStatus;
+  // Set once a tutor claims the student.
+  tutorId: string | null;
+  tutorName: string | null;
+  joinedAt: string;
+  claimedAt: string | null;
+  finishedAt: string | null;
+};
+
+export type DropInChanges = Partial<
+  Pick<DropInEntry, 'status' | 'tutorId' | 'tutorName' | 'claimedAt' | 'finishedAt'>
+>;
+
+// Where queue entries live. SQLite in the app; the in-memory store keeps tests off the database.
+export interface DropInStore {
+  readonly name: string;
+  insert(entry: DropInEntry): void;
+  get(id: string): DropInEntry | undefined;
+  // Waiting and helping entries that joined at or after `since`, oldest first.
+  listActive(since: string): DropInEntry[];
+  // Entries a tutor finished at or after `since`, used to estimate how long each student takes.
+  listFinished(since: string): DropInEntry[];
+  update(id: string, changes: DropInChanges): void;
+}
+
+// What a student sees while they wait.
+export type DropInTicket = {
+  entry: DropInEntry;
+  // 1 means next up. Null once a tutor has claimed the student or they've left.
+  position: number | null;
+  estimatedMinutes: number | null;
+  tutorsOnDuty: number;
+};
+
+// What tutors see on their dashboard.
+export type DropInBoard = {
+  waiting: DropInEntry[];
+  helping: DropInEntry[];
+  tutorsOnDuty: number;
+  averageMinutes: number;
+};
@@ -0,0 +1,5 @@
+export type { EvalCase, EvalMode, EvalSuite, EvalTurn, ExpectedToolCall } from './schema';
+export { EVAL_MODES, evalSuiteSchema } from './schema';
+export { EVALS_DIR, EvalSuiteError, loadEvalSuites, type LoadedSuite } from './loader';
+export { runEvalCase, runEvalSuites, type EvalCaseResult } from './runner';
+export { formatReport, summarize, type EvalReport } from './report';
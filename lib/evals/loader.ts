@@ -0,0 +1,62 @@
+import fs from 'fs';
+import path from 'path';
+import { evalSuiteSchema, type EvalSuite } from './schema';
+
+export const EVALS_DIR = path.join(process.cwd(), 'evals', 'chat');
+
+export type LoadedSuite = EvalSuite & { file: string };
+
+export class EvalSuiteError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid evaluation suites:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'EvalSuiteError';
+  }
+}
+
+// Reads and validates the given suite files, or every *.json file in the given directories. Throws an
+// EvalSuiteError listing every problem at once, so a broken suite fails the run instead of being skipped.
+export function loadEvalSuites(paths: string[] = [EVALS_DIR]): LoadedSuite[] {
+  const problems: string[] = [];
+  const suites: LoadedSuite[] = [];
+
+  const files: string[] = [];
+  for (const target of paths) {
+    if (!fs.existsSync(target)) {
+      problems.push(`${target}: no such file or directory`);
+    } else if (fs.statSync(target).isDirectory()) {
+      const found = fs
+        .readdirSync(target)
+        .filter((file) => file.endsWith('.json'))
+        .sort();
+      if (found.length === 0) problems.push(`no suite files found in ${target}`);
+      files.push(...found.map((file) => path.join(target, file)));
+    } else {
+      files.push(target);
+    }
+  }
+
+  for (const file of files) {
+    const name = path.relative(process.cwd(), file);
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      problems.push(`${name}: ${error instanceof Error ? error.message : 'could not be parsed'}`);
+      continue;
+    }
+
+    const parsed = evalSuiteSchema.safeParse(raw);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        problems.push(`${name}: ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      }
+      continue;
+    }
+    suites.push({ ...parsed.data, file: name });
+  }
+
+  if (problems.length > 0) {
+    throw new EvalSuiteError(problems);
+  }
+  return suites;
+}
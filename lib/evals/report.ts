@@ -0,0 +1,34 @@
+import type { EvalCaseResult } from './runner';
+
+export type EvalReport = {
+  passed: number;
+  failed: number;
+  durationMs: number;
+  cases: EvalCaseResult[];
+};
+
+export function summarize(cases: EvalCaseResult[]): EvalReport {
+  const passed = cases.filter((result) => result.passed).length;
+  return {
+    passed,
+    failed: cases.length - passed,
+    durationMs: cases.reduce((total, result) => total + result.durationMs, 0),
+    cases,
+  };
+}
+
+// Plain text grouped by suite, with every failed check under its case.
+export function formatReport(report: EvalReport): string {
+  const lines: string[] = [];
+  let suite: string | undefined;
+  for (const result of report.cases) {
+    if (result.suite !== suite) {
+      suite = result.suite;
+      lines.push('', `${suite} (${result.file})`);
+    }
+    lines.push(`  ${result.passed ? '✓' : '✗'} ${result.name} (${result.durationMs}ms)`);
+    lines.push(...result.failures.map((failure) => `      ${failure}`));
+  }
+  lines.push('', `${report.passed} passed, ${report.failed} failed (${report.cases.length} cases, ${report.durationMs}ms)`);
+  return lines.join('\n');
+}
@@ -0,0 +1,210 @@
+import { randomUUID } from 'crypto';
+import { advanceWithAgent } from '@/lib/chat/agent';
+import { advanceConversation, type AssistantTurn } from '@/lib/chat/assistant';
+import { listToolCalls, type ToolCallRecord, type ToolContext } from '@/lib/chat/tools';
+import { INITIAL_CHAT_STATE, type ChatMessage, type ChatState } from '@/lib/chat/types';
+import { openDatabase, setDb, type Db } from '@/lib/db';
+import { MockLLMProvider, type MockTurn } from '@/lib/llm';
+import { countChatFlags, moderateChatMessage, RuleBasedClassifier, type ModerationDecision } from '@/lib/moderation';
+import type { LoadedSuite } from './loader';
+import type { EvalCase, EvalTurn, ExpectedToolCall } from './schema';
+
+export type EvalCaseResult = {
+  suite: string;
+  file: string;
+  name: string;
+  passed: boolean;
+  failures: string[];
+  durationMs: number;
+};
+
+// Only the built-in rules, so a run never needs the network.
+const CLASSIFIERS = [new RuleBasedClassifier()];
+
+const TEMPLATE = /^\{\{(\w+)\.([\w.]+)\}\}$/;
+
+export async function runEvalSuites(suites: LoadedSuite[]): Promise<EvalCaseResult[]> {
+  const results: EvalCaseResult[] = [];
+  for (const suite of suites) {
+    for (const evalCase of suite.cases) {
+      results.push(await runEvalCase(suite, evalCase));
+    }
+  }
+  return results;
+}
+
+// Plays one conversation against a freshly migrated and seeded in-memory database, checking each turn as it
+// goes. The message passes moderation first and then reaches the assistant, the same way /api/chat handles it.
+export async function runEvalCase(suite: LoadedSuite, evalCase: EvalCase): Promise<EvalCaseResult> {
+  const started = performance.now();
+  const db = openDatabase(':memory:');
+  setDb(db);
+
+  const mode = evalCase.mode ?? suite.mode;
+  const now = new Date(evalCase.now ?? suite.now);
+  const sessionId = randomUUID();
+  const failures: string[] = [];
+  let state: ChatState = INITIAL_CHAT_STATE;
+  const history: ChatMessage[] = [];
+
+  try {
+    for (const [index, turn] of evalCase.turns.entries()) {
+      const context: ToolContext = { sessionId, studentEmail: state.draft.studentEmail, now };
+      const traced = listToolCalls(sessionId).length;
+
+      const moderation = await moderateChatMessage(
+        turn.student,
+        { sessionId, studentEmail: state.draft.studentEmail, now },
+        CLASSIFIERS
+      );
+      let reply: AssistantTurn;
+      if (!moderation.allowed) {
+        reply = { state, reply: moderation.reply };
+      } else if (mode === 'agent') {
+        const provider = new MockLLMProvider(0, scriptFor(turn, sessionId));
+        reply = await advanceWithAgent(provider, state, history, turn.student, context);
+      } else {
+        reply = advanceConversation(state, turn.student, { now, tools: context });
+      }
+
+      state = reply.state;
+      history.push({ role: 'user', content: turn.student }, { role: 'assistant', content: reply.reply });
+      const calls = listToolCalls(sessionId).slice(traced);
+      for (const failure of checkTurn(turn, reply, moderation, calls)) {
+        failures.push(`turn ${index + 1} ("${turn.student}"): ${failure}`);
+      }
+    }
+    failures.push(...checkOutcome(evalCase, sessionId, db));
+  } catch (error) {
+    failures.push(`threw: ${error instanceof Error ? error.message : String(error)}`);
+  } finally {
+    db.close();
+  }
+
+  return {
+    suite: suite.name,
+    file: suite.file,
+    name: evalCase.name,
+    passed: failures.length === 0,
+    failures,
+    durationMs: Math.round(performance.now() - started),
+  };
+}
+
+// Each scripted step becomes a mock model turn. Templates are filled in when the step is played, so they can
+// refer to calls made earlier in the same message.
+function scriptFor(turn: EvalTurn, sessionId: string): MockTurn[] {
+  return turn.model.map((step, stepIndex) => () => {
+    if ('reply' in step) return { content: step.reply, toolCalls: [] };
+    return {
+      content: '',
+      toolCalls: step.toolCalls.map((call, callIndex) => ({
+        id: `call_${stepIndex + 1}_${callIndex + 1}`,
+        name: call.tool,
+        arguments: fillTemplates(call.arguments, listToolCalls(sessionId)),
+      })),
+    };
+  });
+}
+
+function fillTemplates(args: Record<string, unknown>, calls: ToolCallRecord[]): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(args).map(([key, value]) => {
+      const match = typeof value === 'string' ? value.match(TEMPLATE) : null;
+      if (!match) return [key, value];
+      const [, tool, path] = match;
+      const source = calls.findLast((call) => call.tool === tool && call.outcome === 'ok');
+      // Left as written when there's nothing to fill it from; the tool then rejects it and the trace shows why.
+      return [key, source ? (dig(source.result, path) ?? value) : value];
+    })
+  );
+}
+
+function dig(value: unknown, path: string): unknown {
+  return path
+    .split('.')
+    .reduce<unknown>((current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined), value);
+}
+
+function checkTurn(turn: EvalTurn, reply: AssistantTurn, moderation: ModerationDecision, calls: ToolCallRecord[]): string[] {
+  const { expect } = turn;
+  const failures: string[] = [];
+
+  if (expect.stage && reply.state.stage !== expect.stage) {
+    failures.push(`expected stage "${expect.stage}", got "${reply.state.stage}"`);
+  }
+  for (const text of expect.replyIncludes) {
+    if (!reply.reply.includes(text)) failures.push(`expected the reply to include "${text}", got "${reply.reply}"`);
+  }
+  for (const text of expect.replyExcludes) {
+    if (reply.reply.includes(text)) failures.push(`expected the reply not to include "${text}", got "${reply.reply}"`);
+  }
+
+  if (expect.refused === false && !moderation.allowed) {
+    failures.push(`expected the message through moderation, it was refused as ${moderation.category}`);
+  } else if (expect.refused && (moderation.allowed || moderation.category !== expect.refused)) {
+    failures.push(
+      `expected a ${expect.refused} refusal, ${moderation.allowed ? 'the message got through' : `got ${moderation.category}`}`
+    );
+  }
+
+  if (expect.toolCalls) {
+    failures.push(...checkToolCalls(expect.toolCalls, calls));
+  }
+  return failures;
+}
+
+function checkToolCalls(expected: ExpectedToolCall[], calls: ToolCallRecord[]): string[] {
+  const made = calls.map((call) => `${call.tool} (${call.outcome})`).join(', ') || 'none';
+  if (calls.length !== expected.length) {
+    return [`expected ${expected.length} tool call(s) [${expected.map((call) => call.tool).join(', ')}], got ${made}`];
+  }
+
+  const failures: string[] = [];
+  expected.forEach((want, index) => {
+    const call = calls[index];
+    if (call.tool !== want.tool) {
+      failures.push(`expected tool call ${index + 1} to be ${want.tool}, got ${made}`);
+      return;
+    }
+    if (want.outcome && call.outcome !== want.outcome) {
+      failures.push(`expected ${want.tool} to be ${want.outcome}, got ${call.outcome}${call.error ? ` (${call.error})` : ''}`);
+    }
+    if (want.arguments && !contains(call.arguments, want.arguments)) {
+      failures.push(`expected ${want.tool} arguments to include ${JSON.stringify(want.arguments)}, got ${JSON.stringify(call.arguments)}`);
+    }
+  });
+  return failures;
+}
+
+function checkOutcome({ expect }: EvalCase, sessionId: string, db: Db): string[] {
+  const failures: string[] = [];
+
+  if (expect.appointments) {
+    const counts = db.prepare('SELECT status, COUNT(*) AS count FROM appointments GROUP BY status').all() as {
+      status: string;
+      count: number;
+    }[];
+    for (const [status, want] of Object.entries(expect.appointments)) {
+      const got = counts.find((row) => row.status === status)?.count ?? 0;
+      if (got !== want) failures.push(`expected ${want} ${status} appointment(s), got ${got}`);
+    }
+  }
+  if (expect.flags !== undefined) {
+    const got = countChatFlags(sessionId);
+    if (got !== expect.flags) failures.push(`expected ${expect.flags} moderation flag(s), got ${got}`);
+  }
+  return failures;
+}
+
+// Whether `actual` has everything `expected` has. Objects may carry extra keys; arrays and values must match.
+function contains(actual: unknown, expected: unknown): boolean {
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && actual.length === expected.length && expected.every((item, i) => contains(actual[i], item));
+  }
+  if (expected && typeof expected === 'object') {
+    if (!actual || typeof actual !== 'object') return false;
+    return Object.entries(expected).every(([key, value]) => contains((actual as Record<string, unknown>)[key], value));
+  }
+  return actual === expected;
+}
@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { chatStageSchema } from '@/lib/chat/types';
+import { TOOL_CALL_OUTCOMES } from '@/lib/chat/tools';
+import { MODERATION_CATEGORIES } from '@/lib/moderation';
+
+// `guided` runs the scripted assistant; `agent` lets the mock model call the tools from each turn's `model` script.
+export const EVAL_MODES = ['guided', 'agent'] as const;
+
+export type EvalMode = (typeof EVAL_MODES)[number];
+
+// One tool call the mock model makes. String arguments like "{{bookAppointment.appointment.id}}" are filled in
+// from the latest successful call of that tool in the conversation.
+const scriptedCallSchema = z.object({
+  tool: z.string().min(1),
+  arguments: z.record(z.string(), z.unknown()).default({}),
+});
+
+const modelTurnSchema = z.union([
+  z.object({ toolCalls: z.array(scriptedCallSchema).min(1) }),
+  z.object({ reply: z.string() }),
+]);
+
+// `arguments` only has to be contained in what was sent, so dates and ids can be left out.
+const expectedCallSchema = z.object({
+  tool: z.string().min(1),
+  outcome: z.enum(TOOL_CALL_OUTCOMES).optional(),
+  arguments: z.record(z.string(), z.unknown()).optional(),
+});
+
+const turnExpectationSchema = z.object({
+  stage: chatStageSchema.optional(),
+  replyIncludes: z.array(z.string()).default([]),
+  replyExcludes: z.array(z.string()).default([]),
+  // Every call made while answering this message, in order. Leave it out to skip the check; [] means none.
+  toolCalls: z.array(expectedCallSchema).optional(),
+  // The moderation refusal the message should get, or false when it must get through.
+  refused: z.union([z.enum(MODERATION_CATEGORIES), z.literal('closed'), z.literal(false)]).optional(),
+});
+
+const evalTurnSchema = z.object({
+  student: z.string().min(1),
+  // Agent mode only: what the mock model does with this message. Without it the model answers without tools.
+  model: z.array(modelTurnSchema).default([]),
+  expect: turnExpectationSchema.default({ replyIncludes: [], replyExcludes: [] }),
+});
+
+// Checked once every turn has run.
+const outcomeExpectationSchema = z.object({
+  appointments: z.object({ booked: z.number().int().min(0), cancelled: z.number().int().min(0) }).partial().optional(),
+  flags: z.number().int().min(0).optional(),
+});
+
+const evalCaseSchema = z.object({
+  name: z.string().min(1),
+  mode: z.enum(EVAL_MODES).optional(),
+  now: z.iso.datetime().optional(),
+  turns: z.array(evalTurnSchema).min(1),
+  expect: outcomeExpectationSchema.default({}),
+});
+
+export const evalSuiteSchema = z.object({
+  name: z.string().min(1),
+  mode: z.enum(EVAL_MODES).default('guided'),
+  // The clock every case runs at, so dates in replies and slot ids stay put.
+  now: z.iso.datetime(),
+  cases: z.array(evalCaseSchema).min(1),
+});
+
+export type EvalSuite = z.infer<typeof evalSuiteSchema>;
+export type EvalCase = z.infer<typeof evalCaseSchema>;
+export type EvalTurn = z.infer<typeof evalTurnSchema>;
+export type ExpectedToolCall = z.infer<typeof expectedCallSchema>;
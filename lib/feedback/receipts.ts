@@ -0,0 +1,22 @@
+import { createHmac } from 'crypto';
+
+const DEVELOPMENT_SECRET = 'ccsf-tutoring-development-receipts';
+
+// Its own key rather than the one signing appointment links, so a leaked link key can't tie anonymous
+// responses back to their sessions. Whoever holds this key still can.
+function receiptSecret(env: NodeJS.ProcessEnv = process.env): string {
+  const secret = env.FEEDBACK_RECEIPT_SECRET;
+  if (secret && secret === env.BOOKING_TOKEN_SECRET) {
+    throw new Error('FEEDBACK_RECEIPT_SECRET must differ from BOOKING_TOKEN_SECRET');
+  }
+  if (secret) return secret;
+  if (env.NODE_ENV === 'production') {
+    throw new Error('FEEDBACK_RECEIPT_SECRET must be set in production');
+  }
+  return DEVELOPMENT_SECRET;
+}
+
+// Identifies an appointment's survey response without storing which appointment it was.
+export function feedbackReceipt(appointmentId: string): string {
+  return createHmac('sha256', receiptSecret()).update(`feedback:${appointmentId}`).digest('base64url');
+}
@@ -0,0 +1,160 @@
+import type { Appointment } from '@/lib/booking/types';
+import { getDb, type Db } from '@/lib/db';
+import { zonedTime } from '@/lib/time';
+import { COURSES, type Course } from '@/lib/tutors/types';
+import { feedbackReceipt } from './receipts';
+import type { FeedbackResponse } from './schema';
+import type { Feedback, FeedbackSummary } from './types';
+
+type FeedbackRow = {
+  id: number;
+  tutor_id: string;
+  tutor_name: string;
+  term_id: string;
+  course: Course | null;
+  rating: number;
+  worked_on: string;
+  comments: string;
+  student_name: string | null;
+  submitted_on: string;
+  created_at: string | null;
+};
+
+type SummaryRow = {
+  key: string | null;
+  label: string | null;
+  responses: number;
+  average_rating: number;
+  r1: number;
+  r2: number;
+  r3: number;
+  r4: number;
+  r5: number;
+};
+
+export type FeedbackQuery = {
+  termId?: string;
+  tutorId?: string;
+  limit?: number;
+};
+
+const SELECT_FEEDBACK = `
+  SELECT f.id, f.tutor_id, t.name AS tutor_name, f.term_id, f.course, f.rating, f.worked_on, f.comments,
+         s.name AS student_name, f.submitted_on, f.created_at
+  FROM feedback f
+  JOIN tutors t ON t.id = f.tutor_id
+  LEFT JOIN appointments a ON a.id = f.appointment_id
+  LEFT JOIN students s ON s.id = a.student_id`;
+
+const SUMMARY_COLUMNS = `
+  COUNT(*) AS responses, AVG(f.rating) AS average_rating,
+  SUM(f.rating = 1) AS r1, SUM(f.rating = 2) AS r2, SUM(f.rating = 3) AS r3, SUM(f.rating = 4) AS r4, SUM(f.rating = 5) AS r5`;
+
+export function hasFeedback(appointmentId: string, db: Db = getDb()): boolean {
+  return !!db.prepare('SELECT 1 FROM feedback WHERE receipt = ?').get(feedbackReceipt(appointmentId));
+}
+
+// Records the survey for a session. Returns undefined if the session already has a response. Anonymous
+// responses keep only the day they were sent, so the time can't be matched against when the survey went out.
+export function submitFeedback(
+  appointment: Appointment,
+  { rating, course, workedOn, comments, anonymous }: FeedbackResponse,
+  now: Date = new Date(),
+  db: Db = getDb()
+): Feedback | undefined {
+  const row = db
+    .prepare(
+      `INSERT INTO feedback
+         (receipt, appointment_id, tutor_id, term_id, course, rating, worked_on, comments, submitted_on, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (receipt) DO NOTHING
+       RETURNING id`
+    )
+    .get(
+      feedbackReceipt(appointment.id),
+      anonymous ? null : appointment.id,
+      appointment.tutorId,
+      appointment.termId,
+      course,
+      rating,
+      workedOn,
+      comments,
+      zonedTime(now).date,
+      anonymous ? null : now.toISOString().slice(0, 19).replace('T', ' ')
+    ) as { id: number } | undefined;
+  return row && getFeedback(row.id, db);
+}
+
+export function getFeedback(id: number, db: Db = getDb()): Feedback | undefined {
+  const row = db.prepare(`${SELECT_FEEDBACK} WHERE f.id = ?`).get(id) as FeedbackRow | undefined;
+  return row && toFeedback(row);
+}
+
+// Newest first.
+export function listFeedback({ termId, tutorId, limit = 100 }: FeedbackQuery = {}, db: Db = getDb()): Feedback[] {
+  const rows = db
+    .prepare(
+      `${SELECT_FEEDBACK}
+       WHERE (? IS NULL OR f.term_id = ?) AND (? IS NULL OR f.tutor_id = ?)
+       ORDER BY f.id DESC LIMIT ?`
+    )
+    .all(termId ?? null, termId ?? null, tutorId ?? null, tutorId ?? null, limit) as FeedbackRow[];
+  return rows.map(toFeedback);
+}
+
+export function summarizeByTutor(termId?: string, db: Db = getDb()): FeedbackSummary[] {
+  const rows = db
+    .prepare(
+      `SELECT f.tutor_id AS key, t.name AS label, ${SUMMARY_COLUMNS}
+       FROM feedback f
+       JOIN tutors t ON t.id = f.tutor_id
+       WHERE ? IS NULL OR f.term_id = ?
+       GROUP BY f.tutor_id
+       ORDER BY t.name`
+    )
+    .all(termId ?? null, termId ?? null) as SummaryRow[];
+  return rows.map(toSummary);
+}
+
+// Responses that didn't name a course are grouped under "Other".
+export function summarizeByCourse(termId?: string, db: Db = getDb()): FeedbackSummary[] {
+  const rows = db
+    .prepare(
+      `SELECT f.course AS key, NULL AS label, ${SUMMARY_COLUMNS}
+       FROM feedback f
+       WHERE ? IS NULL OR f.term_id = ?
+       GROUP BY f.course
+       ORDER BY f.course IS NULL, f.course`
+    )
+    .all(termId ?? null, termId ?? null) as SummaryRow[];
+  return rows.map((row) => {
+    const course = COURSES.find((entry) => entry.code === row.key);
+    return toSummary({ ...row, key: row.key ?? 'other', label: course ? `CS ${course.code} · ${course.title}` : 'Other' });
+  });
+}
+
+function toFeedback(row: FeedbackRow): Feedback {
+  return {
+    id: row.id,
+    tutorId: row.tutor_id,
+    tutorName: row.tutor_name,
+    termId: row.term_id,
+    course: row.course,
+    rating: row.rating,
+    workedOn: row.worked_on,
+    comments: row.comments,
+    studentName: row.student_name,
+    submittedOn: row.submitted_on,
+    createdAt: row.created_at,
+  };
+}
+
+function toSummary(row: SummaryRow): FeedbackSummary {
+  return {
+    key: row.key!,
+    label: row.label!,
+    responses: row.responses,
+    averageRating: row.average_rating,
+    ratings: [row.r1, row.r2, row.r3, row.r4, row.r5],
+  };
+}
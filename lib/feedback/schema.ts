@@ -0,0 +1,12 @@
+import { z } from 'zod';
+import { COURSE_CODES, type Course } from '@/lib/tutors/types';
+
+export const feedbackResponseSchema = z.object({
+  rating: z.number().int().min(1).max(5),
+  course: z.enum(COURSE_CODES as [Course, ...Course[]]).nullable(),
+  workedOn: z.string().trim().max(500),
+  comments: z.string().trim().max(2000),
+  anonymous: z.boolean().default(false),
+});
+
+export type FeedbackResponse = z.infer<typeof feedbackResponseSchema>;
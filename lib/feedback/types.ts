@@ -0,0 +1,39 @@
+import type { Course } from '@/lib/tutors/types';
+
+export const RATINGS = [1, 2, 3, 4, 5] as const;
+
+export type Rating = (typeof RATINGS)[number];
+
+export const RATING_LABELS: Record<Rating, string> = {
+  1: 'Not helpful',
+  2: 'A little helpful',
+  3: 'Helpful',
+  4: 'Very helpful',
+  5: 'Extremely helpful',
+};
+
+export type Feedback = {
+  id: number;
+  tutorId: string;
+  tutorName: string;
+  termId: string;
+  course: Course | null;
+  rating: number;
+  workedOn: string;
+  comments: string;
+  // Null when the student chose to stay anonymous.
+  studentName: string | null;
+  // The Pacific date ("YYYY-MM-DD") it was sent.
+  submittedOn: string;
+  // A "YYYY-MM-DD HH:MM:SS" UTC timestamp. Null for anonymous responses, which keep only the day.
+  createdAt: string | null;
+};
+
+// Responses grouped by tutor or by course. `ratings[n]` counts the responses rated n + 1.
+export type FeedbackSummary = {
+  key: string;
+  label: string;
+  responses: number;
+  averageRating: number;
+  ratings: number[];
+};
@@ -0,0 +1,119 @@
+import { TIME_ZONE, zonedDateTime } from '@/lib/time';
+
+// Wall-clock time in America/Los_Angeles; the VTIMEZONE below tells clients how to convert it.
+export type IcsDateTime = {
+  date: string;
+  time: string;
+};
+
+export type IcsEvent = {
+  uid: string;
+  summary: string;
+  start: IcsDateTime;
+  end: IcsDateTime;
+  description?: string;
+  location?: string;
+  url?: string;
+  status?: 'CONFIRMED' | 'CANCELLED';
+  // Weekly on the start's weekday, last occurrence on or before `until`.
+  repeatWeeklyUntil?: string;
+};
+
+export type IcsCalendar = {
+  name: string;
+  events: IcsEvent[];
+  now?: Date;
+};
+
+const PRODUCT_ID = '-//CCSF CS Tutor Squad//Tutoring Schedule//EN';
+
+// US Pacific rules since 2007: daylight time from the second Sunday of March to the first Sunday of November.
+const PACIFIC_VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${TIME_ZONE}`,
+  `X-LIC-LOCATION:${TIME_ZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:-0800',
+  'TZOFFSETTO:-0700',
+  'TZNAME:PDT',
+  'DTSTART:20070311T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:-0700',
+  'TZOFFSETTO:-0800',
+  'TZNAME:PST',
+  'DTSTART:20071104T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+export function renderCalendar({ name, events, now = new Date() }: IcsCalendar): string {
+  const stamp = utcStamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    `X-WR-TIMEZONE:${TIME_ZONE}`,
+    ...PACIFIC_VTIMEZONE,
+    ...events.flatMap((event) => renderEvent(event, stamp)),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function renderEvent(event: IcsEvent, stamp: string): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;TZID=${TIME_ZONE}:${localStamp(event.start)}`,
+    `DTEND;TZID=${TIME_ZONE}:${localStamp(event.end)}`,
+    ...(event.repeatWeeklyUntil
+      ? // UNTIL has to be in UTC; the end of the last day in Pacific time keeps evening shifts on it.
+        [`RRULE:FREQ=WEEKLY;UNTIL=${utcStamp(zonedDateTime(event.repeatWeeklyUntil, '23:59'))}`]
+      : []),
+    `SUMMARY:${escapeText(event.summary)}`,
+    ...(event.description ? [`DESCRIPTION:${escapeText(event.description)}`] : []),
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    ...(event.url ? [`URL:${event.url}`] : []),
+    ...(event.status ? [`STATUS:${event.status}`] : []),
+    'END:VEVENT',
+  ];
+}
+
+function localStamp({ date, time }: IcsDateTime): string {
+  return `${date.replace(/-/g, '')}T${time.replace(':', '')}00`;
+}
+
+function utcStamp(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+// RFC 5545 §3.3.11
+function escapeText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// RFC 5545 §3.1: lines longer than 75 octets continue on the next line after a single space.
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
@@ -0,0 +1,169 @@
+import { cancelStudentAppointments } from '@/lib/booking/repository';
+import type { Appointment } from '@/lib/booking/types';
+import { getDb, type Db } from '@/lib/db';
+import { getRestriction, restrictStudent } from '@/lib/students/repository';
+import { addDaysToDate, zonedDateTime, zonedTime } from '@/lib/time';
+import type { IncidentReport, SanctionRequest } from './schema';
+import type { Incident, IncidentCategory, IncidentNote, IncidentStatus, Sanction } from './types';
+import { INCIDENT_CATEGORY_LABELS } from './types';
+
+type IncidentRow = {
+  id: number;
+  appointment_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+  tutor_name: string;
+  student_id: number;
+  student_name: string;
+  student_email: string;
+  reported_by: string;
+  category: IncidentCategory;
+  description: string;
+  status: IncidentStatus;
+  sanction: Sanction | null;
+  restriction_id: number | null;
+  created_at: string;
+  updated_at: string;
+};
+
+type NoteRow = {
+  id: number;
+  author_name: string;
+  body: string;
+  created_at: string;
+};
+
+export type IncidentQuery = {
+  status?: IncidentStatus;
+  studentId?: number;
+  reportedBy?: number;
+};
+
+export type SanctionResult = {
+  incident: Incident;
+  cancelled: Appointment[];
+};
+
+const SELECT_INCIDENT = `
+  SELECT i.id, i.appointment_id, a.date, a.start_time, a.end_time, t.name AS tutor_name,
+         i.student_id, s.name AS student_name, s.email AS student_email, u.name AS reported_by,
+         i.category, i.description, i.status, i.sanction, i.restriction_id, i.created_at, i.updated_at
+  FROM incidents i
+  JOIN appointments a ON a.id = i.appointment_id
+  JOIN tutors t ON t.id = a.tutor_id
+  JOIN students s ON s.id = i.student_id
+  JOIN users u ON u.id = i.reported_by`;
+
+export function listIncidents({ status, studentId, reportedBy }: IncidentQuery = {}, db: Db = getDb()): Incident[] {
+  const rows = db
+    .prepare(
+      `${SELECT_INCIDENT}
+       WHERE (? IS NULL OR i.status = ?) AND (? IS NULL OR i.student_id = ?) AND (? IS NULL OR i.reported_by = ?)
+       ORDER BY i.id DESC`
+    )
+    .all(status ?? null, status ?? null, studentId ?? null, studentId ?? null, reportedBy ?? null, reportedBy ?? null) as IncidentRow[];
+  return rows.map((row) => toIncident(row, db));
+}
+
+export function getIncident(id: number, db: Db = getDb()): Incident | undefined {
+  const row = db.prepare(`${SELECT_INCIDENT} WHERE i.id = ?`).get(id) as IncidentRow | undefined;
+  return row ? toIncident(row, db) : undefined;
+}
+
+// A tutor reports each session at most once; they add to it through the coordinator.
+export function findIncident(appointmentId: string, reportedBy: number, db: Db = getDb()): Incident | undefined {
+  const row = db
+    .prepare(`${SELECT_INCIDENT} WHERE i.appointment_id = ? AND i.reported_by = ?`)
+    .get(appointmentId, reportedBy) as IncidentRow | undefined;
+  return row ? toIncident(row, db) : undefined;
+}
+
+export function fileIncident(
+  { appointmentId, category, description }: IncidentReport,
+  reportedBy: number,
+  db: Db = getDb()
+): Incident {
+  const result = db
+    .prepare(
+      `INSERT INTO incidents (appointment_id, student_id, reported_by, category, description)
+       SELECT id, student_id, ?, ?, ? FROM appointments WHERE id = ?`
+    )
+    .run(reportedBy, category, description, appointmentId);
+  return getIncident(Number(result.lastInsertRowid), db)!;
+}
+
+export function setIncidentStatus(id: number, status: IncidentStatus, db: Db = getDb()): Incident | undefined {
+  db.prepare("UPDATE incidents SET status = ?, updated_at = datetime('now') WHERE id = ?").run(status, id);
+  return getIncident(id, db);
+}
+
+export function listIncidentNotes(incidentId: number, db: Db = getDb()): IncidentNote[] {
+  const rows = db
+    .prepare(
+      `SELECT n.id, u.name AS author_name, n.body, n.created_at
+       FROM incident_notes n
+       JOIN users u ON u.id = n.author_id
+       WHERE n.incident_id = ?
+       ORDER BY n.id`
+    )
+    .all(incidentId) as NoteRow[];
+  return rows.map((row) => ({ id: row.id, authorName: row.author_name, body: row.body, createdAt: row.created_at }));
+}
+
+export function addIncidentNote(incidentId: number, authorId: number, body: string, db: Db = getDb()): IncidentNote {
+  const result = db
+    .prepare('INSERT INTO incident_notes (incident_id, author_id, body) VALUES (?, ?, ?)')
+    .run(incidentId, authorId, body);
+  db.prepare("UPDATE incidents SET updated_at = datetime('now') WHERE id = ?").run(incidentId);
+  return listIncidentNotes(incidentId, db).find((note) => note.id === Number(result.lastInsertRowid))!;
+}
+
+// Closes the incident with a sanction. Suspensions and bans become student restrictions, which is what
+// stops the student from booking or joining the drop-in line.
+export function sanctionIncident(
+  incident: Incident,
+  { sanction, days, cancelUpcoming }: SanctionRequest,
+  actorId: number,
+  now: Date = new Date(),
+  db: Db = getDb()
+): SanctionResult {
+  const apply = db.transaction(() => {
+    let restrictionId: number | null = null;
+    let cancelled: Appointment[] = [];
+    if (sanction !== 'warning') {
+      const endsAt = sanction === 'suspension' ? zonedDateTime(addDaysToDate(zonedTime(now).date, days!), '00:00') : undefined;
+      const reason = `Incident #${incident.id}: ${INCIDENT_CATEGORY_LABELS[incident.category]}`;
+      restrictionId = restrictStudent(incident.student.id, { kind: sanction, reason, endsAt }, actorId, now, db).id;
+      if (cancelUpcoming) cancelled = cancelStudentAppointments(incident.student.id, endsAt ?? null, now, db);
+    }
+    db.prepare(
+      "UPDATE incidents SET sanction = ?, restriction_id = ?, status = 'resolved', updated_at = datetime('now') WHERE id = ?"
+    ).run(sanction, restrictionId, incident.id);
+    return cancelled;
+  });
+  const cancelled = apply();
+  return { incident: getIncident(incident.id, db)!, cancelled };
+}
+
+function toIncident(row: IncidentRow, db: Db): Incident {
+  return {
+    id: row.id,
+    appointment: {
+      id: row.appointment_id,
+      date: row.date,
+      start: row.start_time,
+      end: row.end_time,
+      tutorName: row.tutor_name,
+    },
+    student: { id: row.student_id, name: row.student_name, email: row.student_email },
+    reportedBy: row.reported_by,
+    category: row.category,
+    description: row.description,
+    status: row.status,
+    sanction: row.sanction,
+    restriction: row.restriction_id ? getRestriction(row.restriction_id, db) : undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
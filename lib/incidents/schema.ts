@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { INCIDENT_CATEGORIES, INCIDENT_STATUSES, SANCTIONS } from './types';
+
+export const incidentReportSchema = z.object({
+  appointmentId: z.string().min(1).max(100),
+  category: z.enum(INCIDENT_CATEGORIES),
+  description: z.string().trim().min(1).max(4000),
+});
+
+export type IncidentReport = z.infer<typeof incidentReportSchema>;
+
+export const incidentStatusSchema = z.object({
+  status: z.enum(INCIDENT_STATUSES),
+});
+
+export const incidentNoteSchema = z.object({
+  body: z.string().trim().min(1).max(4000),
+});
+
+export const sanctionSchema = z
+  .object({
+    sanction: z.enum(SANCTIONS),
+    // Length of a suspension, counting today.
+    days: z.number().int().min(1).max(365).optional(),
+    cancelUpcoming: z.boolean().default(false),
+  })
+  .refine((request) => request.sanction !== 'suspension' || request.days, {
+    message: 'A suspension needs a number of days',
+    path: ['days'],
+  });
+
+export type SanctionRequest = z.infer<typeof sanctionSchema>;
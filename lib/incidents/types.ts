@@ -0,0 +1,49 @@
+import type { Restriction } from '@/lib/students/types';
+
+export const INCIDENT_CATEGORIES = ['disrespect', 'harassment', 'academic-integrity', 'disruption', 'other'] as const;
+
+export type IncidentCategory = (typeof INCIDENT_CATEGORIES)[number];
+
+export const INCIDENT_CATEGORY_LABELS: Record<IncidentCategory, string> = {
+  disrespect: 'Disrespectful to the tutor',
+  harassment: 'Harassment',
+  'academic-integrity': 'Asked the tutor to do graded work',
+  disruption: 'Disrupted the session',
+  other: 'Something else',
+};
+
+// open -> reviewing -> resolved or dismissed
+export const INCIDENT_STATUSES = ['open', 'reviewing', 'resolved', 'dismissed'] as const;
+
+export type IncidentStatus = (typeof INCIDENT_STATUSES)[number];
+
+// A warning is only recorded; suspensions and bans stop the student from booking.
+export const SANCTIONS = ['warning', 'suspension', 'ban'] as const;
+
+export type Sanction = (typeof SANCTIONS)[number];
+
+export type IncidentNote = {
+  id: number;
+  authorName: string;
+  body: string;
+  createdAt: string;
+};
+
+export type Incident = {
+  id: number;
+  appointment: { id: string; date: string; start: string; end: string; tutorName: string };
+  student: { id: number; name: string; email: string };
+  reportedBy: string;
+  category: IncidentCategory;
+  description: string;
+  status: IncidentStatus;
+  sanction: Sanction | null;
+  // The suspension or ban the sanction put in place, if any.
+  restriction?: Restriction;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export function isClosed(incident: Pick<Incident, 'status'>): boolean {
+  return incident.status === 'resolved' || incident.status === 'dismissed';
+}
@@ -0,0 +1,33 @@
+import { MockLLMProvider, type MockTurn } from './mock';
+import { OpenAIProvider } from './openai';
+import type { LLMProvider } from './types';
+
+export type {
+  AgentMessage,
+  CompletionRequest,
+  LLMProvider,
+  ModelTurn,
+  ToolCallRequest,
+  ToolCompletionRequest,
+  ToolSpec,
+} from './types';
+export { MockLLMProvider, type MockTurn } from './mock';
+export { OpenAIProvider } from './openai';
+
+// LLM_PROVIDER=mock|openai. Defaults to OpenAI when a key is configured, otherwise the offline mock, which plays
+// `mockScript` when asked to call tools.
+export function getLLMProvider(env: NodeJS.ProcessEnv = process.env, mockScript: MockTurn[] = []): LLMProvider {
+  const choice = env.LLM_PROVIDER ?? (env.OPENAI_API_KEY ? 'openai' : 'mock');
+
+  switch (choice) {
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        throw new Error('LLM_PROVIDER=openai requires OPENAI_API_KEY');
+      }
+      return new OpenAIProvider({ apiKey: env.OPENAI_API_KEY, model: env.OPENAI_MODEL });
+    case 'mock':
+      return new MockLLMProvider(Number(env.MOCK_LLM_DELAY_MS ?? 0), mockScript);
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${choice}"`);
+  }
+}
@@ -0,0 +1,43 @@
+import type { CompletionRequest, LLMProvider, ModelTurn, ToolCompletionRequest } from './types';
+
+// A scripted model turn, or one worked out from the conversation so far (say, to cancel the appointment an
+// earlier tool call booked).
+export type MockTurn = ModelTurn | ((request: ToolCompletionRequest) => ModelTurn);
+
+const NOTHING_TO_SAY = 'Sorry, I don’t have anything to say to that yet.';
+
+// Deterministic offline provider: streams the reference reply back word by word, so the chat flow
+// can be exercised without an API key or network access. Tool turns are played from `script` in order.
+export class MockLLMProvider implements LLMProvider {
+  readonly name = 'mock';
+  private played = 0;
+
+  constructor(
+    private readonly delayMs = 0,
+    private readonly script: MockTurn[] = []
+  ) {}
+
+  async *streamCompletion(request: CompletionRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const text = request.reference ?? NOTHING_TO_SAY;
+    for (const chunk of text.match(/\S+\s*|\s+/g) ?? []) {
+      if (signal?.aborted) return;
+      await this.pause();
+      yield chunk;
+    }
+  }
+
+  // Once the script runs out the model just answers, without calling anything.
+  async completeWithTools(request: ToolCompletionRequest): Promise<ModelTurn> {
+    await this.pause();
+    const next = this.script[this.played];
+    if (!next) return { content: NOTHING_TO_SAY, toolCalls: [] };
+    this.played++;
+    return typeof next === 'function' ? next(request) : next;
+  }
+
+  private async pause() {
+    if (this.delayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.delayMs));
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import type { AgentMessage, CompletionRequest, LLMProvider, ModelTurn, ToolCompletionRequest } from './types';
+
+type OpenAIOptions = {
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+};
+
+type ChatCompletionChunk = {
+  choices?: { delta?: { content?: string } }[];
+};
+
+type ChatCompletion = {
+  choices: {
+    message: {
+      content: string | null;
+      tool_calls?: { id: string; function: { name: string; arguments: string } }[];
+    };
+  }[];
+};
+
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai';
+  private readonly model: string;
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: OpenAIOptions) {
+    this.model = options.model ?? 'gpt-4o-mini';
+    this.baseUrl = options.baseUrl ?? 'https://api.openai.com/v1';
+  }
+
+  async *streamCompletion(request: CompletionRequest, signal?: AbortSignal): AsyncIterable<string> {
+    const system = request.reference
+      ? `${request.system}\n\nReply to the student with the following content. Keep every name, day, time and ` +
+        `confirmation number exactly as written:\n${request.reference}`
+      : request.system;
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.options.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        stream: true,
+        temperature: 0.3,
+        messages: [{ role: 'system', content: system }, ...request.messages],
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`OpenAI request failed with status ${response.status}`);
+    }
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data) continue;
+        if (data === '[DONE]') return;
+
+        const chunk = JSON.parse(data) as ChatCompletionChunk;
+        const text = chunk.choices?.[0]?.delta?.content;
+        if (text) yield text;
+      }
+    }
+  }
+
+  async completeWithTools(request: ToolCompletionRequest, signal?: AbortSignal): Promise<ModelTurn> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.options.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        temperature: 0.3,
+        messages: [{ role: 'system', content: request.system }, ...request.messages.map(toOpenAIMessage)],
+        tools: request.tools.map((tool) => ({ type: 'function', function: tool })),
+      }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI request failed with status ${response.status}`);
+    }
+
+    const { message } = ((await response.json()) as ChatCompletion).choices[0];
+    return {
+      content: message.content ?? '',
+      toolCalls: (message.tool_calls ?? []).map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: parseArguments(call.function.arguments),
+      })),
+    };
+  }
+}
+
+function toOpenAIMessage(message: AgentMessage) {
+  if (message.role === 'tool') {
+    return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+  }
+  if ('toolCalls' in message) {
+    return {
+      role: 'assistant',
+      content: message.content || null,
+      tool_calls: message.toolCalls.map((call) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    };
+  }
+  return message;
+}
+
+// Models occasionally send arguments that aren't JSON; the raw text is passed on for the tool to reject.
+function parseArguments(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
@@ -0,0 +1,45 @@
+import type { ChatMessage } from '@/lib/chat/types';
+
+export type CompletionRequest = {
+  system: string;
+  messages: ChatMessage[];
+  // Text the reply must convey. Providers may rephrase it but must not change its facts.
+  reference?: string;
+};
+
+// A tool the model may call. `parameters` is a JSON Schema object.
+export type ToolSpec = {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+};
+
+export type ToolCallRequest = {
+  id: string;
+  name: string;
+  // As the model sent them; the tool validates them.
+  arguments: unknown;
+};
+
+export type AgentMessage =
+  | ChatMessage
+  | { role: 'assistant'; content: string; toolCalls: ToolCallRequest[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string };
+
+export type ToolCompletionRequest = {
+  system: string;
+  messages: AgentMessage[];
+  tools: ToolSpec[];
+};
+
+// One model turn: either tool calls to run, or (with none) the final reply.
+export type ModelTurn = {
+  content: string;
+  toolCalls: ToolCallRequest[];
+};
+
+export interface LLMProvider {
+  readonly name: string;
+  streamCompletion(request: CompletionRequest, signal?: AbortSignal): AsyncIterable<string>;
+  completeWithTools(request: ToolCompletionRequest, signal?: AbortSignal): Promise<ModelTurn>;
+}
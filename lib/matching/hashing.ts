@@ -0,0 +1,89 @@
+import type { EmbeddingProvider } from './types';
+
+type HashingOptions = {
+  dimensions?: number;
+};
+
+const STOP_WORDS = new Set(
+  ('a an and are as at be but by can do for from get getting got have help i im in is it its me my need of on or ' +
+    'please so some that the this to understand understanding want with work working would you your')
+    .split(' ')
+);
+
+// Spellings students use for the same thing, folded together before hashing.
+const ALIASES: Record<string, string> = {
+  js: 'javascript',
+  node: 'javascript',
+  nodejs: 'javascript',
+  ts: 'typescript',
+  py: 'python',
+  cpp: 'cplusplus',
+  unix: 'linux',
+  bash: 'shell',
+  oop: 'object',
+  hw: 'homework',
+  assignments: 'assignment',
+};
+
+// Words are lowercased, stripped of a plural "s" and folded through ALIASES. "C++" and "C#" survive as words.
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/c\+\+/g, ' cplusplus ')
+    .replace(/c#/g, ' csharp ')
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+    .map((word) => ALIASES[word] ?? word)
+    .map((word) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+// Deterministic offline embeddings: TF-IDF word weights hashed into a fixed number of signed buckets.
+// Similar wording lands close together, which is enough to rank a few dozen bios without an API key.
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing';
+  private readonly dimensions: number;
+  private idf = new Map<string, number>();
+  // Weight for words the indexed documents never used: as rare as a word can be.
+  private unseenIdf = 1;
+
+  constructor(options: HashingOptions = {}) {
+    this.dimensions = options.dimensions ?? 512;
+  }
+
+  fit(documents: string[]): void {
+    const frequency = new Map<string, number>();
+    for (const document of documents) {
+      for (const word of new Set(tokenize(document))) frequency.set(word, (frequency.get(word) ?? 0) + 1);
+    }
+    const idf = (count: number) => Math.log((1 + documents.length) / (1 + count)) + 1;
+    this.idf = new Map([...frequency].map(([word, count]) => [word, idf(count)]));
+    this.unseenIdf = idf(0);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedOne(text));
+  }
+
+  private embedOne(text: string): number[] {
+    const counts = new Map<string, number>();
+    for (const word of tokenize(text)) counts.set(word, (counts.get(word) ?? 0) + 1);
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [word, count] of counts) {
+      const hash = fnv1a(word);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * (1 + Math.log(count)) * (this.idf.get(word) ?? this.unseenIdf);
+    }
+    const length = Math.hypot(...vector);
+    return length === 0 ? vector : vector.map((value) => value / length);
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
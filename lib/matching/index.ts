@@ -0,0 +1,55 @@
+import { createHash } from 'crypto';
+import { getDb, type Db } from '@/lib/db';
+import { getScheduleTerm } from '@/lib/terms';
+import { listTutors } from '@/lib/tutors/repository';
+import { HashingEmbeddingProvider } from './hashing';
+import { tutorDocument, TutorIndex } from './matcher';
+import { OpenAIEmbeddingProvider } from './openai';
+import type { EmbeddingProvider, MatchQuery, MatchResult } from './types';
+
+export type { EmbeddingProvider, MatchQuery, MatchResult, TutorMatch, VectorStore } from './types';
+export { HashingEmbeddingProvider, tokenize } from './hashing';
+export { TutorIndex, tutorDocument } from './matcher';
+export { OpenAIEmbeddingProvider } from './openai';
+export { MemoryVectorStore } from './store';
+
+// Embedding every tutor is the slow part with a remote provider, so the index is kept per process and
+// rebuilt only when a tutor's profile, courses or the term change. Availability is read fresh for every match.
+const globalForIndex = globalThis as typeof globalThis & { __ccsfMatchIndex?: { key: string; index: Promise<TutorIndex> } };
+
+// EMBEDDING_PROVIDER=hashing|openai. Defaults to the local hashing embedder, which needs no API key.
+export function getEmbeddingProvider(env: NodeJS.ProcessEnv = process.env): EmbeddingProvider {
+  const choice = env.EMBEDDING_PROVIDER ?? 'hashing';
+
+  switch (choice) {
+    case 'hashing':
+      return new HashingEmbeddingProvider();
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        throw new Error('EMBEDDING_PROVIDER=openai requires OPENAI_API_KEY');
+      }
+      return new OpenAIEmbeddingProvider({ apiKey: env.OPENAI_API_KEY, model: env.OPENAI_EMBEDDING_MODEL });
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${choice}"`);
+  }
+}
+
+// Ranks this term's tutors for a student's need.
+export async function matchTutors(query: MatchQuery, now: Date = new Date(), db: Db = getDb()): Promise<MatchResult> {
+  const termId = getScheduleTerm(now).id;
+  const tutors = listTutors(termId, db);
+  const provider = getEmbeddingProvider();
+  const key = createHash('sha256')
+    .update(JSON.stringify([provider.name, termId, tutors.map((tutor) => [tutor.id, tutorDocument(tutor)])]))
+    .digest('hex');
+
+  if (globalForIndex.__ccsfMatchIndex?.key !== key) {
+    const index = TutorIndex.build(tutors, provider);
+    // A failed build (say, the embedding API is down) shouldn't stick around for the next request.
+    index.catch(() => {
+      if (globalForIndex.__ccsfMatchIndex?.index === index) globalForIndex.__ccsfMatchIndex = undefined;
+    });
+    globalForIndex.__ccsfMatchIndex = { key, index };
+  }
+  return (await globalForIndex.__ccsfMatchIndex.index).match(query, tutors, now);
+}
@@ -0,0 +1,115 @@
+import { extractDay, extractSkills } from '@/lib/chat/parse';
+import { parseTime, type Weekday } from '@/lib/time';
+import { COURSE_CODES, COURSES, type Course, type Modality, type Tutor } from '@/lib/tutors/types';
+import { MemoryVectorStore } from './store';
+import type { EmbeddingProvider, MatchQuery, MatchResult, MatchScores, TutorMatch, VectorStore } from './types';
+
+// How much each part counts toward a tutor's score. Parts the student didn't ask about are left out.
+const WEIGHTS = { semantic: 0.5, skills: 0.3, availability: 0.2 };
+
+const DEFAULT_LIMIT = 5;
+
+// Only clock times count ("2pm", "14:30"); a bare number in a question is more likely a chapter than an hour.
+const CLOCK_TIME = /\b\d{1,2}(?::\d{2})?\s*(?:am|pm|a\.m\.|p\.m\.)|\b\d{1,2}:\d{2}\b/i;
+
+type Wanted = {
+  courses: Course[];
+  languages: Tutor['languages'];
+  day: Weekday | null;
+  time: string | null;
+  modality: Modality | null;
+};
+
+// What a tutor is indexed by: their bio plus the courses and languages they cover, spelled out.
+export function tutorDocument(tutor: Tutor): string {
+  const courses = tutor.courses.map((code) => `CS ${code} ${COURSES.find((course) => course.code === code)?.title ?? ''}`);
+  return [tutor.bio, ...courses, ...tutor.languages].join('\n');
+}
+
+// The tutors of one term, embedded once and ranked against any number of student needs. Only the vectors are
+// kept: each match is scored against the tutors as they are now, so schedule edits count straight away.
+export class TutorIndex {
+  private constructor(
+    private readonly provider: EmbeddingProvider,
+    private readonly store: VectorStore
+  ) {}
+
+  static async build(tutors: Tutor[], provider: EmbeddingProvider, store: VectorStore = new MemoryVectorStore()) {
+    const documents = tutors.map(tutorDocument);
+    provider.fit?.(documents);
+    const vectors = await provider.embed(documents);
+    tutors.forEach((tutor, i) => store.upsert(tutor.id, vectors[i]));
+    return new TutorIndex(provider, store);
+  }
+
+  // `tutors` should be the ones the index was built from, with their current availability.
+  async match(query: MatchQuery, tutors: Tutor[], now: Date = new Date(), signal?: AbortSignal): Promise<MatchResult> {
+    const wanted = readWanted(query, now);
+    const [vector] = await this.provider.embed([query.need], signal);
+    const similarities = new Map(this.store.query(vector, this.store.size).map((match) => [match.id, match.similarity]));
+
+    const matches = tutors
+      .map((tutor) => scoreTutor(tutor, Math.max(similarities.get(tutor.id) ?? 0, 0), wanted))
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score || b.scores.semantic - a.scores.semantic || a.tutor.name.localeCompare(b.tutor.name))
+      .slice(0, query.limit ?? DEFAULT_LIMIT);
+
+    return {
+      provider: this.provider.name,
+      wanted: {
+        skills: [...wanted.courses.map((course) => `CS ${course}`), ...wanted.languages],
+        day: wanted.day,
+        time: wanted.time,
+        modality: wanted.modality,
+      },
+      matches,
+    };
+  }
+}
+
+function readWanted(query: MatchQuery, now: Date): Wanted {
+  const mentionedCourses = COURSE_CODES.filter((code) => new RegExp(`\\b${code}\\b`, 'i').test(query.need));
+  const clockTime = query.need.match(CLOCK_TIME)?.[0];
+  return {
+    courses: [...new Set([...(query.course ? [query.course] : []), ...mentionedCourses])],
+    languages: [...new Set([...(query.language ? [query.language] : []), ...extractSkills(query.need)])],
+    day: query.day ?? extractDay(query.need, now) ?? null,
+    time: query.time ?? (clockTime ? parseTime(clockTime) : undefined) ?? null,
+    modality: query.modality ?? null,
+  };
+}
+
+function scoreTutor(tutor: Tutor, semantic: number, wanted: Wanted): TutorMatch {
+  const matchedSkills = [
+    ...wanted.courses.filter((course) => tutor.courses.includes(course)).map((course) => `CS ${course}`),
+    ...wanted.languages.filter((language) => tutor.languages.includes(language)),
+  ];
+  const wantedCount = wanted.courses.length + wanted.languages.length;
+  const scores: MatchScores = {
+    semantic,
+    skills: wantedCount === 0 ? null : matchedSkills.length / wantedCount,
+    availability: availabilityFit(tutor, wanted),
+  };
+
+  let total = 0;
+  let weight = 0;
+  for (const part of ['semantic', 'skills', 'availability'] as const) {
+    const value = scores[part];
+    if (value === null) continue;
+    total += WEIGHTS[part] * value;
+    weight += WEIGHTS[part];
+  }
+  return { tutor, score: total / weight, scores, matchedSkills };
+}
+
+// 1 when a shift covers the requested day, time and modality; half credit for the right day at another time.
+function availabilityFit(tutor: Tutor, { day, time, modality }: Wanted): number | null {
+  if (!day && !time && !modality) return null;
+
+  const shifts = tutor.availability.filter(
+    (shift) => (!modality || shift.modality === modality) && (!day || shift.day === day)
+  );
+  if (!time) return shifts.length > 0 ? 1 : 0;
+  if (shifts.some((shift) => shift.start <= time && time < shift.end)) return 1;
+  return day && shifts.length > 0 ? 0.5 : 0;
+}
@@ -0,0 +1,43 @@
+import type { EmbeddingProvider } from './types';
+
+type OpenAIEmbeddingOptions = {
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+};
+
+type EmbeddingResponse = {
+  data: { index: number; embedding: number[] }[];
+};
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  private readonly model: string;
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: OpenAIEmbeddingOptions) {
+    this.model = options.model ?? 'text-embedding-3-small';
+    this.baseUrl = options.baseUrl ?? 'https://api.openai.com/v1';
+  }
+
+  async embed(texts: string[], signal?: AbortSignal): Promise<number[][]> {
+    if (texts.length === 0) return [];
+
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.options.apiKey}`,
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI embedding request failed with status ${response.status}`);
+    }
+
+    const { data } = (await response.json()) as EmbeddingResponse;
+    return data.sort((a, b) => a.index - b.index).map((item) => item.embedding);
+  }
+}
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { WEEKDAYS } from '@/lib/time';
+import { COURSE_CODES, LANGUAGES, MODALITIES, type Course } from '@/lib/tutors/types';
+
+export const matchRequestSchema = z.object({
+  need: z.string().trim().min(1).max(1000),
+  course: z.enum(COURSE_CODES as [Course, ...Course[]]).optional(),
+  language: z.enum(LANGUAGES).optional(),
+  day: z.enum(WEEKDAYS).optional(),
+  time: z
+    .string()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a 24h HH:MM time')
+    .optional(),
+  modality: z.enum(MODALITIES).optional(),
+  limit: z.number().int().min(1).max(20).optional(),
+});
@@ -0,0 +1,38 @@
+import type { VectorMatch, VectorStore } from './types';
+
+// A brute-force cosine index. The squad has a few dozen tutors, so scanning every vector is instant.
+export class MemoryVectorStore implements VectorStore {
+  private readonly vectors = new Map<string, { vector: number[]; norm: number }>();
+
+  get size(): number {
+    return this.vectors.size;
+  }
+
+  upsert(id: string, vector: number[]): void {
+    this.vectors.set(id, { vector, norm: norm(vector) });
+  }
+
+  remove(id: string): void {
+    this.vectors.delete(id);
+  }
+
+  query(vector: number[], limit: number): VectorMatch[] {
+    const queryNorm = norm(vector);
+    const matches: VectorMatch[] = [];
+    for (const [id, entry] of this.vectors) {
+      const denominator = queryNorm * entry.norm;
+      matches.push({ id, similarity: denominator === 0 ? 0 : dot(vector, entry.vector) / denominator });
+    }
+    return matches.sort((a, b) => b.similarity - a.similarity || a.id.localeCompare(b.id)).slice(0, limit);
+  }
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function norm(vector: number[]): number {
+  return Math.sqrt(dot(vector, vector));
+}
@@ -0,0 +1,56 @@
+import type { Weekday } from '@/lib/time';
+import type { Course, Language, Modality, Tutor } from '@/lib/tutors/types';
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  // Providers that weight words by how rare they are learn that from the indexed documents here.
+  fit?(documents: string[]): void;
+  embed(texts: string[], signal?: AbortSignal): Promise<number[][]>;
+}
+
+export type VectorMatch = {
+  id: string;
+  // Cosine similarity, from -1 to 1.
+  similarity: number;
+};
+
+// Where tutor embeddings are kept between requests.
+export interface VectorStore {
+  readonly size: number;
+  upsert(id: string, vector: number[]): void;
+  remove(id: string): void;
+  query(vector: number[], limit: number): VectorMatch[];
+}
+
+export type MatchQuery = {
+  // What the student needs help with, in their own words.
+  need: string;
+  course?: Course;
+  language?: Language;
+  day?: Weekday;
+  time?: string;
+  modality?: Modality;
+  limit?: number;
+};
+
+// Each part is from 0 to 1. `skills` and `availability` are null when the student didn't ask for any.
+export type MatchScores = {
+  semantic: number;
+  skills: number | null;
+  availability: number | null;
+};
+
+export type TutorMatch = {
+  tutor: Tutor;
+  score: number;
+  scores: MatchScores;
+  // The requested courses and languages this tutor covers.
+  matchedSkills: string[];
+};
+
+export type MatchResult = {
+  provider: string;
+  // What was read from the request and its text, so the UI can show why tutors were picked.
+  wanted: { skills: string[]; day: Weekday | null; time: string | null; modality: Modality | null };
+  matches: TutorMatch[];
+};
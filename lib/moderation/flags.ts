@@ -0,0 +1,115 @@
+import { getDb, type Db } from '@/lib/db';
+import type { ChatFlag, FlaggedConversation, ModerationCategory } from './types';
+
+type ChatFlagRow = {
+  id: number;
+  session_id: string;
+  student_email: string | null;
+  address: string | null;
+  category: ModerationCategory;
+  classifier: string;
+  reasons: string;
+  message: string;
+  created_at: string;
+  reviewed_at: string | null;
+  reviewer_name: string | null;
+};
+
+export type FlagQuery = {
+  reviewed?: boolean;
+  limit?: number;
+};
+
+const SELECT_FLAG = `
+  SELECT f.id, f.session_id, f.student_email, f.address, f.category, f.classifier, f.reasons, f.message, f.created_at,
+         f.reviewed_at, u.name AS reviewer_name
+  FROM chat_flags f
+  LEFT JOIN users u ON u.id = f.reviewed_by`;
+
+export function recordChatFlag(flag: Omit<ChatFlag, 'id'>, db: Db = getDb()): ChatFlag {
+  const { lastInsertRowid } = db
+    .prepare(
+      `INSERT INTO chat_flags (session_id, student_email, address, category, classifier, reasons, message, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    )
+    .run(
+      flag.sessionId,
+      flag.studentEmail,
+      flag.address,
+      flag.category,
+      flag.classifier,
+      JSON.stringify(flag.reasons),
+      flag.message,
+      flag.createdAt
+    );
+  return { ...flag, id: Number(lastInsertRowid) };
+}
+
+export function countChatFlags(sessionId: string, db: Db = getDb()): number {
+  const row = db.prepare('SELECT COUNT(*) AS count FROM chat_flags WHERE session_id = ?').get(sessionId) as { count: number };
+  return row.count;
+}
+
+// Flags raised since `since` by this student or from this address, in any conversation.
+export function countRecentChatFlags(
+  { studentEmail, address }: { studentEmail?: string; address?: string },
+  since: Date,
+  db: Db = getDb()
+): number {
+  if (!studentEmail && !address) return 0;
+  const row = db
+    .prepare(
+      `SELECT COUNT(*) AS count FROM chat_flags
+       WHERE (student_email = ? COLLATE NOCASE OR address = ?) AND created_at >= ?`
+    )
+    .get(studentEmail ?? null, address ?? null, since.toISOString()) as { count: number };
+  return row.count;
+}
+
+// Newest first. A conversation counts as reviewed once every flag in it has been.
+export function listFlaggedConversations({ reviewed, limit = 100 }: FlagQuery = {}, db: Db = getDb()): FlaggedConversation[] {
+  const having = reviewed === undefined ? '' : `HAVING (COUNT(reviewed_at) = COUNT(*)) = ${reviewed ? 1 : 0}`;
+  const sessions = db
+    .prepare(`SELECT session_id FROM chat_flags GROUP BY session_id ${having} ORDER BY MAX(created_at) DESC LIMIT ?`)
+    .all(limit) as { session_id: string }[];
+  return sessions.map((row) => getFlaggedConversation(row.session_id, db)!);
+}
+
+export function getFlaggedConversation(sessionId: string, db: Db = getDb()): FlaggedConversation | undefined {
+  const rows = db.prepare(`${SELECT_FLAG} WHERE f.session_id = ? ORDER BY f.id`).all(sessionId) as ChatFlagRow[];
+  if (rows.length === 0) return undefined;
+
+  const last = rows[rows.length - 1];
+  const reviewed = rows.every((row) => row.reviewed_at);
+  return {
+    sessionId,
+    studentEmail: rows.findLast((row) => row.student_email)?.student_email ?? null,
+    categories: [...new Set(rows.map((row) => row.category))],
+    flags: rows.map(toChatFlag),
+    firstFlaggedAt: rows[0].created_at,
+    lastFlaggedAt: last.created_at,
+    reviewedAt: reviewed ? last.reviewed_at : null,
+    reviewedBy: reviewed ? last.reviewer_name : null,
+  };
+}
+
+// Stamps the conversation's unreviewed flags. Returns how many there were.
+export function markConversationReviewed(sessionId: string, reviewerId: number, now: Date = new Date(), db: Db = getDb()): number {
+  return db
+    .prepare('UPDATE chat_flags SET reviewed_at = ?, reviewed_by = ? WHERE session_id = ? AND reviewed_at IS NULL')
+    .run(now.toISOString(), reviewerId, sessionId).changes;
+}
+
+function toChatFlag(row: ChatFlagRow): ChatFlag {
+  return {
+    id: row.id,
+    sessionId: row.session_id,
+    studentEmail: row.student_email,
+    address: row.address,
+    category: row.category,
+    classifier: row.classifier,
+    reasons: JSON.parse(row.reasons),
+    message: row.message,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,107 @@
+import { countChatFlags, countRecentChatFlags, recordChatFlag } from './flags';
+import { OpenAIModerationClassifier } from './openai';
+import { CHAT_RATE_LIMITS, SlidingWindowRateLimiter } from './rate-limit';
+import { RuleBasedClassifier } from './rules';
+import { conversationClosed, refusalFor } from './templates';
+import type { ModerationCategory, ModerationClassifier } from './types';
+
+export type { ChatFlag, FlaggedConversation, ModerationCategory, ModerationClassifier, ModerationVerdict } from './types';
+export { MODERATION_CATEGORIES, MODERATION_CATEGORY_LABELS } from './types';
+export { countChatFlags, countRecentChatFlags, getFlaggedConversation, listFlaggedConversations, markConversationReviewed } from './flags';
+export { clientAddress, CHAT_RATE_LIMITS, SlidingWindowRateLimiter, type RateLimit } from './rate-limit';
+export { RuleBasedClassifier } from './rules';
+export { OpenAIModerationClassifier } from './openai';
+export { codeOfConductUrl, conversationClosed, refusalFor } from './templates';
+
+// A conversation is closed after this many flagged messages. A student or address that reaches it across
+// conversations can't chat for CLOSED_FOR_MS, so starting over doesn't reopen the chat.
+export const MAX_FLAGS_PER_CONVERSATION = 3;
+export const CLOSED_FOR_MS = 24 * 60 * 60_000;
+
+export type ModerationDecision =
+  | { allowed: true }
+  | { allowed: false; category: ModerationCategory | 'closed'; reply: string };
+
+type ModerationContext = {
+  sessionId: string;
+  studentEmail?: string;
+  address?: string;
+  now?: Date;
+  signal?: AbortSignal;
+};
+
+// Shared per process on globalThis, like the chat session store, so counts survive dev server reloads.
+const globalForModeration = globalThis as typeof globalThis & { __ccsfChatRateLimiter?: SlidingWindowRateLimiter };
+
+// MODERATION_CLASSIFIER=rules|openai. The rules always run first; `openai` adds OpenAI's moderation model
+// after them for abuse the patterns miss.
+export function getModerationClassifiers(env: NodeJS.ProcessEnv = process.env): ModerationClassifier[] {
+  const choice = env.MODERATION_CLASSIFIER ?? 'rules';
+
+  switch (choice) {
+    case 'rules':
+      return [new RuleBasedClassifier()];
+    case 'openai':
+      if (!env.OPENAI_API_KEY) {
+        throw new Error('MODERATION_CLASSIFIER=openai requires OPENAI_API_KEY');
+      }
+      return [new RuleBasedClassifier(), new OpenAIModerationClassifier({ apiKey: env.OPENAI_API_KEY })];
+    default:
+      throw new Error(`Unknown MODERATION_CLASSIFIER "${choice}"`);
+  }
+}
+
+// Counts a chat message against the address's limit and the student's, or the address's anonymous limit
+// before the student has given an email. Returns null, or the seconds to wait.
+export function checkChatRateLimit(
+  { student, address = 'unknown' }: { student?: string; address?: string },
+  now: Date = new Date()
+): number | null {
+  globalForModeration.__ccsfChatRateLimiter ??= new SlidingWindowRateLimiter();
+  const limiter = globalForModeration.__ccsfChatRateLimiter;
+  return (
+    limiter.hit(`address:${address}`, CHAT_RATE_LIMITS.address, now) ??
+    (student
+      ? limiter.hit(`student:${student.toLowerCase()}`, CHAT_RATE_LIMITS.student, now)
+      : limiter.hit(`anonymous:${address}`, CHAT_RATE_LIMITS.anonymous, now))
+  );
+}
+
+// Runs a student's message past the classifiers before the assistant sees it. A flagged message is logged for
+// review and answered with a refusal; a classifier that fails is skipped rather than blocking the chat.
+export async function moderateChatMessage(
+  message: string,
+  { sessionId, studentEmail, address, now = new Date(), signal }: ModerationContext,
+  classifiers: ModerationClassifier[] = getModerationClassifiers()
+): Promise<ModerationDecision> {
+  if (
+    countChatFlags(sessionId) >= MAX_FLAGS_PER_CONVERSATION ||
+    countRecentChatFlags({ studentEmail, address }, new Date(now.getTime() - CLOSED_FOR_MS)) >= MAX_FLAGS_PER_CONVERSATION
+  ) {
+    return { allowed: false, category: 'closed', reply: conversationClosed() };
+  }
+
+  for (const classifier of classifiers) {
+    let verdict;
+    try {
+      verdict = await classifier.classify(message, signal);
+    } catch (error) {
+      console.error(`Moderation classifier "${classifier.name}" failed`, error);
+      continue;
+    }
+    if (!verdict.flagged) continue;
+
+    recordChatFlag({
+      sessionId,
+      studentEmail: studentEmail ?? null,
+      address: address ?? null,
+      category: verdict.category,
+      classifier: classifier.name,
+      reasons: verdict.reasons,
+      message,
+      createdAt: now.toISOString(),
+    });
+    return { allowed: false, category: verdict.category, reply: refusalFor(verdict.category) };
+  }
+  return { allowed: true };
+}
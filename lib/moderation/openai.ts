@@ -0,0 +1,47 @@
+import type { ModerationClassifier, ModerationVerdict } from './types';
+
+type OpenAIModerationOptions = {
+  apiKey: string;
+  model?: string;
+  baseUrl?: string;
+};
+
+type ModerationResponse = {
+  results: { flagged: boolean; categories: Record<string, boolean> }[];
+};
+
+// OpenAI's categories that count as abuse here. Self-harm is left out on purpose: a student in distress
+// shouldn't get a conduct warning.
+const ABUSE_CATEGORIES = ['harassment', 'harassment/threatening', 'hate', 'hate/threatening', 'violence', 'sexual'];
+
+// OpenAI's moderation model. It only knows about abuse, so it runs after the rules rather than instead of them.
+export class OpenAIModerationClassifier implements ModerationClassifier {
+  readonly name = 'openai';
+  private readonly model: string;
+  private readonly baseUrl: string;
+
+  constructor(private readonly options: OpenAIModerationOptions) {
+    this.model = options.model ?? 'omni-moderation-latest';
+    this.baseUrl = options.baseUrl ?? 'https://api.openai.com/v1';
+  }
+
+  async classify(text: string, signal?: AbortSignal): Promise<ModerationVerdict> {
+    const response = await fetch(`${this.baseUrl}/moderations`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.options.apiKey}`,
+      },
+      body: JSON.stringify({ model: this.model, input: text }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`OpenAI moderation request failed with status ${response.status}`);
+    }
+
+    const [result] = ((await response.json()) as ModerationResponse).results;
+    const reasons = ABUSE_CATEGORIES.filter((category) => result?.categories[category]);
+    return reasons.length > 0 ? { flagged: true, category: 'abuse', reasons } : { flagged: false };
+  }
+}
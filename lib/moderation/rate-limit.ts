@@ -0,0 +1,62 @@
+export type RateLimit = {
+  limit: number;
+  windowMs: number;
+};
+
+// How many chat messages one student, or one network address, may send. Messages sent before the student has
+// given an email can't be told apart by conversation, which costs nothing to start, so they're counted per
+// address. Campus labs share addresses, so those limits are higher.
+export const CHAT_RATE_LIMITS = {
+  student: { limit: 30, windowMs: 10 * 60_000 },
+  anonymous: { limit: 60, windowMs: 10 * 60_000 },
+  address: { limit: 120, windowMs: 10 * 60_000 },
+} satisfies Record<string, RateLimit>;
+
+// Keys are dropped once their hits have aged out, checked at most this often.
+const SWEEP_INTERVAL_MS = 60_000;
+
+// Counts hits per key over a sliding window, in memory. Each server process keeps its own counts.
+export class SlidingWindowRateLimiter {
+  private hits = new Map<string, number[]>();
+  private lastSweep = 0;
+
+  // Records a hit and returns null, or returns how many seconds to wait when the key is over its limit.
+  hit(key: string, { limit, windowMs }: RateLimit, now: Date = new Date()): number | null {
+    const time = now.getTime();
+    this.sweep(time, windowMs);
+
+    const recent = (this.hits.get(key) ?? []).filter((at) => at > time - windowMs);
+    if (recent.length >= limit) {
+      this.hits.set(key, recent);
+      return Math.max(1, Math.ceil((recent[0] + windowMs - time) / 1000));
+    }
+    recent.push(time);
+    this.hits.set(key, recent);
+    return null;
+  }
+
+  private sweep(time: number, windowMs: number) {
+    if (time - this.lastSweep < SWEEP_INTERVAL_MS) return;
+    this.lastSweep = time;
+    for (const [key, hits] of this.hits) {
+      if (hits[hits.length - 1] <= time - windowMs) this.hits.delete(key);
+    }
+  }
+}
+
+// The client's address as the proxies in front of the app report it. Each proxy appends the address it was
+// reached from to X-Forwarded-For, and the client can send any entries it likes before those, so only the
+// entry added by the outermost of our TRUSTED_PROXY_HOPS proxies (default 1) counts. With 0 the header is
+// ignored and the address is unknown.
+export function clientAddress(request: Request, env: NodeJS.ProcessEnv = process.env): string | undefined {
+  const hops = Number(env.TRUSTED_PROXY_HOPS ?? 1);
+  if (!Number.isInteger(hops) || hops < 0) {
+    throw new Error(`Invalid TRUSTED_PROXY_HOPS "${env.TRUSTED_PROXY_HOPS}"`);
+  }
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (hops === 0 || forwarded.length === 0) return undefined;
+  return forwarded[Math.max(0, forwarded.length - hops)];
+}
@@ -0,0 +1,90 @@
+import type { ModerationCategory, ModerationClassifier, ModerationVerdict } from './types';
+
+type Rule = { id: string; category: ModerationCategory; pattern: RegExp };
+
+const GRADED_WORK = '(homework|hw|assignment|essay|lab|project|exam|quiz|test|midterm|final|problem set)';
+
+// Checked in order; the first category with a match wins. Plain swearing about a hard assignment isn't abuse,
+// so only insults and threats aimed at someone are. Likewise asking for help finishing work is what the chat is
+// for, so only asking someone else to do it is academic dishonesty, and only telling the assistant to drop its
+// own instructions is prompt injection.
+const RULES: Rule[] = [
+  {
+    id: 'ignore-instructions',
+    category: 'prompt-injection',
+    pattern:
+      /\b(ignore|disregard|forget|override)\b.{0,20}\b(previous|prior|above|earlier|your|system|assistant'?s?|bot'?s?)\b.{0,20}\b(instructions?|rules|prompts?|directions|guidelines)\b(?! (of|for)\b)/i,
+  },
+  {
+    id: 'prompt-probe',
+    category: 'prompt-injection',
+    pattern: /\b(system prompt|(reveal|show|print|repeat)\b.{0,20}\b(your|the) (instructions|prompt)|developer mode)\b/i,
+  },
+  {
+    id: 'persona-override',
+    category: 'prompt-injection',
+    pattern: /\b(you are now|from now on,? you|pretend (to be|you are|you're)|act as (an?|my) (?!tutor)|roleplay as)\b/i,
+  },
+  { id: 'jailbreak', category: 'prompt-injection', pattern: /\b(jailbreak|DAN mode|do anything now)\b/i },
+  {
+    id: 'role-markup',
+    category: 'prompt-injection',
+    pattern: /<\/?\s*(system|assistant|tool)\s*>|\[\/?INST\]|<\|im_(start|end)\|>|^\s*(system|assistant)\s*:/im,
+  },
+  {
+    id: 'directed-insult',
+    category: 'abuse',
+    pattern:
+      /\b(fuck (you|off|this bot)|stfu|go to hell|you(?:'re| are|r)? (an? )?(fucking |stupid |useless )*(idiot|moron|stupid|useless|dumb|worthless|bitch|asshole|piece of shit))\b/i,
+  },
+  {
+    id: 'threat',
+    category: 'abuse',
+    pattern:
+      /\b(kill yourself|kys)\b|\b(i(?:'ll| will|'m going to| am going to)|gonna) (kill|hurt|beat up) (you|them|him|her|the tutors?)\b/i,
+  },
+  {
+    id: 'do-it-for-me',
+    category: 'academic-dishonesty',
+    pattern: new RegExp(
+      `\\b(do|write|finish|complete|solve)\\b.{0,25}\\b${GRADED_WORK}s?\\b.{0,25}\\b(for me|instead of me)\\b`,
+      'i'
+    ),
+  },
+  {
+    id: 'do-my-work',
+    category: 'academic-dishonesty',
+    pattern: new RegExp(
+      `\\b((can|could|will|would) (you|someone|a tutor) (just )?|(want|need) (you|someone|a tutor) to |^\\s*(just |please )?)` +
+        `(do|write|finish|complete|solve) (my|this) ${GRADED_WORK}s?\\b`,
+      'i'
+    ),
+  },
+  {
+    id: 'give-me-answers',
+    category: 'academic-dishonesty',
+    // Asking to see answers to check against is fine.
+    pattern: new RegExp(
+      `\\b(give|send|tell|show) me\\b.{0,10}\\b(answers?|solutions?)\\b.{0,10}\\b(to|for) (my|this) ${GRADED_WORK}\\b(?!.{0,40}\\b(check|got wrong|missed)\\b)`,
+      'i'
+    ),
+  },
+  {
+    id: 'take-exam',
+    category: 'academic-dishonesty',
+    pattern: /\b(take|sit|do)\b.{0,10}\b(my|the) (exam|quiz|test|midterm|final)\b.{0,10}\bfor me\b/i,
+  },
+];
+
+// Fast, offline and predictable: regular expressions for the attempts the chat sees most often.
+export class RuleBasedClassifier implements ModerationClassifier {
+  readonly name = 'rules';
+
+  async classify(text: string): Promise<ModerationVerdict> {
+    const matched = RULES.filter((rule) => rule.pattern.test(text));
+    if (matched.length === 0) return { flagged: false };
+
+    const { category } = matched[0];
+    return { flagged: true, category, reasons: matched.filter((rule) => rule.category === category).map((rule) => rule.id) };
+  }
+}
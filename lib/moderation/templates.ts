@@ -0,0 +1,50 @@
+import { parseRuleBody, type RulesVersion } from '@/lib/rules/types';
+import { getCurrentRules } from '@/lib/rules/versions';
+import type { ModerationCategory } from './types';
+
+// Used when the published rules no longer link to it.
+const CODE_OF_CONDUCT_URL = 'https://www.ccsf.edu/about-ccsf/administration/student-affairs/student-conduct-and-discipline';
+
+// The Student Code of Conduct link from the "code-of-conduct" rule, the same one the Rules page shows.
+export function codeOfConductUrl(rules: RulesVersion = getCurrentRules()): string {
+  const rule = rules.rules.find((entry) => entry.slug === 'code-of-conduct');
+  return (rule && parseRuleBody(rule.body).find((span) => span.href)?.href) ?? CODE_OF_CONDUCT_URL;
+}
+
+// What the assistant says instead of answering a flagged message.
+export function refusalFor(category: ModerationCategory, rules: RulesVersion = getCurrentRules()): string {
+  const conduct = codeOfConductUrl(rules);
+  switch (category) {
+    case 'prompt-injection':
+      return (
+        'I can only help with Tutor Squad things: finding a tutor, booking or cancelling a Zoom session, and pointing ' +
+        'you to study resources. I can’t change how I work or share how I’m set up. What would you like help with?'
+      );
+    case 'abuse':
+      return (
+        `Please keep this chat respectful. Everyone who uses the Tutor Squad, this chat included, agrees to follow the ` +
+        `CCSF Student Code of Conduct (${conduct}) and to be kind to the tutors (${ruleLink(rules, 'be-kind')}). ` +
+        'I’m glad to help you book a session when you’re ready.'
+      );
+    case 'academic-dishonesty':
+      return (
+        `Tutors can’t do your work for you; handing in work that isn’t yours goes against the CCSF Student Code of ` +
+        `Conduct (${conduct}). What they can do is help you understand the problem and get unstuck. Bring what you’ve ` +
+        `tried so far (${ruleLink(rules, 'attempt-first')}) and I’ll book you a session. Which language is it in?`
+      );
+  }
+}
+
+// Once a conversation has been flagged too often, every further message gets this.
+export function conversationClosed(rules: RulesVersion = getCurrentRules()): string {
+  return (
+    'This conversation has been closed because of repeated messages that go against the CCSF Student Code of ' +
+    `Conduct (${codeOfConductUrl(rules)}). The Tutor Squad coordinator has been notified. You can still book ` +
+    'a session from the schedule.'
+  );
+}
+
+// Rule slugs double as anchors on the Rules page.
+function ruleLink(rules: RulesVersion, slug: string): string {
+  return rules.rules.some((rule) => rule.slug === slug) ? `/rules#${slug}` : '/rules';
+}
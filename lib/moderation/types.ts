@@ -0,0 +1,43 @@
+// What the moderation pipeline stops before a message reaches the assistant.
+export const MODERATION_CATEGORIES = ['prompt-injection', 'abuse', 'academic-dishonesty'] as const;
+
+export type ModerationCategory = (typeof MODERATION_CATEGORIES)[number];
+
+export const MODERATION_CATEGORY_LABELS: Record<ModerationCategory, string> = {
+  'prompt-injection': 'Prompt injection',
+  abuse: 'Abusive language',
+  'academic-dishonesty': 'Academic dishonesty',
+};
+
+// `reasons` say which rules (or model categories) matched, for the coordinator reading the flag.
+export type ModerationVerdict = { flagged: false } | { flagged: true; category: ModerationCategory; reasons: string[] };
+
+export interface ModerationClassifier {
+  readonly name: string;
+  classify(text: string, signal?: AbortSignal): Promise<ModerationVerdict>;
+}
+
+export type ChatFlag = {
+  id: number;
+  sessionId: string;
+  studentEmail: string | null;
+  // The client address the message came from, when known.
+  address: string | null;
+  category: ModerationCategory;
+  classifier: string;
+  reasons: string[];
+  message: string;
+  createdAt: string;
+};
+
+// All the flags raised in one conversation, which is what a coordinator reviews.
+export type FlaggedConversation = {
+  sessionId: string;
+  studentEmail: string | null;
+  categories: ModerationCategory[];
+  flags: ChatFlag[];
+  firstFlaggedAt: string;
+  lastFlaggedAt: string;
+  reviewedAt: string | null;
+  reviewedBy: string | null;
+};
@@ -0,0 +1,118 @@
+import { getDb, type Db } from '@/lib/db';
+import { getAppointment } from '@/lib/booking/repository';
+import { feedbackPath, managementPath } from '@/lib/booking/tokens';
+import type { Appointment } from '@/lib/booking/types';
+import { siteUrl } from '@/lib/site';
+import { getTerm } from '@/lib/terms';
+import { addDaysToDate, parseSqlTimestamp, zonedDateTime, zonedTime } from '@/lib/time';
+import { getEmailTransport } from './index';
+import { renderTemplate, type RenderedEmail, type TemplateName } from './templates';
+import type { EmailTransport } from './types';
+
+type NotifyOptions = {
+  db?: Db;
+  transport?: EmailTransport;
+};
+
+// Everything here is about one appointment; waitlist offers and study groups have their own senders.
+type AppointmentTemplate = Exclude<TemplateName, 'waitlist-offer' | 'study-group-reminder'>;
+
+export type ReminderRun = {
+  sent: number;
+  failed: number;
+};
+
+// Closest reminder first: inside the last hour only the 1h reminder goes out.
+const REMINDERS: { template: Extract<TemplateName, 'reminder-1h' | 'reminder-24h'>; leadMinutes: number }[] = [
+  { template: 'reminder-1h', leadMinutes: 60 },
+  { template: 'reminder-24h', leadMinutes: 24 * 60 },
+];
+
+// Email problems are logged rather than thrown: a booking or cancellation has already happened by the
+// time these run, and a failed send shouldn't undo it.
+export async function sendBookingConfirmation(appointment: Appointment, options: NotifyOptions = {}): Promise<boolean> {
+  return sendLogged('booking-confirmation', appointment, options);
+}
+
+export async function sendCancellationNotice(appointment: Appointment, options: NotifyOptions = {}): Promise<boolean> {
+  return sendLogged('cancellation', appointment, options);
+}
+
+// Sent once per appointment, the first time the tutor marks it completed.
+export async function sendFeedbackRequest(appointment: Appointment, options: NotifyOptions = {}): Promise<boolean> {
+  return sendLogged('feedback-request', appointment, options);
+}
+
+// Sends whichever reminder is due for each upcoming appointment. Safe to run as often as you like;
+// the notification log makes sure each reminder goes out once.
+export async function sendDueReminders(now: Date = new Date(), options: NotifyOptions = {}): Promise<ReminderRun> {
+  const db = options.db ?? getDb();
+  const today = zonedTime(now).date;
+  const upcoming = db
+    .prepare("SELECT id FROM appointments WHERE status = 'booked' AND date BETWEEN ? AND ? ORDER BY date, start_time")
+    .all(today, addDaysToDate(today, 2)) as { id: string }[];
+
+  const run: ReminderRun = { sent: 0, failed: 0 };
+  for (const { id } of upcoming) {
+    const appointment = getAppointment(id, db)!;
+    const startsAt = zonedDateTime(appointment.date, appointment.start).getTime();
+    const minutesUntil = (startsAt - now.getTime()) / 60_000;
+    const bookedAt = parseSqlTimestamp(appointment.createdAt).getTime();
+
+    const due = REMINDERS.find(
+      ({ leadMinutes }) => minutesUntil > 0 && minutesUntil <= leadMinutes && startsAt - bookedAt > leadMinutes * 60_000
+    );
+    if (!due) continue;
+
+    try {
+      if (await sendOnce(due.template, appointment, { ...options, db })) run.sent += 1;
+    } catch (error) {
+      console.error(`Failed to send ${due.template} for appointment ${appointment.id}`, error);
+      run.failed += 1;
+    }
+  }
+  return run;
+}
+
+async function sendLogged(template: AppointmentTemplate, appointment: Appointment, options: NotifyOptions): Promise<boolean> {
+  try {
+    return await sendOnce(template, appointment, options);
+  } catch (error) {
+    console.error(`Failed to send ${template} for appointment ${appointment.id}`, error);
+    return false;
+  }
+}
+
+// Claims the log row before sending so concurrent runs can't double-send, and releases it if the
+// transport fails so the next run retries.
+async function sendOnce(template: AppointmentTemplate, appointment: Appointment, options: NotifyOptions): Promise<boolean> {
+  const db = options.db ?? getDb();
+  const claim = db
+    .prepare('INSERT OR IGNORE INTO notification_log (appointment_id, template, recipient) VALUES (?, ?, ?)')
+    .run(appointment.id, template, appointment.studentEmail);
+  if (claim.changes === 0) return false;
+
+  try {
+    const transport = options.transport ?? getEmailTransport();
+    await transport.send({ to: appointment.studentEmail, ...render(template, appointment) });
+    return true;
+  } catch (error) {
+    db.prepare('DELETE FROM notification_log WHERE id = ?').run(claim.lastInsertRowid);
+    throw error;
+  }
+}
+
+function render(template: AppointmentTemplate, appointment: Appointment): RenderedEmail {
+  if (template === 'cancellation') {
+    return renderTemplate(template, { appointment, bookUrl: `${siteUrl()}/schedule` });
+  }
+  if (template === 'feedback-request') {
+    return renderTemplate(template, { appointment, feedbackUrl: `${siteUrl()}${feedbackPath(appointment)}` });
+  }
+
+  const term = getTerm(appointment.termId);
+  if (!term) {
+    throw new Error(`Appointment ${appointment.id} belongs to unknown term ${appointment.termId}`);
+  }
+  return renderTemplate(template, { appointment, term, manageUrl: `${siteUrl()}${managementPath(appointment)}` });
+}
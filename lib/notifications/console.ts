@@ -0,0 +1,10 @@
+import type { EmailMessage, EmailTransport } from './types';
+
+// Prints the plain-text body instead of sending anything. The default outside production.
+export class ConsoleTransport implements EmailTransport {
+  readonly name = 'console';
+
+  async send(message: EmailMessage): Promise<void> {
+    console.info(`[email] To: ${message.to}\n[email] Subject: ${message.subject}\n\n${message.text}\n`);
+  }
+}
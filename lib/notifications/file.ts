@@ -0,0 +1,24 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { EmailMessage, EmailTransport } from './types';
+
+// Writes each message to `directory` as a JSON file plus an .html preview that opens in a browser.
+export class FileTransport implements EmailTransport {
+  readonly name = 'file';
+
+  constructor(readonly directory: string) {}
+
+  async send(message: EmailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const slug = message.subject
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, '-')
+      .replace(/^-|-$/g, '')
+      .slice(0, 40);
+    const base = path.join(this.directory, `${stamp}-${slug}`);
+
+    await fs.writeFile(`${base}.json`, JSON.stringify(message, null, 2));
+    await fs.writeFile(`${base}.html`, message.html);
+  }
+}
@@ -0,0 +1,31 @@
+import path from 'path';
+import { ConsoleTransport } from './console';
+import { FileTransport } from './file';
+import { SmtpTransport } from './smtp';
+import type { EmailTransport } from './types';
+
+export type { EmailMessage, EmailTransport } from './types';
+export { ConsoleTransport } from './console';
+export { FileTransport } from './file';
+export { SmtpTransport } from './smtp';
+
+const DEFAULT_OUTBOX = path.join(process.cwd(), 'data', 'outbox');
+
+// EMAIL_TRANSPORT=smtp|file|console. Defaults to SMTP when SMTP_URL is set, otherwise the console.
+export function getEmailTransport(env: NodeJS.ProcessEnv = process.env): EmailTransport {
+  const choice = env.EMAIL_TRANSPORT ?? (env.SMTP_URL ? 'smtp' : 'console');
+
+  switch (choice) {
+    case 'smtp':
+      if (!env.SMTP_URL || !env.EMAIL_FROM) {
+        throw new Error('EMAIL_TRANSPORT=smtp requires SMTP_URL and EMAIL_FROM');
+      }
+      return new SmtpTransport({ url: env.SMTP_URL, from: env.EMAIL_FROM });
+    case 'file':
+      return new FileTransport(env.EMAIL_OUTBOX_DIR ?? DEFAULT_OUTBOX);
+    case 'console':
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${choice}"`);
+  }
+}
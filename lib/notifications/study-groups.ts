@@ -0,0 +1,60 @@
+import { getDb, type Db } from '@/lib/db';
+import { siteUrl } from '@/lib/site';
+import { getRsvp, getSession } from '@/lib/study-groups/repository';
+import { addDaysToDate, zonedDateTime, zonedTime } from '@/lib/time';
+import type { ReminderRun } from './appointments';
+import { getEmailTransport } from './index';
+import { renderTemplate } from './templates';
+import type { EmailTransport } from './types';
+
+type NotifyOptions = {
+  db?: Db;
+  transport?: EmailTransport;
+};
+
+const LEAD_MINUTES = 24 * 60;
+// Someone who RSVPs on the way to the room doesn't need a reminder.
+const MIN_NOTICE_MINUTES = 60;
+
+// Sends the day-before reminder for each RSVP to an upcoming study group. Like appointment reminders, the
+// notification log makes sure each one goes out once.
+export async function sendStudyGroupReminders(now: Date = new Date(), options: NotifyOptions = {}): Promise<ReminderRun> {
+  const db = options.db ?? getDb();
+  const today = zonedTime(now).date;
+  const upcoming = db
+    .prepare(
+      `SELECT r.id FROM study_group_rsvps r
+       JOIN study_group_sessions s ON s.id = r.session_id
+       WHERE r.status = 'going' AND s.date BETWEEN ? AND ?
+       ORDER BY s.date, r.created_at`
+    )
+    .all(today, addDaysToDate(today, 2)) as { id: string }[];
+
+  const run: ReminderRun = { sent: 0, failed: 0 };
+  for (const { id } of upcoming) {
+    const rsvp = getRsvp(id, db)!;
+    const session = getSession(rsvp.groupId, rsvp.date, now, db);
+    if (!session) continue;
+    const startsAt = zonedDateTime(session.date, session.start).getTime();
+    const minutesUntil = (startsAt - now.getTime()) / 60_000;
+    const noticeMinutes = (startsAt - new Date(rsvp.createdAt).getTime()) / 60_000;
+    if (minutesUntil <= 0 || minutesUntil > LEAD_MINUTES || noticeMinutes < MIN_NOTICE_MINUTES) continue;
+
+    const claim = db
+      .prepare("INSERT OR IGNORE INTO notification_log (rsvp_id, template, recipient) VALUES (?, 'study-group-reminder', ?)")
+      .run(rsvp.id, rsvp.studentEmail);
+    if (claim.changes === 0) continue;
+
+    try {
+      const transport = options.transport ?? getEmailTransport();
+      const rsvpUrl = `${siteUrl()}/study-groups/${rsvp.id}`;
+      await transport.send({ to: rsvp.studentEmail, ...renderTemplate('study-group-reminder', { rsvp, session, rsvpUrl }) });
+      run.sent += 1;
+    } catch (error) {
+      db.prepare('DELETE FROM notification_log WHERE id = ?').run(claim.lastInsertRowid);
+      console.error(`Failed to send study-group-reminder for RSVP ${rsvp.id}`, error);
+      run.failed += 1;
+    }
+  }
+  return run;
+}
@@ -0,0 +1,226 @@
+import type { Appointment } from '@/lib/booking/types';
+import type { StudyGroupRsvp, StudyGroupSession } from '@/lib/study-groups/types';
+import type { Term } from '@/lib/terms/schema';
+import { formatDate, formatInstant, formatTime, formatTimeRange, weekdayOfDate } from '@/lib/time';
+import type { WaitlistEntry } from '@/lib/waitlist/types';
+
+export type AppointmentEmailData = {
+  appointment: Appointment;
+  term: Term;
+  // Absolute URL of the signed cancel/reschedule page.
+  manageUrl: string;
+};
+
+export type CancellationEmailData = {
+  appointment: Appointment;
+  bookUrl: string;
+};
+
+export type FeedbackEmailData = {
+  appointment: Appointment;
+  // Absolute URL of the signed survey page.
+  feedbackUrl: string;
+};
+
+export type WaitlistOfferEmailData = {
+  entry: WaitlistEntry & { offer: NonNullable<WaitlistEntry['offer']> };
+  // Absolute URL of the student's waitlist page, where they accept the offer.
+  offerUrl: string;
+};
+
+export type StudyGroupReminderEmailData = {
+  rsvp: StudyGroupRsvp;
+  session: StudyGroupSession;
+  // Absolute URL of the student's RSVP page, where they can give up their spot.
+  rsvpUrl: string;
+};
+
+export type TemplateData = {
+  'booking-confirmation': AppointmentEmailData;
+  'reminder-24h': AppointmentEmailData;
+  'reminder-1h': AppointmentEmailData;
+  cancellation: CancellationEmailData;
+  'feedback-request': FeedbackEmailData;
+  'waitlist-offer': WaitlistOfferEmailData;
+  'study-group-reminder': StudyGroupReminderEmailData;
+};
+
+export type TemplateName = keyof TemplateData;
+
+export type RenderedEmail = {
+  subject: string;
+  text: string;
+  html: string;
+};
+
+// Everything a template decides; the layout below turns it into matching text and HTML bodies.
+type EmailContent = {
+  subject: string;
+  greeting: string;
+  paragraphs: string[];
+  details: [label: string, value: string][];
+  action?: { label: string; url: string };
+  footer?: string;
+};
+
+const TEMPLATES: { [K in TemplateName]: (data: TemplateData[K]) => EmailContent } = {
+  'booking-confirmation': ({ appointment, term, manageUrl }) => ({
+    subject: `Tutoring appointment confirmed: ${describeWhen(appointment)}`,
+    greeting: `Hi ${appointment.studentName},`,
+    paragraphs: [
+      `You're booked for a Zoom session with ${appointment.tutorName}. ` +
+        'Please join on time and have your assignment instructions ready.',
+    ],
+    details: [...sessionDetails(appointment), ...zoomDetails(term)],
+    action: { label: 'Cancel or reschedule', url: manageUrl },
+    footer: `Questions? Email ${term.contacts.questions}.`,
+  }),
+  'reminder-24h': ({ appointment, term, manageUrl }) => ({
+    subject: `Reminder: tutoring tomorrow at ${formatTime(appointment.start)}`,
+    greeting: `Hi ${appointment.studentName},`,
+    paragraphs: [
+      `This is a reminder that your Zoom session with ${appointment.tutorName} is tomorrow. ` +
+        'If you can no longer make it, please cancel so another student can take the slot.',
+    ],
+    details: [...sessionDetails(appointment), ...zoomDetails(term)],
+    action: { label: 'Cancel or reschedule', url: manageUrl },
+  }),
+  'reminder-1h': ({ appointment, term }) => ({
+    subject: `Starting soon: tutoring at ${formatTime(appointment.start)}`,
+    greeting: `Hi ${appointment.studentName},`,
+    paragraphs: [`Your Zoom session with ${appointment.tutorName} starts in about an hour.`],
+    details: [...sessionDetails(appointment), ...zoomDetails(term)],
+    action: { label: 'Join Zoom', url: term.zoom.link },
+  }),
+  cancellation: ({ appointment, bookUrl }) => ({
+    subject: `Tutoring appointment cancelled: ${describeWhen(appointment)}`,
+    greeting: `Hi ${appointment.studentName},`,
+    paragraphs: [`Your Zoom session with ${appointment.tutorName} has been cancelled.`],
+    details: sessionDetails(appointment),
+    action: { label: 'Book another time', url: bookUrl },
+  }),
+  'feedback-request': ({ appointment, feedbackUrl }) => ({
+    subject: `How was your session with ${appointment.tutorName}?`,
+    greeting: `Hi ${appointment.studentName},`,
+    paragraphs: [
+      'Thanks for coming to tutoring! Please take a minute to tell us how it went. ' +
+        'It only takes a few questions, and you can answer anonymously.',
+    ],
+    details: sessionDetails(appointment),
+    action: { label: 'Rate your session', url: feedbackUrl },
+  }),
+  'waitlist-offer': ({ entry, offerUrl }) => ({
+    subject: `A tutoring slot opened up: ${weekdayOfDate(entry.date)}, ${formatDate(entry.date)}`,
+    greeting: `Hi ${entry.studentName},`,
+    paragraphs: [
+      `A Zoom session with ${entry.offer.tutorName} just opened up, and you're next on the waitlist. ` +
+        `We're holding it for you until ${formatInstant(new Date(entry.offer.expiresAt))}. ` +
+        'After that it goes to the next student in line.',
+    ],
+    details: [
+      ['Tutor', entry.offer.tutorName],
+      ...(entry.course ? [['Course', entry.course] as [string, string]] : []),
+      [
+        'When',
+        `${weekdayOfDate(entry.date)}, ${formatDate(entry.date)}, ${formatTimeRange(entry.offer.start, entry.offer.end)} (Pacific)`,
+      ],
+    ],
+    action: { label: 'Book this time', url: offerUrl },
+  }),
+  'study-group-reminder': ({ rsvp, session, rsvpUrl }) => ({
+    subject: `Reminder: CS ${session.course} study group ${weekdayOfDate(session.date)} at ${formatTime(session.start)}`,
+    greeting: `Hi ${rsvp.studentName},`,
+    paragraphs: [
+      `You RSVP'd for the CS ${session.course} study group. ` +
+        'If you can no longer make it, please cancel so another student can have your spot.',
+    ],
+    details: [
+      ['Group', `CS ${session.course}`],
+      ['When', `${weekdayOfDate(session.date)}, ${formatDate(session.date)}, ${formatTimeRange(session.start, session.end)} (Pacific)`],
+      ['Where', session.location],
+      ...(session.agenda ? [['Agenda', session.agenda] as [string, string]] : []),
+    ],
+    action: { label: 'View or cancel your RSVP', url: rsvpUrl },
+  }),
+};
+
+export function renderTemplate<K extends TemplateName>(name: K, data: TemplateData[K]): RenderedEmail {
+  const content = TEMPLATES[name](data);
+  return { subject: content.subject, text: renderText(content), html: renderHtml(content) };
+}
+
+function describeWhen(appointment: Appointment): string {
+  return `${weekdayOfDate(appointment.date)}, ${formatDate(appointment.date)}, ${formatTimeRange(appointment.start, appointment.end)}`;
+}
+
+function sessionDetails(appointment: Appointment): [string, string][] {
+  return [
+    ['Tutor', appointment.tutorName],
+    ...(appointment.language ? [['Topic', appointment.language] as [string, string]] : []),
+    ['When', `${describeWhen(appointment)} (Pacific)`],
+  ];
+}
+
+function zoomDetails(term: Term): [string, string][] {
+  return [
+    ['Zoom link', term.zoom.link],
+    ['Meeting ID', term.zoom.meetingId],
+    ['Dial in', term.zoom.phoneNumbers[0].number],
+  ];
+}
+
+function renderText(content: EmailContent): string {
+  const width = Math.max(...content.details.map(([label]) => label.length));
+  return [
+    content.greeting,
+    '',
+    ...content.paragraphs.flatMap((paragraph) => [paragraph, '']),
+    ...content.details.map(([label, value]) => `${`${label}:`.padEnd(width + 2)}${value}`),
+    ...(content.action ? ['', `${content.action.label}: ${content.action.url}`] : []),
+    '',
+    ...(content.footer ? [content.footer, ''] : []),
+    '— CCSF CS Tutor Squad',
+  ].join('\n');
+}
+
+function renderHtml(content: EmailContent): string {
+  const rows = content.details
+    .map(
+      ([label, value]) =>
+        `<tr><td style="padding:4px 16px 4px 0;color:#64748b">${escapeHtml(label)}</td>` +
+        `<td style="padding:4px 0;color:#0f172a">${linkify(value)}</td></tr>`
+    )
+    .join('');
+  const action = content.action
+    ? `<p style="margin:24px 0"><a href="${escapeHtml(content.action.url)}" style="display:inline-block;padding:10px 20px;border-radius:9999px;background:#0f172a;color:#ffffff;text-decoration:none;font-weight:600">${escapeHtml(content.action.label)}</a></p>`
+    : '';
+
+  return [
+    '<!doctype html>',
+    `<html><head><meta charset="utf-8"><title>${escapeHtml(content.subject)}</title></head>`,
+    '<body style="margin:0;padding:24px;background:#f1f5f9;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif">',
+    '<div style="max-width:560px;margin:0 auto;padding:32px;border-radius:24px;background:#ffffff">',
+    `<p style="margin:0 0 16px;color:#0f172a">${escapeHtml(content.greeting)}</p>`,
+    ...content.paragraphs.map((paragraph) => `<p style="margin:0 0 16px;color:#334155;line-height:1.6">${escapeHtml(paragraph)}</p>`),
+    `<table style="border-collapse:collapse;font-size:14px">${rows}</table>`,
+    action,
+    content.footer ? `<p style="margin:0 0 16px;color:#64748b;font-size:14px">${escapeHtml(content.footer)}</p>` : '',
+    '<p style="margin:0;color:#64748b;font-size:14px">— CCSF CS Tutor Squad</p>',
+    '</div></body></html>',
+  ].join('\n');
+}
+
+function linkify(value: string): string {
+  return /^https?:\/\//.test(value)
+    ? `<a href="${escapeHtml(value)}" style="color:#0369a1">${escapeHtml(value)}</a>`
+    : escapeHtml(value);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
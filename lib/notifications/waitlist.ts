@@ -0,0 +1,47 @@
+import type { Db } from '@/lib/db';
+import { siteUrl } from '@/lib/site';
+import { advanceWaitlist } from '@/lib/waitlist/repository';
+import type { WaitlistEntry } from '@/lib/waitlist/types';
+import { getEmailTransport } from './index';
+import { renderTemplate } from './templates';
+import type { EmailTransport } from './types';
+
+type NotifyOptions = {
+  db?: Db;
+  transport?: EmailTransport;
+};
+
+export type WaitlistNotifyRun = {
+  expired: number;
+  offered: number;
+  sent: number;
+  failed: number;
+};
+
+// Each offer is made once, so unlike appointment emails there's no log to claim first.
+export async function sendWaitlistOffer(entry: WaitlistEntry, options: NotifyOptions = {}): Promise<boolean> {
+  if (entry.status !== 'offered' || !entry.offer) return false;
+  try {
+    const transport = options.transport ?? getEmailTransport();
+    const offerUrl = `${siteUrl()}/waitlist/${entry.id}`;
+    await transport.send({
+      to: entry.studentEmail,
+      ...renderTemplate('waitlist-offer', { entry: { ...entry, offer: entry.offer }, offerUrl }),
+    });
+    return true;
+  } catch (error) {
+    console.error(`Failed to send waitlist-offer for waitlist entry ${entry.id}`, error);
+    return false;
+  }
+}
+
+// Moves the waitlist along and emails the new offers. Called on a schedule and after anything that frees a slot.
+export async function processWaitlist(now: Date = new Date(), options: NotifyOptions = {}): Promise<WaitlistNotifyRun> {
+  const { expired, offered } = advanceWaitlist(now, options.db);
+  const run: WaitlistNotifyRun = { expired: expired.length, offered: offered.length, sent: 0, failed: 0 };
+  for (const entry of offered) {
+    if (await sendWaitlistOffer(entry, options)) run.sent += 1;
+    else run.failed += 1;
+  }
+  return run;
+}
@@ -0,0 +1,82 @@
+import { getDb, type Db } from '@/lib/db';
+import { listResources, recordLinkCheck } from './repository';
+import type { Resource } from './types';
+
+export type LinkCheck = {
+  status: 'ok' | 'broken';
+  problem: string | null;
+};
+
+export type LinkCheckRun = {
+  checked: number;
+  broken: Resource[];
+};
+
+type LinkCheckOptions = {
+  fetcher?: typeof fetch;
+  timeoutMs?: number;
+  db?: Db;
+};
+
+// Hosts that answer for a document that is no longer public by bouncing to a sign-in page instead
+// of returning an error. Unpublished Google Docs do this.
+const SIGN_IN_HOSTS = ['accounts.google.com'];
+
+const CONCURRENCY = 4;
+
+// Only statuses that mean the page is gone count as broken. Plenty of sites answer automated
+// requests with 403 or 429 while working fine in a browser.
+function isDead(status: number): boolean {
+  return status === 404 || status === 410 || status >= 500;
+}
+
+export async function checkLink(
+  href: string,
+  { fetcher = fetch, timeoutMs = 10_000 }: LinkCheckOptions = {}
+): Promise<LinkCheck> {
+  const request = (method: 'HEAD' | 'GET') =>
+    fetcher(href, {
+      method,
+      redirect: 'follow',
+      signal: AbortSignal.timeout(timeoutMs),
+      headers: { 'User-Agent': 'CCSF-Tutoring-LinkChecker/1.0' },
+    });
+
+  try {
+    let response = await request('HEAD');
+    // Some servers don't implement HEAD properly; ask again for the page itself.
+    if (response.status === 405 || response.status === 501 || isDead(response.status)) {
+      response = await request('GET');
+    }
+    if (isDead(response.status)) {
+      return { status: 'broken', problem: `HTTP ${response.status}` };
+    }
+    if (response.url && SIGN_IN_HOSTS.includes(new URL(response.url).hostname)) {
+      return { status: 'broken', problem: 'Redirects to a sign-in page' };
+    }
+    return { status: 'ok', problem: null };
+  } catch (error) {
+    const timedOut = error instanceof DOMException && error.name === 'TimeoutError';
+    return { status: 'broken', problem: timedOut ? 'Timed out' : 'Could not connect' };
+  }
+}
+
+// Checks every resource link, published or not, and records the result. Safe to run on a schedule.
+export async function checkResourceLinks(now: Date = new Date(), options: LinkCheckOptions = {}): Promise<LinkCheckRun> {
+  const db = options.db ?? getDb();
+  const pending = listResources({}, db).filter((resource) => resource.link);
+  const run: LinkCheckRun = { checked: 0, broken: [] };
+
+  const worker = async () => {
+    for (let resource = pending.shift(); resource; resource = pending.shift()) {
+      const check = await checkLink(resource.link!.href, options);
+      recordLinkCheck(resource.id, check, now, db);
+      run.checked += 1;
+      if (check.status === 'broken') {
+        run.broken.push({ ...resource, link: { ...resource.link!, ...check, checkedAt: now.toISOString() } });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  return run;
+}
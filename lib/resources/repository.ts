@@ -0,0 +1,191 @@
+import { getDb, type Db } from '@/lib/db';
+import { LANGUAGES, type Course, type Language } from '@/lib/tutors/types';
+import type { LinkCheck } from './links';
+import type { ResourceInput, ResourceSubmission } from './schema';
+import type { LinkStatus, Resource, ResourceStatus, ResourceTags } from './types';
+
+type ResourceRow = {
+  id: number;
+  title: string;
+  link_href: string | null;
+  link_label: string | null;
+  link_status: LinkStatus;
+  link_checked_at: string | null;
+  link_problem: string | null;
+  useful_for: string;
+  description: string;
+  position: number;
+  status: ResourceStatus;
+  submitted_by: number | null;
+  submitter_name: string | null;
+  review_note: string;
+};
+
+type TagRow = {
+  resource_id: number;
+  kind: 'language' | 'course' | 'topic';
+  value: string;
+};
+
+export type ResourceQuery = {
+  status?: ResourceStatus;
+  submittedBy?: number;
+};
+
+const SELECT_RESOURCE = `SELECT resources.id, title, link_href, link_label, link_status, link_checked_at, link_problem,
+    useful_for, description, position, status, submitted_by, users.name AS submitter_name, review_note
+  FROM resources LEFT JOIN users ON users.id = resources.submitted_by`;
+
+// Everything by default; the public page asks for published resources only.
+export function listResources({ status, submittedBy }: ResourceQuery = {}, db: Db = getDb()): Resource[] {
+  const rows = db
+    .prepare(
+      `${SELECT_RESOURCE}
+       WHERE (@status IS NULL OR status = @status) AND (@submittedBy IS NULL OR submitted_by = @submittedBy)
+       ORDER BY position, resources.id`
+    )
+    .all({ status: status ?? null, submittedBy: submittedBy ?? null }) as ResourceRow[];
+  return hydrate(db, rows);
+}
+
+export function getResource(id: number, db: Db = getDb()): Resource | undefined {
+  const row = db.prepare(`${SELECT_RESOURCE} WHERE resources.id = ?`).get(id) as ResourceRow | undefined;
+  return row ? hydrate(db, [row])[0] : undefined;
+}
+
+export function createResource(input: ResourceInput, db: Db = getDb()): Resource {
+  const create = db.transaction(() => {
+    const result = db
+      .prepare(
+        'INSERT INTO resources (title, link_href, link_label, useful_for, description, position) VALUES (?, ?, ?, ?, ?, ?)'
+      )
+      .run(...values(input));
+    const id = Number(result.lastInsertRowid);
+    replaceTags(db, id, input.tags);
+    return id;
+  });
+  return getResource(create(), db)!;
+}
+
+// A tutor's suggestion, held back from the public page until a coordinator reviews it.
+export function submitResource(input: ResourceSubmission, userId: number, db: Db = getDb()): Resource {
+  const create = db.transaction(() => {
+    const { next } = db.prepare('SELECT COALESCE(MAX(position), 0) + 1 AS next FROM resources').get() as { next: number };
+    const result = db
+      .prepare(
+        `INSERT INTO resources (title, link_href, link_label, useful_for, description, position, status, submitted_by)
+         VALUES (?, ?, ?, ?, ?, ?, 'pending', ?)`
+      )
+      .run(...values({ ...input, position: next }), userId);
+    const id = Number(result.lastInsertRowid);
+    replaceTags(db, id, input.tags);
+    return id;
+  });
+  return getResource(create(), db)!;
+}
+
+export function updateResource(id: number, input: ResourceInput, db: Db = getDb()): Resource | undefined {
+  const update = db.transaction(() => {
+    // A new address hasn't been checked yet.
+    db.prepare(
+      `UPDATE resources SET link_status = 'unchecked', link_checked_at = NULL, link_problem = NULL
+       WHERE id = ? AND link_href IS NOT ?`
+    ).run(id, input.link?.href ?? null);
+    db.prepare(
+      `UPDATE resources SET title = ?, link_href = ?, link_label = ?, useful_for = ?, description = ?, position = ?,
+         updated_at = datetime('now')
+       WHERE id = ?`
+    ).run(...values(input), id);
+    replaceTags(db, id, input.tags);
+  });
+  update();
+  return getResource(id, db);
+}
+
+export function reviewResource(
+  id: number,
+  decision: Exclude<ResourceStatus, 'pending'>,
+  note: string,
+  reviewerId: number,
+  db: Db = getDb()
+): Resource | undefined {
+  db.prepare(
+    `UPDATE resources SET status = ?, review_note = ?, reviewed_by = ?, reviewed_at = datetime('now'),
+       updated_at = datetime('now')
+     WHERE id = ?`
+  ).run(decision, note, reviewerId, id);
+  return getResource(id, db);
+}
+
+export function recordLinkCheck(id: number, check: LinkCheck, now: Date = new Date(), db: Db = getDb()): void {
+  db.prepare('UPDATE resources SET link_status = ?, link_checked_at = ?, link_problem = ? WHERE id = ?').run(
+    check.status,
+    now.toISOString(),
+    check.problem,
+    id
+  );
+}
+
+export function deleteResource(id: number, db: Db = getDb()): boolean {
+  return db.prepare('DELETE FROM resources WHERE id = ?').run(id).changes > 0;
+}
+
+function values(input: ResourceInput) {
+  return [
+    input.title,
+    input.link?.href ?? null,
+    input.link?.label || null,
+    input.usefulFor,
+    input.description,
+    input.position,
+  ] as const;
+}
+
+function replaceTags(db: Db, id: number, tags: ResourceTags) {
+  db.prepare('DELETE FROM resource_tags WHERE resource_id = ?').run(id);
+  const insert = db.prepare('INSERT OR IGNORE INTO resource_tags (resource_id, kind, value) VALUES (?, ?, ?)');
+  for (const language of tags.languages) insert.run(id, 'language', language);
+  for (const course of tags.courses) insert.run(id, 'course', course);
+  for (const topic of tags.topics) insert.run(id, 'topic', topic);
+}
+
+function hydrate(db: Db, rows: ResourceRow[]): Resource[] {
+  if (rows.length === 0) return [];
+
+  const ids = rows.map((row) => row.id);
+  const tags = db
+    .prepare(
+      `SELECT resource_id, kind, value FROM resource_tags WHERE resource_id IN (${ids.map(() => '?').join(', ')})
+       ORDER BY value`
+    )
+    .all(...ids) as TagRow[];
+
+  return rows.map((row) => {
+    const own = tags.filter((tag) => tag.resource_id === row.id);
+    const tagged = (kind: TagRow['kind']) => own.filter((tag) => tag.kind === kind).map((tag) => tag.value);
+    return {
+      id: row.id,
+      title: row.title,
+      link: row.link_href
+        ? {
+            href: row.link_href,
+            label: row.link_label ?? undefined,
+            status: row.link_status,
+            checkedAt: row.link_checked_at,
+            problem: row.link_problem,
+          }
+        : undefined,
+      usefulFor: row.useful_for,
+      description: row.description,
+      tags: {
+        languages: (tagged('language') as Language[]).sort((a, b) => LANGUAGES.indexOf(a) - LANGUAGES.indexOf(b)),
+        courses: tagged('course') as Course[],
+        topics: tagged('topic'),
+      },
+      position: row.position,
+      status: row.status,
+      submittedBy: row.submitted_by ? { id: row.submitted_by, name: row.submitter_name ?? '' } : null,
+      reviewNote: row.review_note,
+    };
+  });
+}
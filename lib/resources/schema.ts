@@ -0,0 +1,34 @@
+import { z } from 'zod';
+import { COURSE_CODES, LANGUAGES, type Course } from '@/lib/tutors/types';
+
+const tagsSchema = z.object({
+  languages: z.array(z.enum(LANGUAGES)).default([]),
+  courses: z.array(z.enum(COURSE_CODES as [Course, ...Course[]])).default([]),
+  topics: z.array(z.string().trim().toLowerCase().min(1).max(40)).max(10).default([]),
+});
+
+export const resourceInputSchema = z.object({
+  title: z.string().trim().min(1).max(120),
+  link: z
+    .object({
+      href: z.url({ protocol: /^https?$/ }),
+      label: z.string().trim().max(60).optional(),
+    })
+    .optional(),
+  usefulFor: z.string().trim().min(1).max(200),
+  description: z.string().trim().min(1).max(1000),
+  tags: tagsSchema.default({ languages: [], courses: [], topics: [] }),
+  position: z.number().int().min(0),
+});
+
+export type ResourceInput = z.infer<typeof resourceInputSchema>;
+
+// What a tutor sends when suggesting a resource. Coordinators decide where it goes on the page.
+export const resourceSubmissionSchema = resourceInputSchema.omit({ position: true });
+
+export type ResourceSubmission = z.infer<typeof resourceSubmissionSchema>;
+
+export const resourceReviewSchema = z.object({
+  decision: z.enum(['published', 'rejected']),
+  note: z.string().trim().max(500).default(''),
+});
@@ -0,0 +1,39 @@
+import type { Course, Language } from '@/lib/tutors/types';
+import type { Resource } from './types';
+
+export type ResourceFilter = {
+  q?: string;
+  language?: Language;
+  course?: Course;
+  topic?: string;
+};
+
+// Every word of `q` has to appear somewhere in the resource: its title, description, summary or tags.
+export function filterResources(
+  resources: Resource[],
+  { q = '', language, course, topic }: ResourceFilter
+): Resource[] {
+  const words = q.toLowerCase().split(/\s+/).filter(Boolean);
+  return resources.filter((resource) => {
+    if (language && !resource.tags.languages.includes(language)) return false;
+    if (course && !resource.tags.courses.includes(course)) return false;
+    if (topic && !resource.tags.topics.includes(topic)) return false;
+
+    const text = [
+      resource.title,
+      resource.description,
+      resource.usefulFor,
+      ...resource.tags.languages,
+      ...resource.tags.courses.map((code) => `CS ${code} ${code}`),
+      ...resource.tags.topics,
+    ]
+      .join(' ')
+      .toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+}
+
+// The topics in use, for the filter menu.
+export function resourceTopics(resources: Resource[]): string[] {
+  return [...new Set(resources.flatMap((resource) => resource.tags.topics))].sort();
+}
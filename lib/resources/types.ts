@@ -0,0 +1,36 @@
+import type { Course, Language } from '@/lib/tutors/types';
+
+// Tutors' suggestions stay pending until a coordinator publishes or rejects them.
+export const RESOURCE_STATUSES = ['pending', 'published', 'rejected'] as const;
+
+export type ResourceStatus = (typeof RESOURCE_STATUSES)[number];
+
+export const LINK_STATUSES = ['unchecked', 'ok', 'broken'] as const;
+
+export type LinkStatus = (typeof LINK_STATUSES)[number];
+
+export type ResourceTags = {
+  languages: Language[];
+  courses: Course[];
+  // Lowercase, e.g. "debugging" or "command line".
+  topics: string[];
+};
+
+export type Resource = {
+  id: number;
+  title: string;
+  link?: {
+    href: string;
+    label?: string;
+    status: LinkStatus;
+    checkedAt: string | null;
+    problem: string | null;
+  };
+  usefulFor: string;
+  description: string;
+  tags: ResourceTags;
+  position: number;
+  status: ResourceStatus;
+  submittedBy: { id: number; name: string } | null;
+  reviewNote: string;
+};
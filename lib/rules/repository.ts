@@ -0,0 +1,43 @@
+import { getDb, type Db } from '@/lib/db';
+import type { RuleInput } from './schema';
+import type { Rule, RuleSection } from './types';
+
+const SELECT_RULE = 'SELECT id, slug, section, body, position FROM rules';
+
+export function listRules(db: Db = getDb()): Rule[] {
+  return db.prepare(`${SELECT_RULE} ORDER BY section, position, id`).all() as Rule[];
+}
+
+export function listRulesBySection(db: Db = getDb()): Record<RuleSection, Rule[]> {
+  const rules = listRules(db);
+  return {
+    do: rules.filter((rule) => rule.section === 'do'),
+    try: rules.filter((rule) => rule.section === 'try'),
+  };
+}
+
+export function getRule(id: number, db: Db = getDb()): Rule | undefined {
+  return db.prepare(`${SELECT_RULE} WHERE id = ?`).get(id) as Rule | undefined;
+}
+
+export function getRuleBySlug(slug: string, db: Db = getDb()): Rule | undefined {
+  return db.prepare(`${SELECT_RULE} WHERE slug = ?`).get(slug) as Rule | undefined;
+}
+
+export function createRule({ slug, section, body, position }: RuleInput, db: Db = getDb()): Rule {
+  const result = db
+    .prepare('INSERT INTO rules (slug, section, body, position) VALUES (?, ?, ?, ?)')
+    .run(slug, section, body, position);
+  return getRule(Number(result.lastInsertRowid), db)!;
+}
+
+export function updateRule(id: number, { slug, section, body, position }: RuleInput, db: Db = getDb()): Rule | undefined {
+  db.prepare(
+    "UPDATE rules SET slug = ?, section = ?, body = ?, position = ?, updated_at = datetime('now') WHERE id = ?"
+  ).run(slug, section, body, position, id);
+  return getRule(id, db);
+}
+
+export function deleteRule(id: number, db: Db = getDb()): boolean {
+  return db.prepare('DELETE FROM rules WHERE id = ?').run(id).changes > 0;
+}
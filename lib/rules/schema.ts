@@ -0,0 +1,15 @@
+import { z } from 'zod';
+import { RULE_SECTIONS, RULE_SLUG_PATTERN } from './types';
+
+export const ruleInputSchema = z.object({
+  slug: z.string().trim().toLowerCase().regex(RULE_SLUG_PATTERN, 'Use lowercase words separated by hyphens').max(60),
+  section: z.enum(RULE_SECTIONS),
+  body: z.string().trim().min(1).max(1000),
+  position: z.number().int().min(0),
+});
+
+export type RuleInput = z.infer<typeof ruleInputSchema>;
+
+export const rulesPublicationSchema = z.object({
+  summary: z.string().trim().min(1).max(300),
+});
@@ -0,0 +1,53 @@
+export const RULE_SECTIONS = ['do', 'try'] as const;
+
+export type RuleSection = (typeof RULE_SECTIONS)[number];
+
+// `body` is plain text with **bold** and [link](https://…) markup. `slug` is the rule's stable ID; it
+// doubles as the anchor on the Rules page.
+export type Rule = {
+  id: number;
+  slug: string;
+  section: RuleSection;
+  body: string;
+  position: number;
+};
+
+export type PublishedRule = Pick<Rule, 'slug' | 'section' | 'body'>;
+
+// A numbered snapshot of the rules. Students agree to a version, so publishing a new one asks them again.
+export type RulesVersion = {
+  version: number;
+  rules: PublishedRule[];
+  summary: string;
+  publishedBy: string | null;
+  publishedAt: string;
+};
+
+export const RULE_SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+export type RuleSpan = { text: string; bold?: boolean; href?: string };
+
+// Splits rule markup into spans for rendering. Anything that isn't bold or a link stays as text.
+export function parseRuleBody(body: string): RuleSpan[] {
+  const spans: RuleSpan[] = [];
+  const pattern = /\*\*(.+?)\*\*|\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/g;
+  let last = 0;
+  for (const match of body.matchAll(pattern)) {
+    if (match.index > last) spans.push({ text: body.slice(last, match.index) });
+    spans.push(match[1] !== undefined ? { text: match[1], bold: true } : { text: match[2], href: match[3] });
+    last = match.index + match[0].length;
+  }
+  if (last < body.length) spans.push({ text: body.slice(last) });
+  return spans;
+}
+
+// The rule without its markup, for places that can't render links, like the booking assistant.
+export function ruleText(body: string): string {
+  return parseRuleBody(body)
+    .map((span) => span.text)
+    .join('');
+}
+
+export function rulesInSection(version: RulesVersion, section: RuleSection): PublishedRule[] {
+  return version.rules.filter((rule) => rule.section === section);
+}
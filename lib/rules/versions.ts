@@ -0,0 +1,85 @@
+import { getDb, type Db } from '@/lib/db';
+import { listRules } from './repository';
+import type { PublishedRule, RulesVersion } from './types';
+
+type VersionRow = {
+  version: number;
+  content: string;
+  summary: string;
+  published_by: string | null;
+  published_at: string;
+};
+
+const SELECT_VERSION = `
+  SELECT v.version, v.content, v.summary, u.name AS published_by, v.published_at
+  FROM rule_versions v
+  LEFT JOIN users u ON u.id = v.published_by`;
+
+// The version students see and agree to. The migrations publish version 1, so there always is one.
+export function getCurrentRules(db: Db = getDb()): RulesVersion {
+  const row = db.prepare(`${SELECT_VERSION} ORDER BY v.version DESC LIMIT 1`).get() as VersionRow;
+  return toRulesVersion(row);
+}
+
+export function listRuleVersions(db: Db = getDb()): RulesVersion[] {
+  const rows = db.prepare(`${SELECT_VERSION} ORDER BY v.version DESC`).all() as VersionRow[];
+  return rows.map(toRulesVersion);
+}
+
+// Whether the draft coordinators edit differs from what students see.
+export function hasUnpublishedChanges(db: Db = getDb()): boolean {
+  return JSON.stringify(draftRules(db)) !== JSON.stringify(getCurrentRules(db).rules);
+}
+
+// Publishes the draft as the next version. Returns undefined when there's nothing new to publish.
+export function publishRules(
+  summary: string,
+  publishedBy: number,
+  now: Date = new Date(),
+  db: Db = getDb()
+): RulesVersion | undefined {
+  const publish = db.transaction(() => {
+    if (!hasUnpublishedChanges(db)) return undefined;
+    const version = getCurrentRules(db).version + 1;
+    db.prepare(
+      'INSERT INTO rule_versions (version, content, summary, published_by, published_at) VALUES (?, ?, ?, ?, ?)'
+    ).run(version, JSON.stringify(draftRules(db)), summary, publishedBy, now.toISOString());
+    return getCurrentRules(db);
+  });
+  return publish.immediate();
+}
+
+// The newest version of the rules this email address has agreed to, if any.
+export function acknowledgedRulesVersion(email: string, db: Db = getDb()): number | null {
+  const row = db
+    .prepare(
+      `SELECT MAX(k.version) AS version
+       FROM rule_acknowledgments k
+       JOIN students s ON s.id = k.student_id
+       WHERE s.email = ?`
+    )
+    .get(email.trim().toLowerCase()) as { version: number | null };
+  return row.version;
+}
+
+export function recordAcknowledgment(studentId: number, version: number, now: Date = new Date(), db: Db = getDb()) {
+  db.prepare('INSERT OR IGNORE INTO rule_acknowledgments (student_id, version, acknowledged_at) VALUES (?, ?, ?)').run(
+    studentId,
+    version,
+    now.toISOString()
+  );
+}
+
+function draftRules(db: Db): PublishedRule[] {
+  return listRules(db).map(({ slug, section, body }) => ({ slug, section, body }));
+}
+
+function toRulesVersion(row: VersionRow): RulesVersion {
+  return {
+    version: row.version,
+    rules: JSON.parse(row.content) as PublishedRule[],
+    summary: row.summary,
+    publishedBy: row.published_by,
+    publishedAt: row.published_at,
+  };
+}
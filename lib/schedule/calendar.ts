@@ -0,0 +1,67 @@
+import { toMinutes, WEEKDAYS, zonedTime, type Weekday } from '@/lib/time';
+import type { Course, Tutor } from '@/lib/tutors/types';
+import type { Term } from '@/lib/terms/schema';
+
+export type ScheduleEventKind = 'virtual' | 'on-campus' | 'study-group';
+
+export type ScheduleEvent = {
+  id: string;
+  kind: ScheduleEventKind;
+  day: Weekday;
+  start: string;
+  end: string;
+  title: string;
+  location: string;
+  tutorId?: string;
+  courses: Course[];
+};
+
+export type ScheduleFilters = {
+  course?: Course;
+  tutorId?: string;
+};
+
+// Flattens a term's on-campus hours, study groups and every tutor's shifts into one list for the calendar.
+export function buildScheduleEvents(term: Term, tutors: Tutor[]): ScheduleEvent[] {
+  const tutorEvents = tutors.flatMap((tutor) =>
+    tutor.availability.map<ScheduleEvent>((shift) => ({
+      id: `${tutor.id}-${shift.modality}-${shift.day}-${shift.start}`,
+      kind: shift.modality,
+      day: shift.day,
+      start: shift.start,
+      end: shift.end,
+      title: tutor.name,
+      location: shift.modality === 'virtual' ? 'Zoom' : term.onCampusLocation,
+      tutorId: tutor.id,
+      courses: tutor.courses,
+    }))
+  );
+
+  const studyGroups = term.studyGroups.map<ScheduleEvent>((group) => ({
+    id: `study-group-${group.id}`,
+    kind: 'study-group',
+    day: group.day,
+    start: group.start,
+    end: group.end,
+    title: `CS ${group.course} study group`,
+    location: term.onCampusLocation,
+    courses: [group.course],
+  }));
+
+  return [...tutorEvents, ...studyGroups].sort(
+    (a, b) => WEEKDAYS.indexOf(a.day) - WEEKDAYS.indexOf(b.day) || toMinutes(a.start) - toMinutes(b.start)
+  );
+}
+
+export function filterScheduleEvents(events: ScheduleEvent[], { course, tutorId }: ScheduleFilters): ScheduleEvent[] {
+  return events.filter(
+    (event) =>
+      (!course || event.courses.includes(course)) && (!tutorId || event.tutorId === tutorId)
+  );
+}
+
+// "Now open" is decided on San Francisco time, whatever the viewer's clock says.
+export function isOpenNow(event: Pick<ScheduleEvent, 'day' | 'start' | 'end'>, now: Date): boolean {
+  const { day, minutes } = zonedTime(now);
+  return event.day === day && minutes >= toMinutes(event.start) && minutes < toMinutes(event.end);
+}
@@ -0,0 +1,77 @@
+import type { IcsCalendar, IcsEvent } from '@/lib/ics';
+import type { Term } from '@/lib/terms/schema';
+import { nextDateForWeekday, type Weekday } from '@/lib/time';
+import type { Tutor } from '@/lib/tutors/types';
+
+export const SQUAD_FEED_ID = 'squad';
+
+export type TermSchedule = {
+  term: Term;
+  tutors: Tutor[];
+};
+
+// Weekly recurring events for each term: one tutor's shifts, or for the squad feed every tutor's
+// shifts plus the tutoring room's hours and the study groups.
+export function scheduleFeed(schedules: TermSchedule[], tutorId?: string): IcsCalendar {
+  const tutorName = tutorId && schedules.flatMap(({ tutors }) => tutors).find((tutor) => tutor.id === tutorId)?.name;
+
+  return {
+    name: tutorName ? `${tutorName} - CCSF CS tutoring` : 'CCSF CS Tutor Squad',
+    events: schedules.flatMap(({ term, tutors }) => [
+      ...tutors.filter((tutor) => !tutorId || tutor.id === tutorId).flatMap((tutor) => shiftEvents(term, tutor)),
+      ...(tutorId ? [] : roomEvents(term)),
+    ]),
+  };
+}
+
+function shiftEvents(term: Term, tutor: Tutor): IcsEvent[] {
+  return tutor.availability.flatMap((shift) => {
+    const virtual = shift.modality === 'virtual';
+    const event = weekly(term, shift.day, shift.start, shift.end, {
+      uid: `${term.id}-${tutor.id}-${shift.modality}-${shift.day}-${shift.start}@ccsf-tutoring`.toLowerCase(),
+      summary: `${tutor.name} - ${virtual ? 'Zoom' : 'on-campus'} tutoring`,
+      location: virtual ? term.zoom.link : term.onCampusLocation,
+      url: virtual ? term.zoom.link : undefined,
+      description: [
+        `Helps with ${tutor.languages.join(', ')}.`,
+        virtual ? `Join Zoom: ${term.zoom.link}\nMeeting ID: ${term.zoom.meetingId}` : `Drop in at ${term.onCampusLocation}.`,
+      ].join('\n'),
+    });
+    return event ? [event] : [];
+  });
+}
+
+function roomEvents(term: Term): IcsEvent[] {
+  const hours = term.onCampusHours.map((entry) =>
+    weekly(term, entry.day, entry.start, entry.end, {
+      uid: `${term.id}-room-${entry.day}-${entry.start}@ccsf-tutoring`.toLowerCase(),
+      summary: `${term.onCampusLocation} open for tutoring`,
+      location: term.onCampusLocation,
+    })
+  );
+  const groups = term.studyGroups.map((group) =>
+    weekly(term, group.day, group.start, group.end, {
+      uid: `${term.id}-study-group-${group.id}@ccsf-tutoring`,
+      summary: `CS ${group.course} study group`,
+      location: term.onCampusLocation,
+    })
+  );
+  return [...hours, ...groups].filter((event): event is IcsEvent => Boolean(event));
+}
+
+function weekly(
+  term: Term,
+  day: Weekday,
+  start: string,
+  end: string,
+  details: Omit<IcsEvent, 'start' | 'end' | 'repeatWeeklyUntil'>
+): IcsEvent | undefined {
+  const first = nextDateForWeekday(day, term.startDate);
+  if (first > term.endDate) return undefined;
+  return {
+    ...details,
+    start: { date: first, time: start },
+    end: { date: first, time: end },
+    repeatWeeklyUntil: term.endDate,
+  };
+}
@@ -0,0 +1,9 @@
+// Public origin for links that leave the site: emails and calendar subscriptions.
+export function siteUrl(env: NodeJS.ProcessEnv = process.env): string {
+  return (env.SITE_URL ?? 'http://localhost:3000').replace(/\/$/, '');
+}
+
+// The same URL with the webcal: scheme, which calendar apps open as a subscription.
+export function webcalUrl(path: string, env: NodeJS.ProcessEnv = process.env): string {
+  return `${siteUrl(env).replace(/^https?:\/\//, 'webcal://')}${path}`;
+}
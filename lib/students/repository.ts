@@ -0,0 +1,156 @@
+import { getDb, type Db } from '@/lib/db';
+import type { Restriction, RestrictionKind, Student } from './types';
+
+type StudentRow = {
+  id: number;
+  name: string;
+  email: string;
+  appointments: number;
+  no_shows: number;
+  rules_version: number | null;
+  created_at: string;
+};
+
+type RestrictionRow = {
+  id: number;
+  student_id: number;
+  kind: RestrictionKind;
+  reason: string;
+  starts_at: string;
+  ends_at: string | null;
+  created_by: string;
+  lifted_at: string | null;
+  created_at: string;
+};
+
+export type RestrictionInput = {
+  kind: RestrictionKind;
+  reason: string;
+  // Required for suspensions, ignored for bans.
+  endsAt?: Date;
+};
+
+const SELECT_STUDENT = `
+  SELECT s.id, s.name, s.email, s.created_at,
+         COUNT(a.id) AS appointments, COALESCE(SUM(a.status = 'no-show'), 0) AS no_shows,
+         (SELECT MAX(k.version) FROM rule_acknowledgments k WHERE k.student_id = s.id) AS rules_version
+  FROM students s
+  LEFT JOIN appointments a ON a.student_id = s.id`;
+
+const SELECT_RESTRICTION = `
+  SELECT r.id, r.student_id, r.kind, r.reason, r.starts_at, r.ends_at, u.name AS created_by, r.lifted_at, r.created_at
+  FROM student_restrictions r
+  JOIN users u ON u.id = r.created_by`;
+
+const IN_EFFECT = 'r.lifted_at IS NULL AND r.starts_at <= ? AND (r.ends_at IS NULL OR r.ends_at > ?)';
+
+export function listStudents(query = '', now: Date = new Date(), db: Db = getDb()): Student[] {
+  const pattern = `%${query.trim()}%`;
+  const rows = db
+    .prepare(`${SELECT_STUDENT} WHERE s.name LIKE ? OR s.email LIKE ? GROUP BY s.id ORDER BY s.name LIMIT 200`)
+    .all(pattern, pattern) as StudentRow[];
+
+  const restrictions = new Map(activeRestrictions(now, db).map((restriction) => [restriction.studentId, restriction]));
+  return rows.map((row) => toStudent(row, restrictions.get(row.id)));
+}
+
+export function getStudent(id: number, now: Date = new Date(), db: Db = getDb()): Student | undefined {
+  const row = db.prepare(`${SELECT_STUDENT} WHERE s.id = ? GROUP BY s.id`).get(id) as StudentRow | undefined;
+  return row ? toStudent(row, activeRestrictions(now, db, id)[0]) : undefined;
+}
+
+// Every restriction the student has had, newest first.
+export function listRestrictions(studentId: number, db: Db = getDb()): Restriction[] {
+  const rows = db
+    .prepare(`${SELECT_RESTRICTION} WHERE r.student_id = ? ORDER BY r.id DESC`)
+    .all(studentId) as RestrictionRow[];
+  return rows.map(toRestriction);
+}
+
+// Creates the student on first contact and keeps the name given then. Bookings, consents and RSVPs don't
+// sign anyone in, so a later request mustn't be able to rename the student behind an email address.
+export function upsertStudent(name: string, email: string, db: Db = getDb()): number {
+  const normalized = email.trim().toLowerCase();
+  db.prepare('INSERT INTO students (email, name) VALUES (?, ?) ON CONFLICT (email) DO NOTHING').run(normalized, name.trim());
+  const row = db.prepare('SELECT id FROM students WHERE email = ?').get(normalized) as { id: number };
+  return row.id;
+}
+
+// What stops this email address from booking right now, if anything.
+export function activeRestrictionFor(email: string, now: Date = new Date(), db: Db = getDb()): Restriction | undefined {
+  const row = db
+    .prepare(
+      `${SELECT_RESTRICTION} JOIN students s ON s.id = r.student_id
+       WHERE s.email = ? AND ${IN_EFFECT} ORDER BY r.ends_at IS NULL DESC, r.ends_at DESC LIMIT 1`
+    )
+    .get(email.trim().toLowerCase(), now.toISOString(), now.toISOString()) as RestrictionRow | undefined;
+  return row ? toRestriction(row) : undefined;
+}
+
+// Starts a ban or suspension, replacing any restriction already in effect.
+export function restrictStudent(
+  studentId: number,
+  { kind, reason, endsAt }: RestrictionInput,
+  actorId: number,
+  now: Date = new Date(),
+  db: Db = getDb()
+): Restriction {
+  const apply = db.transaction(() => {
+    db.prepare(
+      `UPDATE student_restrictions AS r SET lifted_at = ?, lifted_by = ? WHERE r.student_id = ? AND ${IN_EFFECT}`
+    ).run(now.toISOString(), actorId, studentId, now.toISOString(), now.toISOString());
+    const result = db
+      .prepare(
+        'INSERT INTO student_restrictions (student_id, kind, reason, starts_at, ends_at, created_by) VALUES (?, ?, ?, ?, ?, ?)'
+      )
+      .run(studentId, kind, reason, now.toISOString(), kind === 'ban' ? null : endsAt!.toISOString(), actorId);
+    return Number(result.lastInsertRowid);
+  });
+  return getRestriction(apply(), db)!;
+}
+
+export function getRestriction(id: number, db: Db = getDb()): Restriction | undefined {
+  const row = db.prepare(`${SELECT_RESTRICTION} WHERE r.id = ?`).get(id) as RestrictionRow | undefined;
+  return row ? toRestriction(row) : undefined;
+}
+
+export function liftRestriction(id: number, actorId: number, now: Date = new Date(), db: Db = getDb()): boolean {
+  const result = db
+    .prepare('UPDATE student_restrictions SET lifted_at = ?, lifted_by = ? WHERE id = ? AND lifted_at IS NULL')
+    .run(now.toISOString(), actorId, id);
+  return result.changes > 0;
+}
+
+function activeRestrictions(now: Date, db: Db, studentId?: number): Restriction[] {
+  const rows = db
+    .prepare(`${SELECT_RESTRICTION} WHERE ${IN_EFFECT} AND (? IS NULL OR r.student_id = ?) ORDER BY r.id DESC`)
+    .all(now.toISOString(), now.toISOString(), studentId ?? null, studentId ?? null) as RestrictionRow[];
+  return rows.map(toRestriction);
+}
+
+function toStudent(row: StudentRow, restriction: Restriction | undefined): Student {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    appointments: row.appointments,
+    noShows: row.no_shows,
+    rulesVersion: row.rules_version,
+    restriction,
+    createdAt: row.created_at,
+  };
+}
+
+function toRestriction(row: RestrictionRow): Restriction {
+  return {
+    id: row.id,
+    studentId: row.student_id,
+    kind: row.kind,
+    reason: row.reason,
+    startsAt: row.starts_at,
+    endsAt: row.ends_at,
+    createdBy: row.created_by,
+    liftedAt: row.lifted_at,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,36 @@
+import { addDaysToDate, formatDate, formatInstant, zonedTime } from '@/lib/time';
+
+export const RESTRICTION_KINDS = ['ban', 'suspension'] as const;
+
+export type RestrictionKind = (typeof RESTRICTION_KINDS)[number];
+
+// A ban lasts until it's lifted; a suspension also ends on its own at `endsAt`.
+export type Restriction = {
+  id: number;
+  studentId: number;
+  kind: RestrictionKind;
+  reason: string;
+  startsAt: string;
+  endsAt: string | null;
+  createdBy: string;
+  liftedAt: string | null;
+  createdAt: string;
+};
+
+export type Student = {
+  id: number;
+  name: string;
+  email: string;
+  appointments: number;
+  noShows: number;
+  // The newest rules version they've agreed to.
+  rulesVersion: number | null;
+  restriction?: Restriction;
+  createdAt: string;
+};
+
+// "through October 20" for suspensions that end at midnight, as the admin form sets them.
+export function describeSuspensionEnd(endsAt: string): string {
+  const { date, minutes } = zonedTime(new Date(endsAt));
+  return minutes === 0 ? `through ${formatDate(addDaysToDate(date, -1))}` : `until ${formatInstant(new Date(endsAt))}`;
+}
@@ -0,0 +1,55 @@
+export const STUDY_GROUP_ERROR_CODES = [
+  'SESSION_NOT_FOUND',
+  'RSVP_NOT_OPEN',
+  'SESSION_STARTED',
+  'SESSION_NOT_STARTED',
+  'SESSION_FULL',
+  'STUDENT_RESTRICTED',
+  'RSVP_NOT_FOUND',
+  'RSVP_CLOSED',
+  'NOT_YOUR_GROUP',
+] as const;
+
+export type StudyGroupErrorCode = (typeof STUDY_GROUP_ERROR_CODES)[number];
+
+export const STUDY_GROUP_ERROR_MESSAGES: Record<StudyGroupErrorCode, string> = {
+  SESSION_NOT_FOUND: 'That study group doesn’t meet on that day.',
+  RSVP_NOT_OPEN: 'RSVPs open a week before each study group meets.',
+  SESSION_STARTED: 'This study group has already started. You’re still welcome to drop in!',
+  SESSION_NOT_STARTED: 'You can take attendance once the study group starts.',
+  SESSION_FULL: 'This study group is full. Please try next week, or come to drop-in tutoring.',
+  STUDENT_RESTRICTED: 'You can’t use tutoring right now. Please contact the Tutor Squad coordinator.',
+  RSVP_NOT_FOUND: 'We couldn’t find that RSVP.',
+  RSVP_CLOSED: 'This RSVP was already cancelled, or the study group has started.',
+  NOT_YOUR_GROUP: 'Only tutors for this course can manage this study group.',
+};
+
+const HTTP_STATUS: Record<StudyGroupErrorCode, number> = {
+  SESSION_NOT_FOUND: 404,
+  RSVP_NOT_OPEN: 422,
+  SESSION_STARTED: 409,
+  SESSION_NOT_STARTED: 409,
+  SESSION_FULL: 409,
+  STUDENT_RESTRICTED: 403,
+  RSVP_NOT_FOUND: 404,
+  RSVP_CLOSED: 409,
+  NOT_YOUR_GROUP: 403,
+};
+
+export class StudyGroupError extends Error {
+  constructor(
+    readonly code: StudyGroupErrorCode,
+    message: string = STUDY_GROUP_ERROR_MESSAGES[code]
+  ) {
+    super(message);
+    this.name = 'StudyGroupError';
+  }
+
+  get status(): number {
+    return HTTP_STATUS[this.code];
+  }
+
+  toJSON() {
+    return { error: this.message, code: this.code };
+  }
+}
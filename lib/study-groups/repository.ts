@@ -0,0 +1,296 @@
+import { randomUUID } from 'crypto';
+import type { TutorUser } from '@/lib/auth';
+import { hasStarted, termForDate } from '@/lib/booking/repository';
+import { getDb, type Db } from '@/lib/db';
+import { activeRestrictionFor, upsertStudent } from '@/lib/students/repository';
+import { addDaysToDate, weekdayOfDate, zonedTime } from '@/lib/time';
+import { getTutor } from '@/lib/tutors/repository';
+import { StudyGroupError } from './errors';
+import type { RsvpRequest } from './schema';
+import { RSVP_WINDOW_DAYS, type RsvpStatus, type StudyGroupRoster, type StudyGroupRsvp, type StudyGroupSession } from './types';
+
+type SessionRow = {
+  term_id: string;
+  group_id: string;
+  date: string;
+  agenda: string;
+  agenda_by: string | null;
+  going: number;
+};
+
+type RsvpRow = {
+  id: string;
+  term_id: string;
+  group_id: string;
+  date: string;
+  student_name: string;
+  student_email: string;
+  status: RsvpStatus;
+  attended: 0 | 1 | null;
+  created_at: string;
+};
+
+type Walkin = { studentName: string; studentEmail: string };
+
+const SELECT_RSVP = `
+  SELECT r.id, s.term_id, s.group_id, s.date, st.name AS student_name, st.email AS student_email, r.status, r.attended,
+         r.created_at
+  FROM study_group_rsvps r
+  JOIN study_group_sessions s ON s.id = r.session_id
+  JOIN students st ON st.id = r.student_id`;
+
+const COUNT_GOING = "SELECT COUNT(*) AS going FROM study_group_rsvps WHERE session_id = ? AND status = 'going'";
+
+// Every meeting from `from` through `to`, in order, from the study groups of whichever term each date falls in.
+export function listSessions(from: string, to: string, now: Date = new Date(), db: Db = getDb()): StudyGroupSession[] {
+  const rows = db
+    .prepare(
+      `SELECT s.term_id, s.group_id, s.date, s.agenda, u.name AS agenda_by,
+              (SELECT COUNT(*) FROM study_group_rsvps r WHERE r.session_id = s.id AND r.status = 'going') AS going
+       FROM study_group_sessions s
+       LEFT JOIN users u ON u.id = s.agenda_updated_by
+       WHERE s.date BETWEEN ? AND ?`
+    )
+    .all(from, to) as SessionRow[];
+  const stored = new Map(rows.map((row) => [`${row.term_id} ${row.group_id} ${row.date}`, row]));
+
+  const sessions: StudyGroupSession[] = [];
+  for (let date = from; date <= to; date = addDaysToDate(date, 1)) {
+    const term = termForDate(date);
+    const day = weekdayOfDate(date);
+    for (const group of term?.studyGroups.filter((entry) => entry.day === day) ?? []) {
+      const row = stored.get(`${term!.id} ${group.id} ${date}`);
+      sessions.push({
+        termId: term!.id,
+        groupId: group.id,
+        course: group.course,
+        date,
+        day,
+        start: group.start,
+        end: group.end,
+        location: term!.onCampusLocation,
+        capacity: group.capacity,
+        agenda: row?.agenda ?? '',
+        agendaBy: row?.agenda_by ?? null,
+        going: row?.going ?? 0,
+        started: hasStarted({ date, start: group.start }, now),
+        ended: hasStarted({ date, start: group.end }, now),
+      });
+    }
+  }
+  return sessions.sort((a, b) => a.date.localeCompare(b.date) || a.start.localeCompare(b.start));
+}
+
+// Meetings students can still RSVP for: from now through the RSVP window.
+export function listOpenSessions(now: Date = new Date(), db: Db = getDb()): StudyGroupSession[] {
+  const today = zonedTime(now).date;
+  return listSessions(today, addDaysToDate(today, RSVP_WINDOW_DAYS), now, db).filter((session) => !session.started);
+}
+
+export function getSession(groupId: string, date: string, now: Date = new Date(), db: Db = getDb()): StudyGroupSession | undefined {
+  if (!isCalendarDate(date)) return undefined;
+  return listSessions(date, date, now, db).find((session) => session.groupId === groupId);
+}
+
+export function rsvpForSession(request: RsvpRequest, now: Date = new Date(), db: Db = getDb()): StudyGroupRsvp {
+  const session = getSession(request.groupId, request.date, now, db);
+  if (!session) {
+    throw new StudyGroupError('SESSION_NOT_FOUND');
+  }
+  if (session.started) {
+    throw new StudyGroupError('SESSION_STARTED');
+  }
+  if (session.date > addDaysToDate(zonedTime(now).date, RSVP_WINDOW_DAYS)) {
+    throw new StudyGroupError('RSVP_NOT_OPEN');
+  }
+  if (activeRestrictionFor(request.studentEmail, now, db)) {
+    throw new StudyGroupError('STUDENT_RESTRICTED');
+  }
+
+  // Counting and inserting in one IMMEDIATE transaction keeps two last-minute RSVPs from overfilling the room.
+  const reserve = db.transaction(() => {
+    const sessionId = ensureSession(session, db);
+    const studentId = upsertStudent(request.studentName, request.studentEmail, db);
+    const existing = db
+      .prepare('SELECT id, status FROM study_group_rsvps WHERE session_id = ? AND student_id = ?')
+      .get(sessionId, studentId) as { id: string; status: RsvpStatus } | undefined;
+    if (existing?.status === 'going') return existing.id;
+
+    const { going } = db.prepare(COUNT_GOING).get(sessionId) as { going: number };
+    if (going >= session.capacity) {
+      throw new StudyGroupError('SESSION_FULL');
+    }
+    if (existing) {
+      db.prepare(
+        "UPDATE study_group_rsvps SET status = 'going', created_at = ?, updated_at = datetime('now') WHERE id = ?"
+      ).run(now.toISOString(), existing.id);
+      return existing.id;
+    }
+    const id = randomUUID();
+    db.prepare('INSERT INTO study_group_rsvps (id, session_id, student_id, created_at) VALUES (?, ?, ?, ?)').run(
+      id,
+      sessionId,
+      studentId,
+      now.toISOString()
+    );
+    return id;
+  });
+  return getRsvp(reserve.immediate(), db)!;
+}
+
+export function getRsvp(id: string, db: Db = getDb()): StudyGroupRsvp | undefined {
+  const row = db.prepare(`${SELECT_RSVP} WHERE r.id = ?`).get(id) as RsvpRow | undefined;
+  return row ? toRsvp(row) : undefined;
+}
+
+// Gives the spot back, up until the group starts.
+export function cancelRsvp(id: string, now: Date = new Date(), db: Db = getDb()): StudyGroupRsvp {
+  const rsvp = getRsvp(id, db);
+  if (!rsvp) {
+    throw new StudyGroupError('RSVP_NOT_FOUND');
+  }
+  const session = getSession(rsvp.groupId, rsvp.date, now, db);
+  if (rsvp.status !== 'going' || !session || session.started) {
+    throw new StudyGroupError('RSVP_CLOSED');
+  }
+  db.prepare("UPDATE study_group_rsvps SET status = 'cancelled', updated_at = datetime('now') WHERE id = ?").run(id);
+  return getRsvp(id, db)!;
+}
+
+// The meeting with everyone who's coming, for a tutor who teaches the group's course.
+export function getRoster(
+  groupId: string,
+  date: string,
+  tutorId: string,
+  now: Date = new Date(),
+  db: Db = getDb()
+): StudyGroupRoster {
+  const session = leadSession(groupId, date, tutorId, now, db);
+  const rows = db
+    .prepare(
+      `${SELECT_RSVP}
+       WHERE s.term_id = ? AND s.group_id = ? AND s.date = ? AND r.status = 'going'
+       ORDER BY r.created_at`
+    )
+    .all(session.termId, groupId, date) as RsvpRow[];
+  return { ...session, rsvps: rows.map(toRsvp) };
+}
+
+// This week's meetings of the groups a tutor can lead, including ones earlier today so attendance can be finished.
+export function listTutorRosters(tutorId: string, now: Date = new Date(), db: Db = getDb()): StudyGroupRoster[] {
+  const today = zonedTime(now).date;
+  return listSessions(today, addDaysToDate(today, RSVP_WINDOW_DAYS), now, db)
+    .filter((session) => getTutor(tutorId, session.termId, db)?.courses.includes(session.course))
+    .map((session) => getRoster(session.groupId, session.date, tutorId, now, db));
+}
+
+export function setAgenda(
+  groupId: string,
+  date: string,
+  agenda: string,
+  tutor: Pick<TutorUser, 'id' | 'tutorId'>,
+  now: Date = new Date(),
+  db: Db = getDb()
+): StudyGroupSession {
+  const session = leadSession(groupId, date, tutor.tutorId, now, db);
+  const sessionId = ensureSession(session, db);
+  db.prepare(
+    "UPDATE study_group_sessions SET agenda = ?, agenda_updated_by = ?, updated_at = datetime('now') WHERE id = ?"
+  ).run(agenda, tutor.id, sessionId);
+  return getSession(groupId, date, now, db)!;
+}
+
+export function recordAttendance(
+  groupId: string,
+  date: string,
+  rsvpId: string,
+  attended: boolean,
+  tutorId: string,
+  now: Date = new Date(),
+  db: Db = getDb()
+): StudyGroupRsvp {
+  const session = leadSession(groupId, date, tutorId, now, db);
+  const rsvp = getRsvp(rsvpId, db);
+  if (!rsvp || rsvp.groupId !== groupId || rsvp.date !== date || rsvp.status !== 'going') {
+    throw new StudyGroupError('RSVP_NOT_FOUND');
+  }
+  if (!session.started) {
+    throw new StudyGroupError('SESSION_NOT_STARTED');
+  }
+  db.prepare("UPDATE study_group_rsvps SET attended = ?, updated_at = datetime('now') WHERE id = ?").run(
+    attended ? 1 : 0,
+    rsvpId
+  );
+  return getRsvp(rsvpId, db)!;
+}
+
+// Someone who came without an RSVP. They count toward attendance, even past capacity.
+export function addWalkIn(
+  groupId: string,
+  date: string,
+  { studentName, studentEmail }: Walkin,
+  tutorId: string,
+  now: Date = new Date(),
+  db: Db = getDb()
+): StudyGroupRsvp {
+  const session = leadSession(groupId, date, tutorId, now, db);
+  if (!session.started) {
+    throw new StudyGroupError('SESSION_NOT_STARTED');
+  }
+  const add = db.transaction(() => {
+    const sessionId = ensureSession(session, db);
+    const studentId = upsertStudent(studentName, studentEmail, db);
+    const row = db
+      .prepare(
+        `INSERT INTO study_group_rsvps (id, session_id, student_id, attended, created_at) VALUES (?, ?, ?, 1, ?)
+         ON CONFLICT (session_id, student_id) DO UPDATE SET status = 'going', attended = 1, updated_at = datetime('now')
+         RETURNING id`
+      )
+      .get(randomUUID(), sessionId, studentId, now.toISOString()) as { id: string };
+    return row.id;
+  });
+  return getRsvp(add(), db)!;
+}
+
+function leadSession(groupId: string, date: string, tutorId: string, now: Date, db: Db): StudyGroupSession {
+  const session = getSession(groupId, date, now, db);
+  if (!session) {
+    throw new StudyGroupError('SESSION_NOT_FOUND');
+  }
+  if (!getTutor(tutorId, session.termId, db)?.courses.includes(session.course)) {
+    throw new StudyGroupError('NOT_YOUR_GROUP');
+  }
+  return session;
+}
+
+// Dates come from URLs as well as forms, so anything that isn't a real day is simply not a meeting.
+function isCalendarDate(date: string): boolean {
+  const parsed = new Date(`${date}T12:00:00Z`);
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) && !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+}
+
+function ensureSession(session: StudyGroupSession, db: Db): number {
+  db.prepare('INSERT OR IGNORE INTO study_group_sessions (term_id, group_id, date) VALUES (?, ?, ?)').run(
+    session.termId,
+    session.groupId,
+    session.date
+  );
+  const row = db
+    .prepare('SELECT id FROM study_group_sessions WHERE term_id = ? AND group_id = ? AND date = ?')
+    .get(session.termId, session.groupId, session.date) as { id: number };
+  return row.id;
+}
+
+function toRsvp(row: RsvpRow): StudyGroupRsvp {
+  return {
+    id: row.id,
+    termId: row.term_id,
+    groupId: row.group_id,
+    date: row.date,
+    studentName: row.student_name,
+    studentEmail: row.student_email,
+    status: row.status,
+    attended: row.attended === null ? null : row.attended === 1,
+    createdAt: row.created_at,
+  };
+}
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+export const rsvpRequestSchema = z.object({
+  groupId: z.string().min(1).max(100),
+  date: dateSchema,
+  studentName: z.string().trim().min(1).max(120),
+  studentEmail: z.email().max(254),
+});
+
+export type RsvpRequest = z.infer<typeof rsvpRequestSchema>;
+
+export const agendaSchema = z.object({
+  agenda: z.string().trim().max(2000),
+});
+
+export const attendanceSchema = z.object({
+  attended: z.boolean(),
+});
+
+export const walkInSchema = z.object({
+  studentName: z.string().trim().min(1).max(120),
+  studentEmail: z.email().max(254),
+});
@@ -0,0 +1,48 @@
+import type { Weekday } from '@/lib/time';
+import type { Course } from '@/lib/tutors/types';
+
+export const RSVP_STATUSES = ['going', 'cancelled'] as const;
+
+export type RsvpStatus = (typeof RSVP_STATUSES)[number];
+
+// Students can RSVP for meetings this many days ahead, which covers the next meeting of every weekly group.
+export const RSVP_WINDOW_DAYS = 7;
+
+// One meeting of a weekly study group on a real date.
+export type StudyGroupSession = {
+  termId: string;
+  groupId: string;
+  course: Course;
+  date: string;
+  day: Weekday;
+  start: string;
+  end: string;
+  location: string;
+  capacity: number;
+  agenda: string;
+  // Name of the tutor who last set the agenda.
+  agendaBy: string | null;
+  going: number;
+  started: boolean;
+  ended: boolean;
+};
+
+export type StudyGroupRsvp = {
+  id: string;
+  termId: string;
+  groupId: string;
+  date: string;
+  studentName: string;
+  studentEmail: string;
+  status: RsvpStatus;
+  // Null until the tutor takes attendance.
+  attended: boolean | null;
+  createdAt: string;
+};
+
+// What the leading tutor sees for a meeting.
+export type StudyGroupRoster = StudyGroupSession & { rsvps: StudyGroupRsvp[] };
+
+export function sessionKey(session: Pick<StudyGroupSession, 'groupId' | 'date'>): string {
+  return `${session.groupId}@${session.date}`;
+}
@@ -0,0 +1,54 @@
+import { zonedTime } from '@/lib/time';
+import { loadTerms, writeTermFile } from './loader';
+import type { Term, TermStatus } from './schema';
+
+export type { BookingRules, OnCampusHours, StudyGroup, Term, TermStatus } from './schema';
+export { loadTerms, TermConfigError } from './loader';
+
+let cachedTerms: Term[] | undefined;
+
+export function getTerms(): Term[] {
+  // Re-read in development so edits to config/terms show up without a restart.
+  if (!cachedTerms || process.env.NODE_ENV === 'development') {
+    cachedTerms = loadTerms();
+  }
+  return cachedTerms;
+}
+
+// Saves a term edited in the admin console; throws a TermConfigError if it doesn't validate.
+export function saveTerm(input: unknown): Term {
+  const term = writeTermFile(input);
+  cachedTerms = undefined;
+  return term;
+}
+
+export function getTerm(id: string): Term | undefined {
+  return getTerms().find((term) => term.id === id);
+}
+
+// Which semester is in session on San Francisco's calendar, switching automatically on start dates.
+export function getTermStatus(now: Date = new Date(), terms: Term[] = getTerms()): TermStatus {
+  const { date } = zonedTime(now);
+  const active = terms.find((term) => term.startDate <= date && date <= term.endDate);
+  if (active) {
+    return { status: 'active', term: active };
+  }
+  return {
+    status: 'between',
+    previous: terms.filter((term) => term.endDate < date).at(-1),
+    next: terms.find((term) => term.startDate > date),
+  };
+}
+
+// The term whose schedule and contact details the site should show: the active one, or during a
+// break the upcoming one (falling back to the one that just ended).
+export function getScheduleTerm(now: Date = new Date()): Term {
+  const status = getTermStatus(now);
+  if (status.status === 'active') return status.term;
+
+  const term = status.next ?? status.previous;
+  if (!term) {
+    throw new Error('No terms are configured in config/terms');
+  }
+  return term;
+}
@@ -0,0 +1,87 @@
+import fs from 'fs';
+import path from 'path';
+import { termSchema, type Term } from './schema';
+
+export const TERMS_DIR = path.join(process.cwd(), 'config', 'terms');
+
+export class TermConfigError extends Error {
+  constructor(readonly problems: string[]) {
+    super(`Invalid term configuration:\n${problems.map((problem) => `  - ${problem}`).join('\n')}`);
+    this.name = 'TermConfigError';
+  }
+}
+
+// Reads and validates every config/terms/*.json file, sorted by start date. Throws a TermConfigError
+// listing every problem at once; next.config.ts calls this so a bad file fails the build.
+export function loadTerms(directory = TERMS_DIR): Term[] {
+  const problems: string[] = [];
+  const terms: Term[] = [];
+
+  const files = fs
+    .readdirSync(directory)
+    .filter((file) => file.endsWith('.json'))
+    .sort();
+
+  for (const file of files) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8'));
+    } catch (error) {
+      problems.push(`${file}: ${error instanceof Error ? error.message : 'could not be parsed'}`);
+      continue;
+    }
+
+    const parsed = termSchema.safeParse(raw);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        problems.push(`${file}: ${issue.path.join('.') || '(root)'}: ${issue.message}`);
+      }
+      continue;
+    }
+    if (`${parsed.data.id}.json` !== file) {
+      problems.push(`${file}: id "${parsed.data.id}" does not match the file name`);
+    }
+    terms.push(parsed.data);
+  }
+
+  if (files.length === 0) {
+    problems.push(`no term files found in ${directory}`);
+  }
+
+  problems.push(...sortAndCheckOverlaps(terms));
+
+  if (problems.length > 0) {
+    throw new TermConfigError(problems);
+  }
+  return terms;
+}
+
+// Validates a term against the schema and the other files, then writes config/terms/<id>.json.
+export function writeTermFile(input: unknown, directory = TERMS_DIR): Term {
+  const parsed = termSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new TermConfigError(parsed.error.issues.map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`));
+  }
+
+  const term = parsed.data;
+  const problems = sortAndCheckOverlaps([...loadTerms(directory).filter((other) => other.id !== term.id), term]);
+  if (problems.length > 0) {
+    throw new TermConfigError(problems);
+  }
+
+  fs.writeFileSync(path.join(directory, `${term.id}.json`), `${JSON.stringify(term, null, 2)}\n`);
+  return term;
+}
+
+function sortAndCheckOverlaps(terms: Term[]): string[] {
+  const problems: string[] = [];
+  terms.sort((a, b) => a.startDate.localeCompare(b.startDate));
+  for (let index = 1; index < terms.length; index++) {
+    const previous = terms[index - 1];
+    const term = terms[index];
+    if (term.startDate <= previous.endDate) {
+      problems.push(`${term.id}: starts on ${term.startDate}, before ${previous.id} ends on ${previous.endDate}`);
+    }
+  }
+  return problems;
+}
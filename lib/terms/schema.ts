@@ -0,0 +1,76 @@
+import { z } from 'zod';
+import { WEEKDAYS } from '../time';
+import { COURSE_CODES, type Course } from '../tutors/types';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a 24h HH:MM time');
+
+const timeRangeShape = {
+  day: z.enum(WEEKDAYS),
+  start: timeSchema,
+  end: timeSchema,
+};
+
+function startsBeforeEnd(range: { start: string; end: string }) {
+  return range.start < range.end;
+}
+
+const START_BEFORE_END = { message: 'start must be before end', path: ['end'] };
+
+const onCampusHoursSchema = z.object(timeRangeShape).refine(startsBeforeEnd, START_BEFORE_END);
+
+const studyGroupSchema = z
+  .object({
+    id: z.string().min(1),
+    course: z.enum(COURSE_CODES as [Course, ...Course[]]),
+    ...timeRangeShape,
+    // How many students can RSVP for each meeting.
+    capacity: z.number().int().min(1),
+  })
+  .refine(startsBeforeEnd, START_BEFORE_END);
+
+// Limits enforced by the booking engine, mirroring the rules page.
+const bookingRulesSchema = z.object({
+  sessionMinutes: z.number().int().min(10).max(120),
+  maxPerDay: z.number().int().min(1),
+  maxPerWeek: z.number().int().min(1),
+  // How far ahead students may book, in days.
+  advanceDays: z.number().int().min(1),
+  // Cancelling or rescheduling closes this many minutes before the session starts.
+  changeCutoffMinutes: z.number().int().min(0),
+  // How long a waitlisted student has to accept a freed slot before it goes to the next in line.
+  waitlistHoldMinutes: z.number().int().min(5),
+});
+
+export const termSchema = z
+  .object({
+    id: z.string().regex(/^[a-z]+-\d{4}$/, 'Expected an id like "fall-2025"'),
+    label: z.string().min(1),
+    startDate: dateSchema,
+    endDate: dateSchema,
+    zoom: z.object({
+      link: z.url(),
+      meetingId: z.string().regex(/^\d{3} \d{4} \d{4}$/, 'Expected a meeting ID like "921 2177 3277"'),
+      localNumbersUrl: z.url(),
+      phoneNumbers: z.array(z.object({ number: z.string().min(1), location: z.string().min(1) })).min(1),
+    }),
+    contacts: z.object({
+      questions: z.email(),
+      feedback: z.email(),
+    }),
+    onCampusLocation: z.string().min(1),
+    onCampusHours: z.array(onCampusHoursSchema),
+    studyGroups: z.array(studyGroupSchema),
+    booking: bookingRulesSchema,
+  })
+  .refine((term) => term.startDate <= term.endDate, { message: 'startDate must not be after endDate', path: ['endDate'] });
+
+export type Term = z.infer<typeof termSchema>;
+export type OnCampusHours = Term['onCampusHours'][number];
+export type StudyGroup = Term['studyGroups'][number];
+export type BookingRules = Term['booking'];
+
+// Either a semester is in session, or we're on a break between two of them.
+export type TermStatus =
+  | { status: 'active'; term: Term }
+  | { status: 'between'; previous?: Term; next?: Term };
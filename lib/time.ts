@@ -0,0 +1,145 @@
+export const TIME_ZONE = 'America/Los_Angeles';
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'] as const;
+
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export function isWeekday(value: string): value is Weekday {
+  return (WEEKDAYS as readonly string[]).includes(value);
+}
+
+// Day of the week in San Francisco, regardless of the server or browser clock.
+export function weekdayInTimeZone(date: Date, timeZone = TIME_ZONE): Weekday {
+  const name = new Intl.DateTimeFormat('en-US', { weekday: 'long', timeZone }).format(date);
+  return isWeekday(name) ? name : WEEKDAYS[date.getDay()];
+}
+
+export function addDays(day: Weekday, offset: number): Weekday {
+  const index = WEEKDAYS.indexOf(day);
+  return WEEKDAYS[(((index + offset) % 7) + 7) % 7];
+}
+
+// Times are stored as 24h "HH:MM" strings.
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+export function fromMinutes(total: number): string {
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+// "14:00" -> "2pm", "14:30" -> "2:30pm"
+export function formatTime(time: string): string {
+  const total = toMinutes(time);
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  const suffix = hours >= 12 ? 'pm' : 'am';
+  const display = hours % 12 === 0 ? 12 : hours % 12;
+  return minutes === 0 ? `${display}${suffix}` : `${display}:${String(minutes).padStart(2, '0')}${suffix}`;
+}
+
+export function formatTimeRange(start: string, end: string): string {
+  return `${formatTime(start)} - ${formatTime(end)}`;
+}
+
+// Parses "2pm", "2:30 pm", "14:00" or a bare "3". Bare hours before 8 are read as afternoon, since
+// nobody is tutoring at 3am.
+export function parseTime(text: string): string | undefined {
+  const match = text.toLowerCase().match(/\b(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)?(?![\d/])/);
+  if (!match) return undefined;
+
+  let hours = Number(match[1]);
+  const minutes = match[2] ? Number(match[2]) : 0;
+  const meridiem = match[3]?.replace(/\./g, '');
+
+  if (hours > 23 || minutes > 59) return undefined;
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (!meridiem && hours >= 1 && hours < 8) hours += 12;
+
+  return fromMinutes(hours * 60 + minutes);
+}
+
+export type ZonedTime = {
+  date: string;
+  day: Weekday;
+  minutes: number;
+};
+
+// Wall-clock date, weekday and minutes since midnight in `timeZone`.
+export function zonedTime(date: Date, timeZone = TIME_ZONE): ZonedTime {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(date)
+      .map((part) => [part.type, part.value])
+  );
+
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    day: weekdayInTimeZone(date, timeZone),
+    minutes: Number(parts.hour) * 60 + Number(parts.minute),
+  };
+}
+
+// "2026-01-20" -> "January 20"
+export function formatDate(date: string): string {
+  return dateAtNoon(date).toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' });
+}
+
+// Calendar dates are "YYYY-MM-DD" strings on the San Francisco calendar. Noon UTC keeps the
+// arithmetic clear of daylight-saving edges.
+function dateAtNoon(date: string): Date {
+  return new Date(`${date}T12:00:00Z`);
+}
+
+export function weekdayOfDate(date: string): Weekday {
+  return WEEKDAYS[dateAtNoon(date).getUTCDay()];
+}
+
+export function addDaysToDate(date: string, days: number): string {
+  const next = dateAtNoon(date);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().slice(0, 10);
+}
+
+// Weeks run Monday through Sunday.
+export function startOfWeek(date: string): string {
+  const offset = (dateAtNoon(date).getUTCDay() + 6) % 7;
+  return addDaysToDate(date, -offset);
+}
+
+// The next date (today included) that falls on `day`.
+export function nextDateForWeekday(day: Weekday, from: string): string {
+  const offset = (WEEKDAYS.indexOf(day) - dateAtNoon(from).getUTCDay() + 7) % 7;
+  return addDaysToDate(from, offset);
+}
+
+// The instant San Francisco's clock reads `time` on `date`.
+export function zonedDateTime(date: string, time: string, timeZone = TIME_ZONE): Date {
+  const guess = new Date(`${date}T${time}:00Z`);
+  const seen = zonedTime(guess, timeZone);
+  const drift = Date.parse(`${seen.date}T00:00:00Z`) + seen.minutes * 60_000 - guess.getTime();
+  return new Date(guess.getTime() - drift);
+}
+
+// SQLite's datetime('now') is "YYYY-MM-DD HH:MM:SS" in UTC without a zone marker.
+export function parseSqlTimestamp(value: string): Date {
+  return new Date(`${value.replace(' ', 'T')}Z`);
+}
+
+// An instant on San Francisco's clock: "October 18, 2:05 PM".
+export function formatInstant(instant: Date): string {
+  const { date, minutes } = zonedTime(instant);
+  return `${formatDate(date)}, ${formatTime(fromMinutes(minutes))}`;
+}
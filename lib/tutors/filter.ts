@@ -0,0 +1,24 @@
+import type { Weekday } from '@/lib/time';
+import type { Course, Language, Tutor } from './types';
+
+export type TutorFilters = {
+  query?: string;
+  course?: Course;
+  language?: Language;
+  day?: Weekday;
+};
+
+export function filterTutors(tutors: Tutor[], { query, course, language, day }: TutorFilters): Tutor[] {
+  const terms = (query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+
+  return tutors.filter((tutor) => {
+    if (course && !tutor.courses.includes(course)) return false;
+    if (language && !tutor.languages.includes(language)) return false;
+    if (day && !tutor.availability.some((shift) => shift.day === day)) return false;
+
+    const haystack = [tutor.name, tutor.pronouns ?? '', tutor.bio, ...tutor.languages, ...tutor.courses.map((c) => `cs ${c} ${c}`)]
+      .join(' ')
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+}
@@ -0,0 +1,150 @@
+import { deleteTutorSessions } from '@/lib/auth/sessions';
+import { getDb, type Db } from '@/lib/db';
+import { getScheduleTerm } from '@/lib/terms';
+import type { Weekday } from '@/lib/time';
+import type { TutorInput, TutorProfileUpdate } from './schema';
+import type { Course, Language, Modality, Tutor, TutorRecord, TutorShift } from './types';
+
+type TutorRow = {
+  id: string;
+  name: string;
+  pronouns: string | null;
+  bio: string;
+};
+
+type ShiftRow = {
+  tutor_id: string;
+  day: Weekday;
+  start_time: string;
+  end_time: string;
+  modality: Modality;
+};
+
+const DAY_ORDER = `CASE day WHEN 'Monday' THEN 1 WHEN 'Tuesday' THEN 2 WHEN 'Wednesday' THEN 3
+  WHEN 'Thursday' THEN 4 WHEN 'Friday' THEN 5 WHEN 'Saturday' THEN 6 ELSE 7 END`;
+
+// Availability is scoped to a semester; it defaults to the term the site is currently showing.
+export function listTutors(termId: string = getScheduleTerm().id, db: Db = getDb()): Tutor[] {
+  const rows = db.prepare('SELECT id, name, pronouns, bio FROM tutors WHERE active = 1 ORDER BY name').all() as TutorRow[];
+  return hydrate(db, rows, termId);
+}
+
+export function getTutor(id: string, termId: string = getScheduleTerm().id, db: Db = getDb()): Tutor | undefined {
+  const row = db.prepare('SELECT id, name, pronouns, bio FROM tutors WHERE id = ? AND active = 1').get(id) as
+    | TutorRow
+    | undefined;
+  return row ? hydrate(db, [row], termId)[0] : undefined;
+}
+
+// Tutors who cover `language`, optionally only those with a shift of the given modality on `day`.
+export function findTutors(
+  language: Language,
+  { day, modality = 'virtual', termId }: { day?: Weekday; modality?: Modality; termId?: string } = {},
+  db: Db = getDb()
+): Tutor[] {
+  return listTutors(termId, db).filter(
+    (tutor) =>
+      tutor.languages.includes(language) &&
+      tutor.availability.some((shift) => shift.modality === modality && (!day || shift.day === day))
+  );
+}
+
+// Every tutor, active or not, for the admin console.
+export function listTutorRecords(termId: string = getScheduleTerm().id, db: Db = getDb()): TutorRecord[] {
+  const rows = db
+    .prepare(
+      `SELECT t.id, t.name, t.pronouns, t.bio, t.active, u.email
+       FROM tutors t LEFT JOIN users u ON u.tutor_id = t.id
+       ORDER BY t.active DESC, t.name`
+    )
+    .all() as (TutorRow & { active: number; email: string | null })[];
+  return hydrate(db, rows, termId).map((tutor, index) => ({
+    ...tutor,
+    active: rows[index].active === 1,
+    email: rows[index].email,
+  }));
+}
+
+export function getTutorRecord(id: string, termId: string = getScheduleTerm().id, db: Db = getDb()): TutorRecord | undefined {
+  return listTutorRecords(termId, db).find((tutor) => tutor.id === id);
+}
+
+// Creates or updates a tutor along with their languages, courses and login. Shifts are saved separately.
+// Deactivating a tutor signs them out; their upcoming appointments are the caller's to cancel.
+export function saveTutor(input: TutorInput, db: Db = getDb()): void {
+  const save = db.transaction(() => {
+    db.prepare(
+      `INSERT INTO tutors (id, name, pronouns, bio, active) VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET name = excluded.name, pronouns = excluded.pronouns, bio = excluded.bio,
+         active = excluded.active, updated_at = datetime('now')`
+    ).run(input.id, input.name, input.pronouns, input.bio, input.active ? 1 : 0);
+
+    db.prepare('DELETE FROM tutor_languages WHERE tutor_id = ?').run(input.id);
+    const addLanguage = db.prepare('INSERT INTO tutor_languages (tutor_id, language, position) VALUES (?, ?, ?)');
+    input.languages.forEach((language, position) => addLanguage.run(input.id, language, position));
+
+    db.prepare('DELETE FROM tutor_courses WHERE tutor_id = ?').run(input.id);
+    const addCourse = db.prepare('INSERT INTO tutor_courses (tutor_id, course) VALUES (?, ?)');
+    input.courses.forEach((course) => addCourse.run(input.id, course));
+
+    if (input.email) {
+      db.prepare(
+        `INSERT INTO users (email, name, role, tutor_id) VALUES (?, ?, 'tutor', ?)
+         ON CONFLICT (tutor_id) DO UPDATE SET email = excluded.email, name = excluded.name, updated_at = datetime('now')`
+      ).run(input.email, input.name, input.id);
+    }
+    if (!input.active) {
+      deleteTutorSessions(input.id, db);
+    }
+  });
+  save();
+}
+
+export function updateTutorProfile(id: string, { pronouns, bio }: TutorProfileUpdate, db: Db = getDb()): void {
+  db.prepare("UPDATE tutors SET pronouns = ?, bio = ?, updated_at = datetime('now') WHERE id = ?").run(pronouns, bio, id);
+}
+
+// Replaces the tutor's weekly shifts for one term; other terms are left alone.
+export function replaceTutorShifts(id: string, termId: string, shifts: TutorShift[], db: Db = getDb()): void {
+  const replace = db.transaction(() => {
+    db.prepare('DELETE FROM tutor_shifts WHERE tutor_id = ? AND term_id = ?').run(id, termId);
+    const insert = db.prepare(
+      'INSERT INTO tutor_shifts (tutor_id, term_id, day, start_time, end_time, modality) VALUES (?, ?, ?, ?, ?, ?)'
+    );
+    for (const shift of shifts) {
+      insert.run(id, termId, shift.day, shift.start, shift.end, shift.modality);
+    }
+  });
+  replace();
+}
+
+function hydrate(db: Db, rows: TutorRow[], termId: string): Tutor[] {
+  if (rows.length === 0) return [];
+
+  const ids = rows.map((row) => row.id);
+  const placeholders = ids.map(() => '?').join(', ');
+  const languages = db
+    .prepare(`SELECT tutor_id, language FROM tutor_languages WHERE tutor_id IN (${placeholders}) ORDER BY position`)
+    .all(...ids) as { tutor_id: string; language: Language }[];
+  const courses = db
+    .prepare(`SELECT tutor_id, course FROM tutor_courses WHERE tutor_id IN (${placeholders}) ORDER BY course`)
+    .all(...ids) as { tutor_id: string; course: Course }[];
+  const shifts = db
+    .prepare(
+      `SELECT tutor_id, day, start_time, end_time, modality FROM tutor_shifts
+       WHERE term_id = ? AND tutor_id IN (${placeholders}) ORDER BY ${DAY_ORDER}, start_time`
+    )
+    .all(termId, ...ids) as ShiftRow[];
+
+  return rows.map((row) => ({
+    id: row.id,
+    name: row.name,
+    pronouns: row.pronouns,
+    bio: row.bio,
+    languages: languages.filter((entry) => entry.tutor_id === row.id).map((entry) => entry.language),
+    courses: courses.filter((entry) => entry.tutor_id === row.id).map((entry) => entry.course),
+    availability: shifts
+      .filter((shift) => shift.tutor_id === row.id)
+      .map((shift) => ({ day: shift.day, start: shift.start_time, end: shift.end_time, modality: shift.modality })),
+  }));
+}
@@ -0,0 +1,6 @@
+import type { Weekday } from '@/lib/time';
+import type { Modality, Tutor, TutorShift } from './types';
+
+export function shiftsFor(tutor: Tutor, modality: Modality, day?: Weekday): TutorShift[] {
+  return tutor.availability.filter((shift) => shift.modality === modality && (!day || shift.day === day));
+}
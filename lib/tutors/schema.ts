@@ -0,0 +1,57 @@
+import { z } from 'zod';
+import { WEEKDAYS } from '../time';
+import { COURSE_CODES, LANGUAGES, MODALITIES, type Course } from './types';
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a 24h HH:MM time');
+
+// What tutors may edit about themselves; languages and courses stay with the coordinators.
+export const tutorProfileSchema = z.object({
+  pronouns: z
+    .string()
+    .trim()
+    .max(40)
+    .transform((value) => value || null),
+  bio: z.string().trim().min(1).max(2000),
+});
+
+const tutorShiftSchema = z
+  .object({
+    day: z.enum(WEEKDAYS),
+    start: timeSchema,
+    end: timeSchema,
+    modality: z.enum(MODALITIES),
+  })
+  .refine((shift) => shift.start < shift.end, { message: 'start must be before end', path: ['end'] });
+
+// A tutor can only be in one place at a time, so shifts on the same day may not overlap.
+export const tutorShiftsSchema = z
+  .array(tutorShiftSchema)
+  .max(40)
+  .superRefine((shifts, context) => {
+    shifts.forEach((shift, index) => {
+      const clash = shifts.findIndex(
+        (other, otherIndex) =>
+          otherIndex < index && other.day === shift.day && other.start < shift.end && shift.start < other.end
+      );
+      if (clash !== -1) {
+        context.addIssue({
+          code: 'custom',
+          message: `overlaps another ${shift.day} shift`,
+          path: [index, 'start'],
+        });
+      }
+    });
+  });
+
+// The full record a coordinator edits. The id doubles as the /bios/<id> slug.
+export const tutorInputSchema = tutorProfileSchema.extend({
+  id: z.string().regex(/^[a-z0-9]+(-[a-z0-9]+)*$/, 'Use lowercase letters, numbers and dashes, e.g. "chris-h"'),
+  name: z.string().trim().min(1).max(80),
+  languages: z.array(z.enum(LANGUAGES)).min(1),
+  courses: z.array(z.enum(COURSE_CODES as [Course, ...Course[]])),
+  active: z.boolean(),
+  email: z.email().max(254).nullable(),
+});
+
+export type TutorProfileUpdate = z.infer<typeof tutorProfileSchema>;
+export type TutorInput = z.infer<typeof tutorInputSchema>;
@@ -0,0 +1,47 @@
+import type { Weekday } from '@/lib/time';
+
+// The same set TechStack advertises on the home page.
+export const LANGUAGES = ['Python', 'Java', 'C++', 'JavaScript', 'Linux'] as const;
+
+export type Language = (typeof LANGUAGES)[number];
+
+export const COURSES = [
+  { code: '110A', title: 'Introduction to Programming (Python)' },
+  { code: '110B', title: 'Programming Fundamentals: C++' },
+  { code: '110C', title: 'Data Structures and Algorithms (C++)' },
+  { code: '111B', title: 'Programming Fundamentals: Java' },
+  { code: '111C', title: 'Data Structures and Algorithms (Java)' },
+  { code: '130A', title: 'JavaScript Programming' },
+  { code: '160A', title: 'Introduction to UNIX/Linux' },
+] as const;
+
+export type Course = (typeof COURSES)[number]['code'];
+
+export const COURSE_CODES = COURSES.map((course) => course.code) as Course[];
+
+export const MODALITIES = ['virtual', 'on-campus'] as const;
+
+export type Modality = (typeof MODALITIES)[number];
+
+export type TutorShift = {
+  day: Weekday;
+  start: string;
+  end: string;
+  modality: Modality;
+};
+
+export type Tutor = {
+  id: string;
+  name: string;
+  pronouns: string | null;
+  bio: string;
+  courses: Course[];
+  languages: Language[];
+  availability: TutorShift[];
+};
+
+// What coordinators see in the admin console: inactive tutors too, and the email the tutor signs in with.
+export type TutorRecord = Tutor & {
+  active: boolean;
+  email: string | null;
+};
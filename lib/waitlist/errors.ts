@@ -0,0 +1,58 @@
+export const WAITLIST_ERROR_CODES = [
+  'SLOTS_OPEN',
+  'ALREADY_WAITING',
+  'OUTSIDE_BOOKING_WINDOW',
+  'NO_MATCHING_HOURS',
+  'STUDENT_RESTRICTED',
+  'DAILY_LIMIT',
+  'ENTRY_NOT_FOUND',
+  'ENTRY_CLOSED',
+  'NO_OFFER',
+  'OFFER_EXPIRED',
+] as const;
+
+export type WaitlistErrorCode = (typeof WAITLIST_ERROR_CODES)[number];
+
+export const WAITLIST_ERROR_MESSAGES: Record<WaitlistErrorCode, string> = {
+  SLOTS_OPEN: 'There are still open times that match. Please book one of those instead.',
+  ALREADY_WAITING: 'You’re already on the waitlist for that day. Use the link from when you joined to check your place.',
+  OUTSIDE_BOOKING_WINDOW: 'That date is outside the booking window for this semester.',
+  NO_MATCHING_HOURS: 'No tutor has Zoom hours that match on that day. Please check the schedule.',
+  STUDENT_RESTRICTED: 'You can’t book tutoring appointments right now. Please contact the Tutor Squad coordinator.',
+  DAILY_LIMIT: 'You already have an appointment that day. The rules allow one appointment per day.',
+  ENTRY_NOT_FOUND: 'We couldn’t find that spot on the waitlist.',
+  ENTRY_CLOSED: 'This waitlist spot has already been used, has expired or was given up.',
+  NO_OFFER: 'No time has opened up for you yet. We’ll email you as soon as one does.',
+  OFFER_EXPIRED: 'The hold on that time ran out, so it went to the next student in line.',
+};
+
+const HTTP_STATUS: Record<WaitlistErrorCode, number> = {
+  SLOTS_OPEN: 409,
+  ALREADY_WAITING: 409,
+  OUTSIDE_BOOKING_WINDOW: 422,
+  NO_MATCHING_HOURS: 422,
+  STUDENT_RESTRICTED: 403,
+  DAILY_LIMIT: 409,
+  ENTRY_NOT_FOUND: 404,
+  ENTRY_CLOSED: 409,
+  NO_OFFER: 409,
+  OFFER_EXPIRED: 410,
+};
+
+export class WaitlistError extends Error {
+  constructor(
+    readonly code: WaitlistErrorCode,
+    message: string = WAITLIST_ERROR_MESSAGES[code]
+  ) {
+    super(message);
+    this.name = 'WaitlistError';
+  }
+
+  get status(): number {
+    return HTTP_STATUS[this.code];
+  }
+
+  toJSON() {
+    return { error: this.message, code: this.code };
+  }
+}
@@ -0,0 +1,315 @@
+import { randomUUID } from 'crypto';
+import { bookAppointment, countAppointments, hasStarted, listSlots, termForDate } from '@/lib/booking/repository';
+import { slotId, type Appointment, type Slot } from '@/lib/booking/types';
+import { getDb, type Db } from '@/lib/db';
+import { activeRestrictionFor, upsertStudent } from '@/lib/students/repository';
+import { describeSuspensionEnd } from '@/lib/students/types';
+import type { Term } from '@/lib/terms';
+import { addDaysToDate, formatDate, startOfWeek, zonedDateTime, zonedTime } from '@/lib/time';
+import { listTutors } from '@/lib/tutors/repository';
+import type { Course, Tutor } from '@/lib/tutors/types';
+import { WaitlistError } from './errors';
+import type { AcceptOfferRequest, WaitlistRequest } from './schema';
+import type { WaitlistEntry, WaitlistRun, WaitlistStatus, WaitlistTicket } from './types';
+
+type EntryRow = {
+  id: string;
+  term_id: string;
+  student_id: number;
+  student_name: string;
+  student_email: string;
+  date: string;
+  tutor_id: string | null;
+  tutor_name: string | null;
+  course: Course | null;
+  from_time: string | null;
+  to_time: string | null;
+  status: WaitlistStatus;
+  offer_tutor_id: string | null;
+  offer_tutor_name: string | null;
+  offer_start: string | null;
+  offer_end: string | null;
+  offered_at: string | null;
+  hold_expires_at: string | null;
+  appointment_id: string | null;
+  created_at: string;
+};
+
+type Wanted = Pick<WaitlistEntry, 'tutorId' | 'course' | 'from' | 'to'>;
+
+const SELECT_ENTRY = `
+  SELECT w.id, w.term_id, w.student_id, s.name AS student_name, s.email AS student_email, w.date, w.tutor_id,
+         t.name AS tutor_name, w.course, w.from_time, w.to_time, w.status, w.offer_tutor_id, o.name AS offer_tutor_name,
+         w.offer_start, w.offer_end, w.offered_at, w.hold_expires_at, w.appointment_id, w.created_at
+  FROM waitlist_entries w
+  JOIN students s ON s.id = w.student_id
+  LEFT JOIN tutors t ON t.id = w.tutor_id
+  LEFT JOIN tutors o ON o.id = w.offer_tutor_id`;
+
+// Line order: first come, first served.
+const IN_LINE_ORDER = 'ORDER BY w.created_at, w.rowid';
+
+// Puts the student in line for `date`. Only allowed once every matching slot is taken, and under the same
+// rules as booking, so no one waits for a session they couldn't book anyway.
+export function joinWaitlist(request: WaitlistRequest, now: Date = new Date(), db: Db = getDb()): WaitlistTicket {
+  const { date } = request;
+  const today = zonedTime(now).date;
+  const term = termForDate(date);
+  if (!term || date < today) {
+    throw new WaitlistError('OUTSIDE_BOOKING_WINDOW');
+  }
+  const lastBookableDate = addDaysToDate(today, term.booking.advanceDays);
+  if (date > lastBookableDate) {
+    throw new WaitlistError(
+      'OUTSIDE_BOOKING_WINDOW',
+      `Appointments open ${term.booking.advanceDays} days ahead, so the latest day you can wait for right now is ${formatDate(lastBookableDate)}.`
+    );
+  }
+
+  const wanted: Wanted = {
+    tutorId: request.tutorId ?? null,
+    course: request.course ?? null,
+    from: request.from ?? null,
+    to: request.to ?? null,
+  };
+  const slots = matchingSlots(wanted, listSlots({ date }, now, db), tutorsFor(term, db)).filter(
+    (slot) => !hasStarted(slot, now)
+  );
+  if (slots.length === 0) {
+    throw new WaitlistError('NO_MATCHING_HOURS');
+  }
+  if (slots.some((slot) => slot.available)) {
+    throw new WaitlistError('SLOTS_OPEN');
+  }
+
+  const restriction = activeRestrictionFor(request.studentEmail, now, db);
+  if (restriction) {
+    throw new WaitlistError(
+      'STUDENT_RESTRICTED',
+      restriction.endsAt
+        ? `Your booking privileges are suspended ${describeSuspensionEnd(restriction.endsAt)}. Please contact the Tutor Squad coordinator with any questions.`
+        : undefined
+    );
+  }
+
+  const id = randomUUID();
+  const join = db.transaction(() => {
+    const studentId = upsertStudent(request.studentName, request.studentEmail, db);
+    if (countAppointments(db, studentId, date, date) >= term.booking.maxPerDay) {
+      throw new WaitlistError(
+        'DAILY_LIMIT',
+        `You already have an appointment on ${formatDate(date)}. The rules allow one appointment per day.`
+      );
+    }
+
+    try {
+      db.prepare(
+        `INSERT INTO waitlist_entries (id, term_id, student_id, date, tutor_id, course, from_time, to_time, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(id, term.id, studentId, date, wanted.tutorId, wanted.course, wanted.from, wanted.to, now.toISOString());
+    } catch (error) {
+      if (error instanceof Error && 'code' in error && error.code === 'SQLITE_CONSTRAINT_UNIQUE') {
+        throw new WaitlistError('ALREADY_WAITING');
+      }
+      throw error;
+    }
+  });
+  join.immediate();
+
+  return getWaitlistTicket(id, db)!;
+}
+
+export function getWaitlistEntry(id: string, db: Db = getDb()): WaitlistEntry | undefined {
+  const row = db.prepare(`${SELECT_ENTRY} WHERE w.id = ?`).get(id) as EntryRow | undefined;
+  return row ? toEntry(row) : undefined;
+}
+
+export function getWaitlistTicket(id: string, db: Db = getDb()): WaitlistTicket | undefined {
+  const entry = getWaitlistEntry(id, db);
+  if (!entry) return undefined;
+  if (entry.status !== 'waiting') return { entry, position: null };
+
+  const line = db
+    .prepare(`SELECT id FROM waitlist_entries w WHERE date = ? AND status = 'waiting' ${IN_LINE_ORDER}`)
+    .all(entry.date) as { id: string }[];
+  return { entry, position: line.findIndex((row) => row.id === id) + 1 };
+}
+
+// Everyone waiting or holding an offer for `date`, in line order.
+export function listWaitlist(date: string, db: Db = getDb()): WaitlistEntry[] {
+  const rows = db
+    .prepare(`${SELECT_ENTRY} WHERE w.date = ? AND w.status IN ('waiting', 'offered') ${IN_LINE_ORDER}`)
+    .all(date) as EntryRow[];
+  return rows.map(toEntry);
+}
+
+// Takes the student out of line. Giving up an open offer releases the held slot for the next student.
+export function leaveWaitlist(id: string, db: Db = getDb()): WaitlistEntry {
+  const entry = getOpenEntry(id, db);
+  db.prepare("UPDATE waitlist_entries SET status = 'left', updated_at = datetime('now') WHERE id = ?").run(entry.id);
+  return getWaitlistEntry(id, db)!;
+}
+
+// Books the held slot. It goes through the same checks as any booking, so a student who hasn't agreed
+// to the current rules or to recording this term does that here.
+export function acceptOffer(
+  id: string,
+  agreements: AcceptOfferRequest,
+  now: Date = new Date(),
+  db: Db = getDb()
+): Appointment {
+  const entry = getOpenEntry(id, db);
+  if (!entry.offer) {
+    throw new WaitlistError('NO_OFFER');
+  }
+  if (entry.offer.expiresAt <= now.toISOString()) {
+    throw new WaitlistError('OFFER_EXPIRED');
+  }
+
+  const accept = db.transaction(() => {
+    const appointment = bookAppointment(
+      {
+        slotId: entry.offer!.slotId,
+        studentName: entry.studentName,
+        studentEmail: entry.studentEmail,
+        course: entry.course ?? undefined,
+        ...agreements,
+      },
+      now,
+      db
+    );
+    db.prepare(
+      "UPDATE waitlist_entries SET status = 'booked', appointment_id = ?, updated_at = datetime('now') WHERE id = ?"
+    ).run(appointment.id, id);
+    return appointment;
+  });
+  return accept.immediate();
+}
+
+// The expiry job: closes offers whose hold ran out and spots that can no longer be filled, then offers
+// every free slot to the first eligible student waiting for it. Run it after anything that frees a slot,
+// and on a schedule so lapsed holds move down the line.
+export function advanceWaitlist(now: Date = new Date(), db: Db = getDb()): WaitlistRun {
+  const advance = db.transaction((): WaitlistRun => {
+    const expire = db.prepare("UPDATE waitlist_entries SET status = 'expired', updated_at = datetime('now') WHERE id = ?");
+    const lapsed = db
+      .prepare("SELECT id FROM waitlist_entries WHERE status = 'offered' AND hold_expires_at <= ?")
+      .all(now.toISOString()) as { id: string }[];
+    const expired = lapsed.map(({ id }) => id);
+    for (const id of expired) expire.run(id);
+
+    const offered: string[] = [];
+    const days = new Map<string, { term?: Term; tutors: Map<string, Tutor>; slots: Slot[]; claimed: Set<string> }>();
+    const waiting = db.prepare(`${SELECT_ENTRY} WHERE w.status = 'waiting' ${IN_LINE_ORDER}`).all() as EntryRow[];
+    for (const row of waiting) {
+      if (!days.has(row.date)) {
+        const term = termForDate(row.date);
+        days.set(row.date, {
+          term,
+          tutors: term ? tutorsFor(term, db) : new Map(),
+          slots: listSlots({ date: row.date }, now, db),
+          claimed: new Set(),
+        });
+      }
+      const { term, tutors, slots, claimed } = days.get(row.date)!;
+
+      const entry = toEntry(row);
+      const candidates = matchingSlots(entry, slots, tutors).filter((slot) => !hasStarted(slot, now));
+      if (!term || candidates.length === 0) {
+        expire.run(entry.id);
+        expired.push(entry.id);
+        continue;
+      }
+
+      const slot = candidates.find((candidate) => candidate.available && !claimed.has(candidate.id));
+      if (!slot || !isEligible(row, term, now, db)) continue;
+
+      const holdUntil = Math.min(
+        now.getTime() + term.booking.waitlistHoldMinutes * 60_000,
+        zonedDateTime(slot.date, slot.start).getTime()
+      );
+      db.prepare(
+        `UPDATE waitlist_entries
+         SET status = 'offered', offer_tutor_id = ?, offer_start = ?, offer_end = ?, offered_at = ?, hold_expires_at = ?,
+             updated_at = datetime('now')
+         WHERE id = ?`
+      ).run(slot.tutorId, slot.start, slot.end, now.toISOString(), new Date(holdUntil).toISOString(), entry.id);
+      claimed.add(slot.id);
+      offered.push(entry.id);
+    }
+
+    return {
+      expired: expired.map((id) => getWaitlistEntry(id, db)!),
+      offered: offered.map((id) => getWaitlistEntry(id, db)!),
+    };
+  });
+  return advance.immediate();
+}
+
+function getOpenEntry(id: string, db: Db): WaitlistEntry {
+  const entry = getWaitlistEntry(id, db);
+  if (!entry) {
+    throw new WaitlistError('ENTRY_NOT_FOUND');
+  }
+  if (entry.status === 'expired' && entry.offer) {
+    throw new WaitlistError('OFFER_EXPIRED');
+  }
+  if (entry.status !== 'waiting' && entry.status !== 'offered') {
+    throw new WaitlistError('ENTRY_CLOSED');
+  }
+  return entry;
+}
+
+// Skipped students keep their place; they're offered the next slot once they could book it.
+function isEligible(row: EntryRow, term: Term, now: Date, db: Db): boolean {
+  if (activeRestrictionFor(row.student_email, now, db)) return false;
+  const { maxPerDay, maxPerWeek } = term.booking;
+  const weekStart = startOfWeek(row.date);
+  return (
+    countAppointments(db, row.student_id, row.date, row.date) < maxPerDay &&
+    countAppointments(db, row.student_id, weekStart, addDaysToDate(weekStart, 6)) < maxPerWeek
+  );
+}
+
+function matchingSlots(wanted: Wanted, slots: Slot[], tutors: Map<string, Tutor>): Slot[] {
+  return slots.filter(
+    (slot) =>
+      (!wanted.tutorId || slot.tutorId === wanted.tutorId) &&
+      (!wanted.course || (tutors.get(slot.tutorId)?.courses.includes(wanted.course) ?? false)) &&
+      (!wanted.from || slot.start >= wanted.from) &&
+      (!wanted.to || slot.end <= wanted.to)
+  );
+}
+
+function tutorsFor(term: Term, db: Db): Map<string, Tutor> {
+  return new Map(listTutors(term.id, db).map((tutor) => [tutor.id, tutor]));
+}
+
+function toEntry(row: EntryRow): WaitlistEntry {
+  return {
+    id: row.id,
+    termId: row.term_id,
+    studentName: row.student_name,
+    studentEmail: row.student_email,
+    date: row.date,
+    tutorId: row.tutor_id,
+    tutorName: row.tutor_name,
+    course: row.course,
+    from: row.from_time,
+    to: row.to_time,
+    status: row.status,
+    offer:
+      row.offer_tutor_id && row.offer_start && row.offer_end && row.offered_at && row.hold_expires_at
+        ? {
+            slotId: slotId(row.offer_tutor_id, row.date, row.offer_start),
+            tutorName: row.offer_tutor_name ?? row.offer_tutor_id,
+            start: row.offer_start,
+            end: row.offer_end,
+            offeredAt: row.offered_at,
+            expiresAt: row.hold_expires_at,
+          }
+        : null,
+    appointmentId: row.appointment_id,
+    createdAt: row.created_at,
+  };
+}
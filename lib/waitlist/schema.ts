@@ -0,0 +1,28 @@
+import { z } from 'zod';
+import { COURSE_CODES, type Course } from '@/lib/tutors/types';
+
+const timeSchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Expected a 24h HH:MM time');
+
+export const waitlistRequestSchema = z
+  .object({
+    studentName: z.string().trim().min(1).max(120),
+    studentEmail: z.email().max(254),
+    date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date'),
+    tutorId: z.string().min(1).max(100).optional(),
+    course: z.enum(COURSE_CODES as [Course, ...Course[]]).optional(),
+    from: timeSchema.optional(),
+    to: timeSchema.optional(),
+  })
+  .refine((request) => !request.from || !request.to || request.from < request.to, {
+    message: 'from must be before to',
+    path: ['to'],
+  });
+
+export type WaitlistRequest = z.infer<typeof waitlistRequestSchema>;
+
+export const acceptOfferSchema = z.object({
+  rulesVersion: z.number().int().positive().optional(),
+  recordingConsent: z.boolean().optional(),
+});
+
+export type AcceptOfferRequest = z.infer<typeof acceptOfferSchema>;
@@ -0,0 +1,45 @@
+import type { Course } from '@/lib/tutors/types';
+
+export const WAITLIST_STATUSES = ['waiting', 'offered', 'booked', 'expired', 'left'] as const;
+
+export type WaitlistStatus = (typeof WAITLIST_STATUSES)[number];
+
+export type WaitlistEntry = {
+  id: string;
+  termId: string;
+  studentName: string;
+  studentEmail: string;
+  date: string;
+  // What the student is waiting for. Null means any tutor, any course or any time that day.
+  tutorId: string | null;
+  tutorName: string | null;
+  course: Course | null;
+  from: string | null;
+  to: string | null;
+  status: WaitlistStatus;
+  // The slot being held for the student while an offer is open.
+  offer: WaitlistOffer | null;
+  appointmentId: string | null;
+  createdAt: string;
+};
+
+export type WaitlistOffer = {
+  slotId: string;
+  tutorName: string;
+  start: string;
+  end: string;
+  offeredAt: string;
+  expiresAt: string;
+};
+
+// What a student sees on their waitlist page.
+export type WaitlistTicket = {
+  entry: WaitlistEntry;
+  // 1 means next in line for that day. Null once the entry isn't waiting.
+  position: number | null;
+};
+
+export type WaitlistRun = {
+  expired: WaitlistEntry[];
+  offered: WaitlistEntry[];
+};
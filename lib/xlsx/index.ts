@@ -0,0 +1,142 @@
+import { zip } from './zip';
+
+export type XlsxValue = string | number | null | undefined;
+
+export type XlsxColumn = {
+  header: string;
+  // Numbers in a percent column are fractions: 0.25 shows as 25.0%.
+  format?: 'percent';
+};
+
+export type XlsxSheet = {
+  // Excel allows 31 characters and no []:*?/\ in sheet names.
+  name: string;
+  columns: XlsxColumn[];
+  rows: XlsxValue[][];
+};
+
+// Cell styles, by index into cellXfs below.
+const STYLE = { header: 1, percent: 2 } as const;
+
+const STYLES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>
+</styleSheet>`;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines aren't allowed in XML at all.
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+// "A", "B", … "Z", "AA", …
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cell(value: XlsxValue, ref: string, style?: number): string {
+  const s = style ? ` s="${style}"` : '';
+  if (value === null || value === undefined || value === '') return '';
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? `<c r="${ref}"${s}><v>${value}</v></c>` : '';
+  }
+  // Inline strings are never evaluated as formulas, so no escaping beyond XML is needed.
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function worksheet({ columns, rows }: XlsxSheet): string {
+  const header = columns.map((column, index) => cell(column.header, `${columnName(index)}1`, STYLE.header)).join('');
+  const body = rows.map((row, rowIndex) => {
+    const cells = row.map((value, index) =>
+      cell(value, `${columnName(index)}${rowIndex + 2}`, columns[index]?.format === 'percent' ? STYLE.percent : undefined)
+    );
+    return `<row r="${rowIndex + 2}">${cells.join('')}</row>`;
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews>',
+    `<sheetData><row r="1">${header}</row>${body.join('')}</sheetData>`,
+    '</worksheet>',
+  ].join('');
+}
+
+// A minimal Office Open XML workbook: one worksheet per sheet, a bold header row, and nothing else.
+export function toXlsx(sheets: XlsxSheet[]): Buffer {
+  const names = sheets.map((sheet) => sheet.name.replace(/[[\]:*?/\\]/g, ' ').slice(0, 31));
+  const entries = [
+    {
+      name: '[Content_Types].xml',
+      xml: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+        '<Default Extension="xml" ContentType="application/xml"/>',
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+        ...sheets.map(
+          (_, index) =>
+            `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        ),
+        '</Types>',
+      ].join(''),
+    },
+    {
+      name: '_rels/.rels',
+      xml: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>',
+        '</Relationships>',
+      ].join(''),
+    },
+    {
+      name: 'xl/workbook.xml',
+      xml: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+        '<sheets>',
+        ...names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`),
+        '</sheets></workbook>',
+      ].join(''),
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      xml: [
+        '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+        ...sheets.map(
+          (_, index) =>
+            `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+        ),
+        `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`,
+        '</Relationships>',
+      ].join(''),
+    },
+    { name: 'xl/styles.xml', xml: STYLES },
+    ...sheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, xml: worksheet(sheet) })),
+  ];
+  return zip(entries.map(({ name, xml }) => ({ name, data: Buffer.from(xml, 'utf8') })));
+}
+
+export function xlsxResponse(workbook: Buffer, filename: string): Response {
+  return new Response(new Uint8Array(workbook), {
+    headers: {
+      'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+}
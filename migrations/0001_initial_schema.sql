@@ -0,0 +1,37 @@
+-- Tutor directory
+
+CREATE TABLE tutors (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  pronouns TEXT,
+  bio TEXT NOT NULL DEFAULT '',
+  active INTEGER NOT NULL DEFAULT 1,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE tutor_languages (
+  tutor_id TEXT NOT NULL REFERENCES tutors(id) ON DELETE CASCADE,
+  language TEXT NOT NULL CHECK (language IN ('Python', 'Java', 'C++', 'JavaScript', 'Linux')),
+  position INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (tutor_id, language)
+);
+
+CREATE TABLE tutor_courses (
+  tutor_id TEXT NOT NULL REFERENCES tutors(id) ON DELETE CASCADE,
+  course TEXT NOT NULL,
+  PRIMARY KEY (tutor_id, course)
+);
+
+CREATE TABLE tutor_shifts (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  tutor_id TEXT NOT NULL REFERENCES tutors(id) ON DELETE CASCADE,
+  day TEXT NOT NULL CHECK (day IN ('Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday')),
+  start_time TEXT NOT NULL,
+  end_time TEXT NOT NULL,
+  modality TEXT NOT NULL CHECK (modality IN ('virtual', 'on-campus')),
+  CHECK (start_time < end_time)
+);
+
+CREATE INDEX tutor_shifts_tutor_idx ON tutor_shifts (tutor_id);
+CREATE INDEX tutor_shifts_day_idx ON tutor_shifts (day, modality);
@@ -0,0 +1,54 @@
+-- Seed tutors for local development
+
+INSERT INTO tutors (id, name, pronouns, bio) VALUES
+  ('chris-h', 'Chris H', 'he/him',
+   'Computer science major who fell in love with the web in CS 130A. Happy to help you untangle async JavaScript, debug a stubborn Python script, or just figure out where to start.'),
+  ('maya-r', 'Maya R', 'she/her',
+   'Transfer-bound CS student and former 111C student. Maya loves recursion, linked lists and helping people find the one-character bug in their Java code.'),
+  ('daniel-k', 'Daniel K', 'he/him',
+   'Daniel tutors the C++ sequence and is always up for a pointer diagram on the whiteboard. Bring your compiler errors, the longer the better.'),
+  ('priya-s', 'Priya S', 'she/they',
+   'Priya works through Java and C++ data structures with a focus on testing and debugging strategies. Ask about Big-O any time.'),
+  ('leo-m', 'Leo M', 'they/them',
+   'Leo lives in the terminal. They can help you log into hills, write shell scripts for 160A, and tame vim, plus the occasional Python question.'),
+  ('sofia-t', 'Sofia T', 'she/her',
+   'Sofia has tutored JavaScript, Java and Linux for three semesters. She likes breaking big assignments into small, testable steps.');
+
+INSERT INTO tutor_languages (tutor_id, language, position) VALUES
+  ('chris-h', 'JavaScript', 0), ('chris-h', 'Python', 1),
+  ('maya-r', 'Python', 0), ('maya-r', 'Java', 1),
+  ('daniel-k', 'C++', 0), ('daniel-k', 'Python', 1),
+  ('priya-s', 'Java', 0), ('priya-s', 'C++', 1),
+  ('leo-m', 'Linux', 0), ('leo-m', 'Python', 1),
+  ('sofia-t', 'JavaScript', 0), ('sofia-t', 'Java', 1), ('sofia-t', 'Linux', 2);
+
+INSERT INTO tutor_courses (tutor_id, course) VALUES
+  ('chris-h', '110A'), ('chris-h', '130A'),
+  ('maya-r', '110A'), ('maya-r', '111B'), ('maya-r', '111C'),
+  ('daniel-k', '110A'), ('daniel-k', '110B'), ('daniel-k', '110C'),
+  ('priya-s', '110C'), ('priya-s', '111B'), ('priya-s', '111C'),
+  ('leo-m', '110A'), ('leo-m', '160A'),
+  ('sofia-t', '111B'), ('sofia-t', '130A'), ('sofia-t', '160A');
+
+INSERT INTO tutor_shifts (tutor_id, day, start_time, end_time, modality) VALUES
+  ('chris-h', 'Monday', '14:00', '17:00', 'virtual'),
+  ('chris-h', 'Wednesday', '14:00', '17:00', 'virtual'),
+  ('chris-h', 'Tuesday', '15:00', '18:00', 'on-campus'),
+  ('maya-r', 'Tuesday', '10:00', '13:00', 'virtual'),
+  ('maya-r', 'Thursday', '10:00', '13:00', 'virtual'),
+  ('maya-r', 'Monday', '10:00', '13:00', 'on-campus'),
+  ('maya-r', 'Wednesday', '10:00', '13:00', 'on-campus'),
+  ('daniel-k', 'Monday', '10:00', '12:00', 'virtual'),
+  ('daniel-k', 'Wednesday', '10:00', '12:00', 'virtual'),
+  ('daniel-k', 'Friday', '13:00', '15:00', 'virtual'),
+  ('daniel-k', 'Thursday', '14:00', '18:00', 'on-campus'),
+  ('priya-s', 'Tuesday', '15:00', '18:00', 'virtual'),
+  ('priya-s', 'Wednesday', '17:00', '19:00', 'virtual'),
+  ('priya-s', 'Thursday', '11:00', '14:00', 'on-campus'),
+  ('leo-m', 'Monday', '17:00', '19:00', 'virtual'),
+  ('leo-m', 'Thursday', '15:00', '18:00', 'virtual'),
+  ('leo-m', 'Monday', '13:00', '16:00', 'on-campus'),
+  ('sofia-t', 'Tuesday', '18:00', '20:00', 'virtual'),
+  ('sofia-t', 'Friday', '10:00', '12:00', 'virtual'),
+  ('sofia-t', 'Tuesday', '12:00', '15:00', 'on-campus'),
+  ('sofia-t', 'Wednesday', '13:00', '16:00', 'on-campus');
@@ -0,0 +1,6 @@
+-- Tutor shifts belong to a semester. Existing rows are the Fall 2025 schedule.
+
+ALTER TABLE tutor_shifts ADD COLUMN term_id TEXT NOT NULL DEFAULT 'fall-2025';
+
+DROP INDEX tutor_shifts_day_idx;
+CREATE INDEX tutor_shifts_term_day_idx ON tutor_shifts (term_id, day, modality);
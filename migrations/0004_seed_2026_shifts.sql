@@ -0,0 +1,7 @@
+-- Seed the 2026 semesters with the Fall 2025 shift pattern for local development
+
+INSERT INTO tutor_shifts (tutor_id, day, start_time, end_time, modality, term_id)
+SELECT tutor_id, day, start_time, end_time, modality, 'spring-2026' FROM tutor_shifts WHERE term_id = 'fall-2025';
+
+INSERT INTO tutor_shifts (tutor_id, day, start_time, end_time, modality, term_id)
+SELECT tutor_id, day, start_time, end_time, modality, 'fall-2026' FROM tutor_shifts WHERE term_id = 'fall-2025';
@@ -0,0 +1,29 @@
+-- First-party booking: students and the appointments they reserve.
+
+CREATE TABLE students (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+  name TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE TABLE appointments (
+  id TEXT PRIMARY KEY,
+  term_id TEXT NOT NULL,
+  tutor_id TEXT NOT NULL REFERENCES tutors(id),
+  student_id INTEGER NOT NULL REFERENCES students(id),
+  date TEXT NOT NULL,
+  start_time TEXT NOT NULL,
+  end_time TEXT NOT NULL,
+  language TEXT CHECK (language IN ('Python', 'Java', 'C++', 'JavaScript', 'Linux')),
+  course TEXT,
+  notes TEXT NOT NULL DEFAULT '',
+  status TEXT NOT NULL DEFAULT 'booked' CHECK (status IN ('booked', 'cancelled', 'completed', 'no-show')),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- A slot can only be held by one live appointment; cancelling frees it again.
+CREATE UNIQUE INDEX appointments_slot_idx ON appointments (tutor_id, date, start_time) WHERE status <> 'cancelled';
+CREATE INDEX appointments_student_date_idx ON appointments (student_id, date);
@@ -0,0 +1,3 @@
+-- A rescheduled appointment is cancelled and points at the booking that replaced it.
+
+ALTER TABLE appointments ADD COLUMN rescheduled_to TEXT REFERENCES appointments(id);
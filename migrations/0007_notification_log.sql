@@ -0,0 +1,10 @@
+-- One row per email sent about an appointment, so reminders go out once even if the job runs often.
+
+CREATE TABLE notification_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  appointment_id TEXT NOT NULL REFERENCES appointments(id),
+  template TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  sent_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (appointment_id, template)
+);
@@ -0,0 +1,28 @@
+-- Logins for tutors, server-side sessions, and the context students give tutors ahead of a session.
+
+CREATE TABLE users (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  email TEXT NOT NULL UNIQUE COLLATE NOCASE,
+  name TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'tutor',
+  tutor_id TEXT UNIQUE REFERENCES tutors(id),
+  -- NULL until a password is set with `npm run auth:set-password`.
+  password_hash TEXT,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- Keyed by a SHA-256 of the cookie value, so a leaked database can't be replayed as sessions.
+CREATE TABLE sessions (
+  id TEXT PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  expires_at TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX sessions_user_idx ON sessions (user_id);
+
+INSERT INTO users (email, name, tutor_id) SELECT id || '@tutors.ccsf.edu', name, id FROM tutors;
+
+ALTER TABLE appointments ADD COLUMN assignment TEXT NOT NULL DEFAULT '';
+ALTER TABLE appointments ADD COLUMN attempted TEXT NOT NULL DEFAULT '';
@@ -0,0 +1,85 @@
+-- Content coordinators manage from /admin, student restrictions, and the audit trail of admin changes.
+
+INSERT INTO users (email, name, role) VALUES ('jpotter@ccsf.edu', 'Tutor Squad Coordinator', 'coordinator');
+
+CREATE TABLE resources (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  title TEXT NOT NULL,
+  link_href TEXT,
+  link_label TEXT,
+  useful_for TEXT NOT NULL,
+  description TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+INSERT INTO resources (title, link_href, useful_for, description, position) VALUES
+  ('Python Tutor', 'https://pythontutor.com', 'Python, Java, C, C++, JavaScript, Ruby',
+   'Don''t let the name fool you! Python Tutor visualizes code execution one line at a time so you can watch variables and the call stack update as your program runs—perfect for building understanding and debugging.', 1),
+  ('Logging Into and Using Hills', 'https://docs.google.com/document/d/e/2PACX-1vTcmCa0wOqRkZpRcwwlgix68yp5adqIfL9kFPK2FnFB0nqWxzhrXfGOgfu1P2OZSnSpqP9WTElDvqTx/pub', 'Connecting to the CCSF hills cluster from Windows, macOS, or Linux',
+   'Step-by-step directions for connecting to the hills computer cluster from different operating systems, plus a link to the ACRC handout that covers logging in and out from an on-campus lab machine.', 2),
+  ('Using Hills and VS Code', 'https://docs.google.com/document/u/3/d/e/2PACX-1vRnYIP0gaAj7fSNjQtUnq8FOunShkTNKvKksVMdvTRKLIb9gSFntZ6ynb5ZpvpAlH2_3-TlaQXeBvjM/pub', 'Editing hills files directly in VS Code',
+   'A picture-heavy walkthrough that shows how to connect VS Code to the hills server so you can browse directories, edit files, and run code without leaving your favorite editor.', 3),
+  ('Python Cheatsheet', 'https://www.pythoncheatsheet.org/', 'Python syntax and standard library',
+   'A curated quick reference with concise examples covering everything from data structures and file handling to virtual environments.', 4),
+  ('Command Challenge', 'https://cmdchallenge.com/', 'Linux command line practice',
+   'Turn terminal practice into a game: each challenge prompts you to accomplish a task using a single command, helping you build muscle memory and confidence with the shell.', 5),
+  ('Basic UNIX Commands', 'https://hills.ccsf.edu/~jpotter/resources/gboyd_basic_unix_commands.html', 'Quick Linux command reference',
+   'Former CS 160A instructor Greg Boyd compiled this handy list of essential UNIX commands—a perfect refresher when you just need to recall the right flag or syntax.', 6),
+  ('Online Bash Shell IDE (JDoodle)', 'https://www.jdoodle.com/test-bash-shell-script-online/', 'Testing and sharing Bash scripts',
+   'Run bash scripts inside your browser, share the output, and experiment without needing local shell access—great for quick experimentation or collaboration.', 7),
+  ('Vim Cheat Sheet', 'https://vim.rtorr.com/', 'Vim commands and shortcuts',
+   'A beautifully organized reference for vim modes, navigation, editing, macros, and more. Keep it nearby while you level up your command-line editing skills.', 8),
+  ('VIM Adventures', 'https://vim-adventures.com/', 'Learning vim through play',
+   'Explore a Zelda-style world that teaches vim commands as gameplay mechanics. It’s a surprisingly fun way to internalize shortcuts and navigation patterns.', 9);
+
+-- Rule text supports **bold** and [links](https://example.com).
+CREATE TABLE rules (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  section TEXT NOT NULL CHECK (section IN ('do', 'try')),
+  body TEXT NOT NULL,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+INSERT INTO rules (section, body, position) VALUES
+  ('do', 'Follow the [CCSF Student Code of Conduct](https://www.ccsf.edu/about-ccsf/administration/student-affairs/student-conduct-and-discipline). As a recipient of tutoring, you are held to the same standards of behavior as in other areas of the college.', 1),
+  ('do', 'Be kind to the tutors. They are students, just like you! If you’re feeling frustrated with a problem, please don’t take it out on them—they’re doing their best to help.', 2),
+  ('do', '**Limit appointments to one per day.** If you book more than one appointment on a given day, tutors will only prioritize you for the first appointment. Additional help will depend on drop-in demand.', 3),
+  ('do', '**Keep weekly appointments reasonable.** Please avoid booking every single day—other students need tutoring, too!', 4),
+  ('try', '**Be on time for appointments.** If an emergency arises, missing or being late is understandable. If you need to cancel or move an appointment, use the link in your booking confirmation so the slot opens up for someone else. Changes close shortly before the session starts.', 1),
+  ('try', 'Read all assignment instructions before asking for help so you can describe the problem clearly and identify specific questions.', 2),
+  ('try', 'Work out a partial solution before you visit—it helps tutors understand your thought process and the hurdles you’re facing.', 3);
+
+-- A ban has no end date; a suspension ends at ends_at. Lifting one early sets lifted_at.
+CREATE TABLE student_restrictions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('ban', 'suspension')),
+  reason TEXT NOT NULL,
+  starts_at TEXT NOT NULL,
+  ends_at TEXT,
+  created_by INTEGER NOT NULL REFERENCES users(id),
+  lifted_at TEXT,
+  lifted_by INTEGER REFERENCES users(id),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  CHECK ((kind = 'ban') = (ends_at IS NULL))
+);
+
+CREATE INDEX student_restrictions_student_idx ON student_restrictions (student_id);
+
+CREATE TABLE audit_log (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  actor_id INTEGER NOT NULL REFERENCES users(id),
+  action TEXT NOT NULL,
+  entity_type TEXT NOT NULL,
+  entity_id TEXT NOT NULL,
+  -- JSON describing the change, e.g. the new values.
+  details TEXT NOT NULL DEFAULT '{}',
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX audit_log_entity_idx ON audit_log (entity_type, entity_id);
+CREATE INDEX audit_log_created_idx ON audit_log (created_at);
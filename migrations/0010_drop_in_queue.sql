@@ -0,0 +1,18 @@
+-- Students waiting in the shared Zoom room for whichever tutor is free next.
+
+CREATE TABLE drop_in_queue (
+  id TEXT PRIMARY KEY,
+  student_name TEXT NOT NULL,
+  student_email TEXT NOT NULL COLLATE NOCASE,
+  course TEXT,
+  question TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'helping', 'done', 'left')),
+  tutor_id TEXT REFERENCES tutors(id),
+  tutor_name TEXT,
+  -- ISO instants, so ordering and "since" comparisons work as plain string comparisons.
+  joined_at TEXT NOT NULL,
+  claimed_at TEXT,
+  finished_at TEXT
+);
+
+CREATE INDEX drop_in_queue_joined_idx ON drop_in_queue (joined_at);
@@ -0,0 +1,65 @@
+-- Tagged resources, tutor suggestions awaiting a coordinator's review, and link health checks.
+
+ALTER TABLE resources ADD COLUMN status TEXT NOT NULL DEFAULT 'published' CHECK (status IN ('pending', 'published', 'rejected'));
+ALTER TABLE resources ADD COLUMN submitted_by INTEGER REFERENCES users(id);
+ALTER TABLE resources ADD COLUMN reviewed_by INTEGER REFERENCES users(id);
+ALTER TABLE resources ADD COLUMN reviewed_at TEXT;
+ALTER TABLE resources ADD COLUMN review_note TEXT NOT NULL DEFAULT '';
+ALTER TABLE resources ADD COLUMN link_status TEXT NOT NULL DEFAULT 'unchecked' CHECK (link_status IN ('unchecked', 'ok', 'broken'));
+ALTER TABLE resources ADD COLUMN link_checked_at TEXT;
+-- Why the last check failed, e.g. "HTTP 404".
+ALTER TABLE resources ADD COLUMN link_problem TEXT;
+
+CREATE TABLE resource_tags (
+  resource_id INTEGER NOT NULL REFERENCES resources(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('language', 'course', 'topic')),
+  value TEXT NOT NULL,
+  PRIMARY KEY (resource_id, kind, value)
+);
+
+CREATE INDEX resource_tags_value_idx ON resource_tags (kind, value);
+
+INSERT INTO resource_tags (resource_id, kind, value)
+SELECT resources.id, tags.kind, tags.value
+FROM resources
+JOIN (
+  SELECT 'Python Tutor' AS title, 'language' AS kind, 'Python' AS value
+  UNION ALL SELECT 'Python Tutor', 'language', 'Java'
+  UNION ALL SELECT 'Python Tutor', 'language', 'C++'
+  UNION ALL SELECT 'Python Tutor', 'language', 'JavaScript'
+  UNION ALL SELECT 'Python Tutor', 'course', '110A'
+  UNION ALL SELECT 'Python Tutor', 'course', '110B'
+  UNION ALL SELECT 'Python Tutor', 'course', '111B'
+  UNION ALL SELECT 'Python Tutor', 'topic', 'debugging'
+  UNION ALL SELECT 'Python Tutor', 'topic', 'visualization'
+  UNION ALL SELECT 'Logging Into and Using Hills', 'language', 'Linux'
+  UNION ALL SELECT 'Logging Into and Using Hills', 'course', '160A'
+  UNION ALL SELECT 'Logging Into and Using Hills', 'topic', 'hills'
+  UNION ALL SELECT 'Logging Into and Using Hills', 'topic', 'setup'
+  UNION ALL SELECT 'Using Hills and VS Code', 'language', 'Linux'
+  UNION ALL SELECT 'Using Hills and VS Code', 'topic', 'hills'
+  UNION ALL SELECT 'Using Hills and VS Code', 'topic', 'editors'
+  UNION ALL SELECT 'Using Hills and VS Code', 'topic', 'setup'
+  UNION ALL SELECT 'Python Cheatsheet', 'language', 'Python'
+  UNION ALL SELECT 'Python Cheatsheet', 'course', '110A'
+  UNION ALL SELECT 'Python Cheatsheet', 'topic', 'reference'
+  UNION ALL SELECT 'Command Challenge', 'language', 'Linux'
+  UNION ALL SELECT 'Command Challenge', 'course', '160A'
+  UNION ALL SELECT 'Command Challenge', 'topic', 'command line'
+  UNION ALL SELECT 'Command Challenge', 'topic', 'practice'
+  UNION ALL SELECT 'Basic UNIX Commands', 'language', 'Linux'
+  UNION ALL SELECT 'Basic UNIX Commands', 'course', '160A'
+  UNION ALL SELECT 'Basic UNIX Commands', 'topic', 'command line'
+  UNION ALL SELECT 'Basic UNIX Commands', 'topic', 'reference'
+  UNION ALL SELECT 'Online Bash Shell IDE (JDoodle)', 'language', 'Linux'
+  UNION ALL SELECT 'Online Bash Shell IDE (JDoodle)', 'course', '160A'
+  UNION ALL SELECT 'Online Bash Shell IDE (JDoodle)', 'topic', 'shell scripting'
+  UNION ALL SELECT 'Vim Cheat Sheet', 'language', 'Linux'
+  UNION ALL SELECT 'Vim Cheat Sheet', 'course', '160A'
+  UNION ALL SELECT 'Vim Cheat Sheet', 'topic', 'editors'
+  UNION ALL SELECT 'Vim Cheat Sheet', 'topic', 'reference'
+  UNION ALL SELECT 'VIM Adventures', 'language', 'Linux'
+  UNION ALL SELECT 'VIM Adventures', 'course', '160A'
+  UNION ALL SELECT 'VIM Adventures', 'topic', 'editors'
+  UNION ALL SELECT 'VIM Adventures', 'topic', 'practice'
+) AS tags ON tags.title = resources.title;
@@ -0,0 +1,44 @@
+-- Published versions of the rules and which version each student agreed to. The rules table becomes the
+-- coordinators' working draft; students only ever see a published version.
+
+ALTER TABLE rules ADD COLUMN slug TEXT;
+
+UPDATE rules SET slug = CASE position
+  WHEN 1 THEN 'code-of-conduct'
+  WHEN 2 THEN 'be-kind'
+  WHEN 3 THEN 'one-appointment-per-day'
+  WHEN 4 THEN 'reasonable-weekly-appointments'
+END
+WHERE section = 'do';
+
+UPDATE rules SET slug = CASE position
+  WHEN 1 THEN 'be-on-time'
+  WHEN 2 THEN 'read-instructions'
+  WHEN 3 THEN 'attempt-first'
+END
+WHERE section = 'try';
+
+-- Rules added since the seed, if any.
+UPDATE rules SET slug = 'rule-' || id WHERE slug IS NULL;
+
+CREATE UNIQUE INDEX rules_slug_idx ON rules (slug);
+
+-- `content` is a JSON snapshot of the rules: [{ "slug", "section", "body" }] in display order.
+CREATE TABLE rule_versions (
+  version INTEGER PRIMARY KEY,
+  content TEXT NOT NULL,
+  summary TEXT NOT NULL DEFAULT '',
+  published_by INTEGER REFERENCES users(id),
+  published_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+);
+
+INSERT INTO rule_versions (version, content, summary)
+SELECT 1, json_group_array(json_object('slug', slug, 'section', section, 'body', body)), 'First published version'
+FROM (SELECT slug, section, body FROM rules ORDER BY section, position, id);
+
+CREATE TABLE rule_acknowledgments (
+  student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL REFERENCES rule_versions(version),
+  acknowledged_at TEXT NOT NULL,
+  PRIMARY KEY (student_id, version)
+);
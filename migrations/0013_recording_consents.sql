@@ -0,0 +1,11 @@
+-- Students' consent to having Zoom sessions recorded, given once per term: either on the way into the
+-- Zoom room or while booking an appointment.
+CREATE TABLE recording_consents (
+  student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  term_id TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('zoom', 'booking')),
+  consented_at TEXT NOT NULL,
+  PRIMARY KEY (student_id, term_id)
+);
+
+CREATE INDEX recording_consents_term_idx ON recording_consents (term_id, consented_at);
@@ -0,0 +1,27 @@
+-- Misconduct reports tutors file against a session, and the coordinator's follow-up. A suspension or ban
+-- that comes out of a report is an ordinary student restriction, linked back here.
+CREATE TABLE incidents (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  appointment_id TEXT NOT NULL REFERENCES appointments(id),
+  student_id INTEGER NOT NULL REFERENCES students(id) ON DELETE CASCADE,
+  reported_by INTEGER NOT NULL REFERENCES users(id),
+  category TEXT NOT NULL CHECK (category IN ('disrespect', 'harassment', 'academic-integrity', 'disruption', 'other')),
+  description TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'reviewing', 'resolved', 'dismissed')),
+  sanction TEXT CHECK (sanction IN ('warning', 'suspension', 'ban')),
+  restriction_id INTEGER REFERENCES student_restrictions(id),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (appointment_id, reported_by)
+);
+
+CREATE INDEX incidents_status_idx ON incidents (status, created_at);
+CREATE INDEX incidents_student_idx ON incidents (student_id);
+
+CREATE TABLE incident_notes (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  incident_id INTEGER NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  author_id INTEGER NOT NULL REFERENCES users(id),
+  body TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
@@ -0,0 +1,20 @@
+-- Post-session surveys. `receipt` is a keyed hash of the appointment id (keyed by FEEDBACK_RECEIPT_SECRET), so
+-- each session gets one response even when the student stays anonymous; anonymous responses don't keep the
+-- appointment itself. Changing that key means a session answered under the old one can be rated again.
+-- Every response records the Pacific day it was sent in `submitted_on`; only named ones keep the time in
+-- `created_at`, which is null for anonymous responses.
+CREATE TABLE feedback (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  receipt TEXT NOT NULL UNIQUE,
+  appointment_id TEXT REFERENCES appointments(id),
+  tutor_id TEXT NOT NULL REFERENCES tutors(id),
+  term_id TEXT NOT NULL,
+  course TEXT,
+  rating INTEGER NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  worked_on TEXT NOT NULL DEFAULT '',
+  comments TEXT NOT NULL DEFAULT '',
+  submitted_on TEXT NOT NULL,
+  created_at TEXT
+);
+
+CREATE INDEX feedback_term_idx ON feedback (term_id, tutor_id);
@@ -0,0 +1,5 @@
+-- Whether a session happened over Zoom or in person, for the utilization reports. Bookable slots all come
+-- from virtual shifts, so every appointment so far is virtual.
+ALTER TABLE appointments ADD COLUMN modality TEXT NOT NULL DEFAULT 'virtual' CHECK (modality IN ('virtual', 'on-campus'));
+
+CREATE INDEX appointments_term_idx ON appointments (term_id, date);
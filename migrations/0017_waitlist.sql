@@ -0,0 +1,29 @@
+-- Students waiting for a slot to open up on a given day, optionally with one tutor, for one course or
+-- within a time window. When a slot frees up, the first eligible student gets a time-limited offer.
+
+CREATE TABLE waitlist_entries (
+  id TEXT PRIMARY KEY,
+  term_id TEXT NOT NULL,
+  student_id INTEGER NOT NULL REFERENCES students(id),
+  date TEXT NOT NULL,
+  tutor_id TEXT REFERENCES tutors(id),
+  course TEXT,
+  from_time TEXT,
+  to_time TEXT,
+  status TEXT NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'booked', 'expired', 'left')),
+  -- The slot held for the student while an offer is open.
+  offer_tutor_id TEXT REFERENCES tutors(id),
+  offer_start TEXT,
+  offer_end TEXT,
+  -- ISO instants, like the drop-in queue, so "has the hold run out" is a plain string comparison.
+  offered_at TEXT,
+  hold_expires_at TEXT,
+  appointment_id TEXT REFERENCES appointments(id),
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX waitlist_entries_date_idx ON waitlist_entries (date, status);
+-- One open spot in line per student per day, and one offer per slot.
+CREATE UNIQUE INDEX waitlist_entries_student_idx ON waitlist_entries (student_id, date) WHERE status IN ('waiting', 'offered');
+CREATE UNIQUE INDEX waitlist_entries_offer_idx ON waitlist_entries (offer_tutor_id, date, offer_start) WHERE status = 'offered';
@@ -0,0 +1,46 @@
+-- Study groups meet weekly as configured in each term's `studyGroups`. A meeting gets a row the first time
+-- someone RSVPs or a tutor sets its agenda.
+
+CREATE TABLE study_group_sessions (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  term_id TEXT NOT NULL,
+  group_id TEXT NOT NULL,
+  date TEXT NOT NULL,
+  agenda TEXT NOT NULL DEFAULT '',
+  agenda_updated_by INTEGER REFERENCES users(id),
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (term_id, group_id, date)
+);
+
+-- `attended` stays NULL until the tutor takes attendance. Walk-ins are added as RSVPs marked attended.
+CREATE TABLE study_group_rsvps (
+  id TEXT PRIMARY KEY,
+  session_id INTEGER NOT NULL REFERENCES study_group_sessions(id),
+  student_id INTEGER NOT NULL REFERENCES students(id),
+  status TEXT NOT NULL DEFAULT 'going' CHECK (status IN ('going', 'cancelled')),
+  attended INTEGER CHECK (attended IN (0, 1)),
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+  UNIQUE (session_id, student_id)
+);
+
+-- Reminders for study groups go through the same log as appointment emails, so each row is about either an
+-- appointment or an RSVP.
+CREATE TABLE notification_log_new (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  appointment_id TEXT REFERENCES appointments(id),
+  rsvp_id TEXT REFERENCES study_group_rsvps(id),
+  template TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  sent_at TEXT NOT NULL DEFAULT (datetime('now')),
+  CHECK ((appointment_id IS NULL) <> (rsvp_id IS NULL)),
+  UNIQUE (appointment_id, template),
+  UNIQUE (rsvp_id, template)
+);
+
+INSERT INTO notification_log_new (id, appointment_id, template, recipient, sent_at)
+SELECT id, appointment_id, template, recipient, sent_at FROM notification_log;
+
+DROP TABLE notification_log;
+ALTER TABLE notification_log_new RENAME TO notification_log;
@@ -0,0 +1,12 @@
+-- Booking assistant conversations, so a student can pick up where they left off after a refresh or on another
+-- device. `state` and `messages` are JSON; `expires_at` is pushed back on every message.
+CREATE TABLE chat_sessions (
+  id TEXT PRIMARY KEY,
+  state TEXT NOT NULL,
+  messages TEXT NOT NULL DEFAULT '[]',
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL,
+  expires_at TEXT NOT NULL
+);
+
+CREATE INDEX chat_sessions_expires_at ON chat_sessions (expires_at);
@@ -0,0 +1,27 @@
+-- Every tool the booking assistant called, with its arguments and what came of it. `session_id` has no foreign
+-- key because conversations can live in memory instead of chat_sessions.
+CREATE TABLE chat_tool_calls (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  tool TEXT NOT NULL,
+  arguments TEXT NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('ok', 'invalid', 'forbidden', 'failed')),
+  result TEXT,
+  error TEXT,
+  duration_ms INTEGER NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+CREATE INDEX chat_tool_calls_session_idx ON chat_tool_calls (session_id, id);
+
+-- A slot set aside for a chat conversation while the student finishes booking it. One hold per conversation;
+-- ISO instants, like waitlist offers, so "has the hold run out" is a plain string comparison.
+CREATE TABLE slot_holds (
+  holder TEXT PRIMARY KEY,
+  tutor_id TEXT NOT NULL REFERENCES tutors(id),
+  date TEXT NOT NULL,
+  start_time TEXT NOT NULL,
+  expires_at TEXT NOT NULL
+);
+
+CREATE INDEX slot_holds_slot_idx ON slot_holds (tutor_id, date, start_time);
@@ -0,0 +1,18 @@
+-- Chat messages the moderation pipeline stopped, for coordinators to review. Like tool calls, `session_id` has
+-- no foreign key because conversations can live in memory. Reviewing a conversation stamps all of its flags.
+CREATE TABLE chat_flags (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  student_email TEXT,
+  category TEXT NOT NULL CHECK (category IN ('prompt-injection', 'abuse', 'academic-dishonesty')),
+  classifier TEXT NOT NULL,
+  -- JSON array of the rules or model categories that matched.
+  reasons TEXT NOT NULL DEFAULT '[]',
+  message TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  reviewed_at TEXT,
+  reviewed_by INTEGER REFERENCES users(id)
+);
+
+CREATE INDEX chat_flags_session_idx ON chat_flags (session_id, id);
+CREATE INDEX chat_flags_created_idx ON chat_flags (created_at);
@@ -0,0 +1,5 @@
+-- Where a flagged message came from, so a closed chat stays closed when the student starts a new conversation.
+ALTER TABLE chat_flags ADD COLUMN address TEXT;
+
+CREATE INDEX chat_flags_email_idx ON chat_flags (student_email, created_at);
+CREATE INDEX chat_flags_address_idx ON chat_flags (address, created_at);
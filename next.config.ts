@@ -1,4 +1,8 @@
 import type { NextConfig } from "next";
+import { loadTerms } from "./lib/terms/loader";
+
+// Validate config/terms/*.json up front so a bad term file fails `next build` instead of a page render.
+loadTerms();
 
 const nextConfig: NextConfig = {
   /* config options here */
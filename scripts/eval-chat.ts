@@ -0,0 +1,33 @@
+// Runs the assistant conversation suites: npm run eval:chat -- [suite files or directories] [--json <report file>]
+// Exits with 1 when a case fails or a suite doesn't validate, so CI can gate on it.
+import fs from 'fs';
+import { EvalSuiteError, formatReport, loadEvalSuites, runEvalSuites, summarize } from '@/lib/evals';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const jsonIndex = args.indexOf('--json');
+  const jsonFile = jsonIndex === -1 ? undefined : args[jsonIndex + 1];
+  if (jsonIndex !== -1 && !jsonFile) {
+    console.error('Usage: npm run eval:chat -- [suite files or directories] [--json <report file>]');
+    process.exit(1);
+  }
+  const paths = args.filter((_, index) => jsonIndex === -1 || (index !== jsonIndex && index !== jsonIndex + 1));
+
+  let suites;
+  try {
+    suites = loadEvalSuites(paths.length > 0 ? paths : undefined);
+  } catch (error) {
+    if (!(error instanceof EvalSuiteError)) throw error;
+    console.error(error.message);
+    process.exit(1);
+  }
+
+  const report = summarize(await runEvalSuites(suites));
+  console.log(formatReport(report));
+  if (jsonFile) {
+    fs.writeFileSync(jsonFile, `${JSON.stringify(report, null, 2)}\n`);
+  }
+  process.exit(report.failed > 0 ? 1 : 0);
+}
+
+main();
@@ -0,0 +1,21 @@
+// Sets a password for an existing account: npm run auth:set-password -- <email> <password>
+import { setPassword } from '@/lib/auth/users';
+
+async function main() {
+  const [email, password] = process.argv.slice(2);
+  if (!email || !password) {
+    console.error('Usage: npm run auth:set-password -- <email> <password>');
+    process.exit(1);
+  }
+  if (password.length < 10) {
+    console.error('Passwords must be at least 10 characters.');
+    process.exit(1);
+  }
+  if (!(await setPassword(email, password))) {
+    console.error(`No account for ${email}.`);
+    process.exit(1);
+  }
+  console.log(`Password set for ${email}.`);
+}
+
+main();